@@ -1,34 +1,18 @@
 import type { FastifyInstance } from 'fastify';
+import { z, type ZodError } from 'zod';
 import { getSql } from '../db/client.js';
 import type { Sql } from '../db/client.js';
-
-interface ScoringRule {
-  stat: string;
-  points: number;
-  perUnit?: number;
-}
-
-interface BonusCondition {
-  stat: string;
-  op: 'gte' | 'lte' | 'eq' | 'gt' | 'lt';
-  value: number;
-}
-
-interface BonusRule {
-  name: string;
-  conditions: BonusCondition[];
-  logic: 'AND' | 'OR';
-  points: number;
-}
-
-interface FantasyRuleset {
-  id: string;
-  name: string;
-  description?: string;
-  batting: ScoringRule[];
-  pitching: ScoringRule[];
-  bonuses?: BonusRule[];
-}
+// Shared with the pipeline so the API accepts exactly the rulesets the scorer can run
+import {
+  FantasyRulesetSchema,
+  type FantasyRuleset,
+  type ScoringRule,
+  type BonusRule,
+} from '../../../src/types/fantasy.js';
+import { parseRulesetRef, type RulesetRef } from '../../../src/scoring/ruleset-ref.js';
+import { buildScoringSql, parkFactorJoin } from '../../../src/scoring/sql.js';
+import { formatIP } from '../../../src/scoring/stats.js';
+import { parseGameTypeFilter, type GameType } from '../../../src/ingest/game-types.js';
 
 interface LeaderboardEntry {
   player_id: string;
@@ -38,76 +22,258 @@ interface LeaderboardEntry {
   avg_points: string;
 }
 
-async function getRuleset(sql: Sql, rulesetId: string): Promise<FantasyRuleset | null> {
-  const [row] = await sql<
-    {
-      ruleset_id: string;
-      name: string;
-      description: string | null;
-      batting_rules: ScoringRule[];
-      pitching_rules: ScoringRule[];
-      bonus_rules: BonusRule[] | null;
-    }[]
-  >`
-    SELECT ruleset_id, name, description, batting_rules, pitching_rules, bonus_rules
-    FROM fantasy_rulesets
-    WHERE ruleset_id = ${rulesetId}
-  `;
-
-  if (!row) return null;
+interface RulesetRow {
+  ruleset_id: string;
+  version: number;
+  name: string;
+  description: string | null;
+  batting_rules: ScoringRule[];
+  pitching_rules: ScoringRule[];
+  fielding_rules: ScoringRule[] | null;
+  bonus_rules: BonusRule[] | null;
+  park_adjusted: boolean;
+  scoring_policies: FantasyRuleset['policies'] | null;
+}
 
+function toRuleset(row: RulesetRow): FantasyRuleset {
   return {
     id: row.ruleset_id,
+    version: row.version,
     name: row.name,
     description: row.description ?? undefined,
     batting: row.batting_rules,
     pitching: row.pitching_rules,
+    fielding: row.fielding_rules ?? undefined,
     bonuses: row.bonus_rules ?? undefined,
+    parkAdjusted: row.park_adjusted || undefined,
+    policies: row.scoring_policies ?? undefined,
   };
 }
 
+/**
+ * Get a ruleset version (the current one unless the reference pins a version)
+ */
+async function getRuleset(sql: Sql, ref: RulesetRef): Promise<FantasyRuleset | null> {
+  const [row] = await sql<RulesetRow[]>`
+    SELECT
+      ruleset_id, version, name, description,
+      batting_rules, pitching_rules, fielding_rules, bonus_rules, park_adjusted,
+      scoring_policies
+    FROM fantasy_ruleset_versions
+    WHERE ruleset_id = ${ref.id}
+      AND version = ${
+        ref.version ??
+        sql`(SELECT current_version FROM fantasy_rulesets WHERE ruleset_id = ${ref.id})`
+      }
+  `;
+
+  return row ? toRuleset(row) : null;
+}
+
 async function getAllRulesets(sql: Sql): Promise<FantasyRuleset[]> {
-  const rows = await sql<
-    {
-      ruleset_id: string;
-      name: string;
-      description: string | null;
-      batting_rules: ScoringRule[];
-      pitching_rules: ScoringRule[];
-      bonus_rules: BonusRule[] | null;
-    }[]
-  >`
-    SELECT ruleset_id, name, description, batting_rules, pitching_rules, bonus_rules
+  const rows = await sql<RulesetRow[]>`
+    SELECT
+      ruleset_id, current_version as version, name, description,
+      batting_rules, pitching_rules, fielding_rules, bonus_rules, park_adjusted,
+      scoring_policies
     FROM fantasy_rulesets
     ORDER BY ruleset_id
   `;
 
-  return rows.map((row) => ({
-    id: row.ruleset_id,
-    name: row.name,
-    description: row.description ?? undefined,
-    batting: row.batting_rules,
-    pitching: row.pitching_rules,
-    bonuses: row.bonus_rules ?? undefined,
-  }));
+  return rows.map(toRuleset);
+}
+
+async function getRulesetVersions(sql: Sql, rulesetId: string) {
+  return [...await sql<{ version: number; name: string; created_at: Date }[]>`
+    SELECT version, name, created_at
+    FROM fantasy_ruleset_versions
+    WHERE ruleset_id = ${rulesetId}
+    ORDER BY version DESC
+  `];
+}
+
+/**
+ * Create a ruleset as version 1
+ *
+ * Returns false if a ruleset with the same ID already exists.
+ */
+async function createRuleset(sql: Sql, ruleset: FantasyRuleset): Promise<boolean> {
+  const description = ruleset.description ?? null;
+  const batting = sql.json(ruleset.batting);
+  const pitching = sql.json(ruleset.pitching);
+  const fielding = ruleset.fielding ? sql.json(ruleset.fielding) : null;
+  const bonuses = ruleset.bonuses ? sql.json(ruleset.bonuses) : null;
+  const parkAdjusted = ruleset.parkAdjusted ?? false;
+  const policies = ruleset.policies ? sql.json(ruleset.policies) : null;
+
+  const rows = await sql`
+    WITH created AS (
+      INSERT INTO fantasy_rulesets (
+        ruleset_id, name, description, batting_rules, pitching_rules, fielding_rules, bonus_rules,
+        park_adjusted, scoring_policies, current_version
+      ) VALUES (
+        ${ruleset.id}, ${ruleset.name}, ${description}, ${batting}, ${pitching}, ${fielding},
+        ${bonuses}, ${parkAdjusted}, ${policies}, 1
+      )
+      ON CONFLICT (ruleset_id) DO NOTHING
+      RETURNING ruleset_id
+    )
+    INSERT INTO fantasy_ruleset_versions (
+      ruleset_id, version, name, description, batting_rules, pitching_rules, fielding_rules,
+      bonus_rules, park_adjusted, scoring_policies
+    )
+    SELECT
+      ruleset_id, 1, ${ruleset.name}, ${description}, ${batting}, ${pitching}, ${fielding},
+      ${bonuses}, ${parkAdjusted}, ${policies}
+    FROM created
+    RETURNING version
+  `;
+  return rows.length > 0;
+}
+
+/**
+ * Save changes to a ruleset as a new version
+ *
+ * Returns null if the ruleset doesn't exist. Saving identical content keeps the
+ * current version.
+ */
+async function updateRuleset(
+  sql: Sql,
+  ruleset: FantasyRuleset
+): Promise<{ version: number; changed: boolean } | null> {
+  const description = ruleset.description ?? null;
+  const batting = sql.json(ruleset.batting);
+  const pitching = sql.json(ruleset.pitching);
+  const fielding = ruleset.fielding ? sql.json(ruleset.fielding) : null;
+  const bonuses = ruleset.bonuses ? sql.json(ruleset.bonuses) : null;
+  const parkAdjusted = ruleset.parkAdjusted ?? false;
+  const policies = ruleset.policies ? sql.json(ruleset.policies) : null;
+
+  // One statement so the comparison and the new version are written atomically
+  const [result] = await sql<{ previous: number | null; version: number | null }[]>`
+    WITH current AS (
+      SELECT
+        r.current_version,
+        (v.name, v.description, v.batting_rules, v.pitching_rules, v.fielding_rules, v.bonus_rules,
+          v.park_adjusted, v.scoring_policies)
+          IS DISTINCT FROM
+          (${ruleset.name}::varchar, ${description}::text, ${batting}::jsonb, ${pitching}::jsonb,
+            ${fielding}::jsonb, ${bonuses}::jsonb, ${parkAdjusted}::boolean, ${policies}::jsonb)
+          as changed
+      FROM fantasy_rulesets r
+      JOIN fantasy_ruleset_versions v
+        ON v.ruleset_id = r.ruleset_id AND v.version = r.current_version
+      WHERE r.ruleset_id = ${ruleset.id}
+    ), updated AS (
+      UPDATE fantasy_rulesets SET
+        name = ${ruleset.name},
+        description = ${description},
+        batting_rules = ${batting},
+        pitching_rules = ${pitching},
+        fielding_rules = ${fielding},
+        bonus_rules = ${bonuses},
+        park_adjusted = ${parkAdjusted},
+        scoring_policies = ${policies},
+        current_version = current_version + 1,
+        updated_at = NOW()
+      WHERE ruleset_id = ${ruleset.id}
+        AND (SELECT changed FROM current)
+      RETURNING ruleset_id, current_version
+    ), inserted AS (
+      INSERT INTO fantasy_ruleset_versions (
+        ruleset_id, version, name, description, batting_rules, pitching_rules, fielding_rules,
+        bonus_rules, park_adjusted, scoring_policies
+      )
+      SELECT
+        ruleset_id, current_version, ${ruleset.name}, ${description}, ${batting}, ${pitching},
+        ${fielding}, ${bonuses}, ${parkAdjusted}, ${policies}
+      FROM updated
+      RETURNING version
+    )
+    SELECT
+      (SELECT current_version FROM current) as previous,
+      (SELECT version FROM inserted) as version
+  `;
+
+  if (!result || result.previous === null) return null;
+  return result.version !== null
+    ? { version: result.version, changed: true }
+    : { version: result.previous, changed: false };
+}
+
+/**
+ * Delete a ruleset with all of its versions and calculated points
+ *
+ * Returns null if the ruleset doesn't exist, otherwise the number of point rows deleted.
+ */
+async function deleteRuleset(sql: Sql, rulesetId: string): Promise<number | null> {
+  const [result] = await sql<{ deleted: number; points: number }[]>`
+    WITH points AS (
+      DELETE FROM fantasy_game_points WHERE ruleset_id = ${rulesetId}
+      RETURNING 1
+    ), deleted AS (
+      DELETE FROM fantasy_rulesets WHERE ruleset_id = ${rulesetId}
+      RETURNING 1
+    )
+    SELECT
+      (SELECT COUNT(*) FROM deleted)::int as deleted,
+      (SELECT COUNT(*) FROM points)::int as points
+  `;
+
+  return result?.deleted ? result.points : null;
+}
+
+/**
+ * Parse a ruleset reference from a request, or null if it's malformed
+ */
+function parseRef(value: string): RulesetRef | null {
+  try {
+    return parseRulesetRef(value);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parse a gameType filter from a request: undefined for every game, null if it's unknown
+ */
+function parseGameTypes(value: string | undefined): GameType[] | undefined | null {
+  try {
+    return parseGameTypeFilter(value);
+  } catch {
+    return null;
+  }
+}
+
+function formatValidationError(error: ZodError, message = 'Invalid ruleset') {
+  return {
+    error: message,
+    issues: error.issues.map((issue) => ({
+      path: issue.path.join('.'),
+      message: issue.message,
+    })),
+  };
 }
 
 async function getFantasyLeaderboard(
   sql: Sql,
   rulesetId: string,
+  rulesetVersion: number,
   options: {
     year?: number;
     statType?: 'batting' | 'pitching';
+    franchise?: string;
+    gameTypes?: GameType[];
     limit?: number;
     offset?: number;
   } = {}
 ): Promise<{ entries: LeaderboardEntry[]; total: number }> {
-  const { year, statType, limit = 25, offset = 0 } = options;
+  const { year, statType, franchise, gameTypes, limit = 25, offset = 0 } = options;
 
   // Build conditions
-  const conditions: string[] = ['ruleset_id = $1'];
-  const params: (string | number)[] = [rulesetId];
-  let paramIdx = 2;
+  const conditions: string[] = ['ruleset_id = $1', 'ruleset_version = $2'];
+  const params: (string | number | string[])[] = [rulesetId, rulesetVersion];
+  let paramIdx = 3;
 
   if (year) {
     conditions.push(`EXTRACT(YEAR FROM game_date) = $${paramIdx}`);
@@ -121,12 +287,33 @@ async function getFantasyLeaderboard(
     paramIdx++;
   }
 
+  if (gameTypes) {
+    conditions.push(`fgp.game_id IN (
+      SELECT game_id FROM games WHERE game_type = ANY($${paramIdx}::varchar[])
+    )`);
+    params.push(gameTypes);
+    paramIdx++;
+  }
+
+  // Only points earned for the franchise, under any of its team codes
+  if (franchise) {
+    conditions.push(`EXISTS (
+      SELECT 1 FROM player_game_teams pgt
+      JOIN teams t ON pgt.team_id = t.team_id
+      WHERE pgt.game_id = fgp.game_id
+        AND pgt.player_id = fgp.player_id
+        AND t.franchise_id = $${paramIdx}
+    )`);
+    params.push(franchise);
+    paramIdx++;
+  }
+
   const whereClause = conditions.join(' AND ');
 
   // Get total count
   const countResult = [...await sql.unsafe<{ count: string }[]>(
-    `SELECT COUNT(DISTINCT player_id) as count FROM fantasy_game_points WHERE ${whereClause}`,
-    params as (string | number)[]
+    `SELECT COUNT(DISTINCT player_id) as count FROM fantasy_game_points fgp WHERE ${whereClause}`,
+    params
   )];
   const total = parseInt(countResult[0]?.count || '0', 10);
 
@@ -144,7 +331,7 @@ async function getFantasyLeaderboard(
     GROUP BY fgp.player_id, p.name_first, p.name_last
     ORDER BY SUM(fgp.total_points) DESC
     LIMIT $${paramIdx} OFFSET $${paramIdx + 1}`,
-    [...params, limit, offset] as (string | number)[]
+    [...params, limit, offset]
   )];
 
   return { entries, total };
@@ -187,6 +374,200 @@ interface PitchingPerformance {
   complete_game: boolean;
 }
 
+function formatBattingPerformance(r: BattingPerformance) {
+  return {
+    playerId: r.player_id,
+    playerName: r.player_name || r.player_id,
+    gameId: r.game_id,
+    date: r.game_date,
+    points: parseFloat(r.total_points).toFixed(2),
+    stats: {
+      atBats: r.at_bats,
+      hits: r.hits,
+      doubles: r.doubles,
+      triples: r.triples,
+      homeRuns: r.home_runs,
+      runs: r.runs,
+      rbi: r.runs_batted_in,
+      walks: r.walks,
+      stolenBases: r.stolen_bases,
+      hitByPitch: r.hit_by_pitch,
+    },
+  };
+}
+
+function formatPitchingPerformance(r: PitchingPerformance) {
+  return {
+    playerId: r.player_id,
+    playerName: r.player_name || r.player_id,
+    gameId: r.game_id,
+    date: r.game_date,
+    points: parseFloat(r.total_points).toFixed(2),
+    stats: {
+      inningsPitched: formatIP(r.outs_pitched),
+      hitsAllowed: r.hits_allowed,
+      runsAllowed: r.runs_allowed,
+      earnedRuns: r.earned_runs,
+      walks: r.walks,
+      strikeouts: r.strikeouts,
+      hitBatters: r.hit_batters,
+      win: r.won,
+      loss: r.lost,
+      save: r.saved,
+      completeGame: r.complete_game,
+    },
+  };
+}
+
+type StatSection = 'batting' | 'pitching';
+
+type DateFilter =
+  | { date: string }
+  | { month: number; day: number; yearStart: number | null; yearEnd: number | null };
+
+/**
+ * What-if request bodies; numbers may arrive as strings and are coerced
+ */
+const WhatIfLeaderboardBodySchema = z.object({
+  ruleset: z.unknown(),
+  year: z.coerce.number().int().positive().optional(),
+  type: z.enum(['batting', 'pitching']).optional(),
+  gameType: z.string().optional(),
+  limit: z.coerce.number().int().positive().optional(),
+  offset: z.coerce.number().int().nonnegative().default(0),
+});
+
+const WhatIfTopBodySchema = z.object({
+  ruleset: z.unknown(),
+  date: z.string().optional(),
+  monthDay: z.string().optional(),
+  yearStart: z.coerce.number().int().positive().optional(),
+  yearEnd: z.coerce.number().int().positive().optional(),
+  type: z.enum(['batting', 'pitching', 'both']).default('both'),
+  gameType: z.string().optional(),
+  limit: z.coerce.number().int().positive().default(10),
+});
+
+/**
+ * Apply defaults to an ad-hoc ruleset so callers can omit id and name
+ */
+function parseWhatIfRuleset(value: unknown) {
+  const candidate =
+    value && typeof value === 'object' ? { id: 'what-if', name: 'What-if', ...value } : value;
+  return FantasyRulesetSchema.safeParse(candidate);
+}
+
+/**
+ * Points for one stat row of `s`, compiled from the ruleset and rounded like stored points
+ */
+function whatIfPoints(sql: Sql, ruleset: FantasyRuleset, section: StatSection) {
+  const scoring = buildScoringSql(ruleset, section, 's', { parkFactors: 'pf' });
+  return sql`(${sql.unsafe(scoring.total)})::numeric(10,2)`;
+}
+
+/**
+ * Park factors of each game's site, for park-adjusted rulesets (nothing otherwise)
+ */
+function whatIfParkFactors(sql: Sql, ruleset: FantasyRuleset) {
+  return sql.unsafe(parkFactorJoin(ruleset, 'g', 'pf'));
+}
+
+/**
+ * Limit `g` to games of some types (every game without a filter)
+ */
+function whatIfGameTypes(sql: Sql, gameTypes: GameType[] | undefined) {
+  return gameTypes ? sql`AND g.game_type = ANY(${gameTypes}::varchar[])` : sql``;
+}
+
+function statTable(sql: Sql, section: StatSection) {
+  return section === 'batting' ? sql`batter_game_stats` : sql`pitcher_game_stats`;
+}
+
+async function getWhatIfLeaderboard(
+  sql: Sql,
+  ruleset: FantasyRuleset,
+  options: {
+    year?: number;
+    statType?: StatSection;
+    gameTypes?: GameType[];
+    limit?: number;
+    offset?: number;
+  } = {}
+): Promise<{ entries: LeaderboardEntry[]; total: number }> {
+  const { year, statType, gameTypes, limit = 25, offset = 0 } = options;
+  const sections: StatSection[] = statType ? [statType] : ['batting', 'pitching'];
+
+  const scored = sections.map(
+    (section) => sql`
+      SELECT s.player_id, ${whatIfPoints(sql, ruleset, section)} as total_points
+      FROM ${statTable(sql, section)} s
+      JOIN games g ON s.game_id = g.game_id
+      ${whatIfParkFactors(sql, ruleset)}
+      WHERE TRUE
+      ${year ? sql`AND g.game_date >= make_date(${year}, 1, 1) AND g.game_date < make_date(${year + 1}, 1, 1)` : sql``}
+      ${whatIfGameTypes(sql, gameTypes)}
+    `
+  );
+
+  const rows = await sql<(LeaderboardEntry & { total: number })[]>`
+    WITH scored AS (
+      ${scored[0]!}
+      ${scored[1] ? sql`UNION ALL ${scored[1]}` : sql``}
+    )
+    SELECT
+      sc.player_id,
+      CASE WHEN p.name_first IS NOT NULL THEN p.name_first || ' ' || p.name_last ELSE NULL END as player_name,
+      COUNT(*)::int as games,
+      SUM(sc.total_points)::text as total_points,
+      ROUND(AVG(sc.total_points), 2)::text as avg_points,
+      (COUNT(*) OVER ())::int as total
+    FROM scored sc
+    LEFT JOIN players p ON sc.player_id = p.player_id
+    GROUP BY sc.player_id, p.name_first, p.name_last
+    ORDER BY SUM(sc.total_points) DESC
+    LIMIT ${limit} OFFSET ${offset}
+  `;
+
+  return { entries: [...rows], total: rows[0]?.total ?? 0 };
+}
+
+async function getWhatIfTopPerformances<T>(
+  sql: Sql,
+  ruleset: FantasyRuleset,
+  section: StatSection,
+  filter: DateFilter,
+  limit: number,
+  gameTypes: GameType[] | undefined
+): Promise<T[]> {
+  const dateCondition =
+    'date' in filter
+      ? sql`g.game_date = ${filter.date}::date`
+      : sql`
+          EXTRACT(MONTH FROM g.game_date) = ${filter.month}
+          AND EXTRACT(DAY FROM g.game_date) = ${filter.day}
+          ${filter.yearStart !== null ? sql`AND EXTRACT(YEAR FROM g.game_date) >= ${filter.yearStart}` : sql``}
+          ${filter.yearEnd !== null ? sql`AND EXTRACT(YEAR FROM g.game_date) <= ${filter.yearEnd}` : sql``}
+        `;
+
+  return [...await sql`
+    SELECT * FROM (
+      SELECT
+        s.*,
+        CASE WHEN p.name_first IS NOT NULL THEN p.name_first || ' ' || p.name_last ELSE NULL END as player_name,
+        g.game_date,
+        ${whatIfPoints(sql, ruleset, section)}::text as total_points
+      FROM ${statTable(sql, section)} s
+      JOIN games g ON s.game_id = g.game_id
+      ${whatIfParkFactors(sql, ruleset)}
+      LEFT JOIN players p ON s.player_id = p.player_id
+      WHERE ${dateCondition}
+        ${whatIfGameTypes(sql, gameTypes)}
+    ) scored
+    ORDER BY total_points::numeric DESC
+    LIMIT ${limit}
+  `] as T[];
+}
+
 export async function fantasyRoutes(fastify: FastifyInstance) {
   // Get all rulesets
   fastify.get('/rulesets', async () => {
@@ -196,20 +577,24 @@ export async function fantasyRoutes(fastify: FastifyInstance) {
     return {
       rulesets: rulesets.map((r) => ({
         id: r.id,
+        version: r.version,
         name: r.name,
         description: r.description,
       })),
     };
   });
 
-  // Get single ruleset
+  // Get single ruleset ("standard" for the current version, "standard@v3" for a specific one)
   fastify.get<{
     Params: { id: string };
   }>('/rulesets/:id', async (request, reply) => {
-    const { id } = request.params;
-    const sql = getSql();
+    const ref = parseRef(request.params.id);
+    if (!ref) {
+      return reply.status(400).send({ error: 'Invalid ruleset reference' });
+    }
 
-    const ruleset = await getRuleset(sql, id);
+    const sql = getSql();
+    const ruleset = await getRuleset(sql, ref);
     if (!ruleset) {
       return reply.status(404).send({ error: 'Ruleset not found' });
     }
@@ -217,31 +602,133 @@ export async function fantasyRoutes(fastify: FastifyInstance) {
     return ruleset;
   });
 
+  // Get version history of a ruleset
+  fastify.get<{
+    Params: { id: string };
+  }>('/rulesets/:id/versions', async (request, reply) => {
+    const { id } = request.params;
+    const sql = getSql();
+
+    const versions = await getRulesetVersions(sql, id);
+    if (versions.length === 0) {
+      return reply.status(404).send({ error: 'Ruleset not found' });
+    }
+
+    return {
+      id,
+      versions: versions.map((v) => ({
+        version: v.version,
+        name: v.name,
+        createdAt: v.created_at,
+      })),
+    };
+  });
+
+  // Create ruleset
+  fastify.post<{
+    Body: unknown;
+  }>('/rulesets', async (request, reply) => {
+    const parsed = FantasyRulesetSchema.safeParse(request.body);
+    if (!parsed.success) {
+      return reply.status(400).send(formatValidationError(parsed.error));
+    }
+
+    const sql = getSql();
+    const created = await createRuleset(sql, parsed.data);
+    if (!created) {
+      return reply.status(409).send({ error: 'Ruleset already exists' });
+    }
+
+    return reply.status(201).send({ ...parsed.data, version: 1 });
+  });
+
+  // Save a new version of a ruleset
+  fastify.put<{
+    Params: { id: string };
+    Body: unknown;
+  }>('/rulesets/:id', async (request, reply) => {
+    const { id } = request.params;
+    const body = request.body;
+
+    if (typeof body !== 'object' || body === null) {
+      return reply.status(400).send({ error: 'Request body must be a ruleset object' });
+    }
+    if ('id' in body && body.id !== id) {
+      return reply.status(400).send({ error: 'Ruleset id in body does not match URL' });
+    }
+
+    const parsed = FantasyRulesetSchema.safeParse({ ...body, id });
+    if (!parsed.success) {
+      return reply.status(400).send(formatValidationError(parsed.error));
+    }
+
+    const sql = getSql();
+    const result = await updateRuleset(sql, parsed.data);
+    if (!result) {
+      return reply.status(404).send({ error: 'Ruleset not found' });
+    }
+
+    return { ruleset: { ...parsed.data, version: result.version }, changed: result.changed };
+  });
+
+  // Delete ruleset with all versions and calculated points
+  fastify.delete<{
+    Params: { id: string };
+  }>('/rulesets/:id', async (request, reply) => {
+    const { id } = request.params;
+    if (parseRef(id)?.version !== undefined) {
+      return reply.status(400).send({ error: 'Versions are immutable; delete the whole ruleset by ID' });
+    }
+
+    const sql = getSql();
+
+    const deletedPoints = await deleteRuleset(sql, id);
+    if (deletedPoints === null) {
+      return reply.status(404).send({ error: 'Ruleset not found' });
+    }
+
+    return { id, deletedPoints };
+  });
+
   // Get leaderboard
   fastify.get<{
     Querystring: {
       ruleset: string;
       year?: string;
       type?: 'batting' | 'pitching';
+      franchise?: string;
+      gameType?: string;
       limit?: string;
       offset?: string;
     };
   }>('/leaderboard', async (request, reply) => {
-    const { ruleset, year, type, limit, offset } = request.query;
+    const { ruleset, year, type, franchise, gameType, limit, offset } = request.query;
 
     if (!ruleset) {
       return reply.status(400).send({ error: 'Ruleset is required' });
     }
 
+    const gameTypes = parseGameTypes(gameType);
+    if (gameTypes === null) {
+      return reply.status(400).send({ error: `Unknown game type: ${gameType}` });
+    }
+
+    const ref = parseRef(ruleset);
+    if (!ref) {
+      return reply.status(400).send({ error: 'Invalid ruleset reference' });
+    }
+
     const sql = getSql();
-    const rulesetData = await getRuleset(sql, ruleset);
+    const rulesetData = await getRuleset(sql, ref);
     if (!rulesetData) {
       return reply.status(404).send({ error: 'Ruleset not found' });
     }
 
-    const { entries, total } = await getFantasyLeaderboard(sql, ruleset, {
+    const { entries, total } = await getFantasyLeaderboard(sql, rulesetData.id, rulesetData.version!, {
       year: year ? parseInt(year, 10) : undefined,
       statType: type,
+      franchise,
+      gameTypes,
       limit: limit ? Math.min(parseInt(limit, 10), 100) : 25,
       offset: offset ? parseInt(offset, 10) : 0,
     });
@@ -249,10 +736,13 @@ export async function fantasyRoutes(fastify: FastifyInstance) {
     return {
       ruleset: {
         id: rulesetData.id,
+        version: rulesetData.version,
         name: rulesetData.name,
       },
       year: year ? parseInt(year, 10) : null,
       type: type || 'all',
+      franchise: franchise ?? null,
+      gameType: gameType || 'all',
       total,
       entries: entries.map((e, i) => ({
         rank: (offset ? parseInt(offset, 10) : 0) + i + 1,
@@ -274,10 +764,11 @@ export async function fantasyRoutes(fastify: FastifyInstance) {
       yearStart?: string;
       yearEnd?: string;
       type?: 'batting' | 'pitching' | 'both';
+      gameType?: string;
       limit?: string;
     };
   }>('/top', async (request, reply) => {
-    const { ruleset, date, monthDay, yearStart, yearEnd, type = 'both', limit = '10' } = request.query;
+    const { ruleset, date, monthDay, yearStart, yearEnd, type = 'both', gameType, limit = '10' } = request.query;
 
     if (!ruleset) {
       return reply.status(400).send({ error: 'Ruleset is required' });
@@ -287,8 +778,18 @@ export async function fantasyRoutes(fastify: FastifyInstance) {
       return reply.status(400).send({ error: 'Either date or monthDay is required' });
     }
 
+    const gameTypes = parseGameTypes(gameType);
+    if (gameTypes === null) {
+      return reply.status(400).send({ error: `Unknown game type: ${gameType}` });
+    }
+
+    const ref = parseRef(ruleset);
+    if (!ref) {
+      return reply.status(400).send({ error: 'Invalid ruleset reference' });
+    }
+
     const sql = getSql();
-    const rulesetData = await getRuleset(sql, ruleset);
+    const rulesetData = await getRuleset(sql, ref);
     if (!rulesetData) {
       return reply.status(404).send({ error: 'Ruleset not found' });
     }
@@ -296,6 +797,10 @@ export async function fantasyRoutes(fastify: FastifyInstance) {
     const limitNum = Math.min(parseInt(limit, 10), 50);
     const showBatting = type === 'both' || type === 'batting';
     const showPitching = type === 'both' || type === 'pitching';
+    const gameTypeFilter = () =>
+      gameTypes
+        ? sql`AND fgp.game_id IN (SELECT game_id FROM games WHERE game_type = ANY(${gameTypes}::varchar[]))`
+        : sql``;
 
     let battingResults: BattingPerformance[] = [];
     let pitchingResults: PitchingPerformance[] = [];
@@ -332,10 +837,12 @@ export async function fantasyRoutes(fastify: FastifyInstance) {
           FROM fantasy_game_points fgp
           JOIN batter_game_stats bgs ON fgp.game_id = bgs.game_id AND fgp.player_id = bgs.player_id
           LEFT JOIN players p ON fgp.player_id = p.player_id
-          WHERE fgp.ruleset_id = ${ruleset}
+          WHERE fgp.ruleset_id = ${rulesetData.id}
+            AND fgp.ruleset_version = ${rulesetData.version!}
             AND EXTRACT(MONTH FROM fgp.game_date) = ${month}
             AND EXTRACT(DAY FROM fgp.game_date) = ${day}
             AND fgp.stat_type = 'batting'
+            ${gameTypeFilter()}
             ${yearStartNum !== null ? sql`AND EXTRACT(YEAR FROM fgp.game_date) >= ${yearStartNum}` : sql``}
             ${yearEndNum !== null ? sql`AND EXTRACT(YEAR FROM fgp.game_date) <= ${yearEndNum}` : sql``}
           ORDER BY fgp.total_points DESC
@@ -365,10 +872,12 @@ export async function fantasyRoutes(fastify: FastifyInstance) {
           FROM fantasy_game_points fgp
           JOIN pitcher_game_stats pgs ON fgp.game_id = pgs.game_id AND fgp.player_id = pgs.player_id
           LEFT JOIN players p ON fgp.player_id = p.player_id
-          WHERE fgp.ruleset_id = ${ruleset}
+          WHERE fgp.ruleset_id = ${rulesetData.id}
+            AND fgp.ruleset_version = ${rulesetData.version!}
             AND EXTRACT(MONTH FROM fgp.game_date) = ${month}
             AND EXTRACT(DAY FROM fgp.game_date) = ${day}
             AND fgp.stat_type = 'pitching'
+            ${gameTypeFilter()}
             ${yearStartNum !== null ? sql`AND EXTRACT(YEAR FROM fgp.game_date) >= ${yearStartNum}` : sql``}
             ${yearEndNum !== null ? sql`AND EXTRACT(YEAR FROM fgp.game_date) <= ${yearEndNum}` : sql``}
           ORDER BY fgp.total_points DESC
@@ -397,9 +906,11 @@ export async function fantasyRoutes(fastify: FastifyInstance) {
           FROM fantasy_game_points fgp
           JOIN batter_game_stats bgs ON fgp.game_id = bgs.game_id AND fgp.player_id = bgs.player_id
           LEFT JOIN players p ON fgp.player_id = p.player_id
-          WHERE fgp.ruleset_id = ${ruleset}
+          WHERE fgp.ruleset_id = ${rulesetData.id}
+            AND fgp.ruleset_version = ${rulesetData.version!}
             AND fgp.game_date = ${date}::date
             AND fgp.stat_type = 'batting'
+            ${gameTypeFilter()}
           ORDER BY fgp.total_points DESC
           LIMIT ${limitNum}
         `;
@@ -427,9 +938,11 @@ export async function fantasyRoutes(fastify: FastifyInstance) {
           FROM fantasy_game_points fgp
           JOIN pitcher_game_stats pgs ON fgp.game_id = pgs.game_id AND fgp.player_id = pgs.player_id
           LEFT JOIN players p ON fgp.player_id = p.player_id
-          WHERE fgp.ruleset_id = ${ruleset}
+          WHERE fgp.ruleset_id = ${rulesetData.id}
+            AND fgp.ruleset_version = ${rulesetData.version!}
             AND fgp.game_date = ${date}::date
             AND fgp.stat_type = 'pitching'
+            ${gameTypeFilter()}
           ORDER BY fgp.total_points DESC
           LIMIT ${limitNum}
         `;
@@ -439,6 +952,7 @@ export async function fantasyRoutes(fastify: FastifyInstance) {
     return {
       ruleset: {
         id: rulesetData.id,
+        version: rulesetData.version,
         name: rulesetData.name,
       },
       query: {
@@ -447,46 +961,131 @@ export async function fantasyRoutes(fastify: FastifyInstance) {
         yearStart: yearStart ? parseInt(yearStart, 10) : null,
         yearEnd: yearEnd ? parseInt(yearEnd, 10) : null,
         type,
+        gameType: gameType || 'all',
       },
-      batting: battingResults.map((r) => ({
-        playerId: r.player_id,
-        playerName: r.player_name || r.player_id,
-        gameId: r.game_id,
-        date: r.game_date,
-        points: parseFloat(r.total_points).toFixed(2),
-        stats: {
-          atBats: r.at_bats,
-          hits: r.hits,
-          doubles: r.doubles,
-          triples: r.triples,
-          homeRuns: r.home_runs,
-          runs: r.runs,
-          rbi: r.runs_batted_in,
-          walks: r.walks,
-          stolenBases: r.stolen_bases,
-          hitByPitch: r.hit_by_pitch,
-        },
-      })),
-      pitching: pitchingResults.map((r) => ({
-        playerId: r.player_id,
-        playerName: r.player_name || r.player_id,
-        gameId: r.game_id,
-        date: r.game_date,
-        points: parseFloat(r.total_points).toFixed(2),
-        stats: {
-          inningsPitched: (r.outs_pitched / 3).toFixed(1),
-          hitsAllowed: r.hits_allowed,
-          runsAllowed: r.runs_allowed,
-          earnedRuns: r.earned_runs,
-          walks: r.walks,
-          strikeouts: r.strikeouts,
-          hitBatters: r.hit_batters,
-          win: r.won,
-          loss: r.lost,
-          save: r.saved,
-          completeGame: r.complete_game,
-        },
+      batting: battingResults.map(formatBattingPerformance),
+      pitching: pitchingResults.map(formatPitchingPerformance),
+    };
+  });
+
+  // Leaderboard for an unsaved ruleset, computed from raw stats without writing points
+  fastify.post<{
+    Body: unknown;
+  }>('/what-if/leaderboard', async (request, reply) => {
+    const body = WhatIfLeaderboardBodySchema.safeParse(request.body ?? {});
+    if (!body.success) {
+      return reply.status(400).send(formatValidationError(body.error, 'Invalid request body'));
+    }
+    const { ruleset, year, type, gameType, limit, offset } = body.data;
+
+    const parsed = parseWhatIfRuleset(ruleset);
+    if (!parsed.success) {
+      return reply.status(400).send(formatValidationError(parsed.error));
+    }
+
+    const gameTypes = parseGameTypes(gameType);
+    if (gameTypes === null) {
+      return reply.status(400).send({ error: `Unknown game type: ${gameType}` });
+    }
+
+    const sql = getSql();
+    const { entries, total } = await getWhatIfLeaderboard(sql, parsed.data, {
+      year,
+      statType: type,
+      gameTypes,
+      limit: limit ? Math.min(limit, 100) : 25,
+      offset,
+    });
+
+    return {
+      ruleset: {
+        id: parsed.data.id,
+        name: parsed.data.name,
+      },
+      year: year ?? null,
+      type: type || 'all',
+      gameType: gameType || 'all',
+      total,
+      entries: entries.map((e, i) => ({
+        rank: offset + i + 1,
+        playerId: e.player_id,
+        playerName: e.player_name || e.player_id,
+        games: e.games,
+        totalPoints: parseFloat(e.total_points).toFixed(2),
+        avgPoints: parseFloat(e.avg_points).toFixed(2),
       })),
     };
   });
+
+  // Top performances for an unsaved ruleset, computed from raw stats without writing points
+  fastify.post<{
+    Body: unknown;
+  }>('/what-if/top', async (request, reply) => {
+    const body = WhatIfTopBodySchema.safeParse(request.body ?? {});
+    if (!body.success) {
+      return reply.status(400).send(formatValidationError(body.error, 'Invalid request body'));
+    }
+    const { ruleset, date, monthDay, yearStart, yearEnd, type, gameType, limit } = body.data;
+
+    if (!date && !monthDay) {
+      return reply.status(400).send({ error: 'Either date or monthDay is required' });
+    }
+
+    const parsed = parseWhatIfRuleset(ruleset);
+    if (!parsed.success) {
+      return reply.status(400).send(formatValidationError(parsed.error));
+    }
+
+    const gameTypes = parseGameTypes(gameType);
+    if (gameTypes === null) {
+      return reply.status(400).send({ error: `Unknown game type: ${gameType}` });
+    }
+
+    let filter: DateFilter;
+    if (monthDay) {
+      const match = monthDay.match(/^(\d{1,2})-(\d{1,2})$/);
+      if (!match) {
+        return reply.status(400).send({ error: 'Invalid monthDay format. Use MM-DD' });
+      }
+      filter = {
+        month: parseInt(match[1]!, 10),
+        day: parseInt(match[2]!, 10),
+        yearStart: yearStart ?? null,
+        yearEnd: yearEnd ?? null,
+      };
+    } else {
+      filter = { date: date! };
+    }
+
+    const sql = getSql();
+    const limitNum = Math.min(limit, 50);
+    const showBatting = type === 'both' || type === 'batting';
+    const showPitching = type === 'both' || type === 'pitching';
+
+    const [battingResults, pitchingResults] = await Promise.all([
+      showBatting
+        ? getWhatIfTopPerformances<BattingPerformance>(sql, parsed.data, 'batting', filter, limitNum, gameTypes)
+        : [],
+      showPitching
+        ? getWhatIfTopPerformances<PitchingPerformance>(sql, parsed.data, 'pitching', filter, limitNum, gameTypes)
+        : [],
+    ]);
+
+    return {
+      ruleset: {
+        id: parsed.data.id,
+        name: parsed.data.name,
+      },
+      query: {
+        date,
+        monthDay,
+        yearStart: yearStart ?? null,
+        yearEnd: yearEnd ?? null,
+        type,
+        gameType: gameType || 'all',
+      },
+      batting: battingResults.map(formatBattingPerformance),
+      pitching: pitchingResults.map(formatPitchingPerformance),
+    };
+  });
 }
@@ -0,0 +1,73 @@
+import type { FastifyInstance } from 'fastify';
+import { getSql } from '../db/client.js';
+import type { Sql } from '../db/client.js';
+import { formatTeamSeason, type TeamName } from '../../../src/ingest/teams.js';
+
+interface FranchiseRow {
+  franchise_id: string;
+  name: string;
+}
+
+async function getFranchises(sql: Sql): Promise<FranchiseRow[]> {
+  return sql<FranchiseRow[]>`
+    SELECT franchise_id, name FROM franchises ORDER BY franchise_id
+  `;
+}
+
+async function getFranchiseTeamNames(sql: Sql, franchiseId?: string): Promise<TeamName[]> {
+  return sql<TeamName[]>`
+    SELECT franchise_id, team_id, league, division, city, nickname, first_year, last_year
+    FROM team_names
+    ${franchiseId ? sql`WHERE franchise_id = ${franchiseId}` : sql``}
+    ORDER BY franchise_id, first_year
+  `;
+}
+
+function toHistoryEntry(name: TeamName) {
+  return {
+    teamId: name.team_id,
+    league: name.league,
+    division: name.division,
+    city: name.city,
+    nickname: name.nickname,
+    firstYear: name.first_year,
+    lastYear: name.last_year,
+    displayName: formatTeamSeason(name),
+  };
+}
+
+export async function franchisesRoutes(fastify: FastifyInstance) {
+  // List franchises with the team codes each has used
+  fastify.get('/', async () => {
+    const sql = getSql();
+    const [franchises, names] = await Promise.all([getFranchises(sql), getFranchiseTeamNames(sql)]);
+
+    return {
+      franchises: franchises.map((f) => ({
+        id: f.franchise_id,
+        name: f.name,
+        teamIds: [...new Set(names.filter((n) => n.franchise_id === f.franchise_id).map((n) => n.team_id))],
+      })),
+    };
+  });
+
+  // Get a franchise's name, league and division history
+  fastify.get<{
+    Params: { id: string };
+  }>('/:id', async (request, reply) => {
+    const { id } = request.params;
+    const sql = getSql();
+
+    const names = await getFranchiseTeamNames(sql, id);
+    if (names.length === 0) {
+      return reply.status(404).send({ error: 'Franchise not found' });
+    }
+
+    const latest = names[names.length - 1]!;
+    return {
+      id,
+      name: `${latest.city} ${latest.nickname}`,
+      history: names.map(toHistoryEntry),
+    };
+  });
+}
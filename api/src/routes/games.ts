@@ -1,6 +1,11 @@
 import type { FastifyInstance } from 'fastify';
 import { getSql } from '../db/client.js';
 import type { Sql } from '../db/client.js';
+import { parseRulesetRef, type RulesetRef } from '../../../src/scoring/ruleset-ref.js';
+import { parseLineScore } from '../../../src/ingest/line-score.js';
+import { formatTeamSeason, type TeamName } from '../../../src/ingest/teams.js';
+import type { Park } from '../../../src/ingest/parks.js';
+import { parseGameTypeFilter, type GameType } from '../../../src/ingest/game-types.js';
 
 interface Game {
   game_id: string;
@@ -12,12 +17,54 @@ interface Game {
   game_type: string | null;
   has_box: boolean;
   has_pbp: boolean;
+  away_score: number | null;
+  home_score: number | null;
+  innings: number | null;
+  day_night: string | null;
+  attendance: number | null;
+  duration_minutes: number | null;
+  away_line_score: string | null;
+  home_line_score: string | null;
+  umpires: { position: string; id: string; name: string }[] | null;
+  away_starting_pitcher_id: string | null;
+  home_starting_pitcher_id: string | null;
+  winning_pitcher_id: string | null;
+  losing_pitcher_id: string | null;
+  saving_pitcher_id: string | null;
   created_at: Date;
+  home_team_name: TeamName | null;
+  away_team_name: TeamName | null;
+  park: Park | null;
+  park_run_factor: number | null;
+  park_hr_factor: number | null;
+}
+
+type GamePlayer = { id: string; name: string | null } | null;
+
+// Games with the names their teams had that season, their park and its factors that season
+function gamesWithTeamNames(sql: Sql) {
+  return sql`
+    SELECT g.*, to_jsonb(hn) as home_team_name, to_jsonb(an) as away_team_name,
+      to_jsonb(pk) as park,
+      pf.run_factor::float8 as park_run_factor, pf.hr_factor::float8 as park_hr_factor
+    FROM games g
+    LEFT JOIN team_names hn ON hn.team_id = g.home_team_id
+      AND EXTRACT(YEAR FROM g.game_date) BETWEEN hn.first_year AND COALESCE(hn.last_year, 9999)
+    LEFT JOIN team_names an ON an.team_id = g.away_team_id
+      AND EXTRACT(YEAR FROM g.game_date) BETWEEN an.first_year AND COALESCE(an.last_year, 9999)
+    LEFT JOIN parks pk ON pk.park_id = g.site
+    LEFT JOIN park_factors pf ON pf.park_id = g.site AND pf.season = EXTRACT(YEAR FROM g.game_date)
+  `;
+}
+
+function teamDisplayName(name: TeamName | null, date: Date): string | null {
+  return name ? formatTeamSeason(name, new Date(date).getUTCFullYear()) : null;
 }
 
 async function getGame(sql: Sql, gameId: string): Promise<Game | null> {
   const [game] = await sql<Game[]>`
-    SELECT * FROM games WHERE game_id = ${gameId}
+    ${gamesWithTeamNames(sql)}
+    WHERE g.game_id = ${gameId}
   `;
   return game ?? null;
 }
@@ -28,21 +75,33 @@ async function getGamesByDateRange(
   endDate: string
 ): Promise<Game[]> {
   return sql<Game[]>`
-    SELECT * FROM games
-    WHERE game_date >= ${startDate}::date
-      AND game_date <= ${endDate}::date
-    ORDER BY game_date, game_id
+    ${gamesWithTeamNames(sql)}
+    WHERE g.game_date >= ${startDate}::date
+      AND g.game_date <= ${endDate}::date
+    ORDER BY g.game_date, g.game_id
   `;
 }
 
 async function getGamesByYear(sql: Sql, year: number): Promise<Game[]> {
   return sql<Game[]>`
-    SELECT * FROM games
-    WHERE EXTRACT(YEAR FROM game_date) = ${year}
-    ORDER BY game_date, game_id
+    ${gamesWithTeamNames(sql)}
+    WHERE EXTRACT(YEAR FROM g.game_date) = ${year}
+    ORDER BY g.game_date, g.game_id
   `;
 }
 
+async function getPlayerNames(sql: Sql, playerIds: string[]): Promise<Map<string, string | null>> {
+  if (playerIds.length === 0) return new Map();
+
+  const rows = await sql<{ player_id: string; player_name: string | null }[]>`
+    SELECT player_id,
+      CASE WHEN name_first IS NOT NULL THEN name_first || ' ' || name_last ELSE NULL END as player_name
+    FROM players
+    WHERE player_id = ANY(${playerIds}::varchar[])
+  `;
+  return new Map(rows.map((r) => [r.player_id, r.player_name]));
+}
+
 async function getBatterStatsByGame(sql: Sql, gameId: string) {
   return [...await sql`
     SELECT bs.*,
@@ -67,15 +126,19 @@ async function getPitcherStatsByGame(sql: Sql, gameId: string) {
 
 async function getFantasyPointsByGame(
   sql: Sql,
-  rulesetId: string,
+  ref: RulesetRef,
   gameId: string
 ) {
+  const version =
+    ref.version ?? sql`(SELECT current_version FROM fantasy_rulesets WHERE ruleset_id = ${ref.id})`;
+
   return [...await sql`
     SELECT fgp.*,
       CASE WHEN p.name_first IS NOT NULL THEN p.name_first || ' ' || p.name_last ELSE NULL END as player_name
     FROM fantasy_game_points fgp
     LEFT JOIN players p ON fgp.player_id = p.player_id
-    WHERE fgp.ruleset_id = ${rulesetId}
+    WHERE fgp.ruleset_id = ${ref.id}
+      AND fgp.ruleset_version = ${version}
       AND fgp.game_id = ${gameId}
     ORDER BY fgp.total_points DESC
   `];
@@ -89,8 +152,17 @@ export async function gamesRoutes(fastify: FastifyInstance) {
   }>('/:id', async (request, reply) => {
     const { id } = request.params;
     const { ruleset } = request.query;
-    const sql = getSql();
 
+    let ref: RulesetRef | undefined;
+    if (ruleset) {
+      try {
+        ref = parseRulesetRef(ruleset);
+      } catch {
+        return reply.status(400).send({ error: 'Invalid ruleset reference' });
+      }
+    }
+
+    const sql = getSql();
     const game = await getGame(sql, id);
     if (!game) {
       return reply.status(404).send({ error: 'Game not found' });
@@ -102,20 +174,59 @@ export async function gamesRoutes(fastify: FastifyInstance) {
     ]);
 
     let fantasyPoints: unknown[] = [];
-    if (ruleset) {
-      fantasyPoints = await getFantasyPointsByGame(sql, ruleset, id);
+    if (ref) {
+      fantasyPoints = await getFantasyPointsByGame(sql, ref, id);
     }
 
+    const pitcherIds = [
+      game.away_starting_pitcher_id,
+      game.home_starting_pitcher_id,
+      game.winning_pitcher_id,
+      game.losing_pitcher_id,
+      game.saving_pitcher_id,
+    ].filter((pid): pid is string => pid !== null);
+    const names = await getPlayerNames(sql, pitcherIds);
+    const player = (playerId: string | null): GamePlayer =>
+      playerId ? { id: playerId, name: names.get(playerId) ?? null } : null;
+
     return {
       id: game.game_id,
       date: game.game_date,
       gameNumber: game.game_number,
       site: game.site,
+      park: game.park
+        ? { id: game.park.park_id, name: game.park.name, city: game.park.city, state: game.park.state }
+        : null,
+      parkFactors: game.park_run_factor !== null && game.park_hr_factor !== null
+        ? { runs: game.park_run_factor, homeRuns: game.park_hr_factor }
+        : null,
       homeTeam: game.home_team_id,
       awayTeam: game.away_team_id,
+      homeTeamName: teamDisplayName(game.home_team_name, game.game_date),
+      awayTeamName: teamDisplayName(game.away_team_name, game.game_date),
+      homeFranchise: game.home_team_name?.franchise_id ?? null,
+      awayFranchise: game.away_team_name?.franchise_id ?? null,
       gameType: game.game_type,
       hasBox: game.has_box,
       hasPbp: game.has_pbp,
+      score: game.away_score !== null && game.home_score !== null
+        ? { away: game.away_score, home: game.home_score }
+        : null,
+      innings: game.innings,
+      lineScore: game.away_line_score && game.home_line_score
+        ? { away: parseLineScore(game.away_line_score), home: parseLineScore(game.home_line_score) }
+        : null,
+      dayNight: game.day_night,
+      attendance: game.attendance,
+      durationMinutes: game.duration_minutes,
+      umpires: game.umpires ?? [],
+      startingPitchers: {
+        away: player(game.away_starting_pitcher_id),
+        home: player(game.home_starting_pitcher_id),
+      },
+      winningPitcher: player(game.winning_pitcher_id),
+      losingPitcher: player(game.losing_pitcher_id),
+      savingPitcher: player(game.saving_pitcher_id),
       battingStats,
       pitchingStats,
       fantasyPoints: ruleset ? fantasyPoints : undefined,
@@ -129,12 +240,20 @@ export async function gamesRoutes(fastify: FastifyInstance) {
       start?: string;
       end?: string;
       year?: string;
+      gameType?: string;
       limit?: string;
     };
   }>('/', async (request, reply) => {
-    const { date, start, end, year, limit } = request.query;
+    const { date, start, end, year, gameType, limit } = request.query;
     const sql = getSql();
 
+    let gameTypes: GameType[] | undefined;
+    try {
+      gameTypes = parseGameTypeFilter(gameType);
+    } catch {
+      return reply.status(400).send({ error: `Unknown game type: ${gameType}` });
+    }
+
     let games: Game[] = [];
 
     if (date) {
@@ -149,6 +268,10 @@ export async function gamesRoutes(fastify: FastifyInstance) {
       });
     }
 
+    if (gameTypes) {
+      games = games.filter((g) => gameTypes.includes(g.game_type as GameType));
+    }
+
     const maxLimit = limit ? Math.min(parseInt(limit, 10), 1000) : 100;
     const limited = games.slice(0, maxLimit);
 
@@ -161,7 +284,13 @@ export async function gamesRoutes(fastify: FastifyInstance) {
         gameNumber: g.game_number,
         homeTeam: g.home_team_id,
         awayTeam: g.away_team_id,
+        homeTeamName: teamDisplayName(g.home_team_name, g.game_date),
+        awayTeamName: teamDisplayName(g.away_team_name, g.game_date),
+        gameType: g.game_type,
         site: g.site,
+        parkName: g.park?.name ?? null,
+        awayScore: g.away_score,
+        homeScore: g.home_score,
       })),
     };
   });
@@ -0,0 +1,308 @@
+import type { FastifyInstance } from 'fastify';
+import type { ZodError } from 'zod';
+import { getSql } from '../db/client.js';
+import type { Sql } from '../db/client.js';
+// Shared with the CLI so both accept the same leagues and rank them the same way
+import {
+  RotoLeagueSchema,
+  type RotoCategory,
+  type RotoLeague,
+} from '../../../src/types/roto.js';
+import {
+  buildCategorySql,
+  computeStandings,
+  toRotoTotals,
+  type RotoTotals,
+} from '../../../src/scoring/roto.js';
+
+interface LeagueRow {
+  league_id: string;
+  name: string;
+  season: number;
+  categories: RotoCategory[];
+  tiebreakers: string[];
+}
+
+function formatValidationError(error: ZodError) {
+  return {
+    error: 'Invalid league',
+    issues: error.issues.map((issue) => ({
+      path: issue.path.join('.'),
+      message: issue.message,
+    })),
+  };
+}
+
+async function getLeague(sql: Sql, leagueId: string): Promise<RotoLeague | null> {
+  const [row] = await sql<LeagueRow[]>`
+    SELECT league_id, name, season, categories, tiebreakers
+    FROM roto_leagues WHERE league_id = ${leagueId}
+  `;
+  if (!row) return null;
+
+  const teams = await sql<{ team_id: string; name: string; players: string[] }[]>`
+    SELECT
+      t.team_id,
+      t.name,
+      COALESCE(
+        array_agg(r.player_id ORDER BY r.player_id) FILTER (WHERE r.player_id IS NOT NULL),
+        '{}'
+      ) as players
+    FROM roto_teams t
+    LEFT JOIN roto_roster_players r ON r.league_id = t.league_id AND r.team_id = t.team_id
+    WHERE t.league_id = ${leagueId}
+    GROUP BY t.team_id, t.name
+    ORDER BY t.team_id
+  `;
+
+  return {
+    id: row.league_id,
+    name: row.name,
+    season: row.season,
+    categories: row.categories,
+    tiebreakers: row.tiebreakers,
+    teams: teams.map((team) => ({ id: team.team_id, name: team.name, players: team.players })),
+  };
+}
+
+async function getUnknownPlayers(sql: Sql, playerIds: string[]): Promise<string[]> {
+  if (playerIds.length === 0) return [];
+  const known = await sql<{ player_id: string }[]>`
+    SELECT player_id FROM players WHERE player_id = ANY(${playerIds}::varchar[])
+  `;
+  const found = new Set(known.map((row) => row.player_id));
+  return playerIds.filter((id) => !found.has(id));
+}
+
+/**
+ * Create or replace a league with its teams and rosters; returns whether it was created
+ *
+ * One statement, so a failed save changes nothing: teams and roster spots are
+ * upserted and those missing from the league are deleted.
+ */
+async function saveLeague(sql: Sql, league: RotoLeague): Promise<boolean> {
+  const teams = league.teams.map((team) => ({ id: team.id, name: team.name }));
+  const roster = league.teams.flatMap((team) =>
+    team.players.map((playerId) => ({ team_id: team.id, player_id: playerId }))
+  );
+
+  const [saved] = await sql<{ created: boolean }[]>`
+    WITH saved AS (
+      INSERT INTO roto_leagues (league_id, name, season, categories, tiebreakers)
+      VALUES (
+        ${league.id},
+        ${league.name},
+        ${league.season},
+        ${sql.json(league.categories)},
+        ${sql.json(league.tiebreakers)}
+      )
+      ON CONFLICT (league_id) DO UPDATE SET
+        name = EXCLUDED.name,
+        season = EXCLUDED.season,
+        categories = EXCLUDED.categories,
+        tiebreakers = EXCLUDED.tiebreakers,
+        updated_at = NOW()
+      -- xmax is 0 for freshly inserted rows
+      RETURNING (xmax = 0) as created
+    ),
+    saved_teams AS (
+      INSERT INTO roto_teams (league_id, team_id, name)
+      SELECT ${league.id}, t.id, t.name
+      FROM jsonb_to_recordset(${sql.json(teams)}) AS t(id varchar, name varchar)
+      ON CONFLICT (league_id, team_id) DO UPDATE SET name = EXCLUDED.name
+    ),
+    dropped_teams AS (
+      DELETE FROM roto_teams
+      WHERE league_id = ${league.id} AND team_id <> ALL(${teams.map((t) => t.id)}::varchar[])
+    ),
+    saved_roster AS (
+      INSERT INTO roto_roster_players (league_id, team_id, player_id)
+      SELECT ${league.id}, r.team_id, r.player_id
+      FROM jsonb_to_recordset(${sql.json(roster)}) AS r(team_id varchar, player_id varchar)
+      ON CONFLICT (league_id, player_id) DO UPDATE SET team_id = EXCLUDED.team_id
+    ),
+    dropped_roster AS (
+      DELETE FROM roto_roster_players
+      WHERE league_id = ${league.id}
+        AND player_id <> ALL(${roster.map((r) => r.player_id)}::varchar[])
+    )
+    SELECT created FROM saved
+  `;
+  return saved?.created ?? false;
+}
+
+/**
+ * Season totals of each team's categories, from regular-season lines of rostered players
+ */
+async function getLeagueTotals(sql: Sql, league: RotoLeague): Promise<RotoTotals> {
+  const totals: RotoTotals = {};
+
+  for (const section of ['batting', 'pitching'] as const) {
+    const categories = league.categories.filter((c) => c.section === section);
+    if (categories.length === 0) continue;
+
+    const { sums, pers } = buildCategorySql(categories, 's');
+    const table = section === 'batting' ? sql`batter_game_stats` : sql`pitcher_game_stats`;
+    const sequence = section === 'batting' ? sql`s.batting_seq` : sql`s.pitching_seq`;
+
+    // Players with several lines in a game count their last one, as in scoring
+    const rows = await sql<{ team_id: string; sums: number[]; pers: number[] }[]>`
+      WITH lines AS (
+        SELECT DISTINCT ON (s.game_id, s.player_id) r.team_id as roster_team_id, s.*
+        FROM ${table} s
+        JOIN games g ON s.game_id = g.game_id
+        JOIN roto_roster_players r ON r.player_id = s.player_id AND r.league_id = ${league.id}
+        WHERE g.game_date >= ${`${league.season}-01-01`}::date
+          AND g.game_date <= ${`${league.season}-12-31`}::date
+          AND g.game_type = 'REG'
+        ORDER BY s.game_id, s.player_id, ${sequence} DESC NULLS FIRST, s.id DESC
+      )
+      SELECT s.roster_team_id as team_id, ${sql.unsafe(sums)} as sums, ${sql.unsafe(pers)} as pers
+      FROM lines s
+      GROUP BY s.roster_team_id
+    `;
+
+    toRotoTotals(categories, rows, totals);
+  }
+
+  return totals;
+}
+
+export async function leaguesRoutes(fastify: FastifyInstance) {
+  // List leagues
+  fastify.get('/', async () => {
+    const sql = getSql();
+    const leagues = await sql<{ league_id: string; name: string; season: number; teams: number }[]>`
+      SELECT
+        l.league_id,
+        l.name,
+        l.season,
+        (SELECT COUNT(*)::int FROM roto_teams t WHERE t.league_id = l.league_id) as teams
+      FROM roto_leagues l
+      ORDER BY l.season DESC, l.league_id
+    `;
+
+    return {
+      leagues: leagues.map((l) => ({
+        id: l.league_id,
+        name: l.name,
+        season: l.season,
+        teams: l.teams,
+      })),
+    };
+  });
+
+  // Get a league with its categories, teams and rosters
+  fastify.get<{
+    Params: { id: string };
+  }>('/:id', async (request, reply) => {
+    const sql = getSql();
+    const league = await getLeague(sql, request.params.id);
+    if (!league) {
+      return reply.status(404).send({ error: 'League not found' });
+    }
+
+    return league;
+  });
+
+  // Create or replace a league
+  fastify.put<{
+    Params: { id: string };
+    Body: unknown;
+  }>('/:id', async (request, reply) => {
+    const { id } = request.params;
+    const body = request.body;
+
+    if (typeof body !== 'object' || body === null) {
+      return reply.status(400).send({ error: 'Request body must be a league object' });
+    }
+    if ('id' in body && body.id !== id) {
+      return reply.status(400).send({ error: 'League id in body does not match URL' });
+    }
+
+    const parsed = RotoLeagueSchema.safeParse({ ...body, id });
+    if (!parsed.success) {
+      return reply.status(400).send(formatValidationError(parsed.error));
+    }
+
+    const sql = getSql();
+    const unknown = await getUnknownPlayers(sql, parsed.data.teams.flatMap((t) => t.players));
+    if (unknown.length > 0) {
+      return reply.status(400).send({ error: `Unknown players: ${unknown.join(', ')}` });
+    }
+
+    const created = await saveLeague(sql, parsed.data);
+    return reply.status(created ? 201 : 200).send(parsed.data);
+  });
+
+  // Delete a league with its teams and rosters
+  fastify.delete<{
+    Params: { id: string };
+  }>('/:id', async (request, reply) => {
+    const { id } = request.params;
+    const sql = getSql();
+
+    const result = await sql`DELETE FROM roto_leagues WHERE league_id = ${id}`;
+    if (result.count === 0) {
+      return reply.status(404).send({ error: 'League not found' });
+    }
+
+    return { id };
+  });
+
+  // Put a player on a team, moving them off any other team of the league
+  fastify.put<{
+    Params: { id: string; teamId: string; playerId: string };
+  }>('/:id/teams/:teamId/players/:playerId', async (request, reply) => {
+    const { id, teamId, playerId } = request.params;
+    const sql = getSql();
+
+    const [team] = await sql`
+      SELECT 1 FROM roto_teams WHERE league_id = ${id} AND team_id = ${teamId}
+    `;
+    if (!team) {
+      return reply.status(404).send({ error: 'Team not found' });
+    }
+    if ((await getUnknownPlayers(sql, [playerId])).length > 0) {
+      return reply.status(404).send({ error: 'Player not found' });
+    }
+
+    await sql`
+      INSERT INTO roto_roster_players (league_id, team_id, player_id)
+      VALUES (${id}, ${teamId}, ${playerId})
+      ON CONFLICT (league_id, player_id) DO UPDATE SET team_id = EXCLUDED.team_id
+    `;
+
+    return { id, teamId, playerId };
+  });
+
+  // Remove a player from their team
+  fastify.delete<{
+    Params: { id: string; playerId: string };
+  }>('/:id/players/:playerId', async (request, reply) => {
+    const { id, playerId } = request.params;
+    const sql = getSql();
+
+    const result = await sql`
+      DELETE FROM roto_roster_players WHERE league_id = ${id} AND player_id = ${playerId}
+    `;
+    if (result.count === 0) {
+      return reply.status(404).send({ error: 'Player is not on a team in this league' });
+    }
+
+    return { id, playerId };
+  });
+
+  // Roto standings from the league season's stats
+  fastify.get<{
+    Params: { id: string };
+  }>('/:id/standings', async (request, reply) => {
+    const sql = getSql();
+    const league = await getLeague(sql, request.params.id);
+    if (!league) {
+      return reply.status(404).send({ error: 'League not found' });
+    }
+
+    return computeStandings(league, await getLeagueTotals(sql, league));
+  });
+}
@@ -1,6 +1,7 @@
 import type { FastifyInstance } from 'fastify';
 import { getSql } from '../db/client.js';
 import type { Sql } from '../db/client.js';
+import { parseRulesetRef, type RulesetRef } from '../../../src/scoring/ruleset-ref.js';
 
 interface PlayerWithName {
   player_id: string;
@@ -9,6 +10,27 @@ interface PlayerWithName {
   created_at: Date;
 }
 
+interface PlayerWithBio extends PlayerWithName {
+  name_given: string | null;
+  name_nick: string | null;
+  birth_date: Date | null;
+  death_date: Date | null;
+  mlb_played_first: number | null;
+  mlb_played_last: number | null;
+  key_person: string | null;
+  key_mlbam: number | null;
+  key_bbref: string | null;
+  key_fangraphs: number | null;
+}
+
+// External IDs a player can be looked up by, as /by-<source>/:id
+const EXTERNAL_ID_COLUMNS = {
+  mlbam: 'key_mlbam',
+  bbref: 'key_bbref',
+  fangraphs: 'key_fangraphs',
+  person: 'key_person',
+} as const;
+
 interface FantasyGamePointsRow {
   id: number;
   ruleset_id: string;
@@ -19,18 +41,55 @@ interface FantasyGamePointsRow {
   breakdown: unknown[];
   game_date: Date;
   calculated_at: Date;
+  ruleset_version: number;
 }
 
 // Query functions
-async function getPlayer(sql: Sql, playerId: string): Promise<PlayerWithName | null> {
-  const [player] = await sql<PlayerWithName[]>`
-    SELECT player_id, name_first, name_last, created_at
-    FROM players
-    WHERE player_id = ${playerId}
+async function getPlayer(sql: Sql, playerId: string): Promise<PlayerWithBio | null> {
+  const [player] = await sql<PlayerWithBio[]>`
+    SELECT * FROM players WHERE player_id = ${playerId}
   `;
   return player ?? null;
 }
 
+async function getPlayerByExternalId(
+  sql: Sql,
+  source: keyof typeof EXTERNAL_ID_COLUMNS,
+  externalId: string
+): Promise<PlayerWithBio | null> {
+  const [player] = await sql<PlayerWithBio[]>`
+    SELECT * FROM players
+    WHERE ${sql(EXTERNAL_ID_COLUMNS[source])}::text = ${externalId}
+    ORDER BY player_id
+    LIMIT 1
+  `;
+  return player ?? null;
+}
+
+function toPlayerResponse(player: PlayerWithBio) {
+  return {
+    id: player.player_id,
+    name: player.name_first && player.name_last
+      ? `${player.name_first} ${player.name_last}`
+      : player.player_id,
+    firstName: player.name_first,
+    lastName: player.name_last,
+    givenName: player.name_given,
+    nickname: player.name_nick,
+    birthDate: player.birth_date,
+    deathDate: player.death_date,
+    mlbDebutYear: player.mlb_played_first,
+    mlbFinalYear: player.mlb_played_last,
+    ids: {
+      retro: player.player_id,
+      mlbam: player.key_mlbam,
+      bbref: player.key_bbref,
+      fangraphs: player.key_fangraphs,
+      person: player.key_person,
+    },
+  };
+}
+
 async function searchPlayers(sql: Sql, pattern: string, limit = 25): Promise<PlayerWithName[]> {
   return sql<PlayerWithName[]>`
     SELECT player_id, name_first, name_last, created_at
@@ -96,14 +155,18 @@ async function getPitcherStatsByPlayer(
 
 async function getFantasyPointsByPlayer(
   sql: Sql,
-  rulesetId: string,
+  ref: RulesetRef,
   playerId: string,
   year?: number
 ): Promise<FantasyGamePointsRow[]> {
+  const version =
+    ref.version ?? sql`(SELECT current_version FROM fantasy_rulesets WHERE ruleset_id = ${ref.id})`;
+
   if (year) {
     return sql<FantasyGamePointsRow[]>`
       SELECT * FROM fantasy_game_points
-      WHERE ruleset_id = ${rulesetId}
+      WHERE ruleset_id = ${ref.id}
+        AND ruleset_version = ${version}
         AND player_id = ${playerId}
         AND EXTRACT(YEAR FROM game_date) = ${year}
       ORDER BY game_date
@@ -111,7 +174,8 @@ async function getFantasyPointsByPlayer(
   }
   return sql<FantasyGamePointsRow[]>`
     SELECT * FROM fantasy_game_points
-    WHERE ruleset_id = ${rulesetId}
+    WHERE ruleset_id = ${ref.id}
+      AND ruleset_version = ${version}
       AND player_id = ${playerId}
     ORDER BY game_date
   `;
@@ -153,16 +217,26 @@ export async function playersRoutes(fastify: FastifyInstance) {
       return reply.status(404).send({ error: 'Player not found' });
     }
 
-    return {
-      id: player.player_id,
-      name: player.name_first && player.name_last
-        ? `${player.name_first} ${player.name_last}`
-        : player.player_id,
-      firstName: player.name_first,
-      lastName: player.name_last,
-    };
+    return toPlayerResponse(player);
   });
 
+  // Get player by external ID (e.g. /by-mlbam/545361)
+  for (const source of Object.keys(EXTERNAL_ID_COLUMNS) as (keyof typeof EXTERNAL_ID_COLUMNS)[]) {
+    fastify.get<{
+      Params: { id: string };
+    }>(`/by-${source}/:id`, async (request, reply) => {
+      const { id } = request.params;
+      const sql = getSql();
+
+      const player = await getPlayerByExternalId(sql, source, id);
+      if (!player) {
+        return reply.status(404).send({ error: 'Player not found' });
+      }
+
+      return toPlayerResponse(player);
+    });
+  }
+
   // Get player batting stats
   fastify.get<{
     Params: { id: string };
@@ -211,10 +285,17 @@ export async function playersRoutes(fastify: FastifyInstance) {
       return reply.status(400).send({ error: 'Ruleset is required' });
     }
 
+    let ref: RulesetRef;
+    try {
+      ref = parseRulesetRef(ruleset);
+    } catch {
+      return reply.status(400).send({ error: 'Invalid ruleset reference' });
+    }
+
     const sql = getSql();
     const points = await getFantasyPointsByPlayer(
       sql,
-      ruleset,
+      ref,
       id,
       year ? parseInt(year, 10) : undefined
     );
@@ -1,5 +1,6 @@
 import type { FastifyInstance } from 'fastify';
 import { getSql } from '../db/client.js';
+import { formatTeamSeason, type TeamName } from '../../../src/ingest/teams.js';
 
 interface PlayerSearchResult {
   player_id: string;
@@ -90,14 +91,38 @@ export async function searchRoutes(fastify: FastifyInstance) {
     return { years: years.map((y) => y.year) };
   });
 
-  // Get available teams
-  fastify.get('/teams', async () => {
+  // Get available teams, named as in `year` (default: each team's latest name)
+  fastify.get<{
+    Querystring: { year?: string };
+  }>('/teams', async (request) => {
+    const year = request.query.year ? parseInt(request.query.year, 10) : null;
     const sql = getSql();
 
-    const teams = await sql<{ team_id: string }[]>`
-      SELECT team_id FROM teams ORDER BY team_id
+    const teams = await sql<{ team_id: string; franchise_id: string | null; name: TeamName | null }[]>`
+      SELECT t.team_id, t.franchise_id, to_jsonb(tn) as name
+      FROM teams t
+      LEFT JOIN LATERAL (
+        SELECT * FROM team_names n
+        WHERE n.team_id = t.team_id
+          ${year !== null ? sql`AND n.first_year <= ${year} AND (n.last_year IS NULL OR n.last_year >= ${year})` : sql``}
+        ORDER BY n.first_year DESC
+        LIMIT 1
+      ) tn ON true
+      ${year !== null ? sql`WHERE tn.team_id IS NOT NULL` : sql``}
+      ORDER BY t.team_id
     `;
 
-    return { teams: teams.map((t) => t.team_id) };
+    return {
+      year,
+      teams: teams.map((t) => ({
+        id: t.team_id,
+        franchiseId: t.franchise_id,
+        league: t.name?.league ?? null,
+        division: t.name?.division ?? null,
+        city: t.name?.city ?? null,
+        nickname: t.name?.nickname ?? null,
+        displayName: t.name ? formatTeamSeason(t.name, year ?? undefined) : t.team_id,
+      })),
+    };
   });
 }
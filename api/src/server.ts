@@ -4,6 +4,8 @@ import { playersRoutes } from './routes/players.js';
 import { gamesRoutes } from './routes/games.js';
 import { fantasyRoutes } from './routes/fantasy.js';
 import { searchRoutes } from './routes/search.js';
+import { franchisesRoutes } from './routes/franchises.js';
+import { leaguesRoutes } from './routes/leagues.js';
 
 export async function buildServer() {
   const server = Fastify({
@@ -35,6 +37,8 @@ export async function buildServer() {
   await server.register(gamesRoutes, { prefix: '/api/games' });
   await server.register(fantasyRoutes, { prefix: '/api/fantasy' });
   await server.register(searchRoutes, { prefix: '/api/search' });
+  await server.register(franchisesRoutes, { prefix: '/api/franchises' });
+  await server.register(leaguesRoutes, { prefix: '/api/leagues' });
 
   return server;
 }
@@ -0,0 +1,204 @@
+#!/usr/bin/env npx tsx
+/**
+ * Benchmark staging loads and the staging → core transform on the fixture data
+ *
+ * Repeats each fixture file's rows under new game IDs, then times:
+ *   - staging: JSON batches through jsonb_populate_recordset vs COPY FROM STDIN
+ *   - transform: the set-based INSERT ... SELECT vs one upsert per stat line
+ *
+ * Runs against the integration test database (TEST_DB_* variables, defaulting
+ * to docker-compose's postgres-test) and removes the generated games afterwards.
+ *
+ * Usage: npm run benchmark:ingest -- [repeat]   (default 500)
+ */
+
+import postgres from 'postgres';
+import { mkdtempSync, readFileSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { Sql } from '../src/db/client.js';
+import { runMigrations } from '../src/db/migrations/runner.js';
+import { parseCSV } from '../src/ingest/parser.js';
+import { loadBattingToStaging, loadPitchingToStaging, type StagingResult } from '../src/ingest/staging.js';
+import { transformBattingData, transformPitchingData, type TransformResult } from '../src/ingest/transformer.js';
+import {
+  upsertBatterStats,
+  upsertPitcherStats,
+  type BatterStatsInsert,
+  type PitcherStatsInsert,
+} from '../src/db/queries/stats.js';
+
+const FIXTURES_DIR = join(process.cwd(), 'tests/fixtures');
+const JSON_BATCH_SIZE = 1000;
+// Benchmark games are the fixture game IDs with this marker and the copy number
+const GAME_MARKER = '-';
+
+// CSV fields stored under another staging column name
+const RENAMED_FIELDS: Record<string, string> = {
+  id: 'player_id',
+  date: 'game_date',
+  number: 'game_number',
+  save: 'save_flag',
+  sho: 'p_sho',
+};
+
+interface Fixture {
+  name: string;
+  file: string;
+  stagingTable: string;
+  statsTable: string;
+  load: (sql: Sql, filePath: string, sourceFile: string) => Promise<StagingResult>;
+  transform: (sql: Sql, batchId: string) => Promise<TransformResult>;
+  upsert: (sql: Sql, stats: BatterStatsInsert & PitcherStatsInsert) => Promise<void>;
+}
+
+const FIXTURES: Fixture[] = [
+  {
+    name: 'batting',
+    file: 'batting-sample.csv',
+    stagingTable: 'staging_batting',
+    statsTable: 'batter_game_stats',
+    load: loadBattingToStaging,
+    transform: transformBattingData,
+    upsert: upsertBatterStats,
+  },
+  {
+    name: 'pitching',
+    file: 'pitching-sample.csv',
+    stagingTable: 'staging_pitching',
+    statsTable: 'pitcher_game_stats',
+    load: loadPitchingToStaging,
+    transform: transformPitchingData,
+    upsert: upsertPitcherStats,
+  },
+];
+
+/**
+ * Write the fixture's rows `repeat` times, each copy under its own game IDs
+ */
+function repeatFixture(file: string, repeat: number, outDir: string): string {
+  const [header, ...rows] = readFileSync(join(FIXTURES_DIR, file), 'utf-8').trim().split('\n');
+  const lines = [header];
+  for (let i = 1; i <= repeat; i++) {
+    for (const row of rows) {
+      const comma = row.indexOf(',');
+      lines.push(`${row.slice(0, comma)}${GAME_MARKER}${i}${row.slice(comma)}`);
+    }
+  }
+
+  const outPath = join(outDir, file);
+  writeFileSync(outPath, lines.join('\n') + '\n');
+  return outPath;
+}
+
+/**
+ * The previous staging load: rows serialized to JSON in batches
+ */
+async function loadJsonBatches(sql: Sql, table: string, filePath: string, sourceFile: string): Promise<string> {
+  const rows = await parseCSV<Record<string, string>>(filePath);
+  const [{ batch_id }] = await sql<[{ batch_id: string }]>`SELECT gen_random_uuid() as batch_id`;
+  const columns = [
+    'batch_id',
+    'source_file',
+    'row_num',
+    ...Object.keys(rows[0] ?? {}).map((field) => RENAMED_FIELDS[field] ?? field),
+  ];
+
+  for (let start = 0; start < rows.length; start += JSON_BATCH_SIZE) {
+    const batch = rows.slice(start, start + JSON_BATCH_SIZE).map((row, i) => {
+      const staged: Record<string, string | number> = { batch_id, source_file: sourceFile, row_num: start + i + 1 };
+      for (const [field, value] of Object.entries(row)) {
+        staged[RENAMED_FIELDS[field] ?? field] = value;
+      }
+      return staged;
+    });
+
+    await sql`
+      INSERT INTO ${sql(table)} (${sql(columns)})
+      SELECT ${sql(columns)}
+      FROM jsonb_populate_recordset(NULL::${sql(table)}, ${sql.json(batch)})
+    `;
+  }
+
+  return batch_id;
+}
+
+async function time<T>(fn: () => Promise<T>): Promise<[T, number]> {
+  const started = performance.now();
+  const result = await fn();
+  return [result, (performance.now() - started) / 1000];
+}
+
+function report(label: string, rows: number, seconds: number, baselineSeconds?: number): void {
+  const rate = Math.round(rows / seconds).toLocaleString();
+  const speedup = baselineSeconds ? `  (${(baselineSeconds / seconds).toFixed(1)}x)` : '';
+  console.log(`  ${label.padEnd(28)} ${seconds.toFixed(2).padStart(7)}s  ${rate.padStart(9)} rows/s${speedup}`);
+}
+
+async function cleanUp(sql: Sql): Promise<void> {
+  const pattern = `%${GAME_MARKER}%`;
+  await sql`DELETE FROM fantasy_game_points WHERE game_id LIKE ${pattern}`;
+  await sql`DELETE FROM batter_game_stats WHERE game_id LIKE ${pattern}`;
+  await sql`DELETE FROM pitcher_game_stats WHERE game_id LIKE ${pattern}`;
+  await sql`DELETE FROM games WHERE game_id LIKE ${pattern}`;
+}
+
+async function benchmark() {
+  const repeat = parseInt(process.argv[2] ?? '500', 10);
+  if (!Number.isInteger(repeat) || repeat < 1) {
+    throw new Error(`Invalid repeat count: ${process.argv[2]}`);
+  }
+
+  const sql = postgres({
+    host: process.env.TEST_DB_HOST ?? 'localhost',
+    port: parseInt(process.env.TEST_DB_PORT ?? '5433', 10),
+    user: process.env.TEST_DB_USER ?? 'mlb_test',
+    password: process.env.TEST_DB_PASSWORD ?? 'mlb_test_password',
+    database: process.env.TEST_DB_NAME ?? 'mlb_fantasy_test',
+    onnotice: () => {},
+  });
+  const outDir = mkdtempSync(join(tmpdir(), 'mlb-benchmark-'));
+
+  try {
+    await runMigrations(sql);
+    await cleanUp(sql);
+
+    for (const fixture of FIXTURES) {
+      const filePath = repeatFixture(fixture.file, repeat, outDir);
+      console.log(`\n${fixture.name} (${fixture.file} × ${repeat})`);
+
+      const [jsonBatchId, jsonSeconds] = await time(() =>
+        loadJsonBatches(sql, fixture.stagingTable, filePath, fixture.file)
+      );
+      await sql`DELETE FROM ${sql(fixture.stagingTable)} WHERE batch_id = ${jsonBatchId}::uuid`;
+
+      const [staging, copySeconds] = await time(() => fixture.load(sql, filePath, fixture.file));
+      report('staging: JSON batches', staging.totalRows, jsonSeconds);
+      report('staging: COPY', staging.totalRows, copySeconds, jsonSeconds);
+
+      const [transform, setSeconds] = await time(() => fixture.transform(sql, staging.batchId));
+      await sql`DELETE FROM ${sql(fixture.stagingTable)} WHERE batch_id = ${staging.batchId}::uuid`;
+
+      // Replay the transformed lines through the per-row upserts the transform used to run
+      const lines = await sql<(BatterStatsInsert & PitcherStatsInsert)[]>`
+        SELECT * FROM ${sql(fixture.statsTable)} WHERE game_id LIKE ${`%${GAME_MARKER}%`}
+      `;
+      const [, rowSeconds] = await time(async () => {
+        for (const line of lines) {
+          await fixture.upsert(sql, line);
+        }
+      });
+      report('transform: row by row', lines.length, rowSeconds);
+      report('transform: set-based', transform.processedRows, setSeconds, rowSeconds);
+    }
+  } finally {
+    await cleanUp(sql);
+    rmSync(outDir, { recursive: true, force: true });
+    await sql.end();
+  }
+}
+
+benchmark().catch((err) => {
+  console.error('Benchmark failed:', err);
+  process.exit(1);
+});
@@ -12,15 +12,25 @@ async function resetDatabase() {
     console.log('Dropping all tables...');
 
     // Drop tables in reverse dependency order
+    await sql`DROP TABLE IF EXISTS scoring_jobs CASCADE`;
     await sql`DROP TABLE IF EXISTS fantasy_game_points CASCADE`;
+    await sql`DROP TABLE IF EXISTS data_quality_issues CASCADE`;
+    await sql`DROP TABLE IF EXISTS fantasy_ruleset_versions CASCADE`;
     await sql`DROP TABLE IF EXISTS fantasy_rulesets CASCADE`;
     await sql`DROP TABLE IF EXISTS batter_game_stats CASCADE`;
     await sql`DROP TABLE IF EXISTS pitcher_game_stats CASCADE`;
+    await sql`DROP TABLE IF EXISTS fielder_game_stats CASCADE`;
+    await sql`DROP TABLE IF EXISTS plate_appearance_events CASCADE`;
+    await sql`DROP TABLE IF EXISTS team_names CASCADE`;
     await sql`DROP TABLE IF EXISTS games CASCADE`;
     await sql`DROP TABLE IF EXISTS players CASCADE`;
     await sql`DROP TABLE IF EXISTS teams CASCADE`;
+    await sql`DROP TABLE IF EXISTS franchises CASCADE`;
+    await sql`DROP TABLE IF EXISTS park_factors CASCADE`;
+    await sql`DROP TABLE IF EXISTS parks CASCADE`;
     await sql`DROP TABLE IF EXISTS staging_batting CASCADE`;
     await sql`DROP TABLE IF EXISTS staging_pitching CASCADE`;
+    await sql`DROP TABLE IF EXISTS staging_fielding CASCADE`;
     await sql`DROP TABLE IF EXISTS ingestion_batches CASCADE`;
     await sql`DROP TABLE IF EXISTS migrations CASCADE`;
 
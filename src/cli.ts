@@ -1,9 +1,20 @@
 #!/usr/bin/env node
 
 import { Command } from 'commander';
-import { ingestCommand, syncPlayersCommand } from './commands/ingest.js';
+import {
+  ingestCommand,
+  ingestEventsCommand,
+  ingestGameLogsCommand,
+  syncPlayersCommand,
+  syncTeamsCommand,
+  syncParksCommand,
+  parkFactorsCommand,
+} from './commands/ingest.js';
 import { scoreCommand } from './commands/score.js';
 import { queryCommand } from './commands/query.js';
+import { rulesetCommand } from './commands/ruleset.js';
+import { validateCommand } from './commands/validate.js';
+import { leagueCommand } from './commands/league.js';
 
 const program = new Command();
 
@@ -13,9 +24,17 @@ program
   .version('1.0.0');
 
 program.addCommand(ingestCommand);
+program.addCommand(ingestEventsCommand);
+program.addCommand(ingestGameLogsCommand);
 program.addCommand(syncPlayersCommand);
+program.addCommand(syncTeamsCommand);
+program.addCommand(syncParksCommand);
+program.addCommand(parkFactorsCommand);
 program.addCommand(scoreCommand);
 program.addCommand(queryCommand);
+program.addCommand(rulesetCommand);
+program.addCommand(validateCommand);
+program.addCommand(leagueCommand);
 
 // Add migrate command
 program
@@ -1,15 +1,42 @@
 import { Command } from 'commander';
 import ora from 'ora';
 import chalk from 'chalk';
-import { getSql, closeSql } from '../db/client.js';
+import Table from 'cli-table3';
+import { getSql, closeSql, transaction } from '../db/client.js';
 import { runMigrations } from '../db/migrations/runner.js';
-import { ingestYears, parseYearRange } from '../ingest/index.js';
-import { syncPlayerNames } from '../ingest/players.js';
+import { ingestYears, ingestEventFiles, ingestGameLogs, parseYearRange } from '../ingest/index.js';
+import { syncPlayerRegister } from '../ingest/players.js';
+import { loadBundledTeamNames, toFranchises } from '../ingest/teams.js';
+import { replaceTeamNames } from '../db/queries/teams.js';
+import { loadBundledParks, loadParksFile } from '../ingest/parks.js';
+import { upsertParks, computeParkFactors } from '../db/queries/parks.js';
+import {
+  getIngestionBatches,
+  findIngestionBatch,
+  rollbackIngestedYear,
+  purgeOrphanedStaging,
+} from '../db/queries/ingestion.js';
+import type { IngestionBatch } from '../types/database.js';
+
+const BATCH_STATUSES: IngestionBatch['status'][] = ['pending', 'in_progress', 'completed', 'failed', 'rolled_back'];
+
+function formatSeconds(seconds: number | null): string {
+  if (seconds === null) return '-';
+  if (seconds < 60) return `${seconds.toFixed(1)}s`;
+  return `${Math.floor(seconds / 60)}m ${Math.round(seconds % 60)}s`;
+}
+
+function colorStatus(status: IngestionBatch['status']): string {
+  if (status === 'completed') return chalk.green(status);
+  if (status === 'failed') return chalk.red(status);
+  if (status === 'in_progress') return chalk.yellow(status);
+  return chalk.gray(status);
+}
 
 export const ingestCommand = new Command('ingest')
   .description('Ingest Retrosheet data from retrosplits repository')
-  .requiredOption('-y, --years <years>', 'Years to ingest (e.g., "2023", "2020-2023", "2020,2021,2022")')
-  .option('-f, --force', 'Force re-ingestion even if data exists', false)
+  .option('-y, --years <years>', 'Years to ingest (e.g., "2023", "2020-2023", "2020,2021,2022")')
+  .option('-f, --force', 'Force re-download and re-ingestion even if data exists', false)
   .option('--skip-download', 'Skip download, use existing local files', false)
   .option('--migrate', 'Run database migrations before ingesting', false)
   .action(async (options) => {
@@ -24,6 +51,10 @@ export const ingestCommand = new Command('ingest')
         spinner.succeed('Migrations complete');
       }
 
+      if (!options.years) {
+        throw new Error('Must specify --years (or a subcommand: status, rollback, purge)');
+      }
+
       // Parse years
       const years = parseYearRange(options.years);
       if (years.length === 0) {
@@ -49,11 +80,33 @@ export const ingestCommand = new Command('ingest')
       console.log(`  Skipped: ${skipped.length}`);
       console.log(`  Failed: ${failed.length}`);
 
+      const changed = successful.filter((r) => r.sourceChanged);
+      if (changed.length > 0) {
+        console.log(chalk.yellow(`  Re-ingested (changed upstream): ${changed.map((r) => r.year).join(', ')}`));
+      }
+
       if (successful.length > 0) {
         const totalBatting = successful.reduce((sum, r) => sum + (r.battingRows ?? 0), 0);
         const totalPitching = successful.reduce((sum, r) => sum + (r.pitchingRows ?? 0), 0);
+        const totalFielding = successful.reduce((sum, r) => sum + (r.fieldingRows ?? 0), 0);
         console.log(`  Total batting rows: ${totalBatting.toLocaleString()}`);
         console.log(`  Total pitching rows: ${totalPitching.toLocaleString()}`);
+        console.log(`  Total fielding rows: ${totalFielding.toLocaleString()}`);
+
+        const totalIssues = successful.reduce((sum, r) => sum + (r.dataQuality?.issues ?? 0), 0);
+        const issueLabel = `  Data quality issues: ${totalIssues.toLocaleString()}`;
+        console.log(totalIssues > 0 ? chalk.yellow(`${issueLabel} (see validate)`) : issueLabel);
+
+        // Games without a type drop out of --game-type filters and roto standings
+        for (const r of successful) {
+          const transforms = [r.battingTransform, r.pitchingTransform, r.fieldingTransform];
+          const codes = new Set(transforms.flatMap((t) => Object.keys(t?.unknownGameTypes ?? {})));
+          if (codes.size > 0) {
+            console.log(
+              chalk.yellow(`  Unknown game types in ${r.year}: ${[...codes].join(', ')}`)
+            );
+          }
+        }
       }
 
       if (failed.length > 0) {
@@ -73,8 +126,147 @@ export const ingestCommand = new Command('ingest')
     }
   });
 
+ingestCommand
+  .command('status')
+  .description('List ingestion batches with row counts and timings')
+  .argument('[years]', 'Only batches for these years (e.g., "2023", "2020-2023")')
+  .option('--status <status>', `Only batches with this status (${BATCH_STATUSES.join(', ')})`)
+  .option('-l, --limit <n>', 'Number of batches to show', '50')
+  .option('--format <format>', 'Output format: table, json', 'table')
+  .action(async (yearsArg: string | undefined, options) => {
+    const sql = getSql();
+
+    try {
+      const years = yearsArg ? parseYearRange(yearsArg) : undefined;
+      if (years && years.length === 0) {
+        throw new Error(`Invalid years: ${yearsArg}`);
+      }
+      if (options.status && !BATCH_STATUSES.includes(options.status)) {
+        throw new Error(`Unknown status: ${options.status} (expected one of ${BATCH_STATUSES.join(', ')})`);
+      }
+      const limit = parseInt(options.limit, 10);
+      if (isNaN(limit) || limit < 1) {
+        throw new Error(`Invalid --limit: ${options.limit}`);
+      }
+
+      const batches = await getIngestionBatches(sql, { years, status: options.status, limit });
+
+      if (options.format === 'json') {
+        console.log(JSON.stringify(batches, null, 2));
+        return;
+      }
+      if (batches.length === 0) {
+        console.log(chalk.yellow('No ingestion batches found'));
+        return;
+      }
+
+      const table = new Table({
+        head: ['Batch', 'Year', 'Type', 'File', 'Status', 'Rows', 'Processed', 'Staged', 'Started', 'Duration'],
+      });
+      for (const b of batches) {
+        table.push([
+          b.batch_id.slice(0, 8),
+          b.year,
+          b.source_type,
+          b.source_file,
+          colorStatus(b.status),
+          b.total_rows?.toLocaleString() ?? '-',
+          b.processed_rows.toLocaleString(),
+          b.staged_rows > 0 ? chalk.yellow(b.staged_rows.toLocaleString()) : '0',
+          b.started_at.toISOString().slice(0, 19).replace('T', ' '),
+          formatSeconds(b.duration_seconds),
+        ]);
+      }
+      console.log(table.toString());
+
+      for (const b of batches.filter((b) => b.error_message)) {
+        console.log(chalk.red(`  ${b.batch_id.slice(0, 8)}: ${b.error_message}`));
+      }
+    } catch (error) {
+      console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+      process.exit(1);
+    } finally {
+      await closeSql();
+    }
+  });
+
+ingestCommand
+  .command('rollback')
+  .description("Remove a year's games, stats and fantasy points so it can be ingested again")
+  .argument('<target>', 'Year (e.g., 2023) or ingestion batch ID (or its first characters, as in status)')
+  .action(async (target: string) => {
+    const sql = getSql();
+    const spinner = ora();
+
+    try {
+      let year: number;
+      if (/^\d{4}$/.test(target)) {
+        year = parseInt(target, 10);
+      } else {
+        const batch = await findIngestionBatch(sql, target);
+        if (!batch) {
+          throw new Error(`Ingestion batch not found: ${target}`);
+        }
+        year = batch.year;
+      }
+
+      spinner.start(`Rolling back ${year}...`);
+      const result = await transaction(sql, (tx) => rollbackIngestedYear(tx, year));
+      spinner.succeed(`Rolled back ${year}`);
+
+      console.log(`  Games: ${result.games.toLocaleString()}`);
+      console.log(`  Batting lines: ${result.battingLines.toLocaleString()}`);
+      console.log(`  Pitching lines: ${result.pitchingLines.toLocaleString()}`);
+      console.log(`  Fielding lines: ${result.fieldingLines.toLocaleString()}`);
+      console.log(`  Plate appearance events: ${result.events.toLocaleString()}`);
+      console.log(`  Fantasy points: ${result.fantasyPoints.toLocaleString()}`);
+      console.log(`  Batches rolled back: ${result.batches}`);
+    } catch (error) {
+      spinner.fail('Rollback failed');
+      console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+      process.exit(1);
+    } finally {
+      await closeSql();
+    }
+  });
+
+ingestCommand
+  .command('purge')
+  .description('Delete staging rows left behind by failed or interrupted ingestions')
+  .option('--stale-hours <n>', 'Treat batches in progress for longer than this as abandoned', '24')
+  .action(async (options) => {
+    const sql = getSql();
+    const spinner = ora();
+
+    try {
+      const staleHours = parseInt(options.staleHours, 10);
+      if (isNaN(staleHours) || staleHours < 0) {
+        throw new Error(`Invalid --stale-hours: ${options.staleHours}`);
+      }
+
+      spinner.start('Purging orphaned staging rows...');
+      const result = await transaction(sql, (tx) => purgeOrphanedStaging(tx, { staleHours }));
+      const rows = result.battingRows + result.pitchingRows + result.fieldingRows;
+      spinner.succeed(`Purged ${rows.toLocaleString()} staging rows`);
+
+      console.log(`  Batting: ${result.battingRows.toLocaleString()}`);
+      console.log(`  Pitching: ${result.pitchingRows.toLocaleString()}`);
+      console.log(`  Fielding: ${result.fieldingRows.toLocaleString()}`);
+      if (result.abandonedBatches > 0) {
+        console.log(chalk.yellow(`  Abandoned batches marked failed: ${result.abandonedBatches}`));
+      }
+    } catch (error) {
+      spinner.fail('Purge failed');
+      console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+      process.exit(1);
+    } finally {
+      await closeSql();
+    }
+  });
+
 export const syncPlayersCommand = new Command('sync-players')
-  .description('Sync player names from the Chadwick register')
+  .description('Sync player biographies and external IDs from the Chadwick register')
+  .option('-f, --force', 'Re-sync players that were already synced', false)
   .option('--migrate', 'Run database migrations before syncing', false)
   .action(async (options) => {
     const sql = getSql();
@@ -87,9 +279,10 @@ export const syncPlayersCommand = new Command('sync-players')
         spinner.succeed('Migrations complete');
       }
 
-      spinner.start('Syncing player names from Chadwick register...');
-      const result = await syncPlayerNames(sql);
-      spinner.succeed(`Synced ${result.updated} player names`);
+      spinner.start('Syncing players from Chadwick register...');
+      const result = await syncPlayerRegister(sql, { force: options.force });
+      spinner.succeed(`Synced ${result.updated} players`);
+      console.log(`  Stat lines with updated ages: ${result.agesUpdated.toLocaleString()}`);
 
       if (result.total > result.updated) {
         console.log(
@@ -104,3 +297,196 @@ export const syncPlayersCommand = new Command('sync-players')
       await closeSql();
     }
   });
+
+export const syncTeamsCommand = new Command('sync-teams')
+  .description('Load franchises and team names by season from the bundled team file')
+  .option('--migrate', 'Run database migrations before syncing', false)
+  .action(async (options) => {
+    const sql = getSql();
+    const spinner = ora();
+
+    try {
+      if (options.migrate) {
+        spinner.start('Running database migrations...');
+        await runMigrations(sql);
+        spinner.succeed('Migrations complete');
+      }
+
+      spinner.start('Loading team names...');
+      const names = await loadBundledTeamNames();
+      const franchises = toFranchises(names);
+      await transaction(sql, (tx) => replaceTeamNames(tx, franchises, names));
+      spinner.succeed(`Loaded ${franchises.length} franchises and ${names.length} team names`);
+    } catch (error) {
+      spinner.fail('Team sync failed');
+      console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+      process.exit(1);
+    } finally {
+      await closeSql();
+    }
+  });
+
+export const syncParksCommand = new Command('sync-parks')
+  .description('Load ballpark names, cities and years in use by Retrosheet site code')
+  .option('--file <path>', "Load Retrosheet's full ballparks file instead of the bundled parks")
+  .option('--migrate', 'Run database migrations before syncing', false)
+  .action(async (options) => {
+    const sql = getSql();
+    const spinner = ora();
+
+    try {
+      if (options.migrate) {
+        spinner.start('Running database migrations...');
+        await runMigrations(sql);
+        spinner.succeed('Migrations complete');
+      }
+
+      spinner.start('Loading parks...');
+      const parks = options.file ? await loadParksFile(options.file) : await loadBundledParks();
+      await upsertParks(sql, parks);
+      spinner.succeed(`Loaded ${parks.length} parks`);
+    } catch (error) {
+      spinner.fail('Park sync failed');
+      console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+      process.exit(1);
+    } finally {
+      await closeSql();
+    }
+  });
+
+export const parkFactorsCommand = new Command('park-factors')
+  .description('Compute run and home run park factors from ingested batting lines')
+  .requiredOption('-y, --years <years>', 'Years to compute (e.g., "2023", "2020-2023")')
+  .option('--min-games <n>', 'Minimum games at a site for it to get a factor', '10')
+  .action(async (options) => {
+    const sql = getSql();
+    const spinner = ora();
+
+    try {
+      const years = parseYearRange(options.years);
+      if (years.length === 0) {
+        throw new Error(`Invalid --years: ${options.years}`);
+      }
+      const minGames = parseInt(options.minGames, 10);
+      if (isNaN(minGames) || minGames < 1) {
+        throw new Error(`Invalid --min-games: ${options.minGames}`);
+      }
+
+      for (const year of years) {
+        spinner.start(`Computing ${year} park factors...`);
+        const sites = await transaction(sql, (tx) => computeParkFactors(tx, year, { minGames }));
+        spinner.succeed(`${year}: ${sites} sites`);
+      }
+    } catch (error) {
+      spinner.fail('Park factor computation failed');
+      console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+      process.exit(1);
+    } finally {
+      await closeSql();
+    }
+  });
+
+export const ingestEventsCommand = new Command('ingest-events')
+  .description('Ingest Retrosheet play-by-play event files (.EVA/.EVN) from a local directory')
+  .argument('<dir>', 'Directory containing event files (e.g. an unzipped 2023eve.zip)')
+  .option('-y, --years <years>', 'Only ingest files for these years (e.g., "2023", "2020-2023")')
+  .option('-f, --force', 'Re-ingest files that were already ingested', false)
+  .option('--migrate', 'Run database migrations before ingesting', false)
+  .action(async (dir: string, options) => {
+    const sql = getSql();
+    const spinner = ora();
+
+    try {
+      if (options.migrate) {
+        spinner.start('Running database migrations...');
+        await runMigrations(sql);
+        spinner.succeed('Migrations complete');
+      }
+
+      const years = options.years ? parseYearRange(options.years) : undefined;
+      if (years && years.length === 0) {
+        console.error(chalk.red('No valid years specified'));
+        process.exit(1);
+      }
+
+      const results = await ingestEventFiles(sql, dir, { force: options.force, years });
+      const successful = results.filter((r) => !r.error && !r.skipped);
+      const failed = results.filter((r) => r.error);
+
+      console.log(chalk.green('\nEvent ingestion summary:'));
+      console.log(`  Files ingested: ${successful.length}`);
+      console.log(`  Skipped: ${results.filter((r) => r.skipped).length}`);
+      console.log(`  Failed: ${failed.length}`);
+      console.log(`  Games: ${successful.reduce((sum, r) => sum + (r.games ?? 0), 0).toLocaleString()}`);
+      console.log(
+        `  Plate appearances: ${successful.reduce((sum, r) => sum + (r.plateAppearances ?? 0), 0).toLocaleString()}`
+      );
+
+      if (results.length === 0) {
+        console.log(chalk.yellow(`No .EVA/.EVN files found in ${dir}`));
+      }
+      if (failed.length > 0) {
+        console.log(chalk.red('\nFailed files:'));
+        for (const f of failed) {
+          console.log(`  ${f.file}: ${f.error}`);
+        }
+      }
+    } catch (error) {
+      spinner.fail('Event ingestion failed');
+      console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+      process.exit(1);
+    } finally {
+      await closeSql();
+    }
+  });
+
+export const ingestGameLogsCommand = new Command('ingest-gamelogs')
+  .description('Ingest Retrosheet game logs (gl*.txt) from a local directory into games')
+  .argument('<dir>', 'Directory containing game log files (e.g. an unzipped gl2023.zip)')
+  .option('-y, --years <years>', 'Only ingest games from these years (e.g., "2023", "2020-2023")')
+  .option('-f, --force', 'Re-ingest files that were already ingested', false)
+  .option('--migrate', 'Run database migrations before ingesting', false)
+  .action(async (dir: string, options) => {
+    const sql = getSql();
+    const spinner = ora();
+
+    try {
+      if (options.migrate) {
+        spinner.start('Running database migrations...');
+        await runMigrations(sql);
+        spinner.succeed('Migrations complete');
+      }
+
+      const years = options.years ? parseYearRange(options.years) : undefined;
+      if (years && years.length === 0) {
+        console.error(chalk.red('No valid years specified'));
+        process.exit(1);
+      }
+
+      const results = await ingestGameLogs(sql, dir, { force: options.force, years });
+      const successful = results.filter((r) => !r.error && !r.skipped);
+      const failed = results.filter((r) => r.error);
+
+      console.log(chalk.green('\nGame log ingestion summary:'));
+      console.log(`  Files ingested: ${successful.length}`);
+      console.log(`  Skipped: ${results.filter((r) => r.skipped).length}`);
+      console.log(`  Failed: ${failed.length}`);
+      console.log(`  Games: ${successful.reduce((sum, r) => sum + (r.games ?? 0), 0).toLocaleString()}`);
+
+      if (results.length === 0) {
+        console.log(chalk.yellow(`No gl*.txt files found in ${dir}`));
+      }
+      if (failed.length > 0) {
+        console.log(chalk.red('\nFailed files:'));
+        for (const f of failed) {
+          console.log(`  ${f.file}: ${f.error}`);
+        }
+      }
+    } catch (error) {
+      spinner.fail('Game log ingestion failed');
+      console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+      process.exit(1);
+    } finally {
+      await closeSql();
+    }
+  });
@@ -0,0 +1,279 @@
+import { Command } from 'commander';
+import { createInterface } from 'readline/promises';
+import chalk from 'chalk';
+import Table from 'cli-table3';
+import { getSql, closeSql } from '../db/client.js';
+import {
+  getLeague,
+  getAllLeagues,
+  upsertLeague,
+  assignPlayers,
+  dropPlayers,
+  deleteLeague,
+  getRotoStandings,
+} from '../db/queries/leagues.js';
+import { RotoLeagueSchema, type RotoLeague } from '../types/roto.js';
+import { readRulesetFile } from '../scoring/ruleset-file.js';
+import { formatCategoryValue } from '../scoring/roto.js';
+
+/**
+ * Read a league file (JSON or YAML, like ruleset files) and validate it
+ */
+async function loadLeagueFile(filePath: string): Promise<RotoLeague> {
+  const data = await readRulesetFile(filePath);
+  const parsed = RotoLeagueSchema.safeParse(data);
+
+  if (!parsed.success) {
+    const details = parsed.error.issues
+      .map((issue) => `  - ${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('\n');
+    throw new Error(`${filePath} is not a valid league:\n${details}`);
+  }
+
+  return parsed.data;
+}
+
+/**
+ * Ask a yes/no question on the terminal
+ */
+async function confirm(question: string): Promise<boolean> {
+  const rl = createInterface({ input: process.stdin, output: process.stdout });
+  try {
+    const answer = await rl.question(`${question} (y/N) `);
+    return /^y(es)?$/i.test(answer.trim());
+  } finally {
+    rl.close();
+  }
+}
+
+const importCommand = new Command('import')
+  .description('Create a roto league with its categories, teams and rosters from a file')
+  .argument('<file>', 'Path to a league JSON or YAML file')
+  .option('-f, --force', 'Replace an existing league with the same ID and its rosters', false)
+  .action(async (file: string, options) => {
+    const sql = getSql();
+
+    try {
+      const league = await loadLeagueFile(file);
+
+      const existing = await getLeague(sql, league.id);
+      if (existing && !options.force) {
+        console.error(chalk.red(`League ${league.id} already exists (use --force to replace it)`));
+        process.exit(1);
+      }
+
+      await upsertLeague(sql, league);
+      const players = league.teams.reduce((count, team) => count + team.players.length, 0);
+      const action = existing ? 'Replaced' : 'Imported';
+      console.log(
+        chalk.green(
+          `${action} league: ${league.id} (${league.name}, ${league.season}) ` +
+            `with ${league.teams.length} teams and ${players} players`
+        )
+      );
+    } catch (error) {
+      console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+      process.exit(1);
+    } finally {
+      await closeSql();
+    }
+  });
+
+const listCommand = new Command('list')
+  .description('List roto leagues')
+  .action(async () => {
+    const sql = getSql();
+
+    try {
+      const leagues = await getAllLeagues(sql);
+      if (leagues.length === 0) {
+        console.log(chalk.yellow('No leagues found (try: league import <file>)'));
+        return;
+      }
+
+      const table = new Table({
+        head: ['ID', 'Name', 'Season', 'Teams', 'Players'],
+        colWidths: [20, 30, 8, 8, 9],
+      });
+      for (const l of leagues) {
+        table.push([l.league_id, l.name, l.season, l.teams, l.players]);
+      }
+
+      console.log(table.toString());
+    } catch (error) {
+      console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+      process.exit(1);
+    } finally {
+      await closeSql();
+    }
+  });
+
+const showCommand = new Command('show')
+  .description('Show the categories, teams and rosters of a league')
+  .argument('<id>', 'League ID')
+  .action(async (id: string) => {
+    const sql = getSql();
+
+    try {
+      const league = await getLeague(sql, id);
+      if (!league) {
+        console.error(chalk.red(`League not found: ${id}`));
+        process.exit(1);
+      }
+
+      console.log(chalk.blue(`\n${league.name} (${league.id}), ${league.season} season`));
+
+      const categories = new Table({ head: ['Category', 'Stat Type', 'Value', 'Best'] });
+      for (const c of league.categories) {
+        const value = c.per ? `(${c.sum}) / (${c.per})` : c.sum;
+        categories.push([c.name, c.section, value, c.order === 'asc' ? 'lowest' : 'highest']);
+      }
+      console.log(categories.toString());
+      if (league.tiebreakers.length > 0) {
+        console.log(`Tiebreakers: ${league.tiebreakers.join(', ')}, then head-to-head categories`);
+      }
+
+      const teams = new Table({
+        head: ['Team', 'Name', 'Players'],
+        colWidths: [16, 26, 60],
+        wordWrap: true,
+      });
+      for (const team of league.teams) {
+        teams.push([team.id, team.name, team.players.join(', ') || '-']);
+      }
+      console.log(teams.toString());
+    } catch (error) {
+      console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+      process.exit(1);
+    } finally {
+      await closeSql();
+    }
+  });
+
+const assignCommand = new Command('assign')
+  .description('Put players on a team, moving them off any other team of the league')
+  .argument('<id>', 'League ID')
+  .argument('<team>', 'Team ID')
+  .argument('<players...>', 'Player IDs (e.g. troutmi01)')
+  .action(async (id: string, team: string, players: string[]) => {
+    const sql = getSql();
+
+    try {
+      const changed = await assignPlayers(sql, id, team, players);
+      console.log(chalk.green(`Assigned ${changed} of ${players.length} players to ${team}`));
+    } catch (error) {
+      console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+      process.exit(1);
+    } finally {
+      await closeSql();
+    }
+  });
+
+const dropCommand = new Command('drop')
+  .description('Remove players from their team')
+  .argument('<id>', 'League ID')
+  .argument('<players...>', 'Player IDs')
+  .action(async (id: string, players: string[]) => {
+    const sql = getSql();
+
+    try {
+      const dropped = await dropPlayers(sql, id, players);
+      console.log(chalk.green(`Dropped ${dropped} of ${players.length} players`));
+    } catch (error) {
+      console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+      process.exit(1);
+    } finally {
+      await closeSql();
+    }
+  });
+
+const standingsCommand = new Command('standings')
+  .description('Compute roto standings from the season stats of each roster')
+  .argument('<id>', 'League ID')
+  .option('-f, --format <format>', 'Output format: table, json', 'table')
+  .action(async (id: string, options) => {
+    const sql = getSql();
+
+    try {
+      const league = await getLeague(sql, id);
+      if (!league) {
+        console.error(chalk.red(`League not found: ${id}`));
+        process.exit(1);
+      }
+
+      const standings = await getRotoStandings(sql, league);
+      if (options.format === 'json') {
+        console.log(JSON.stringify(standings, null, 2));
+        return;
+      }
+
+      console.log(chalk.blue(`\n${league.name} standings, ${league.season} season`));
+      // Each category shows the team's value and the points it earned
+      const table = new Table({
+        head: ['Rank', 'Team', ...standings.categories, 'Points', 'Tiebreak'],
+      });
+      for (const team of standings.teams) {
+        table.push([
+          team.rank,
+          team.teamName,
+          ...team.categories.map((result, index) => {
+            const value = formatCategoryValue(league.categories[index]!, result.value);
+            return `${value} (${result.points})`;
+          }),
+          team.points,
+          team.tiebreak ?? '',
+        ]);
+      }
+
+      console.log(table.toString());
+    } catch (error) {
+      console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+      process.exit(1);
+    } finally {
+      await closeSql();
+    }
+  });
+
+const deleteCommand = new Command('delete')
+  .description('Delete a league with its teams and rosters')
+  .argument('<id>', 'League ID')
+  .option('-y, --yes', 'Skip the confirmation prompt', false)
+  .action(async (id: string, options) => {
+    const sql = getSql();
+
+    try {
+      const league = await getLeague(sql, id);
+      if (!league) {
+        console.error(chalk.red(`League not found: ${id}`));
+        process.exit(1);
+      }
+
+      if (!options.yes) {
+        const confirmed = await confirm(
+          `Delete league ${id} (${league.name}) and its ${league.teams.length} teams?`
+        );
+        if (!confirmed) {
+          console.log('Aborted');
+          return;
+        }
+      }
+
+      await deleteLeague(sql, id);
+      console.log(chalk.green(`Deleted league ${id}`));
+    } catch (error) {
+      console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+      process.exit(1);
+    } finally {
+      await closeSql();
+    }
+  });
+
+export const leagueCommand = new Command('league')
+  .description('Manage rotisserie category leagues and their standings')
+  .addCommand(importCommand)
+  .addCommand(listCommand)
+  .addCommand(showCommand)
+  .addCommand(assignCommand)
+  .addCommand(dropCommand)
+  .addCommand(standingsCommand)
+  .addCommand(deleteCommand);
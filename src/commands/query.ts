@@ -9,11 +9,48 @@ import {
   getRuleset,
 } from '../db/queries/fantasy.js';
 import { getBatterStatsByPlayer, getPitcherStatsByPlayer } from '../db/queries/stats.js';
+import { getParkFactors } from '../db/queries/parks.js';
+import {
+  getWhatIfLeaderboard,
+  getWhatIfTopBatting,
+  getWhatIfTopPitching,
+  type PerformanceDateFilter,
+} from '../db/queries/what-if.js';
+import { formatRulesetRef } from '../scoring/ruleset-ref.js';
+import { loadRulesetFile } from '../scoring/ruleset-file.js';
+import { assertValidRuleset } from '../scoring/validation.js';
+import { formatIP } from '../scoring/stats.js';
+import type { FantasyRuleset } from '../types/fantasy.js';
+import { GAME_TYPE_FILTERS, parseGameTypeFilter } from '../ingest/game-types.js';
+
+/**
+ * Load the unsaved ruleset given by --ruleset-file, or null when a stored --ruleset is used
+ */
+async function loadWhatIfRuleset(options: {
+  ruleset?: string;
+  rulesetFile?: string;
+}): Promise<FantasyRuleset | null> {
+  if (options.ruleset && options.rulesetFile) {
+    throw new Error('Use either --ruleset or --ruleset-file, not both');
+  }
+  if (!options.rulesetFile) {
+    if (!options.ruleset) {
+      throw new Error('Either --ruleset or --ruleset-file is required');
+    }
+    return null;
+  }
+
+  const ruleset = await loadRulesetFile(options.rulesetFile);
+  assertValidRuleset(ruleset);
+  return ruleset;
+}
+
+const GAME_TYPE_HELP = `Filter by game type: all, ${Object.keys(GAME_TYPE_FILTERS).join(', ')}`;
 
 const playerCommand = new Command('player')
   .description('Get player fantasy stats and game log')
   .requiredOption('-p, --player <id>', 'Player ID')
-  .requiredOption('-r, --ruleset <id>', 'Ruleset ID')
+  .requiredOption('-r, --ruleset <id>', 'Ruleset ID, optionally pinned to a version (e.g. standard@v3)')
   .option('-y, --year <year>', 'Filter by year')
   .option('-f, --format <format>', 'Output format: table, json', 'table')
   .action(async (options) => {
@@ -73,7 +110,7 @@ const playerCommand = new Command('player')
 const gameCommand = new Command('game')
   .description('Get fantasy points for a specific game')
   .requiredOption('-g, --game <id>', 'Game ID')
-  .requiredOption('-r, --ruleset <id>', 'Ruleset ID')
+  .requiredOption('-r, --ruleset <id>', 'Ruleset ID, optionally pinned to a version (e.g. standard@v3)')
   .option('-f, --format <format>', 'Output format: table, json', 'table')
   .action(async (options) => {
     const sql = getSql();
@@ -135,20 +172,35 @@ const gameCommand = new Command('game')
 
 const leadersCommand = new Command('leaders')
   .description('Get fantasy point leaders')
-  .requiredOption('-r, --ruleset <id>', 'Ruleset ID')
+  .option('-r, --ruleset <id>', 'Ruleset ID, optionally pinned to a version (e.g. standard@v3)')
+  .option('--ruleset-file <path>', 'Score an unsaved JSON/YAML ruleset on the fly (nothing is written)')
   .option('-y, --year <year>', 'Filter by year')
   .option('-t, --type <type>', 'Filter by stat type: batting or pitching')
+  .option('--franchise <id>', 'Only count points earned for a franchise (e.g. WAS includes MON)')
+  .option('-g, --game-type <type>', GAME_TYPE_HELP)
   .option('-n, --limit <n>', 'Number of results', '25')
   .option('-f, --format <format>', 'Output format: table, json', 'table')
   .action(async (options) => {
     const sql = getSql();
 
     try {
-      const leaders = await getFantasyLeaderboard(sql, options.ruleset, {
+      const whatIf = await loadWhatIfRuleset(options);
+      if (whatIf && options.franchise) {
+        throw new Error('--franchise cannot be combined with --ruleset-file');
+      }
+
+      const leaderboardOptions = {
         year: options.year ? parseInt(options.year, 10) : undefined,
         statType: options.type as 'batting' | 'pitching' | undefined,
+        gameTypes: parseGameTypeFilter(options.gameType),
         limit: parseInt(options.limit, 10),
-      });
+      };
+      const leaders = whatIf
+        ? await getWhatIfLeaderboard(sql, whatIf, leaderboardOptions)
+        : await getFantasyLeaderboard(sql, options.ruleset, {
+            ...leaderboardOptions,
+            franchise: options.franchise,
+          });
 
       if (leaders.length === 0) {
         console.log(chalk.yellow('No leaders found'));
@@ -160,11 +212,22 @@ const leadersCommand = new Command('leaders')
         return;
       }
 
-      const ruleset = await getRuleset(sql, options.ruleset);
+      const ruleset = whatIf ?? (await getRuleset(sql, options.ruleset));
+
+      let rulesetLabel: string;
+      if (whatIf) {
+        rulesetLabel = `${whatIf.name} (what-if: ${options.rulesetFile})`;
+      } else {
+        rulesetLabel = ruleset
+          ? `${ruleset.name} (${formatRulesetRef(ruleset.id, ruleset.version)})`
+          : options.ruleset;
+      }
 
-      console.log(chalk.blue(`\nFantasy Leaders - ${ruleset?.name ?? options.ruleset}`));
+      console.log(chalk.blue(`\nFantasy Leaders - ${rulesetLabel}`));
       if (options.year) console.log(`Year: ${options.year}`);
       if (options.type) console.log(`Type: ${options.type}`);
+      if (options.franchise) console.log(`Franchise: ${options.franchise}`);
+      if (options.gameType) console.log(`Games: ${options.gameType}`);
 
       const table = new Table({
         head: ['Rank', 'Player', 'Games', 'Total Pts', 'Avg Pts'],
@@ -275,7 +338,7 @@ const statsCommand = new Command('stats')
             lost: boolean;
             saved: boolean;
           };
-          const ip = (ps.outs_pitched / 3).toFixed(1);
+          const ip = formatIP(ps.outs_pitched);
           table.push([
             ps.game_id.slice(0, 14),
             ip,
@@ -301,15 +364,6 @@ const statsCommand = new Command('stats')
     }
   });
 
-/**
- * Format innings pitched from outs (e.g., 20 outs -> "6.2")
- */
-function formatIP(outs: number): string {
-  const fullInnings = Math.floor(outs / 3);
-  const remainder = outs % 3;
-  return `${fullInnings}.${remainder}`;
-}
-
 /**
  * Build a human-readable batting stat line
  */
@@ -384,7 +438,8 @@ function formatPitchingLine(stats: {
 
 const topCommand = new Command('top')
   .description('Get top fantasy performances for a date or date range')
-  .requiredOption('-r, --ruleset <id>', 'Ruleset ID')
+  .option('-r, --ruleset <id>', 'Ruleset ID, optionally pinned to a version (e.g. standard@v3)')
+  .option('--ruleset-file <path>', 'Score an unsaved JSON/YAML ruleset on the fly (nothing is written)')
   .option('-d, --date <date>', 'Specific date (YYYY-MM-DD)')
   .option('--start <date>', 'Start date for range (YYYY-MM-DD)')
   .option('--end <date>', 'End date for range (YYYY-MM-DD)')
@@ -392,6 +447,7 @@ const topCommand = new Command('top')
   .option('--year-start <year>', 'Lower bound year for --month-day queries (e.g., 2000)')
   .option('--year-end <year>', 'Upper bound year for --month-day queries (e.g., 2025)')
   .option('-t, --type <type>', 'Filter by stat type: batting, pitching, or both', 'both')
+  .option('-g, --game-type <type>', GAME_TYPE_HELP)
   .option('-n, --limit <n>', 'Number of results', '10')
   .option('-f, --format <format>', 'Output format: table, json', 'table')
   .action(async (options) => {
@@ -452,7 +508,23 @@ const topCommand = new Command('top')
         process.exit(1);
       }
 
+      const whatIf = await loadWhatIfRuleset(options);
+      const ruleset = whatIf ?? (await getRuleset(sql, options.ruleset));
+      if (!ruleset) {
+        console.error(chalk.red(`Ruleset not found: ${options.ruleset}`));
+        process.exit(1);
+      }
+
+      const dateFilter: PerformanceDateFilter = monthDay
+        ? { ...monthDay, yearStart, yearEnd }
+        : { startDate: startDate!, endDate: endDate! };
+
       const limit = parseInt(options.limit, 10);
+      const gameTypes = parseGameTypeFilter(options.gameType);
+      const gameTypeFilter = () =>
+        gameTypes
+          ? sql`AND fgp.game_id IN (SELECT game_id FROM games WHERE game_type = ANY(${gameTypes}::varchar[]))`
+          : sql``;
       const showBatting = options.type === 'both' || options.type === 'batting';
       const showPitching = options.type === 'both' || options.type === 'pitching';
 
@@ -498,7 +570,9 @@ const topCommand = new Command('top')
       // Query top batting performances with raw stats
       let battingResults: BattingPerformance[] = [];
       if (showBatting) {
-        if (monthDay) {
+        if (whatIf) {
+          battingResults = await getWhatIfTopBatting(sql, whatIf, dateFilter, limit, gameTypes);
+        } else if (monthDay) {
           battingResults = await sql<BattingPerformance[]>`
             SELECT
               fgp.player_id,
@@ -519,10 +593,12 @@ const topCommand = new Command('top')
             FROM fantasy_game_points fgp
             JOIN batter_game_stats bgs ON fgp.game_id = bgs.game_id AND fgp.player_id = bgs.player_id
             LEFT JOIN players p ON fgp.player_id = p.player_id
-            WHERE fgp.ruleset_id = ${options.ruleset}
+            WHERE fgp.ruleset_id = ${ruleset.id}
+              AND fgp.ruleset_version = ${ruleset.version!}
               AND EXTRACT(MONTH FROM fgp.game_date) = ${monthDay.month}
               AND EXTRACT(DAY FROM fgp.game_date) = ${monthDay.day}
               AND fgp.stat_type = 'batting'
+              ${gameTypeFilter()}
               ${yearStart !== null ? sql`AND EXTRACT(YEAR FROM fgp.game_date) >= ${yearStart}` : sql``}
               ${yearEnd !== null ? sql`AND EXTRACT(YEAR FROM fgp.game_date) <= ${yearEnd}` : sql``}
             ORDER BY fgp.total_points DESC
@@ -549,10 +625,12 @@ const topCommand = new Command('top')
             FROM fantasy_game_points fgp
             JOIN batter_game_stats bgs ON fgp.game_id = bgs.game_id AND fgp.player_id = bgs.player_id
             LEFT JOIN players p ON fgp.player_id = p.player_id
-            WHERE fgp.ruleset_id = ${options.ruleset}
+            WHERE fgp.ruleset_id = ${ruleset.id}
+              AND fgp.ruleset_version = ${ruleset.version!}
               AND fgp.game_date >= ${startDate}::date
               AND fgp.game_date <= ${endDate}::date
               AND fgp.stat_type = 'batting'
+              ${gameTypeFilter()}
             ORDER BY fgp.total_points DESC
             LIMIT ${limit}
           `;
@@ -562,7 +640,9 @@ const topCommand = new Command('top')
       // Query top pitching performances with raw stats
       let pitchingResults: PitchingPerformance[] = [];
       if (showPitching) {
-        if (monthDay) {
+        if (whatIf) {
+          pitchingResults = await getWhatIfTopPitching(sql, whatIf, dateFilter, limit, gameTypes);
+        } else if (monthDay) {
           pitchingResults = await sql<PitchingPerformance[]>`
             SELECT
               fgp.player_id,
@@ -584,10 +664,12 @@ const topCommand = new Command('top')
             FROM fantasy_game_points fgp
             JOIN pitcher_game_stats pgs ON fgp.game_id = pgs.game_id AND fgp.player_id = pgs.player_id
             LEFT JOIN players p ON fgp.player_id = p.player_id
-            WHERE fgp.ruleset_id = ${options.ruleset}
+            WHERE fgp.ruleset_id = ${ruleset.id}
+              AND fgp.ruleset_version = ${ruleset.version!}
               AND EXTRACT(MONTH FROM fgp.game_date) = ${monthDay.month}
               AND EXTRACT(DAY FROM fgp.game_date) = ${monthDay.day}
               AND fgp.stat_type = 'pitching'
+              ${gameTypeFilter()}
               ${yearStart !== null ? sql`AND EXTRACT(YEAR FROM fgp.game_date) >= ${yearStart}` : sql``}
               ${yearEnd !== null ? sql`AND EXTRACT(YEAR FROM fgp.game_date) <= ${yearEnd}` : sql``}
             ORDER BY fgp.total_points DESC
@@ -615,10 +697,12 @@ const topCommand = new Command('top')
             FROM fantasy_game_points fgp
             JOIN pitcher_game_stats pgs ON fgp.game_id = pgs.game_id AND fgp.player_id = pgs.player_id
             LEFT JOIN players p ON fgp.player_id = p.player_id
-            WHERE fgp.ruleset_id = ${options.ruleset}
+            WHERE fgp.ruleset_id = ${ruleset.id}
+              AND fgp.ruleset_version = ${ruleset.version!}
               AND fgp.game_date >= ${startDate}::date
               AND fgp.game_date <= ${endDate}::date
               AND fgp.stat_type = 'pitching'
+              ${gameTypeFilter()}
             ORDER BY fgp.total_points DESC
             LIMIT ${limit}
           `;
@@ -635,7 +719,6 @@ const topCommand = new Command('top')
         return;
       }
 
-      const ruleset = await getRuleset(sql, options.ruleset);
       let dateDisplay: string;
       if (monthDay) {
         const monthNames = ['', 'January', 'February', 'March', 'April', 'May', 'June',
@@ -655,8 +738,12 @@ const topCommand = new Command('top')
         dateDisplay = startDate === endDate ? startDate! : `${startDate} to ${endDate}`;
       }
 
-      console.log(chalk.blue(`\nTop Performances - ${ruleset?.name ?? options.ruleset}`));
+      const rulesetLabel = whatIf
+        ? `what-if: ${options.rulesetFile}`
+        : formatRulesetRef(ruleset.id, ruleset.version);
+      console.log(chalk.blue(`\nTop Performances - ${ruleset.name} (${rulesetLabel})`));
       console.log(`Date: ${dateDisplay}`);
+      if (options.gameType) console.log(`Games: ${options.gameType}`);
 
       // Display batting results
       if (battingResults.length > 0) {
@@ -701,10 +788,59 @@ const topCommand = new Command('top')
     }
   });
 
+const parksCommand = new Command('parks')
+  .description('Get the park factors of every site in a season')
+  .requiredOption('-y, --year <year>', 'Season')
+  .option('-f, --format <format>', 'Output format: table, json', 'table')
+  .action(async (options) => {
+    const sql = getSql();
+
+    try {
+      const year = parseInt(options.year, 10);
+      const factors = await getParkFactors(sql, year);
+
+      if (factors.length === 0) {
+        console.log(chalk.yellow(`No park factors found for ${year} (run park-factors first)`));
+        return;
+      }
+
+      if (options.format === 'json') {
+        console.log(JSON.stringify(factors, null, 2));
+        return;
+      }
+
+      console.log(chalk.blue(`\nPark Factors: ${year}`));
+      console.log(chalk.gray('1.000 is neutral; higher favors hitters\n'));
+
+      const table = new Table({
+        head: ['Site', 'Park', 'Games', 'Runs', 'HR'],
+        colWidths: [8, 36, 8, 8, 8],
+      });
+
+      for (const f of factors) {
+        table.push([
+          f.park_id,
+          f.park_name ?? chalk.gray('unknown'),
+          f.games,
+          f.run_factor.toFixed(3),
+          f.hr_factor.toFixed(3),
+        ]);
+      }
+
+      console.log(table.toString());
+    } catch (error) {
+      console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+      process.exit(1);
+    } finally {
+      await closeSql();
+    }
+  });
+
 export const queryCommand = new Command('query')
   .description('Query fantasy data')
   .addCommand(playerCommand)
   .addCommand(gameCommand)
   .addCommand(leadersCommand)
   .addCommand(statsCommand)
-  .addCommand(topCommand);
+  .addCommand(topCommand)
+  .addCommand(parksCommand);
@@ -0,0 +1,395 @@
+import { Command } from 'commander';
+import { existsSync } from 'fs';
+import { writeFile } from 'fs/promises';
+import { createInterface } from 'readline/promises';
+import chalk from 'chalk';
+import Table from 'cli-table3';
+import { getSql, closeSql, type Sql } from '../db/client.js';
+import {
+  getRuleset,
+  getAllRulesets,
+  upsertRuleset,
+  deleteRuleset,
+  getFantasyPointCounts,
+  getRulesetVersions,
+} from '../db/queries/fantasy.js';
+import { FantasyRulesetShapeSchema, type FantasyRuleset } from '../types/fantasy.js';
+import { validateRuleset, type RulesetIssue } from '../scoring/validation.js';
+import {
+  loadRulesetFile,
+  formatRuleset,
+  getRulesetFileFormat,
+  type RulesetFileFormat,
+} from '../scoring/ruleset-file.js';
+import { diffRulesets, type RulesetDiffStatus } from '../scoring/diff.js';
+import { parseRulesetRef, formatRulesetRef } from '../scoring/ruleset-ref.js';
+
+/**
+ * Print validation issues grouped by kind
+ */
+function printIssues(issues: RulesetIssue[]): void {
+  const sections: { title: string; code: RulesetIssue['code'] }[] = [
+    { title: 'Unknown stats', code: 'unknown_stat' },
+    { title: 'Invalid expressions', code: 'invalid_expression' },
+    { title: 'Invalid bonuses', code: 'invalid_bonus' },
+    { title: 'Invalid contexts', code: 'invalid_context' },
+    { title: 'Invalid policies', code: 'invalid_policy' },
+    { title: 'Unreachable bonuses', code: 'unreachable_bonus' },
+    { title: 'Duplicate rules', code: 'duplicate_rule' },
+  ];
+
+  for (const { title, code } of sections) {
+    const matching = issues.filter((i) => i.code === code);
+    if (matching.length === 0) continue;
+
+    console.log(chalk.cyan(`\n${title}:`));
+    for (const issue of matching) {
+      const line = `  ${issue.severity === 'error' ? '✖' : '⚠'} ${issue.message}`;
+      console.log(issue.severity === 'error' ? chalk.red(line) : chalk.yellow(line));
+    }
+  }
+}
+
+/**
+ * Ask a yes/no question on the terminal
+ */
+async function confirm(question: string): Promise<boolean> {
+  const rl = createInterface({ input: process.stdin, output: process.stdout });
+  try {
+    const answer = await rl.question(`${question} (y/N) `);
+    return /^y(es)?$/i.test(answer.trim());
+  } finally {
+    rl.close();
+  }
+}
+
+/**
+ * Resolve a diff argument: a ruleset file if one exists at that path, otherwise a stored ruleset ID
+ */
+async function resolveRuleset(sql: Sql, ref: string): Promise<FantasyRuleset> {
+  if (existsSync(ref)) {
+    return loadRulesetFile(ref);
+  }
+
+  const ruleset = await getRuleset(sql, ref);
+  if (!ruleset) {
+    throw new Error(`Ruleset not found: ${ref}`);
+  }
+  return ruleset;
+}
+
+const validateCommand = new Command('validate')
+  .description('Check a ruleset file for unknown stats, unreachable bonuses and duplicate rules')
+  .argument('<file>', 'Path to a ruleset JSON or YAML file')
+  .action(async (file: string) => {
+    try {
+      const ruleset = await loadRulesetFile(file);
+      const issues = validateRuleset(ruleset);
+      const errors = issues.filter((i) => i.severity === 'error');
+      const warnings = issues.filter((i) => i.severity === 'warning');
+
+      console.log(chalk.blue(`\nRuleset: ${ruleset.name} (${ruleset.id})`));
+      console.log(
+        `  ${ruleset.batting.length} batting rules, ${ruleset.pitching.length} pitching rules, ` +
+          `${ruleset.fielding?.length ?? 0} fielding rules, ${ruleset.bonuses?.length ?? 0} bonuses`
+      );
+
+      if (issues.length === 0) {
+        console.log(chalk.green('\nNo problems found'));
+        return;
+      }
+
+      printIssues(issues);
+
+      console.log(`\n${errors.length} error(s), ${warnings.length} warning(s)`);
+      if (errors.length > 0) {
+        process.exit(1);
+      }
+    } catch (error) {
+      console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+      process.exit(1);
+    }
+  });
+
+const importCommand = new Command('import')
+  .description('Import a ruleset from a JSON or YAML file')
+  .argument('<file>', 'Path to a ruleset JSON or YAML file')
+  .option('--id <id>', 'Store under a different ruleset ID')
+  .option('-f, --force', 'Save as a new version of an existing ruleset with the same ID', false)
+  .action(async (file: string, options) => {
+    const sql = getSql();
+
+    try {
+      const loaded = await loadRulesetFile(file);
+      const ruleset = options.id
+        ? FantasyRulesetShapeSchema.parse({ ...loaded, id: options.id })
+        : loaded;
+
+      const issues = validateRuleset(ruleset);
+      if (issues.some((i) => i.severity === 'error')) {
+        console.log(chalk.red(`\nRuleset ${ruleset.id} was not imported:`));
+        printIssues(issues);
+        process.exit(1);
+      }
+
+      const existing = await getRuleset(sql, ruleset.id);
+      if (existing && !options.force) {
+        console.error(
+          chalk.red(
+            `Ruleset ${ruleset.id} already exists (use --force to save it as a new version)`
+          )
+        );
+        process.exit(1);
+      }
+
+      const { version, changed } = await upsertRuleset(sql, ruleset);
+      const ref = formatRulesetRef(ruleset.id, version);
+      if (!changed) {
+        console.log(chalk.yellow(`Ruleset ${ruleset.id} is unchanged (still ${ref})`));
+      } else {
+        console.log(chalk.green(`Imported ruleset: ${ref} (${ruleset.name})`));
+      }
+
+      if (issues.length > 0) {
+        printIssues(issues);
+      }
+      if (existing && changed) {
+        console.log(
+          chalk.yellow(
+            `\nPoints for earlier versions are kept; score the new version with: score -r ${ruleset.id} -y <year>`
+          )
+        );
+      }
+    } catch (error) {
+      console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+      process.exit(1);
+    } finally {
+      await closeSql();
+    }
+  });
+
+const exportCommand = new Command('export')
+  .description('Export a stored ruleset as JSON or YAML')
+  .argument('<id>', 'Ruleset ID, optionally pinned to a version (e.g. standard@v3)')
+  .option('-o, --output <file>', 'Write to a file instead of stdout')
+  .option('--format <format>', 'Output format: json, yaml (defaults to the output file extension)')
+  .action(async (id: string, options) => {
+    const sql = getSql();
+
+    try {
+      const ruleset = await getRuleset(sql, id);
+      if (!ruleset) {
+        console.error(chalk.red(`Ruleset not found: ${id}`));
+        process.exit(1);
+      }
+
+      const format: RulesetFileFormat =
+        options.format ?? (options.output ? getRulesetFileFormat(options.output) : 'json');
+      if (format !== 'json' && format !== 'yaml') {
+        console.error(chalk.red(`Unknown format: ${format} (expected json or yaml)`));
+        process.exit(1);
+      }
+
+      const content = formatRuleset(ruleset, format);
+      if (options.output) {
+        await writeFile(options.output, content);
+        console.log(chalk.green(`Exported ${id} to ${options.output}`));
+      } else {
+        process.stdout.write(content);
+      }
+    } catch (error) {
+      console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+      process.exit(1);
+    } finally {
+      await closeSql();
+    }
+  });
+
+const listCommand = new Command('list')
+  .description('List stored rulesets')
+  .action(async () => {
+    const sql = getSql();
+
+    try {
+      const rulesets = await getAllRulesets(sql);
+      if (rulesets.length === 0) {
+        console.log(chalk.yellow('No rulesets found (try: seed, or ruleset import <file>)'));
+        return;
+      }
+
+      const pointCounts = await getFantasyPointCounts(sql);
+      const table = new Table({
+        head: ['ID', 'Version', 'Name', 'Batting', 'Pitching', 'Fielding', 'Bonuses', 'Scored'],
+        colWidths: [20, 9, 30, 10, 10, 10, 10, 12],
+      });
+
+      for (const r of rulesets) {
+        table.push([
+          r.id,
+          `v${r.version}`,
+          r.name,
+          r.batting.length,
+          r.pitching.length,
+          r.fielding?.length ?? 0,
+          r.bonuses?.length ?? 0,
+          (pointCounts.get(r.id) ?? 0).toLocaleString(),
+        ]);
+      }
+
+      console.log(table.toString());
+    } catch (error) {
+      console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+      process.exit(1);
+    } finally {
+      await closeSql();
+    }
+  });
+
+const historyCommand = new Command('history')
+  .description('List the versions of a ruleset')
+  .argument('<id>', 'Ruleset ID')
+  .action(async (id: string) => {
+    const sql = getSql();
+
+    try {
+      const versions = await getRulesetVersions(sql, id);
+      if (versions.length === 0) {
+        console.error(chalk.red(`Ruleset not found: ${id}`));
+        process.exit(1);
+      }
+
+      const table = new Table({
+        head: ['Version', 'Name', 'Created', 'Scored'],
+        colWidths: [20, 30, 22, 12],
+      });
+
+      for (const v of versions) {
+        table.push([
+          formatRulesetRef(id, v.version),
+          v.name,
+          v.created_at.toISOString().replace('T', ' ').slice(0, 19),
+          v.points.toLocaleString(),
+        ]);
+      }
+
+      console.log(table.toString());
+    } catch (error) {
+      console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+      process.exit(1);
+    } finally {
+      await closeSql();
+    }
+  });
+
+const DIFF_COLORS: Record<RulesetDiffStatus, (text: string) => string> = {
+  added: chalk.green,
+  removed: chalk.red,
+  changed: chalk.yellow,
+  unchanged: chalk.gray,
+};
+
+const diffCommand = new Command('diff')
+  .description('Compare the rules of two rulesets side by side')
+  .argument('<left>', 'Ruleset ID (optionally @v<version>) or file')
+  .argument('<right>', 'Ruleset ID (optionally @v<version>) or file')
+  .option('-a, --all', 'Include rules that are the same in both', false)
+  .action(async (leftRef: string, rightRef: string, options) => {
+    const sql = getSql();
+
+    try {
+      const left = await resolveRuleset(sql, leftRef);
+      const right = await resolveRuleset(sql, rightRef);
+
+      const entries = diffRulesets(left, right);
+      const shown = options.all ? entries : entries.filter((e) => e.status !== 'unchanged');
+
+      if (shown.length === 0) {
+        console.log(chalk.green(`${leftRef} and ${rightRef} have identical rules`));
+        return;
+      }
+
+      const table = new Table({
+        head: ['Section', 'Rule', leftRef, rightRef],
+        colWidths: [10, 24, 36, 36],
+        wordWrap: true,
+      });
+
+      for (const entry of shown) {
+        const color = DIFF_COLORS[entry.status];
+        table.push([
+          entry.section,
+          color(entry.key),
+          entry.left === null ? chalk.gray('—') : color(entry.left),
+          entry.right === null ? chalk.gray('—') : color(entry.right),
+        ]);
+      }
+
+      console.log(table.toString());
+
+      const changed = entries.filter((e) => e.status !== 'unchanged').length;
+      console.log(`\n${changed} difference(s)`);
+    } catch (error) {
+      console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+      process.exit(1);
+    } finally {
+      await closeSql();
+    }
+  });
+
+const deleteCommand = new Command('delete')
+  .description('Delete a ruleset, all of its versions and all fantasy points calculated with it')
+  .argument('<id>', 'Ruleset ID')
+  .option('-y, --yes', 'Skip the confirmation prompt', false)
+  .action(async (id: string, options) => {
+    const sql = getSql();
+
+    try {
+      if (parseRulesetRef(id).version !== undefined) {
+        console.error(chalk.red('Versions are immutable; delete removes every version, so pass the ruleset ID'));
+        process.exit(1);
+      }
+
+      const ruleset = await getRuleset(sql, id);
+      if (!ruleset) {
+        console.error(chalk.red(`Ruleset not found: ${id}`));
+        process.exit(1);
+      }
+
+      const pointCount = (await getFantasyPointCounts(sql)).get(id) ?? 0;
+
+      if (!options.yes) {
+        const confirmed = await confirm(
+          `Delete ruleset ${id} (${ruleset.name}) and ${pointCount.toLocaleString()} fantasy point rows?`
+        );
+        if (!confirmed) {
+          console.log('Aborted');
+          return;
+        }
+      }
+
+      const deleted = await deleteRuleset(sql, id);
+      if (deleted === null) {
+        console.error(chalk.red(`Ruleset not found: ${id}`));
+        process.exit(1);
+      }
+
+      console.log(
+        chalk.green(`Deleted ruleset ${id} and ${deleted.toLocaleString()} fantasy point rows`)
+      );
+    } catch (error) {
+      console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+      process.exit(1);
+    } finally {
+      await closeSql();
+    }
+  });
+
+export const rulesetCommand = new Command('ruleset')
+  .description('Manage fantasy scoring rulesets')
+  .addCommand(validateCommand)
+  .addCommand(importCommand)
+  .addCommand(exportCommand)
+  .addCommand(listCommand)
+  .addCommand(historyCommand)
+  .addCommand(diffCommand)
+  .addCommand(deleteCommand);
@@ -1,23 +1,112 @@
 import { Command } from 'commander';
-import ora from 'ora';
+import ora, { type Ora } from 'ora';
 import chalk from 'chalk';
-import { getSql, closeSql } from '../db/client.js';
-import { getOrLoadRuleset, scoreGamesForYear, scoreGamesForDateRange, seedStandardRuleset } from '../scoring/index.js';
-import { getAllRulesets } from '../db/queries/fantasy.js';
+import { getSql, closeSql, type Sql } from '../db/client.js';
+import { getOrLoadRuleset, seedStandardRuleset } from '../scoring/index.js';
+import { createScoringJobs, runScoringJob, type ScoringProgress } from '../scoring/jobs.js';
+import type { SetBasedScoreResult } from '../scoring/sql-engine.js';
+import { getAllRulesets, getRuleset } from '../db/queries/fantasy.js';
+import { getUnfinishedScoringJobs } from '../db/queries/scoring-jobs.js';
+import { formatRulesetRef, parseRulesetRef } from '../scoring/ruleset-ref.js';
+import type { ScoringJob } from '../types/database.js';
+import type { FantasyRuleset } from '../types/fantasy.js';
+import { GAME_TYPE_FILTERS, parseGameTypeFilter } from '../ingest/game-types.js';
+
+const BAR_WIDTH = 24;
+
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+/**
+ * Render a progress bar with an ETA based on the games scored so far this run
+ */
+function formatProgress(progress: ScoringProgress, baseline: number, startedAt: number): string {
+  const { gamesDone, totalGames } = progress;
+  const ratio = totalGames > 0 ? gamesDone / totalGames : 1;
+  const filled = Math.round(ratio * BAR_WIDTH);
+  const bar = '█'.repeat(filled) + '░'.repeat(BAR_WIDTH - filled);
+
+  let eta = 'ETA --';
+  const doneThisRun = gamesDone - baseline;
+  if (doneThisRun > 0) {
+    const msPerGame = (Date.now() - startedAt) / doneThisRun;
+    eta = `ETA ${formatDuration(msPerGame * (totalGames - gamesDone))}`;
+  }
+
+  return `[${bar}] ${Math.floor(ratio * 100)}% ${gamesDone}/${totalGames} games · ${eta}`;
+}
+
+/**
+ * Run jobs one after another, each with its own progress bar
+ */
+async function runJobs(
+  sql: Sql,
+  spinner: Ora,
+  jobs: { job: ScoringJob; ruleset: FantasyRuleset }[],
+  concurrency: number
+): Promise<SetBasedScoreResult> {
+  const total: SetBasedScoreResult = {
+    gamesScored: 0,
+    totalBatting: 0,
+    totalPitching: 0,
+    totalFielding: 0,
+  };
+
+  for (const { job, ruleset } of jobs) {
+    const label = `${formatRulesetRef(job.ruleset_id, job.ruleset_version)} ${job.year}`;
+    const startedAt = Date.now();
+    let baseline: number | null = null;
+
+    spinner.start(`Scoring ${label}...`);
+    const result = await runScoringJob(sql, ruleset, job, {
+      concurrency,
+      onProgress: (progress) => {
+        baseline ??= progress.gamesDone;
+        spinner.text = `Scoring ${label} ${formatProgress(progress, baseline, startedAt)}`;
+      },
+    });
+    spinner.succeed(`Scored ${label} in ${formatDuration(Date.now() - startedAt)}`);
+
+    total.gamesScored += result.gamesScored;
+    total.totalBatting += result.totalBatting;
+    total.totalPitching += result.totalPitching;
+    total.totalFielding += result.totalFielding;
+  }
+
+  return total;
+}
 
 export const scoreCommand = new Command('score')
   .description('Calculate fantasy points using specified ruleset')
-  .requiredOption('-r, --ruleset <ruleset>', 'Ruleset ID (e.g., standard)')
+  .option('-r, --ruleset <ruleset>', 'Ruleset ID, optionally pinned to a version (e.g., standard or standard@v3)')
   .option('-y, --year <year>', 'Calculate for specific year')
   .option('--start-date <date>', 'Start date (YYYY-MM-DD)')
   .option('--end-date <date>', 'End date (YYYY-MM-DD)')
   .option('-f, --force', 'Force recalculation even if points exist', false)
+  .option('-g, --game-type <type>', `Only score games of a type: all, ${Object.keys(GAME_TYPE_FILTERS).join(', ')}`)
+  .option('-e, --engine <engine>', 'Scoring engine: sql (one statement per month) or js (game by game)', 'sql')
+  .option('-c, --concurrency <n>', 'Number of date chunks to score in parallel', '4')
+  .option('--resume', 'Resume interrupted or failed scoring jobs (optionally only for --ruleset)', false)
   .option('--seed-standard', 'Seed the standard ruleset to the database', false)
   .action(async (options) => {
     const sql = getSql();
     const spinner = ora();
+    let jobs: { job: ScoringJob; ruleset: FantasyRuleset }[] = [];
 
     try {
+      if (options.engine !== 'sql' && options.engine !== 'js') {
+        throw new Error(`Unknown engine "${options.engine}" (expected sql or js)`);
+      }
+      const concurrency = parseInt(options.concurrency, 10);
+      if (!Number.isInteger(concurrency) || concurrency < 1) {
+        throw new Error(`Invalid concurrency "${options.concurrency}" (expected a positive integer)`);
+      }
+
       // Seed standard ruleset if requested
       if (options.seedStandard) {
         spinner.start('Seeding standard ruleset...');
@@ -25,50 +114,87 @@ export const scoreCommand = new Command('score')
         spinner.succeed('Standard ruleset seeded');
       }
 
-      // Load ruleset
-      spinner.start(`Loading ruleset: ${options.ruleset}`);
-      const ruleset = await getOrLoadRuleset(sql, options.ruleset);
+      if (options.resume) {
+        spinner.start('Finding unfinished scoring jobs...');
+        const rulesetId = options.ruleset ? parseRulesetRef(options.ruleset).id : undefined;
+        const unfinished = await getUnfinishedScoringJobs(sql, rulesetId);
 
-      if (!ruleset) {
-        spinner.fail(`Ruleset not found: ${options.ruleset}`);
-        console.log(chalk.yellow('\nAvailable rulesets:'));
-        const rulesets = await getAllRulesets(sql);
-        for (const r of rulesets) {
-          console.log(`  - ${r.id}: ${r.name}`);
+        if (unfinished.length === 0) {
+          spinner.succeed('No unfinished scoring jobs');
+          return;
         }
-        if (rulesets.length === 0) {
-          console.log('  (none - try --seed-standard to add the standard ruleset)');
+
+        for (const job of unfinished) {
+          const ref = formatRulesetRef(job.ruleset_id, job.ruleset_version);
+          const ruleset = await getRuleset(sql, ref);
+          if (!ruleset) {
+            throw new Error(`Ruleset not found for job ${job.job_id}: ${ref}`);
+          }
+          jobs.push({ job, ruleset });
+        }
+        spinner.succeed(`Resuming ${jobs.length} scoring job(s)`);
+      } else {
+        if (!options.ruleset) {
+          throw new Error('Must specify --ruleset (or --resume to continue unfinished jobs)');
+        }
+
+        // Load ruleset
+        spinner.start(`Loading ruleset: ${options.ruleset}`);
+        const ruleset = await getOrLoadRuleset(sql, options.ruleset);
+
+        if (!ruleset) {
+          spinner.fail(`Ruleset not found: ${options.ruleset}`);
+          console.log(chalk.yellow('\nAvailable rulesets:'));
+          const rulesets = await getAllRulesets(sql);
+          for (const r of rulesets) {
+            console.log(`  - ${r.id}: ${r.name}`);
+          }
+          if (rulesets.length === 0) {
+            console.log('  (none - try --seed-standard to add the standard ruleset)');
+          }
+          process.exit(1);
         }
-        process.exit(1);
-      }
 
-      spinner.succeed(`Loaded ruleset: ${ruleset.name}`);
-
-      // Determine date range
-      let result;
-      if (options.year) {
-        const year = parseInt(options.year, 10);
-        spinner.start(`Scoring games for ${year}...`);
-        result = await scoreGamesForYear(sql, ruleset, year, { force: options.force });
-      } else if (options.startDate && options.endDate) {
-        spinner.start(`Scoring games from ${options.startDate} to ${options.endDate}...`);
-        result = await scoreGamesForDateRange(sql, ruleset, options.startDate, options.endDate, {
+        spinner.succeed(`Loaded ruleset: ${ruleset.name} (${formatRulesetRef(ruleset.id, ruleset.version)})`);
+
+        // Determine date range
+        let startDate: string;
+        let endDate: string;
+        if (options.year) {
+          const year = parseInt(options.year, 10);
+          startDate = `${year}-01-01`;
+          endDate = `${year}-12-31`;
+        } else if (options.startDate && options.endDate) {
+          startDate = options.startDate;
+          endDate = options.endDate;
+        } else {
+          spinner.fail('Must specify either --year or --start-date and --end-date');
+          process.exit(1);
+        }
+
+        const created = await createScoringJobs(sql, ruleset, startDate, endDate, {
+          engine: options.engine,
           force: options.force,
+          gameTypes: parseGameTypeFilter(options.gameType),
         });
-      } else {
-        spinner.fail('Must specify either --year or --start-date and --end-date');
-        process.exit(1);
+        jobs = created.map((job) => ({ job, ruleset }));
       }
 
-      spinner.succeed('Scoring complete');
+      const result = await runJobs(sql, spinner, jobs, concurrency);
 
       console.log(chalk.green('\nScoring summary:'));
       console.log(`  Games scored: ${result.gamesScored}`);
       console.log(`  Batting records: ${result.totalBatting}`);
       console.log(`  Pitching records: ${result.totalPitching}`);
+      if (result.totalFielding > 0) {
+        console.log(`  Fielding records: ${result.totalFielding}`);
+      }
     } catch (error) {
       spinner.fail('Scoring failed');
       console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+      if (jobs.length > 0) {
+        console.error(chalk.yellow('Progress was saved; run score --resume to continue'));
+      }
       process.exit(1);
     } finally {
       await closeSql();
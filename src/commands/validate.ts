@@ -0,0 +1,99 @@
+import { Command } from 'commander';
+import ora from 'ora';
+import chalk from 'chalk';
+import Table from 'cli-table3';
+import { getSql, closeSql, transaction } from '../db/client.js';
+import { runMigrations } from '../db/migrations/runner.js';
+import { parseYearRange } from '../ingest/index.js';
+import { runDataQualityChecks, getDataQualityIssues } from '../db/queries/data-quality.js';
+import {
+  DATA_QUALITY_CHECKS,
+  describeDataQualityIssue,
+  type DataQualityCheck,
+  type DataQualitySummary,
+} from '../ingest/data-quality.js';
+
+export const validateCommand = new Command('validate')
+  .description('Reconcile batting lines with the opposing pitchers\' lines and record data quality issues')
+  .requiredOption('-y, --years <years>', 'Years to validate (e.g., "2023", "2020-2023")')
+  .option('-c, --check <check>', `List issues of one check only (${DATA_QUALITY_CHECKS.join(', ')})`)
+  .option('-l, --limit <n>', 'Issues to list per year', '20')
+  .option('-f, --format <format>', 'Output format: table, json', 'table')
+  .option('--migrate', 'Run database migrations before validating', false)
+  .action(async (options) => {
+    const sql = getSql();
+    const spinner = ora();
+
+    try {
+      if (options.migrate) {
+        spinner.start('Running database migrations...');
+        await runMigrations(sql);
+        spinner.succeed('Migrations complete');
+      }
+
+      const years = parseYearRange(options.years);
+      if (years.length === 0) {
+        throw new Error(`Invalid --years: ${options.years}`);
+      }
+      const check = options.check as DataQualityCheck | undefined;
+      if (check && !DATA_QUALITY_CHECKS.includes(check)) {
+        throw new Error(`Unknown check: ${check} (expected one of ${DATA_QUALITY_CHECKS.join(', ')})`);
+      }
+      const limit = parseInt(options.limit, 10);
+      if (isNaN(limit) || limit < 0) {
+        throw new Error(`Invalid --limit: ${options.limit}`);
+      }
+
+      const summaries: DataQualitySummary[] = [];
+      for (const year of years) {
+        if (options.format !== 'json') spinner.start(`Validating ${year}...`);
+        const summary = await transaction(sql, (tx) => runDataQualityChecks(tx, year));
+        summaries.push(summary);
+        if (options.format !== 'json') {
+          spinner.succeed(`${year}: ${summary.issues} issues in ${summary.gamesWithIssues} of ${summary.gamesChecked} games`);
+        }
+      }
+
+      if (options.format === 'json') {
+        const results = [];
+        for (const summary of summaries) {
+          const issues = await getDataQualityIssues(sql, summary.season, { check, limit });
+          results.push({ ...summary, details: issues });
+        }
+        console.log(JSON.stringify(results, null, 2));
+        return;
+      }
+
+      console.log(chalk.blue('\nData quality summary:'));
+      const table = new Table({
+        head: ['Year', 'Games', ...DATA_QUALITY_CHECKS, 'Total'],
+      });
+      for (const summary of summaries) {
+        table.push([
+          summary.season,
+          summary.gamesChecked,
+          ...DATA_QUALITY_CHECKS.map((c) => summary.byCheck[c] || chalk.gray('0')),
+          summary.issues > 0 ? chalk.red(summary.issues) : chalk.green('0'),
+        ]);
+      }
+      console.log(table.toString());
+
+      for (const summary of summaries) {
+        if (summary.issues === 0 || limit === 0) continue;
+
+        const issues = await getDataQualityIssues(sql, summary.season, { check, limit });
+        if (issues.length === 0) continue;
+
+        console.log(chalk.yellow(`\n${summary.season} issues${issues.length < summary.issues ? ` (first ${issues.length})` : ''}:`));
+        for (const issue of issues) {
+          console.log(`  ${issue.game_id}  ${issue.check_name.padEnd(10)}  ${describeDataQualityIssue(issue)}`);
+        }
+      }
+    } catch (error) {
+      spinner.fail('Validation failed');
+      console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+      process.exit(1);
+    } finally {
+      await closeSql();
+    }
+  });
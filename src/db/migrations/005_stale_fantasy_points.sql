@@ -0,0 +1,11 @@
+-- Migration 005: Track stale fantasy points
+-- Points are marked stale when their ruleset's rules change and excluded until rescored
+-- Superseded by ruleset versioning in 006, which drops the stale column again
+
+ALTER TABLE fantasy_rulesets
+ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ DEFAULT NOW();
+
+ALTER TABLE fantasy_game_points
+ADD COLUMN IF NOT EXISTS stale BOOLEAN NOT NULL DEFAULT FALSE;
+
+CREATE INDEX IF NOT EXISTS idx_fantasy_points_stale ON fantasy_game_points(ruleset_id) WHERE stale;
@@ -0,0 +1,77 @@
+-- Migration 006: Ruleset versioning
+-- Every change to a ruleset creates a new immutable version; fantasy points
+-- record the version that produced them, replacing the stale flag from 005.
+-- A stale flag can only say that points are out of date, and rescoring overwrites
+-- them; with versions the old points stay queryable under their version and the
+-- current version simply has no points until it is scored. 005 stays as it was,
+-- since databases may already have applied it, and this migration retires its
+-- column: stale points are deleted (their rules exist in no version) and the
+-- column and index are dropped.
+
+-- Immutable snapshots of every ruleset version
+CREATE TABLE IF NOT EXISTS fantasy_ruleset_versions (
+    ruleset_id VARCHAR(50) NOT NULL REFERENCES fantasy_rulesets(ruleset_id) ON DELETE CASCADE,
+    version INTEGER NOT NULL,
+    name VARCHAR(100) NOT NULL,
+    description TEXT,
+    batting_rules JSONB NOT NULL,
+    pitching_rules JSONB NOT NULL,
+    bonus_rules JSONB,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    PRIMARY KEY (ruleset_id, version)
+);
+
+CREATE OR REPLACE FUNCTION reject_ruleset_version_update() RETURNS trigger AS $$
+BEGIN
+    RAISE EXCEPTION 'fantasy_ruleset_versions rows are immutable; create a new version instead';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS fantasy_ruleset_versions_immutable ON fantasy_ruleset_versions;
+CREATE TRIGGER fantasy_ruleset_versions_immutable
+    BEFORE UPDATE ON fantasy_ruleset_versions
+    FOR EACH ROW EXECUTE FUNCTION reject_ruleset_version_update();
+
+-- fantasy_rulesets keeps the current rules alongside a pointer to their version
+ALTER TABLE fantasy_rulesets
+ADD COLUMN IF NOT EXISTS current_version INTEGER NOT NULL DEFAULT 1;
+
+INSERT INTO fantasy_ruleset_versions (
+    ruleset_id, version, name, description, batting_rules, pitching_rules, bonus_rules, created_at
+)
+SELECT ruleset_id, current_version, name, description, batting_rules, pitching_rules, bonus_rules,
+       COALESCE(updated_at, created_at)
+FROM fantasy_rulesets
+ON CONFLICT (ruleset_id, version) DO NOTHING;
+
+-- Points are keyed by version so results from older versions stay queryable
+ALTER TABLE fantasy_game_points
+ADD COLUMN IF NOT EXISTS ruleset_version INTEGER NOT NULL DEFAULT 1;
+
+-- Stale points were calculated with rules that no longer exist anywhere
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'fantasy_game_points' AND column_name = 'stale'
+    ) THEN
+        DELETE FROM fantasy_game_points WHERE stale;
+    END IF;
+END $$;
+
+DROP INDEX IF EXISTS idx_fantasy_points_stale;
+ALTER TABLE fantasy_game_points DROP COLUMN IF EXISTS stale;
+
+ALTER TABLE fantasy_game_points
+DROP CONSTRAINT IF EXISTS fantasy_game_points_ruleset_id_game_id_player_id_stat_type_key;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_fantasy_points_version_unique
+    ON fantasy_game_points(ruleset_id, ruleset_version, game_id, player_id, stat_type);
+
+ALTER TABLE fantasy_game_points
+DROP CONSTRAINT IF EXISTS fantasy_game_points_ruleset_version_fkey;
+
+ALTER TABLE fantasy_game_points
+ADD CONSTRAINT fantasy_game_points_ruleset_version_fkey
+    FOREIGN KEY (ruleset_id, ruleset_version)
+    REFERENCES fantasy_ruleset_versions(ruleset_id, version);
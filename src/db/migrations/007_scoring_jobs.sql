@@ -0,0 +1,29 @@
+-- Migration 007: Scoring jobs
+-- Tracks scoring runs per ruleset version and year so interrupted runs can resume
+
+CREATE TABLE IF NOT EXISTS scoring_jobs (
+    job_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    ruleset_id VARCHAR(50) NOT NULL,
+    ruleset_version INTEGER NOT NULL,
+    year INTEGER NOT NULL,
+    start_date DATE NOT NULL,
+    end_date DATE NOT NULL,
+    engine VARCHAR(10) NOT NULL,
+    force BOOLEAN NOT NULL DEFAULT false,
+    -- Every game on or before this date has been scored
+    cursor_date DATE,
+    total_games INTEGER,
+    games_scored INTEGER DEFAULT 0,
+    batting_records INTEGER DEFAULT 0,
+    pitching_records INTEGER DEFAULT 0,
+    started_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    completed_at TIMESTAMPTZ,
+    status VARCHAR(20) DEFAULT 'pending',
+    error_message TEXT,
+    FOREIGN KEY (ruleset_id, ruleset_version)
+        REFERENCES fantasy_ruleset_versions(ruleset_id, version) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_scoring_jobs_ruleset ON scoring_jobs(ruleset_id, ruleset_version, year);
+CREATE INDEX IF NOT EXISTS idx_scoring_jobs_status ON scoring_jobs(status);
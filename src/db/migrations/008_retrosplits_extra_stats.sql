@@ -0,0 +1,44 @@
+-- Migration 008: Retrosplits columns previously dropped during ingestion
+-- Total bases, grand slams, game-winning RBI, shutouts, inherited runners,
+-- ground/air outs and pitch counts
+
+-- Staging columns
+ALTER TABLE staging_batting
+ADD COLUMN IF NOT EXISTS b_tb VARCHAR(50),
+ADD COLUMN IF NOT EXISTS b_hr4 VARCHAR(50),
+ADD COLUMN IF NOT EXISTS b_gw VARCHAR(50);
+
+ALTER TABLE staging_pitching
+ADD COLUMN IF NOT EXISTS p_sho VARCHAR(50),
+ADD COLUMN IF NOT EXISTS p_ir VARCHAR(50),
+ADD COLUMN IF NOT EXISTS p_irs VARCHAR(50),
+ADD COLUMN IF NOT EXISTS p_go VARCHAR(50),
+ADD COLUMN IF NOT EXISTS p_ao VARCHAR(50),
+ADD COLUMN IF NOT EXISTS p_pitch VARCHAR(50),
+ADD COLUMN IF NOT EXISTS p_strike VARCHAR(50);
+
+-- Batting stats
+ALTER TABLE batter_game_stats
+ADD COLUMN IF NOT EXISTS total_bases SMALLINT DEFAULT 0,
+ADD COLUMN IF NOT EXISTS grand_slams SMALLINT DEFAULT 0,
+ADD COLUMN IF NOT EXISTS game_winning_rbi SMALLINT DEFAULT 0;
+
+-- Pitching stats (pitch counts stay NULL where the source doesn't have them)
+ALTER TABLE pitcher_game_stats
+ADD COLUMN IF NOT EXISTS shutout BOOLEAN DEFAULT false,
+ADD COLUMN IF NOT EXISTS inherited_runners SMALLINT DEFAULT 0,
+ADD COLUMN IF NOT EXISTS inherited_runners_scored SMALLINT DEFAULT 0,
+ADD COLUMN IF NOT EXISTS ground_outs SMALLINT DEFAULT 0,
+ADD COLUMN IF NOT EXISTS air_outs SMALLINT DEFAULT 0,
+ADD COLUMN IF NOT EXISTS pitches SMALLINT,
+ADD COLUMN IF NOT EXISTS strikes SMALLINT;
+
+-- Backfill what can be derived from rows ingested before this migration;
+-- the rest is filled in by re-ingesting
+UPDATE batter_game_stats
+SET total_bases = hits + doubles + 2 * triples + 3 * home_runs
+WHERE total_bases = 0 AND hits > 0;
+
+UPDATE pitcher_game_stats
+SET shutout = true
+WHERE complete_game AND runs_allowed = 0 AND NOT shutout;
@@ -0,0 +1,85 @@
+-- Migration 009: Fielding stats
+-- Per-position fielding lines from the retrosplits F_* columns, and fielding
+-- rules on rulesets
+
+-- Staging table for fielding lines (one row per player, game and position)
+CREATE TABLE IF NOT EXISTS staging_fielding (
+    id SERIAL PRIMARY KEY,
+    batch_id UUID NOT NULL,
+    source_file VARCHAR(100),
+    row_num INTEGER,
+
+    gid VARCHAR(50),
+    player_id VARCHAR(50),
+    team VARCHAR(50),
+    game_date VARCHAR(50),
+    game_number VARCHAR(50),
+    site VARCHAR(50),
+    vishome VARCHAR(50),
+    opp VARCHAR(50),
+    gametype VARCHAR(50),
+    pos VARCHAR(50),
+    f_g VARCHAR(50),
+    f_gs VARCHAR(50),
+    f_out VARCHAR(50),
+    f_tc VARCHAR(50),
+    f_po VARCHAR(50),
+    f_a VARCHAR(50),
+    f_e VARCHAR(50),
+    f_dp VARCHAR(50),
+    f_tp VARCHAR(50),
+    f_pb VARCHAR(50),
+    f_xi VARCHAR(50),
+    f_seq VARCHAR(50),
+
+    ingested_at TIMESTAMPTZ DEFAULT NOW(),
+    processed BOOLEAN DEFAULT false
+);
+
+CREATE INDEX IF NOT EXISTS idx_staging_fielding_batch ON staging_fielding(batch_id);
+CREATE INDEX IF NOT EXISTS idx_staging_fielding_processed ON staging_fielding(batch_id, processed);
+
+-- Fielder game stats (one row per player, game and position)
+CREATE TABLE IF NOT EXISTS fielder_game_stats (
+    id SERIAL PRIMARY KEY,
+    game_id VARCHAR(20) NOT NULL REFERENCES games(game_id),
+    player_id VARCHAR(10) NOT NULL REFERENCES players(player_id),
+    team_id VARCHAR(3) NOT NULL REFERENCES teams(team_id),
+    is_home BOOLEAN NOT NULL,
+    opponent_id VARCHAR(3) REFERENCES teams(team_id),
+
+    -- Position: abbreviation (C, SS, ...) and scorer's number (1 = P ... 9 = RF)
+    position VARCHAR(2) NOT NULL,
+    position_number SMALLINT NOT NULL,
+    position_started BOOLEAN DEFAULT false,
+
+    -- Stats
+    outs_played SMALLINT DEFAULT 0,
+    total_chances SMALLINT DEFAULT 0,
+    putouts SMALLINT DEFAULT 0,
+    assists SMALLINT DEFAULT 0,
+    errors SMALLINT DEFAULT 0,
+    double_plays SMALLINT DEFAULT 0,
+    triple_plays SMALLINT DEFAULT 0,
+    passed_balls SMALLINT DEFAULT 0,
+    catcher_interference SMALLINT DEFAULT 0,
+
+    -- Metadata
+    fielding_seq SMALLINT,
+
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(game_id, player_id, position)
+);
+
+CREATE INDEX IF NOT EXISTS idx_fielder_stats_player ON fielder_game_stats(player_id);
+CREATE INDEX IF NOT EXISTS idx_fielder_stats_game ON fielder_game_stats(game_id);
+
+-- Fielding rules (NULL for rulesets without a fielding section)
+ALTER TABLE fantasy_rulesets
+ADD COLUMN IF NOT EXISTS fielding_rules JSONB;
+
+ALTER TABLE fantasy_ruleset_versions
+ADD COLUMN IF NOT EXISTS fielding_rules JSONB;
+
+ALTER TABLE scoring_jobs
+ADD COLUMN IF NOT EXISTS fielding_records INTEGER DEFAULT 0;
@@ -0,0 +1,45 @@
+-- Migration 010: Plate appearance events
+-- One row per plate appearance, parsed from Retrosheet event files (.EVA/.EVN)
+
+CREATE TABLE IF NOT EXISTS plate_appearance_events (
+    id SERIAL PRIMARY KEY,
+    game_id VARCHAR(20) NOT NULL REFERENCES games(game_id),
+    -- Position of the play record within the game's event file
+    event_seq SMALLINT NOT NULL,
+
+    inning SMALLINT NOT NULL,
+    is_bottom BOOLEAN NOT NULL,
+    batting_team_id VARCHAR(3) REFERENCES teams(team_id),
+    batter_id VARCHAR(10) NOT NULL REFERENCES players(player_id),
+    pitcher_id VARCHAR(10) REFERENCES players(player_id),
+
+    -- State before the play
+    outs_before SMALLINT NOT NULL,
+    runner_on_1b VARCHAR(10) REFERENCES players(player_id),
+    runner_on_2b VARCHAR(10) REFERENCES players(player_id),
+    runner_on_3b VARCHAR(10) REFERENCES players(player_id),
+    away_score_before SMALLINT NOT NULL,
+    home_score_before SMALLINT NOT NULL,
+
+    -- Final count (NULL when unknown) and pitch sequence
+    balls SMALLINT,
+    strikes SMALLINT,
+    pitch_sequence VARCHAR(100),
+
+    -- Result
+    event_text VARCHAR(200) NOT NULL,
+    event_type VARCHAR(20) NOT NULL,
+    is_hit BOOLEAN NOT NULL DEFAULT false,
+    is_at_bat BOOLEAN NOT NULL DEFAULT false,
+    outs_on_play SMALLINT NOT NULL DEFAULT 0,
+    runs_on_play SMALLINT NOT NULL DEFAULT 0,
+    rbi SMALLINT NOT NULL DEFAULT 0,
+    is_walk_off BOOLEAN NOT NULL DEFAULT false,
+
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(game_id, event_seq)
+);
+
+CREATE INDEX IF NOT EXISTS idx_pa_events_game ON plate_appearance_events(game_id);
+CREATE INDEX IF NOT EXISTS idx_pa_events_batter ON plate_appearance_events(batter_id);
+CREATE INDEX IF NOT EXISTS idx_pa_events_pitcher ON plate_appearance_events(pitcher_id);
@@ -0,0 +1,25 @@
+-- Migration 011: Game results from Retrosheet game logs
+-- Final score, line scores, attendance, umpires and pitchers of record (gl*.txt)
+
+ALTER TABLE games ADD COLUMN IF NOT EXISTS away_score SMALLINT;
+ALTER TABLE games ADD COLUMN IF NOT EXISTS home_score SMALLINT;
+-- Innings in the longer line score; length_outs counts outs recorded
+ALTER TABLE games ADD COLUMN IF NOT EXISTS innings SMALLINT;
+ALTER TABLE games ADD COLUMN IF NOT EXISTS length_outs SMALLINT;
+-- D(ay) or N(ight)
+ALTER TABLE games ADD COLUMN IF NOT EXISTS day_night VARCHAR(1);
+ALTER TABLE games ADD COLUMN IF NOT EXISTS attendance INTEGER;
+ALTER TABLE games ADD COLUMN IF NOT EXISTS duration_minutes SMALLINT;
+
+-- Raw line scores as in the game log, e.g. "010000(10)0x"
+ALTER TABLE games ADD COLUMN IF NOT EXISTS away_line_score VARCHAR(100);
+ALTER TABLE games ADD COLUMN IF NOT EXISTS home_line_score VARCHAR(100);
+
+-- [{ "position": "HP", "id": "...", "name": "..." }, ...]
+ALTER TABLE games ADD COLUMN IF NOT EXISTS umpires JSONB;
+
+ALTER TABLE games ADD COLUMN IF NOT EXISTS away_starting_pitcher_id VARCHAR(10) REFERENCES players(player_id);
+ALTER TABLE games ADD COLUMN IF NOT EXISTS home_starting_pitcher_id VARCHAR(10) REFERENCES players(player_id);
+ALTER TABLE games ADD COLUMN IF NOT EXISTS winning_pitcher_id VARCHAR(10) REFERENCES players(player_id);
+ALTER TABLE games ADD COLUMN IF NOT EXISTS losing_pitcher_id VARCHAR(10) REFERENCES players(player_id);
+ALTER TABLE games ADD COLUMN IF NOT EXISTS saving_pitcher_id VARCHAR(10) REFERENCES players(player_id);
@@ -0,0 +1,31 @@
+-- Migration 012: Player biographies and ID crosswalk from the Chadwick register
+-- Also stores each player's age on the game date on every stat line
+
+ALTER TABLE players
+ADD COLUMN IF NOT EXISTS name_suffix VARCHAR(20),
+ADD COLUMN IF NOT EXISTS name_nick VARCHAR(100),
+-- Only complete dates are stored; the register has year-only dates for some early players
+ADD COLUMN IF NOT EXISTS birth_date DATE,
+ADD COLUMN IF NOT EXISTS birth_year SMALLINT,
+ADD COLUMN IF NOT EXISTS death_date DATE,
+ADD COLUMN IF NOT EXISTS mlb_played_first SMALLINT,
+ADD COLUMN IF NOT EXISTS mlb_played_last SMALLINT,
+ADD COLUMN IF NOT EXISTS pro_played_first SMALLINT,
+ADD COLUMN IF NOT EXISTS pro_played_last SMALLINT,
+
+-- External IDs (player_id is the Retrosheet ID)
+ADD COLUMN IF NOT EXISTS key_person VARCHAR(8),
+ADD COLUMN IF NOT EXISTS key_mlbam INTEGER,
+ADD COLUMN IF NOT EXISTS key_bbref VARCHAR(10),
+ADD COLUMN IF NOT EXISTS key_fangraphs INTEGER,
+ADD COLUMN IF NOT EXISTS register_synced_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_players_mlbam ON players(key_mlbam);
+CREATE INDEX IF NOT EXISTS idx_players_bbref ON players(key_bbref);
+CREATE INDEX IF NOT EXISTS idx_players_fangraphs ON players(key_fangraphs);
+CREATE INDEX IF NOT EXISTS idx_players_person ON players(key_person);
+
+-- Age in whole years on the game date (NULL until the birth date is known)
+ALTER TABLE batter_game_stats ADD COLUMN IF NOT EXISTS player_age SMALLINT;
+ALTER TABLE pitcher_game_stats ADD COLUMN IF NOT EXISTS player_age SMALLINT;
+ALTER TABLE fielder_game_stats ADD COLUMN IF NOT EXISTS player_age SMALLINT;
@@ -0,0 +1,37 @@
+-- Migration 013: Franchises and team names by season
+-- Loaded from src/ingest/data/team-names.csv by `sync-teams`
+
+CREATE TABLE IF NOT EXISTS franchises (
+    franchise_id VARCHAR(3) PRIMARY KEY,
+    -- Name of the franchise's latest team
+    name VARCHAR(100) NOT NULL
+);
+
+-- One row per span of seasons a team code kept the same name, league and division
+CREATE TABLE IF NOT EXISTS team_names (
+    id SERIAL PRIMARY KEY,
+    team_id VARCHAR(3) NOT NULL REFERENCES teams(team_id),
+    franchise_id VARCHAR(3) NOT NULL REFERENCES franchises(franchise_id),
+    league VARCHAR(2) NOT NULL,
+    -- E, C or W; NULL before divisional play (1969)
+    division VARCHAR(1),
+    city VARCHAR(50) NOT NULL,
+    nickname VARCHAR(50) NOT NULL,
+    first_year SMALLINT NOT NULL,
+    -- NULL while the name is still in use
+    last_year SMALLINT,
+
+    UNIQUE(team_id, first_year)
+);
+
+CREATE INDEX IF NOT EXISTS idx_team_names_franchise ON team_names(franchise_id);
+
+ALTER TABLE teams ADD COLUMN IF NOT EXISTS franchise_id VARCHAR(3) REFERENCES franchises(franchise_id);
+
+-- The team each player played for in each game (a player has one team per game)
+CREATE OR REPLACE VIEW player_game_teams AS
+SELECT game_id, player_id, team_id FROM batter_game_stats
+UNION
+SELECT game_id, player_id, team_id FROM pitcher_game_stats
+UNION
+SELECT game_id, player_id, team_id FROM fielder_game_stats;
@@ -0,0 +1,38 @@
+-- Migration 014: Ballparks and park factors
+-- Parks are loaded by `sync-parks`; factors are computed from batter_game_stats by `park-factors`
+
+-- Keyed by the Retrosheet site code in games.site
+CREATE TABLE IF NOT EXISTS parks (
+    park_id VARCHAR(10) PRIMARY KEY,
+    name VARCHAR(100) NOT NULL,
+    aka TEXT,
+    city VARCHAR(50) NOT NULL,
+    state VARCHAR(20),
+    first_year SMALLINT,
+    -- NULL while the park is still in use
+    last_year SMALLINT,
+    league VARCHAR(2)
+);
+
+-- Runs and home runs per game at a site relative to the season average (1.000 = neutral)
+CREATE TABLE IF NOT EXISTS park_factors (
+    park_id VARCHAR(10) NOT NULL,
+    season SMALLINT NOT NULL,
+    games INTEGER NOT NULL,
+    runs INTEGER NOT NULL,
+    home_runs INTEGER NOT NULL,
+    run_factor NUMERIC(5,3) NOT NULL,
+    hr_factor NUMERIC(5,3) NOT NULL,
+    computed_at TIMESTAMPTZ DEFAULT NOW(),
+
+    PRIMARY KEY (park_id, season)
+);
+
+CREATE INDEX IF NOT EXISTS idx_park_factors_season ON park_factors(season);
+
+-- Rulesets that divide park-sensitive stats by the park factors of the game's site
+ALTER TABLE fantasy_rulesets
+ADD COLUMN IF NOT EXISTS park_adjusted BOOLEAN NOT NULL DEFAULT FALSE;
+
+ALTER TABLE fantasy_ruleset_versions
+ADD COLUMN IF NOT EXISTS park_adjusted BOOLEAN NOT NULL DEFAULT FALSE;
@@ -0,0 +1,19 @@
+-- Migration 015: Data quality issues
+-- Written by `validate` and after each ingested year; a season's issues are replaced on every run
+
+CREATE TABLE IF NOT EXISTS data_quality_issues (
+    id SERIAL PRIMARY KEY,
+    season SMALLINT NOT NULL,
+    game_id VARCHAR(20) NOT NULL REFERENCES games(game_id),
+    -- Which reconciliation failed (hits, walks, home_runs, runs, team_count)
+    check_name VARCHAR(20) NOT NULL,
+    -- The batting team for stat reconciliations, NULL for game-level checks
+    team_id VARCHAR(3),
+    -- Batting total (or expected team count) vs the opposing pitchers' total (or actual team count)
+    expected INTEGER NOT NULL,
+    actual INTEGER NOT NULL,
+    detected_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_data_quality_issues_season ON data_quality_issues(season, check_name);
+CREATE INDEX IF NOT EXISTS idx_data_quality_issues_game ON data_quality_issues(game_id);
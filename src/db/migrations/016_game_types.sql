@@ -0,0 +1,38 @@
+-- Migration 016: Game types
+-- games.game_type holds REG, WC, DS, LCS, WS or ASG (see src/ingest/game-types.ts)
+
+-- Games transformed before the season phase was normalized. The codes and spellings
+-- are those normalizeGameType accepts (GAME_TYPE_ALIASES); anything else has no type,
+-- as on transform.
+UPDATE games SET game_type = CASE UPPER(REGEXP_REPLACE(TRIM(game_type), '[\s_-]', '', 'g'))
+    WHEN 'REG' THEN 'REG'
+    WHEN 'R' THEN 'REG'
+    WHEN 'REGULAR' THEN 'REG'
+    WHEN 'PLAYOFF' THEN 'REG'
+    WHEN 'WC' THEN 'WC'
+    WHEN 'W' THEN 'WC'
+    WHEN 'WILDCARD' THEN 'WC'
+    WHEN 'DS' THEN 'DS'
+    WHEN 'D' THEN 'DS'
+    WHEN 'DV' THEN 'DS'
+    WHEN 'DIVISION' THEN 'DS'
+    WHEN 'DIVISIONSERIES' THEN 'DS'
+    WHEN 'LCS' THEN 'LCS'
+    WHEN 'L' THEN 'LCS'
+    WHEN 'LC' THEN 'LCS'
+    WHEN 'WS' THEN 'WS'
+    WHEN 'S' THEN 'WS'
+    WHEN 'WORLDSERIES' THEN 'WS'
+    WHEN 'ASG' THEN 'ASG'
+    WHEN 'A' THEN 'ASG'
+    WHEN 'AS' THEN 'ASG'
+    WHEN 'ALLSTAR' THEN 'ASG'
+END
+WHERE game_type IS NOT NULL
+  AND game_type NOT IN ('REG', 'WC', 'DS', 'LCS', 'WS', 'ASG');
+
+CREATE INDEX IF NOT EXISTS idx_games_type ON games(game_type);
+
+-- Scoring jobs limited to some game types (NULL = every game)
+ALTER TABLE scoring_jobs
+ADD COLUMN IF NOT EXISTS game_types VARCHAR(10)[];
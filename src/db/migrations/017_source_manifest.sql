@@ -0,0 +1,5 @@
+-- Migration 017: Source file hashes
+-- The SHA-256 of the downloaded file each batch loaded (see src/ingest/manifest.ts),
+-- so ingest can tell when a season file changed upstream
+
+ALTER TABLE ingestion_batches ADD COLUMN IF NOT EXISTS source_sha256 VARCHAR(64);
@@ -0,0 +1,8 @@
+-- Migration 018: Per-stat-type scoring policies
+-- Caps, floors and rounding of each batting, pitching and fielding game score (NULL = none)
+
+ALTER TABLE fantasy_rulesets
+ADD COLUMN IF NOT EXISTS scoring_policies JSONB;
+
+ALTER TABLE fantasy_ruleset_versions
+ADD COLUMN IF NOT EXISTS scoring_policies JSONB;
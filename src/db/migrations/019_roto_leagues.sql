@@ -0,0 +1,32 @@
+-- Migration 019: Rotisserie leagues
+-- Category leagues for one season, their fantasy teams and rosters
+
+CREATE TABLE IF NOT EXISTS roto_leagues (
+    league_id VARCHAR(50) PRIMARY KEY,
+    name VARCHAR(100) NOT NULL,
+    season SMALLINT NOT NULL,
+    -- RotoCategory definitions (see src/types/roto.ts)
+    categories JSONB NOT NULL,
+    -- Category names breaking ties in the overall standings, in order
+    tiebreakers JSONB NOT NULL DEFAULT '[]',
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS roto_teams (
+    league_id VARCHAR(50) NOT NULL REFERENCES roto_leagues(league_id) ON DELETE CASCADE,
+    team_id VARCHAR(50) NOT NULL,
+    name VARCHAR(100) NOT NULL,
+    PRIMARY KEY (league_id, team_id)
+);
+
+-- A player is on at most one team per league; their lines count for the whole season
+CREATE TABLE IF NOT EXISTS roto_roster_players (
+    league_id VARCHAR(50) NOT NULL,
+    team_id VARCHAR(50) NOT NULL,
+    player_id VARCHAR(10) NOT NULL REFERENCES players(player_id),
+    PRIMARY KEY (league_id, player_id),
+    FOREIGN KEY (league_id, team_id) REFERENCES roto_teams(league_id, team_id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_roto_roster_team ON roto_roster_players(league_id, team_id);
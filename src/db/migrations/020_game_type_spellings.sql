@@ -0,0 +1,30 @@
+-- Migration 020: Spelled-out game types
+-- 016 upper-cased codes it did not know, so games stored with Retrosheet's spellings
+-- became REGULAR, WORLDSERIES, ... and matched no game type filter. Map them again
+-- with the full GAME_TYPE_ALIASES table (see src/ingest/game-types.ts).
+UPDATE games SET game_type = CASE UPPER(REGEXP_REPLACE(TRIM(game_type), '[\s_-]', '', 'g'))
+    WHEN 'REG' THEN 'REG'
+    WHEN 'R' THEN 'REG'
+    WHEN 'REGULAR' THEN 'REG'
+    WHEN 'PLAYOFF' THEN 'REG'
+    WHEN 'WC' THEN 'WC'
+    WHEN 'W' THEN 'WC'
+    WHEN 'WILDCARD' THEN 'WC'
+    WHEN 'DS' THEN 'DS'
+    WHEN 'D' THEN 'DS'
+    WHEN 'DV' THEN 'DS'
+    WHEN 'DIVISION' THEN 'DS'
+    WHEN 'DIVISIONSERIES' THEN 'DS'
+    WHEN 'LCS' THEN 'LCS'
+    WHEN 'L' THEN 'LCS'
+    WHEN 'LC' THEN 'LCS'
+    WHEN 'WS' THEN 'WS'
+    WHEN 'S' THEN 'WS'
+    WHEN 'WORLDSERIES' THEN 'WS'
+    WHEN 'ASG' THEN 'ASG'
+    WHEN 'A' THEN 'ASG'
+    WHEN 'AS' THEN 'ASG'
+    WHEN 'ALLSTAR' THEN 'ASG'
+END
+WHERE game_type IS NOT NULL
+  AND game_type NOT IN ('REG', 'WC', 'DS', 'LCS', 'WS', 'ASG');
@@ -0,0 +1,113 @@
+import type { Sql } from '../client.js';
+import {
+  RECONCILED_STATS,
+  summarizeDataQuality,
+  type DataQualityCheck,
+  type DataQualityIssue,
+  type DataQualitySummary,
+} from '../../ingest/data-quality.js';
+
+const RECONCILIATIONS = Object.entries(RECONCILED_STATS);
+
+const BATTING_TOTALS = RECONCILIATIONS
+  .map(([check, { batting }]) => `SUM(COALESCE(b.${batting}, 0))::int as ${check}`)
+  .join(',\n        ');
+
+const PITCHING_TOTALS = RECONCILIATIONS
+  .map(([check, { pitching }]) => `SUM(COALESCE(p.${pitching}, 0))::int as ${check}`)
+  .join(',\n        ');
+
+const COMPARISONS = RECONCILIATIONS
+  .map(([check]) => `('${check}', COALESCE(b.${check}, 0), COALESCE(p.${check}, 0))`)
+  .join(',\n        ');
+
+/**
+ * Reconcile every game of a season and record what disagrees
+ *
+ * Each team's batting totals are compared with the totals of the pitchers who
+ * faced it (pitcher_game_stats.opponent_id), and every game with stat lines
+ * must have lines for exactly two teams. Replaces the season's existing issues,
+ * so run it in a transaction to swap them atomically.
+ */
+export async function runDataQualityChecks(sql: Sql, season: number): Promise<DataQualitySummary> {
+  await sql`DELETE FROM data_quality_issues WHERE season = ${season}`;
+
+  const [{ games }] = await sql<[{ games: number }]>`
+    WITH season_games AS (
+      SELECT game_id FROM games
+      WHERE game_date >= make_date(${season}, 1, 1)
+        AND game_date < make_date(${season + 1}, 1, 1)
+    )
+    SELECT COUNT(*)::int as games
+    FROM season_games sg
+    WHERE EXISTS (SELECT 1 FROM batter_game_stats b WHERE b.game_id = sg.game_id)
+       OR EXISTS (SELECT 1 FROM pitcher_game_stats p WHERE p.game_id = sg.game_id)
+  `;
+
+  const issues = await sql<DataQualityIssue[]>`
+    WITH season_games AS (
+      SELECT game_id FROM games
+      WHERE game_date >= make_date(${season}, 1, 1)
+        AND game_date < make_date(${season + 1}, 1, 1)
+    ),
+    batting AS (
+      SELECT b.game_id, b.team_id,
+        ${sql.unsafe(BATTING_TOTALS)}
+      FROM batter_game_stats b
+      JOIN season_games sg ON sg.game_id = b.game_id
+      GROUP BY b.game_id, b.team_id
+    ),
+    pitching AS (
+      SELECT p.game_id, p.opponent_id as team_id,
+        ${sql.unsafe(PITCHING_TOTALS)}
+      FROM pitcher_game_stats p
+      JOIN season_games sg ON sg.game_id = p.game_id
+      WHERE p.opponent_id IS NOT NULL
+      GROUP BY p.game_id, p.opponent_id
+    ),
+    game_teams AS (
+      SELECT game_id, COUNT(DISTINCT team_id)::int as teams
+      FROM (
+        SELECT b.game_id, b.team_id FROM batter_game_stats b JOIN season_games sg ON sg.game_id = b.game_id
+        UNION
+        SELECT p.game_id, p.team_id FROM pitcher_game_stats p JOIN season_games sg ON sg.game_id = p.game_id
+      ) lines
+      GROUP BY game_id
+    )
+    INSERT INTO data_quality_issues (season, game_id, check_name, team_id, expected, actual)
+    SELECT ${season}::smallint, game_id, v.check_name, team_id, v.expected, v.actual
+    FROM batting b
+    FULL JOIN pitching p USING (game_id, team_id)
+    CROSS JOIN LATERAL (VALUES
+        ${sql.unsafe(COMPARISONS)}
+    ) v(check_name, expected, actual)
+    WHERE v.expected <> v.actual
+    UNION ALL
+    SELECT ${season}::smallint, game_id, 'team_count', NULL, 2, teams
+    FROM game_teams
+    WHERE teams <> 2
+    RETURNING season, game_id, check_name, team_id, expected, actual
+  `;
+
+  return summarizeDataQuality(season, games, [...issues]);
+}
+
+/**
+ * Get the recorded issues of a season, optionally of one check
+ */
+export async function getDataQualityIssues(
+  sql: Sql,
+  season: number,
+  options: { check?: DataQualityCheck; limit?: number } = {}
+): Promise<DataQualityIssue[]> {
+  const { check, limit = 100 } = options;
+
+  return sql<DataQualityIssue[]>`
+    SELECT season, game_id, check_name, team_id, expected, actual
+    FROM data_quality_issues
+    WHERE season = ${season}
+    ${check ? sql`AND check_name = ${check}` : sql``}
+    ORDER BY game_id, check_name, team_id
+    LIMIT ${limit}
+  `;
+}
@@ -0,0 +1,53 @@
+import type { Sql } from '../client.js';
+import type { PlateAppearanceEvent } from '../../types/database.js';
+
+export type PlateAppearanceEventInsert = Omit<PlateAppearanceEvent, 'id' | 'created_at'>;
+
+/**
+ * Replace the plate appearance events of a game
+ *
+ * Event files describe whole games, so re-ingesting a game swaps out all of its rows.
+ */
+export async function replaceGameEvents(
+  sql: Sql,
+  gameId: string,
+  events: PlateAppearanceEventInsert[]
+): Promise<void> {
+  await sql`DELETE FROM plate_appearance_events WHERE game_id = ${gameId}`;
+  if (events.length === 0) return;
+
+  await sql`INSERT INTO plate_appearance_events ${sql(events)}`;
+}
+
+/**
+ * Get the plate appearances of a game in play order
+ */
+export async function getPlateAppearancesByGame(
+  sql: Sql,
+  gameId: string
+): Promise<PlateAppearanceEvent[]> {
+  return sql<PlateAppearanceEvent[]>`
+    SELECT * FROM plate_appearance_events
+    WHERE game_id = ${gameId}
+    ORDER BY event_seq
+  `;
+}
+
+/**
+ * Get a player's plate appearances in a date range, oldest first
+ */
+export async function getPlateAppearancesByBatter(
+  sql: Sql,
+  playerId: string,
+  startDate: string,
+  endDate: string
+): Promise<PlateAppearanceEvent[]> {
+  return sql<PlateAppearanceEvent[]>`
+    SELECT pa.* FROM plate_appearance_events pa
+    JOIN games g ON pa.game_id = g.game_id
+    WHERE pa.batter_id = ${playerId}
+      AND g.game_date >= ${startDate}::date
+      AND g.game_date <= ${endDate}::date
+    ORDER BY g.game_date, g.game_number, pa.event_seq
+  `;
+}
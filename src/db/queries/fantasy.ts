@@ -1,11 +1,15 @@
-import type { Sql } from '../client.js';
+import { transaction, type Sql } from '../client.js';
 import type { FantasyRuleset, PointBreakdown, ScoringRule, BonusRule } from '../../types/fantasy.js';
+import { assertValidRuleset } from '../../scoring/validation.js';
+import { parseRulesetRef, type RulesetRef } from '../../scoring/ruleset-ref.js';
+import type { GameType } from '../../ingest/game-types.js';
 
 export interface FantasyGamePointsInsert {
   ruleset_id: string;
+  ruleset_version: number;
   game_id: string;
   player_id: string;
-  stat_type: 'batting' | 'pitching';
+  stat_type: 'batting' | 'pitching' | 'fielding';
   total_points: number;
   breakdown: PointBreakdown[];
   game_date: string;
@@ -14,9 +18,10 @@ export interface FantasyGamePointsInsert {
 export interface FantasyGamePointsRow {
   id: number;
   ruleset_id: string;
+  ruleset_version: number;
   game_id: string;
   player_id: string;
-  stat_type: 'batting' | 'pitching';
+  stat_type: 'batting' | 'pitching' | 'fielding';
   total_points: string; // DECIMAL comes as string
   breakdown: PointBreakdown[];
   game_date: Date;
@@ -30,88 +35,201 @@ export interface LeaderboardEntry {
   avg_points: string;
 }
 
-/**
- * Upsert a fantasy ruleset
- */
-export async function upsertRuleset(sql: Sql, ruleset: FantasyRuleset): Promise<void> {
-  await sql`
-    INSERT INTO fantasy_rulesets (
-      ruleset_id, name, description, batting_rules, pitching_rules, bonus_rules
-    ) VALUES (
-      ${ruleset.id},
-      ${ruleset.name},
-      ${ruleset.description ?? null},
-      ${sql.json(ruleset.batting)},
-      ${sql.json(ruleset.pitching)},
-      ${ruleset.bonuses ? sql.json(ruleset.bonuses) : null}
-    )
-    ON CONFLICT (ruleset_id) DO UPDATE SET
-      name = EXCLUDED.name,
-      description = EXCLUDED.description,
-      batting_rules = EXCLUDED.batting_rules,
-      pitching_rules = EXCLUDED.pitching_rules,
-      bonus_rules = EXCLUDED.bonus_rules
-  `;
+export interface RulesetVersionSummary {
+  version: number;
+  name: string;
+  created_at: Date;
+  points: number;
 }
 
-/**
- * Get a ruleset by ID
- */
-export async function getRuleset(sql: Sql, rulesetId: string): Promise<FantasyRuleset | null> {
-  const [row] = await sql<
-    {
-      ruleset_id: string;
-      name: string;
-      description: string | null;
-      batting_rules: ScoringRule[];
-      pitching_rules: ScoringRule[];
-      bonus_rules: BonusRule[] | null;
-    }[]
-  >`
-    SELECT ruleset_id, name, description, batting_rules, pitching_rules, bonus_rules
-    FROM fantasy_rulesets
-    WHERE ruleset_id = ${rulesetId}
-  `;
-
-  if (!row) return null;
+interface RulesetRow {
+  ruleset_id: string;
+  version: number;
+  name: string;
+  description: string | null;
+  batting_rules: ScoringRule[];
+  pitching_rules: ScoringRule[];
+  fielding_rules: ScoringRule[] | null;
+  bonus_rules: BonusRule[] | null;
+  park_adjusted: boolean;
+  scoring_policies: FantasyRuleset['policies'] | null;
+}
 
+function toRuleset(row: RulesetRow): FantasyRuleset {
   return {
     id: row.ruleset_id,
+    version: row.version,
     name: row.name,
     description: row.description ?? undefined,
     batting: row.batting_rules,
     pitching: row.pitching_rules,
+    fielding: row.fielding_rules ?? undefined,
     bonuses: row.bonus_rules ?? undefined,
+    parkAdjusted: row.park_adjusted || undefined,
+    policies: row.scoring_policies ?? undefined,
   };
 }
 
 /**
- * Get all rulesets
+ * SQL for the version a ruleset reference points at (the current version when unpinned)
+ */
+function versionOf(sql: Sql, ref: RulesetRef) {
+  return ref.version !== undefined
+    ? sql`${ref.version}::int`
+    : sql`(SELECT current_version FROM fantasy_rulesets WHERE ruleset_id = ${ref.id})`;
+}
+
+/**
+ * Save a fantasy ruleset as a new version
+ *
+ * Throws if the ruleset references unknown stats or has invalid expressions.
+ * Versions are immutable: if anything differs from the current version a new one
+ * is created, otherwise nothing is written. Any `version` on the input is ignored.
+ */
+export async function upsertRuleset(
+  sql: Sql,
+  ruleset: FantasyRuleset
+): Promise<{ version: number; changed: boolean }> {
+  assertValidRuleset(ruleset);
+
+  return transaction(sql, async (tx) => {
+    const description = ruleset.description ?? null;
+    const batting = tx.json(ruleset.batting);
+    const pitching = tx.json(ruleset.pitching);
+    const fielding = ruleset.fielding ? tx.json(ruleset.fielding) : null;
+    const bonuses = ruleset.bonuses ? tx.json(ruleset.bonuses) : null;
+    const parkAdjusted = ruleset.parkAdjusted ?? false;
+    const policies = ruleset.policies ? tx.json(ruleset.policies) : null;
+
+    // Compare as JSONB so key order in the stored rules doesn't matter
+    const [current] = await tx<{ current_version: number; changed: boolean }[]>`
+      SELECT
+        r.current_version,
+        (v.name, v.description, v.batting_rules, v.pitching_rules, v.fielding_rules, v.bonus_rules,
+          v.park_adjusted, v.scoring_policies)
+          IS DISTINCT FROM
+          (${ruleset.name}::varchar, ${description}::text, ${batting}::jsonb, ${pitching}::jsonb,
+            ${fielding}::jsonb, ${bonuses}::jsonb, ${parkAdjusted}::boolean, ${policies}::jsonb)
+          as changed
+      FROM fantasy_rulesets r
+      JOIN fantasy_ruleset_versions v
+        ON v.ruleset_id = r.ruleset_id AND v.version = r.current_version
+      WHERE r.ruleset_id = ${ruleset.id}
+      FOR UPDATE OF r
+    `;
+
+    if (current && !current.changed) {
+      return { version: current.current_version, changed: false };
+    }
+
+    const version = current ? current.current_version + 1 : 1;
+
+    await tx`
+      INSERT INTO fantasy_rulesets (
+        ruleset_id, name, description, batting_rules, pitching_rules, fielding_rules, bonus_rules,
+        park_adjusted, scoring_policies, current_version
+      ) VALUES (
+        ${ruleset.id},
+        ${ruleset.name},
+        ${description},
+        ${batting},
+        ${pitching},
+        ${fielding},
+        ${bonuses},
+        ${parkAdjusted},
+        ${policies},
+        ${version}
+      )
+      ON CONFLICT (ruleset_id) DO UPDATE SET
+        name = EXCLUDED.name,
+        description = EXCLUDED.description,
+        batting_rules = EXCLUDED.batting_rules,
+        pitching_rules = EXCLUDED.pitching_rules,
+        fielding_rules = EXCLUDED.fielding_rules,
+        bonus_rules = EXCLUDED.bonus_rules,
+        park_adjusted = EXCLUDED.park_adjusted,
+        scoring_policies = EXCLUDED.scoring_policies,
+        current_version = EXCLUDED.current_version,
+        updated_at = NOW()
+    `;
+
+    await tx`
+      INSERT INTO fantasy_ruleset_versions (
+        ruleset_id, version, name, description, batting_rules, pitching_rules, fielding_rules,
+        bonus_rules, park_adjusted, scoring_policies
+      ) VALUES (
+        ${ruleset.id},
+        ${version},
+        ${ruleset.name},
+        ${description},
+        ${batting},
+        ${pitching},
+        ${fielding},
+        ${bonuses},
+        ${parkAdjusted},
+        ${policies}
+      )
+    `;
+
+    return { version, changed: true };
+  });
+}
+
+/**
+ * Get a ruleset by reference ("standard" for the current version, "standard@v3" for a specific one)
+ */
+export async function getRuleset(sql: Sql, rulesetRef: string): Promise<FantasyRuleset | null> {
+  const ref = parseRulesetRef(rulesetRef);
+
+  const [row] = await sql<RulesetRow[]>`
+    SELECT
+      ruleset_id, version, name, description,
+      batting_rules, pitching_rules, fielding_rules, bonus_rules, park_adjusted,
+      scoring_policies
+    FROM fantasy_ruleset_versions
+    WHERE ruleset_id = ${ref.id}
+      AND version = ${versionOf(sql, ref)}
+  `;
+
+  return row ? toRuleset(row) : null;
+}
+
+/**
+ * Get the current version of all rulesets
  */
 export async function getAllRulesets(sql: Sql): Promise<FantasyRuleset[]> {
-  const rows = await sql<
-    {
-      ruleset_id: string;
-      name: string;
-      description: string | null;
-      batting_rules: ScoringRule[];
-      pitching_rules: ScoringRule[];
-      bonus_rules: BonusRule[] | null;
-    }[]
-  >`
-    SELECT ruleset_id, name, description, batting_rules, pitching_rules, bonus_rules
+  const rows = await sql<RulesetRow[]>`
+    SELECT
+      ruleset_id, current_version as version, name, description,
+      batting_rules, pitching_rules, fielding_rules, bonus_rules, park_adjusted,
+      scoring_policies
     FROM fantasy_rulesets
     ORDER BY ruleset_id
   `;
 
-  return rows.map((row) => ({
-    id: row.ruleset_id,
-    name: row.name,
-    description: row.description ?? undefined,
-    batting: row.batting_rules,
-    pitching: row.pitching_rules,
-    bonuses: row.bonus_rules ?? undefined,
-  }));
+  return rows.map(toRuleset);
+}
+
+/**
+ * List the versions of a ruleset, newest first, with how many point rows each produced
+ */
+export async function getRulesetVersions(
+  sql: Sql,
+  rulesetId: string
+): Promise<RulesetVersionSummary[]> {
+  return sql<RulesetVersionSummary[]>`
+    SELECT
+      v.version,
+      v.name,
+      v.created_at,
+      (
+        SELECT COUNT(*)::int FROM fantasy_game_points fgp
+        WHERE fgp.ruleset_id = v.ruleset_id AND fgp.ruleset_version = v.version
+      ) as points
+    FROM fantasy_ruleset_versions v
+    WHERE v.ruleset_id = ${rulesetId}
+    ORDER BY v.version DESC
+  `;
 }
 
 /**
@@ -123,9 +241,10 @@ export async function upsertFantasyGamePoints(
 ): Promise<void> {
   await sql`
     INSERT INTO fantasy_game_points (
-      ruleset_id, game_id, player_id, stat_type, total_points, breakdown, game_date
+      ruleset_id, ruleset_version, game_id, player_id, stat_type, total_points, breakdown, game_date
     ) VALUES (
       ${points.ruleset_id},
+      ${points.ruleset_version},
       ${points.game_id},
       ${points.player_id},
       ${points.stat_type},
@@ -133,7 +252,7 @@ export async function upsertFantasyGamePoints(
       ${sql.json(points.breakdown)},
       ${points.game_date}::date
     )
-    ON CONFLICT (ruleset_id, game_id, player_id, stat_type) DO UPDATE SET
+    ON CONFLICT (ruleset_id, ruleset_version, game_id, player_id, stat_type) DO UPDATE SET
       total_points = EXCLUDED.total_points,
       breakdown = EXCLUDED.breakdown,
       calculated_at = NOW()
@@ -145,14 +264,17 @@ export async function upsertFantasyGamePoints(
  */
 export async function getFantasyPointsByPlayer(
   sql: Sql,
-  rulesetId: string,
+  rulesetRef: string,
   playerId: string,
   year?: number
 ): Promise<FantasyGamePointsRow[]> {
+  const ref = parseRulesetRef(rulesetRef);
+
   if (year) {
     return sql<FantasyGamePointsRow[]>`
       SELECT * FROM fantasy_game_points
-      WHERE ruleset_id = ${rulesetId}
+      WHERE ruleset_id = ${ref.id}
+        AND ruleset_version = ${versionOf(sql, ref)}
         AND player_id = ${playerId}
         AND EXTRACT(YEAR FROM game_date) = ${year}
       ORDER BY game_date
@@ -160,7 +282,8 @@ export async function getFantasyPointsByPlayer(
   }
   return sql<FantasyGamePointsRow[]>`
     SELECT * FROM fantasy_game_points
-    WHERE ruleset_id = ${rulesetId}
+    WHERE ruleset_id = ${ref.id}
+      AND ruleset_version = ${versionOf(sql, ref)}
       AND player_id = ${playerId}
     ORDER BY game_date
   `;
@@ -171,12 +294,15 @@ export async function getFantasyPointsByPlayer(
  */
 export async function getFantasyPointsByGame(
   sql: Sql,
-  rulesetId: string,
+  rulesetRef: string,
   gameId: string
 ): Promise<FantasyGamePointsRow[]> {
+  const ref = parseRulesetRef(rulesetRef);
+
   return sql<FantasyGamePointsRow[]>`
     SELECT * FROM fantasy_game_points
-    WHERE ruleset_id = ${rulesetId}
+    WHERE ruleset_id = ${ref.id}
+      AND ruleset_version = ${versionOf(sql, ref)}
       AND game_id = ${gameId}
     ORDER BY total_points DESC
   `;
@@ -184,73 +310,52 @@ export async function getFantasyPointsByGame(
 
 /**
  * Get fantasy leaderboard
+ *
+ * With `franchise`, only points earned while playing for that franchise count
+ * (across all of its team codes, e.g. MON and WAS). With `gameTypes`, only
+ * points from games of those types count (e.g. POSTSEASON_GAME_TYPES).
  */
 export async function getFantasyLeaderboard(
   sql: Sql,
-  rulesetId: string,
+  rulesetRef: string,
   options: {
     year?: number;
     statType?: 'batting' | 'pitching';
+    franchise?: string;
+    gameTypes?: GameType[];
     limit?: number;
   } = {}
 ): Promise<LeaderboardEntry[]> {
-  const { year, statType, limit = 25 } = options;
+  const { year, statType, franchise, gameTypes, limit = 25 } = options;
+  const ref = parseRulesetRef(rulesetRef);
 
-  let query = sql<LeaderboardEntry[]>`
+  return sql<LeaderboardEntry[]>`
     SELECT
       player_id,
       COUNT(*)::int as games,
       SUM(total_points)::text as total_points,
       ROUND(AVG(total_points), 2)::text as avg_points
-    FROM fantasy_game_points
-    WHERE ruleset_id = ${rulesetId}
+    FROM fantasy_game_points fgp
+    WHERE ruleset_id = ${ref.id}
+      AND ruleset_version = ${versionOf(sql, ref)}
+      ${year ? sql`AND EXTRACT(YEAR FROM game_date) = ${year}` : sql``}
+      ${statType ? sql`AND stat_type = ${statType}` : sql``}
+      ${gameTypes ? sql`
+        AND game_id IN (SELECT game_id FROM games WHERE game_type = ANY(${gameTypes}::varchar[]))
+      ` : sql``}
+      ${franchise ? sql`
+        AND EXISTS (
+          SELECT 1 FROM player_game_teams pgt
+          JOIN teams t ON pgt.team_id = t.team_id
+          WHERE pgt.game_id = fgp.game_id
+            AND pgt.player_id = fgp.player_id
+            AND t.franchise_id = ${franchise}
+        )
+      ` : sql``}
+    GROUP BY player_id
+    ORDER BY SUM(total_points) DESC
+    LIMIT ${limit}
   `;
-
-  if (year) {
-    query = sql<LeaderboardEntry[]>`
-      SELECT
-        player_id,
-        COUNT(*)::int as games,
-        SUM(total_points)::text as total_points,
-        ROUND(AVG(total_points), 2)::text as avg_points
-      FROM fantasy_game_points
-      WHERE ruleset_id = ${rulesetId}
-        AND EXTRACT(YEAR FROM game_date) = ${year}
-        ${statType ? sql`AND stat_type = ${statType}` : sql``}
-      GROUP BY player_id
-      ORDER BY SUM(total_points) DESC
-      LIMIT ${limit}
-    `;
-  } else if (statType) {
-    query = sql<LeaderboardEntry[]>`
-      SELECT
-        player_id,
-        COUNT(*)::int as games,
-        SUM(total_points)::text as total_points,
-        ROUND(AVG(total_points), 2)::text as avg_points
-      FROM fantasy_game_points
-      WHERE ruleset_id = ${rulesetId}
-        AND stat_type = ${statType}
-      GROUP BY player_id
-      ORDER BY SUM(total_points) DESC
-      LIMIT ${limit}
-    `;
-  } else {
-    query = sql<LeaderboardEntry[]>`
-      SELECT
-        player_id,
-        COUNT(*)::int as games,
-        SUM(total_points)::text as total_points,
-        ROUND(AVG(total_points), 2)::text as avg_points
-      FROM fantasy_game_points
-      WHERE ruleset_id = ${rulesetId}
-      GROUP BY player_id
-      ORDER BY SUM(total_points) DESC
-      LIMIT ${limit}
-    `;
-  }
-
-  return query;
 }
 
 /**
@@ -258,16 +363,48 @@ export async function getFantasyLeaderboard(
  */
 export async function getExistingPointsGameIds(
   sql: Sql,
-  rulesetId: string,
+  rulesetRef: string,
   gameIds: string[]
 ): Promise<Set<string>> {
   if (gameIds.length === 0) return new Set();
+  const ref = parseRulesetRef(rulesetRef);
 
   const rows = await sql<{ game_id: string }[]>`
     SELECT DISTINCT game_id FROM fantasy_game_points
-    WHERE ruleset_id = ${rulesetId}
+    WHERE ruleset_id = ${ref.id}
+      AND ruleset_version = ${versionOf(sql, ref)}
       AND game_id = ANY(${gameIds}::varchar[])
   `;
 
   return new Set(rows.map((r) => r.game_id));
 }
+
+/**
+ * Count stored fantasy point rows per ruleset
+ */
+export async function getFantasyPointCounts(sql: Sql): Promise<Map<string, number>> {
+  const rows = await sql<{ ruleset_id: string; count: number }[]>`
+    SELECT ruleset_id, COUNT(*)::int as count
+    FROM fantasy_game_points
+    GROUP BY ruleset_id
+  `;
+
+  return new Map(rows.map((r) => [r.ruleset_id, r.count]));
+}
+
+/**
+ * Delete a ruleset and all fantasy points calculated with it
+ *
+ * Returns the number of point rows removed, or null if the ruleset does not exist.
+ */
+export async function deleteRuleset(sql: Sql, rulesetId: string): Promise<number | null> {
+  return transaction(sql, async (tx) => {
+    const points = await tx`
+      DELETE FROM fantasy_game_points WHERE ruleset_id = ${rulesetId}
+    `;
+    const rulesets = await tx`
+      DELETE FROM fantasy_rulesets WHERE ruleset_id = ${rulesetId}
+    `;
+    return rulesets.count === 0 ? null : points.count;
+  });
+}
@@ -1,5 +1,6 @@
 import type { Sql } from '../client.js';
 import type { Game } from '../../types/database.js';
+import type { GameType } from '../../ingest/game-types.js';
 
 export interface GameInsert {
   game_id: string;
@@ -13,6 +14,33 @@ export interface GameInsert {
   has_pbp: boolean;
 }
 
+export type GameUmpire = {
+  position: 'HP' | '1B' | '2B' | '3B' | 'LF' | 'RF';
+  id: string;
+  name: string;
+};
+
+/**
+ * A game with its result, as read from a Retrosheet game log
+ */
+export interface GameLogInsert extends GameInsert {
+  away_score: number | null;
+  home_score: number | null;
+  innings: number | null;
+  length_outs: number | null;
+  day_night: string | null;
+  attendance: number | null;
+  duration_minutes: number | null;
+  away_line_score: string | null;
+  home_line_score: string | null;
+  umpires: GameUmpire[];
+  away_starting_pitcher_id: string | null;
+  home_starting_pitcher_id: string | null;
+  winning_pitcher_id: string | null;
+  losing_pitcher_id: string | null;
+  saving_pitcher_id: string | null;
+}
+
 /**
  * Upsert a game
  */
@@ -32,6 +60,52 @@ export async function upsertGame(sql: Sql, game: GameInsert): Promise<void> {
   `;
 }
 
+/**
+ * Upsert a game with its result from a game log
+ *
+ * Existing games keep their type and box/play-by-play flags; the result
+ * columns are overwritten.
+ */
+export async function upsertGameLog(sql: Sql, game: GameLogInsert): Promise<void> {
+  await sql`
+    INSERT INTO games (
+      game_id, game_date, game_number, site, home_team_id, away_team_id,
+      game_type, has_box, has_pbp,
+      away_score, home_score, innings, length_outs, day_night, attendance,
+      duration_minutes, away_line_score, home_line_score, umpires,
+      away_starting_pitcher_id, home_starting_pitcher_id,
+      winning_pitcher_id, losing_pitcher_id, saving_pitcher_id
+    ) VALUES (
+      ${game.game_id}, ${game.game_date}::date, ${game.game_number},
+      ${game.site}, ${game.home_team_id}, ${game.away_team_id},
+      ${game.game_type}, ${game.has_box}, ${game.has_pbp},
+      ${game.away_score}, ${game.home_score}, ${game.innings}, ${game.length_outs},
+      ${game.day_night}, ${game.attendance}, ${game.duration_minutes},
+      ${game.away_line_score}, ${game.home_line_score}, ${sql.json(game.umpires)},
+      ${game.away_starting_pitcher_id}, ${game.home_starting_pitcher_id},
+      ${game.winning_pitcher_id}, ${game.losing_pitcher_id}, ${game.saving_pitcher_id}
+    )
+    ON CONFLICT (game_id) DO UPDATE SET
+      site = COALESCE(games.site, EXCLUDED.site),
+      game_type = COALESCE(games.game_type, EXCLUDED.game_type),
+      away_score = EXCLUDED.away_score,
+      home_score = EXCLUDED.home_score,
+      innings = EXCLUDED.innings,
+      length_outs = EXCLUDED.length_outs,
+      day_night = EXCLUDED.day_night,
+      attendance = EXCLUDED.attendance,
+      duration_minutes = EXCLUDED.duration_minutes,
+      away_line_score = EXCLUDED.away_line_score,
+      home_line_score = EXCLUDED.home_line_score,
+      umpires = EXCLUDED.umpires,
+      away_starting_pitcher_id = EXCLUDED.away_starting_pitcher_id,
+      home_starting_pitcher_id = EXCLUDED.home_starting_pitcher_id,
+      winning_pitcher_id = EXCLUDED.winning_pitcher_id,
+      losing_pitcher_id = EXCLUDED.losing_pitcher_id,
+      saving_pitcher_id = EXCLUDED.saving_pitcher_id
+  `;
+}
+
 /**
  * Get a game by ID
  */
@@ -68,3 +142,23 @@ export async function getGamesByYear(sql: Sql, year: number): Promise<Game[]> {
     ORDER BY game_date, game_id
   `;
 }
+
+/**
+ * Count games per date in a date range (dates as YYYY-MM-DD), optionally of some game types
+ */
+export async function getGameCountsByDate(
+  sql: Sql,
+  startDate: string,
+  endDate: string,
+  gameTypes?: GameType[]
+): Promise<{ game_date: string; games: number }[]> {
+  return sql<{ game_date: string; games: number }[]>`
+    SELECT game_date::text as game_date, COUNT(*)::int as games
+    FROM games
+    WHERE game_date >= ${startDate}::date
+      AND game_date <= ${endDate}::date
+      ${gameTypes ? sql`AND game_type = ANY(${gameTypes}::varchar[])` : sql``}
+    GROUP BY game_date
+    ORDER BY game_date
+  `;
+}
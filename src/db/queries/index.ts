@@ -1,5 +1,12 @@
 export * from './players.js';
 export * from './teams.js';
+export * from './parks.js';
 export * from './games.js';
 export * from './stats.js';
 export * from './fantasy.js';
+export * from './what-if.js';
+export * from './scoring-jobs.js';
+export * from './events.js';
+export * from './data-quality.js';
+export * from './ingestion.js';
+export * from './leagues.js';
@@ -0,0 +1,169 @@
+import type { Sql } from '../client.js';
+import type { IngestionBatch } from '../../types/database.js';
+
+export interface IngestionBatchStatus extends IngestionBatch {
+  /** Seconds from start to completion, or to now while in progress */
+  duration_seconds: number | null;
+  /** Rows still in the staging tables for this batch */
+  staged_rows: number;
+}
+
+/**
+ * Get ingestion batches, newest first
+ */
+export async function getIngestionBatches(
+  sql: Sql,
+  options: { years?: number[]; status?: IngestionBatch['status']; limit?: number } = {}
+): Promise<IngestionBatchStatus[]> {
+  const { years, status, limit = 50 } = options;
+
+  return sql<IngestionBatchStatus[]>`
+    SELECT ib.*,
+      EXTRACT(EPOCH FROM (
+        COALESCE(ib.completed_at, CASE WHEN ib.status = 'in_progress' THEN NOW() END) - ib.started_at
+      ))::float8 as duration_seconds,
+      (
+        (SELECT COUNT(*) FROM staging_batting s WHERE s.batch_id = ib.batch_id) +
+        (SELECT COUNT(*) FROM staging_pitching s WHERE s.batch_id = ib.batch_id) +
+        (SELECT COUNT(*) FROM staging_fielding s WHERE s.batch_id = ib.batch_id)
+      )::int as staged_rows
+    FROM ingestion_batches ib
+    WHERE TRUE
+      ${years ? sql`AND ib.year = ANY(${years}::int[])` : sql``}
+      ${status ? sql`AND ib.status = ${status}` : sql``}
+    ORDER BY ib.started_at DESC, ib.source_type
+    LIMIT ${limit}
+  `;
+}
+
+/**
+ * Find the ingestion batch with this ID or unique ID prefix
+ */
+export async function findIngestionBatch(sql: Sql, idOrPrefix: string): Promise<IngestionBatch | null> {
+  const batches = await sql<IngestionBatch[]>`
+    SELECT * FROM ingestion_batches
+    WHERE batch_id::text LIKE ${`${idOrPrefix.toLowerCase()}%`}
+    LIMIT 2
+  `;
+
+  if (batches.length > 1) {
+    throw new Error(`Batch ID prefix "${idOrPrefix}" matches more than one batch`);
+  }
+  return batches[0] ?? null;
+}
+
+export interface RollbackResult {
+  year: number;
+  games: number;
+  battingLines: number;
+  pitchingLines: number;
+  fieldingLines: number;
+  events: number;
+  fantasyPoints: number;
+  batches: number;
+}
+
+/**
+ * Remove a year's games with everything derived from them
+ *
+ * Deletes stat lines, play-by-play events, fantasy points, data quality
+ * issues, park factors and scoring jobs, and marks the year's ingestion
+ * batches rolled back so it can be ingested again without --force. Players
+ * and teams are shared across years and are kept. Run it in a transaction.
+ *
+ * `keepBatchIds` are left as they are, e.g. the batches replacing the year.
+ */
+export async function rollbackIngestedYear(
+  sql: Sql,
+  year: number,
+  options: { keepBatchIds?: string[] } = {}
+): Promise<RollbackResult> {
+  const { keepBatchIds = [] } = options;
+  const yearGames = () => sql`
+    SELECT game_id FROM games
+    WHERE game_date >= make_date(${year}, 1, 1)
+      AND game_date < make_date(${year + 1}, 1, 1)
+  `;
+
+  const fantasyPoints = await sql`DELETE FROM fantasy_game_points WHERE game_id IN (${yearGames()})`;
+  await sql`DELETE FROM data_quality_issues WHERE game_id IN (${yearGames()}) OR season = ${year}`;
+  const events = await sql`DELETE FROM plate_appearance_events WHERE game_id IN (${yearGames()})`;
+  const fieldingLines = await sql`DELETE FROM fielder_game_stats WHERE game_id IN (${yearGames()})`;
+  const pitchingLines = await sql`DELETE FROM pitcher_game_stats WHERE game_id IN (${yearGames()})`;
+  const battingLines = await sql`DELETE FROM batter_game_stats WHERE game_id IN (${yearGames()})`;
+  const games = await sql`DELETE FROM games WHERE game_id IN (${yearGames()})`;
+
+  await sql`DELETE FROM park_factors WHERE season = ${year}`;
+  await sql`DELETE FROM scoring_jobs WHERE year = ${year}`;
+
+  const batches = await sql<{ batch_id: string }[]>`
+    UPDATE ingestion_batches
+    SET status = 'rolled_back'
+    WHERE year = ${year}
+      AND status <> 'rolled_back'
+      AND batch_id <> ALL(${keepBatchIds}::uuid[])
+    RETURNING batch_id
+  `;
+  const batchIds = batches.map((b) => b.batch_id);
+  await sql`DELETE FROM staging_batting WHERE batch_id = ANY(${batchIds}::uuid[])`;
+  await sql`DELETE FROM staging_pitching WHERE batch_id = ANY(${batchIds}::uuid[])`;
+  await sql`DELETE FROM staging_fielding WHERE batch_id = ANY(${batchIds}::uuid[])`;
+
+  return {
+    year,
+    games: games.count,
+    battingLines: battingLines.count,
+    pitchingLines: pitchingLines.count,
+    fieldingLines: fieldingLines.count,
+    events: events.count,
+    fantasyPoints: fantasyPoints.count,
+    batches: batches.length,
+  };
+}
+
+export interface StagingPurgeResult {
+  abandonedBatches: number;
+  battingRows: number;
+  pitchingRows: number;
+  fieldingRows: number;
+}
+
+/**
+ * Delete staging rows that no running ingestion owns
+ *
+ * Batches still in progress after `staleHours` are assumed to belong to a
+ * crashed run and are marked failed first; the staged rows of every batch
+ * that is not in progress (or has no batch at all) are then deleted.
+ */
+export async function purgeOrphanedStaging(
+  sql: Sql,
+  options: { staleHours?: number } = {}
+): Promise<StagingPurgeResult> {
+  const { staleHours = 24 } = options;
+
+  const abandoned = await sql`
+    UPDATE ingestion_batches
+    SET status = 'failed',
+        error_message = 'Abandoned while in progress'
+    WHERE status = 'in_progress'
+      AND started_at < NOW() - make_interval(hours => ${staleHours})
+  `;
+
+  // NOT EXISTS rather than NOT IN, which never matches a row whose batch_id is NULL
+  const unowned = () => sql`
+    NOT EXISTS (
+      SELECT 1 FROM ingestion_batches b
+      WHERE b.batch_id = s.batch_id AND b.status = 'in_progress'
+    )
+  `;
+  const batting = await sql`DELETE FROM staging_batting s WHERE ${unowned()}`;
+  const pitching = await sql`DELETE FROM staging_pitching s WHERE ${unowned()}`;
+  const fielding = await sql`DELETE FROM staging_fielding s WHERE ${unowned()}`;
+
+  return {
+    abandonedBatches: abandoned.count,
+    battingRows: batting.count,
+    pitchingRows: pitching.count,
+    fieldingRows: fielding.count,
+  };
+}
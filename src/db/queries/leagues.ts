@@ -0,0 +1,249 @@
+import { transaction, type Sql } from '../client.js';
+import type { RotoCategory, RotoLeague, RotoLeagueRow } from '../../types/roto.js';
+import {
+  assertValidLeague,
+  buildCategorySql,
+  computeStandings,
+  toRotoTotals,
+  type RotoStandings,
+  type RotoTotals,
+} from '../../scoring/roto.js';
+
+export interface RotoLeagueSummary {
+  league_id: string;
+  name: string;
+  season: number;
+  teams: number;
+  players: number;
+}
+
+/**
+ * Throw if any of the players is not in the players table
+ */
+async function assertKnownPlayers(sql: Sql, playerIds: string[]): Promise<void> {
+  if (playerIds.length === 0) return;
+  const known = await sql<{ player_id: string }[]>`
+    SELECT player_id FROM players WHERE player_id = ANY(${playerIds}::varchar[])
+  `;
+  const found = new Set(known.map((row) => row.player_id));
+  const unknown = playerIds.filter((id) => !found.has(id));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown players: ${unknown.join(', ')}`);
+  }
+}
+
+/**
+ * Create or replace a roto league with its teams and rosters
+ *
+ * Throws if the league references unknown stats or players, or shares a player
+ * between teams. Returns whether the league already existed.
+ */
+export async function upsertLeague(sql: Sql, league: RotoLeague): Promise<{ created: boolean }> {
+  assertValidLeague(league);
+
+  return transaction(sql, async (tx) => {
+    await assertKnownPlayers(tx, league.teams.flatMap((team) => team.players));
+
+    const [existing] = await tx<{ league_id: string }[]>`
+      SELECT league_id FROM roto_leagues WHERE league_id = ${league.id} FOR UPDATE
+    `;
+
+    await tx`
+      INSERT INTO roto_leagues (league_id, name, season, categories, tiebreakers)
+      VALUES (
+        ${league.id},
+        ${league.name},
+        ${league.season},
+        ${tx.json(league.categories)},
+        ${tx.json(league.tiebreakers)}
+      )
+      ON CONFLICT (league_id) DO UPDATE SET
+        name = EXCLUDED.name,
+        season = EXCLUDED.season,
+        categories = EXCLUDED.categories,
+        tiebreakers = EXCLUDED.tiebreakers,
+        updated_at = NOW()
+    `;
+
+    // Rosters cascade with their teams
+    await tx`DELETE FROM roto_teams WHERE league_id = ${league.id}`;
+    if (league.teams.length > 0) {
+      const teams = league.teams.map((team) => ({
+        league_id: league.id,
+        team_id: team.id,
+        name: team.name,
+      }));
+      await tx`INSERT INTO roto_teams ${tx(teams)}`;
+    }
+
+    const roster = league.teams.flatMap((team) =>
+      team.players.map((playerId) => ({
+        league_id: league.id,
+        team_id: team.id,
+        player_id: playerId,
+      }))
+    );
+    if (roster.length > 0) {
+      await tx`INSERT INTO roto_roster_players ${tx(roster)}`;
+    }
+
+    return { created: !existing };
+  });
+}
+
+/**
+ * Get a roto league with its teams and their rosters
+ */
+export async function getLeague(sql: Sql, leagueId: string): Promise<RotoLeague | null> {
+  const [row] = await sql<RotoLeagueRow[]>`
+    SELECT * FROM roto_leagues WHERE league_id = ${leagueId}
+  `;
+  if (!row) return null;
+
+  const teams = await sql<{ team_id: string; name: string; players: string[] }[]>`
+    SELECT
+      t.team_id,
+      t.name,
+      COALESCE(
+        array_agg(r.player_id ORDER BY r.player_id) FILTER (WHERE r.player_id IS NOT NULL),
+        '{}'
+      ) as players
+    FROM roto_teams t
+    LEFT JOIN roto_roster_players r ON r.league_id = t.league_id AND r.team_id = t.team_id
+    WHERE t.league_id = ${leagueId}
+    GROUP BY t.team_id, t.name
+    ORDER BY t.team_id
+  `;
+
+  return {
+    id: row.league_id,
+    name: row.name,
+    season: row.season,
+    categories: row.categories,
+    tiebreakers: row.tiebreakers,
+    teams: teams.map((team) => ({ id: team.team_id, name: team.name, players: team.players })),
+  };
+}
+
+/**
+ * List roto leagues with how many teams and rostered players each has
+ */
+export async function getAllLeagues(sql: Sql): Promise<RotoLeagueSummary[]> {
+  return sql<RotoLeagueSummary[]>`
+    SELECT
+      l.league_id,
+      l.name,
+      l.season,
+      (SELECT COUNT(*)::int FROM roto_teams t WHERE t.league_id = l.league_id) as teams,
+      (SELECT COUNT(*)::int FROM roto_roster_players r WHERE r.league_id = l.league_id) as players
+    FROM roto_leagues l
+    ORDER BY l.season DESC, l.league_id
+  `;
+}
+
+/**
+ * Put players on a team, moving them off any other team of the league
+ *
+ * Returns how many players were added or moved. Throws for an unknown team or player.
+ */
+export async function assignPlayers(
+  sql: Sql,
+  leagueId: string,
+  teamId: string,
+  playerIds: string[]
+): Promise<number> {
+  return transaction(sql, async (tx) => {
+    const [team] = await tx`
+      SELECT 1 FROM roto_teams WHERE league_id = ${leagueId} AND team_id = ${teamId}
+    `;
+    if (!team) {
+      throw new Error(`Team "${teamId}" not found in league "${leagueId}"`);
+    }
+    await assertKnownPlayers(tx, playerIds);
+    if (playerIds.length === 0) return 0;
+
+    const rows = playerIds.map((playerId) => ({
+      league_id: leagueId,
+      team_id: teamId,
+      player_id: playerId,
+    }));
+    const result = await tx`
+      INSERT INTO roto_roster_players ${tx(rows)}
+      ON CONFLICT (league_id, player_id) DO UPDATE SET team_id = EXCLUDED.team_id
+      WHERE roto_roster_players.team_id <> EXCLUDED.team_id
+    `;
+    return result.count;
+  });
+}
+
+/**
+ * Remove players from whichever team of the league has them; returns how many were removed
+ */
+export async function dropPlayers(
+  sql: Sql,
+  leagueId: string,
+  playerIds: string[]
+): Promise<number> {
+  const result = await sql`
+    DELETE FROM roto_roster_players
+    WHERE league_id = ${leagueId} AND player_id = ANY(${playerIds}::varchar[])
+  `;
+  return result.count;
+}
+
+/**
+ * Delete a roto league with its teams and rosters; returns false if it did not exist
+ */
+export async function deleteLeague(sql: Sql, leagueId: string): Promise<boolean> {
+  const result = await sql`DELETE FROM roto_leagues WHERE league_id = ${leagueId}`;
+  return result.count > 0;
+}
+
+/**
+ * Season totals of each team's categories of one section
+ *
+ * Counts the league season's regular-season lines of rostered players. Players
+ * with several lines in a game count their last one, as in scoring.
+ */
+async function getSectionTotals(
+  sql: Sql,
+  league: RotoLeague,
+  section: RotoCategory['section'],
+  totals: RotoTotals
+): Promise<void> {
+  const categories = league.categories.filter((c) => c.section === section);
+  if (categories.length === 0) return;
+
+  const { sums, pers } = buildCategorySql(categories, 's');
+  const table = section === 'batting' ? sql`batter_game_stats` : sql`pitcher_game_stats`;
+  const sequence = section === 'batting' ? sql`s.batting_seq` : sql`s.pitching_seq`;
+
+  const rows = await sql<{ team_id: string; sums: number[]; pers: number[] }[]>`
+    WITH lines AS (
+      -- Stat tables have their own team_id (the player's MLB team)
+      SELECT DISTINCT ON (s.game_id, s.player_id) r.team_id as roster_team_id, s.*
+      FROM ${table} s
+      JOIN games g ON s.game_id = g.game_id
+      JOIN roto_roster_players r ON r.player_id = s.player_id AND r.league_id = ${league.id}
+      WHERE g.game_date >= ${`${league.season}-01-01`}::date
+        AND g.game_date <= ${`${league.season}-12-31`}::date
+        AND g.game_type = 'REG'
+      ORDER BY s.game_id, s.player_id, ${sequence} DESC NULLS FIRST, s.id DESC
+    )
+    SELECT s.roster_team_id as team_id, ${sql.unsafe(sums)} as sums, ${sql.unsafe(pers)} as pers
+    FROM lines s
+    GROUP BY s.roster_team_id
+  `;
+
+  toRotoTotals(categories, rows, totals);
+}
+
+/**
+ * Compute the roto standings of a league from its season's stat lines
+ */
+export async function getRotoStandings(sql: Sql, league: RotoLeague): Promise<RotoStandings> {
+  const totals: RotoTotals = {};
+  await getSectionTotals(sql, league, 'batting', totals);
+  await getSectionTotals(sql, league, 'pitching', totals);
+  return computeStandings(league, totals);
+}
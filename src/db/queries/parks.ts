@@ -0,0 +1,135 @@
+import type { Sql } from '../client.js';
+import type { ParkFactor } from '../../types/database.js';
+import type { Park } from '../../ingest/parks.js';
+
+/**
+ * Insert or update parks by site code
+ */
+export async function upsertParks(sql: Sql, parks: Park[]): Promise<void> {
+  if (parks.length === 0) return;
+
+  await sql`
+    INSERT INTO parks ${sql(parks)}
+    ON CONFLICT (park_id) DO UPDATE SET
+      name = EXCLUDED.name,
+      aka = EXCLUDED.aka,
+      city = EXCLUDED.city,
+      state = EXCLUDED.state,
+      first_year = EXCLUDED.first_year,
+      last_year = EXCLUDED.last_year,
+      league = EXCLUDED.league
+  `;
+}
+
+/**
+ * Get a park by site code
+ */
+export async function getPark(sql: Sql, parkId: string): Promise<Park | null> {
+  const [park] = await sql<Park[]>`
+    SELECT park_id, name, aka, city, state, first_year, last_year, league
+    FROM parks
+    WHERE park_id = ${parkId}
+  `;
+  return park ?? null;
+}
+
+/**
+ * Get all parks
+ */
+export async function getParks(sql: Sql): Promise<Park[]> {
+  return sql<Park[]>`
+    SELECT park_id, name, aka, city, state, first_year, last_year, league
+    FROM parks
+    ORDER BY park_id
+  `;
+}
+
+/**
+ * Compute the run and home run factors of every site used in a season
+ *
+ * A site's factor is its runs (or home runs) per game, both teams combined,
+ * divided by the season's average over all games; sites with fewer than
+ * `minGames` games get no factor and score as neutral. Replaces the season's
+ * existing factors, so run it in a transaction to swap them atomically.
+ */
+export async function computeParkFactors(
+  sql: Sql,
+  season: number,
+  options: { minGames?: number } = {}
+): Promise<number> {
+  const { minGames = 10 } = options;
+
+  await sql`DELETE FROM park_factors WHERE season = ${season}`;
+
+  const rows = await sql`
+    WITH game_totals AS (
+      SELECT g.site as park_id, g.game_id,
+        SUM(COALESCE(b.runs, 0)) as runs,
+        SUM(COALESCE(b.home_runs, 0)) as home_runs
+      FROM games g
+      JOIN batter_game_stats b ON b.game_id = g.game_id
+      WHERE g.site IS NOT NULL
+        AND g.game_date >= make_date(${season}, 1, 1)
+        AND g.game_date < make_date(${season + 1}, 1, 1)
+      GROUP BY g.site, g.game_id
+    ),
+    season_average AS (
+      SELECT
+        SUM(runs)::float8 / COUNT(*) as runs_per_game,
+        SUM(home_runs)::float8 / COUNT(*) as home_runs_per_game
+      FROM game_totals
+    ),
+    sites AS (
+      SELECT park_id, COUNT(*)::int as games, SUM(runs)::int as runs, SUM(home_runs)::int as home_runs
+      FROM game_totals
+      GROUP BY park_id
+      HAVING COUNT(*) >= ${minGames}
+    )
+    INSERT INTO park_factors (park_id, season, games, runs, home_runs, run_factor, hr_factor)
+    SELECT
+      s.park_id,
+      ${season},
+      s.games,
+      s.runs,
+      s.home_runs,
+      COALESCE(ROUND(((s.runs::float8 / s.games) / NULLIF(a.runs_per_game, 0))::numeric, 3), 1),
+      COALESCE(ROUND(((s.home_runs::float8 / s.games) / NULLIF(a.home_runs_per_game, 0))::numeric, 3), 1)
+    FROM sites s
+    CROSS JOIN season_average a
+    RETURNING park_id
+  `;
+
+  return rows.length;
+}
+
+export type ParkFactorWithName = ParkFactor & { park_name: string | null };
+
+/**
+ * Get the factors of every site in a season with the park's name, most hitter-friendly first
+ */
+export async function getParkFactors(sql: Sql, season: number): Promise<ParkFactorWithName[]> {
+  return sql<ParkFactorWithName[]>`
+    SELECT pf.park_id, pf.season, pf.games, pf.runs, pf.home_runs,
+      pf.run_factor::float8 as run_factor, pf.hr_factor::float8 as hr_factor,
+      p.name as park_name
+    FROM park_factors pf
+    LEFT JOIN parks p ON p.park_id = pf.park_id
+    WHERE pf.season = ${season}
+    ORDER BY pf.run_factor DESC, pf.park_id
+  `;
+}
+
+/**
+ * Get the factors of the site a game was played at, in that game's season
+ */
+export async function getParkFactorForGame(sql: Sql, gameId: string): Promise<ParkFactor | null> {
+  const [factor] = await sql<ParkFactor[]>`
+    SELECT pf.park_id, pf.season, pf.games, pf.runs, pf.home_runs,
+      pf.run_factor::float8 as run_factor, pf.hr_factor::float8 as hr_factor
+    FROM games g
+    JOIN park_factors pf
+      ON pf.park_id = g.site AND pf.season = EXTRACT(YEAR FROM g.game_date)
+    WHERE g.game_id = ${gameId}
+  `;
+  return factor ?? null;
+}
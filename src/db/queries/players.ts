@@ -47,3 +47,57 @@ export async function searchPlayers(sql: Sql, pattern: string, limit = 25): Prom
     LIMIT ${limit}
   `;
 }
+
+/**
+ * External ID columns that players can be looked up by
+ */
+export const EXTERNAL_ID_COLUMNS = {
+  mlbam: 'key_mlbam',
+  bbref: 'key_bbref',
+  fangraphs: 'key_fangraphs',
+  person: 'key_person',
+} as const;
+
+export type ExternalIdSource = keyof typeof EXTERNAL_ID_COLUMNS;
+
+/**
+ * Get a player by an external (non-Retrosheet) ID
+ */
+export async function getPlayerByExternalId(
+  sql: Sql,
+  source: ExternalIdSource,
+  externalId: string
+): Promise<Player | null> {
+  const [player] = await sql<Player[]>`
+    SELECT * FROM players
+    WHERE ${sql(EXTERNAL_ID_COLUMNS[source])}::text = ${externalId}
+    ORDER BY player_id
+    LIMIT 1
+  `;
+  return player ?? null;
+}
+
+/**
+ * Store each player's age on the game date on their batting, pitching and fielding lines
+ *
+ * Limited to one season when `year` is given. Returns the number of lines updated.
+ */
+export async function updatePlayerAges(sql: Sql, year?: number): Promise<number> {
+  let updated = 0;
+
+  for (const table of ['batter_game_stats', 'pitcher_game_stats', 'fielder_game_stats']) {
+    const result = await sql`
+      UPDATE ${sql(table)} s
+      SET player_age = date_part('year', age(g.game_date, p.birth_date))::smallint
+      FROM games g, players p
+      WHERE s.game_id = g.game_id
+        AND s.player_id = p.player_id
+        AND p.birth_date IS NOT NULL
+        AND s.player_age IS DISTINCT FROM date_part('year', age(g.game_date, p.birth_date))::smallint
+        ${year ? sql`AND g.game_date >= ${`${year}-01-01`}::date AND g.game_date <= ${`${year}-12-31`}::date` : sql``}
+    `;
+    updated += result.count;
+  }
+
+  return updated;
+}
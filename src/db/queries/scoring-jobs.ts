@@ -0,0 +1,107 @@
+import type { Sql } from '../client.js';
+import type { ScoringJob } from '../../types/database.js';
+import type { GameType } from '../../ingest/game-types.js';
+
+export interface ScoringJobInsert {
+  ruleset_id: string;
+  ruleset_version: number;
+  year: number;
+  start_date: string;
+  end_date: string;
+  engine: 'sql' | 'js';
+  force: boolean;
+  /** Only score games of these types (null = every game) */
+  game_types: GameType[] | null;
+  total_games: number;
+}
+
+/**
+ * Create a scoring job record
+ */
+export async function createScoringJob(sql: Sql, job: ScoringJobInsert): Promise<ScoringJob> {
+  const [result] = await sql<ScoringJob[]>`
+    INSERT INTO scoring_jobs (
+      ruleset_id, ruleset_version, year, start_date, end_date, engine, force, game_types,
+      total_games, status
+    )
+    VALUES (
+      ${job.ruleset_id}, ${job.ruleset_version}, ${job.year}, ${job.start_date}::date,
+      ${job.end_date}::date, ${job.engine}, ${job.force}, ${job.game_types}::varchar[],
+      ${job.total_games}, 'in_progress'
+    )
+    RETURNING *
+  `;
+  return result!;
+}
+
+/**
+ * Update scoring job status and progress
+ *
+ * Progress only moves forward: concurrent workers may report out of order.
+ */
+export async function updateScoringJob(
+  sql: Sql,
+  jobId: string,
+  updates: {
+    status?: ScoringJob['status'];
+    cursorDate?: string;
+    gamesScored?: number;
+    battingRecords?: number;
+    pitchingRecords?: number;
+    fieldingRecords?: number;
+    errorMessage?: string;
+  }
+): Promise<void> {
+  await sql`
+    UPDATE scoring_jobs
+    SET status = COALESCE(${updates.status ?? null}, status),
+        cursor_date = GREATEST(cursor_date, ${updates.cursorDate ?? null}::date),
+        games_scored = GREATEST(games_scored, ${updates.gamesScored ?? null}::int),
+        batting_records = GREATEST(batting_records, ${updates.battingRecords ?? null}::int),
+        pitching_records = GREATEST(pitching_records, ${updates.pitchingRecords ?? null}::int),
+        fielding_records = GREATEST(fielding_records, ${updates.fieldingRecords ?? null}::int),
+        error_message = ${updates.errorMessage ?? null},
+        completed_at = ${updates.status === 'completed' ? sql`NOW()` : sql`completed_at`},
+        updated_at = NOW()
+    WHERE job_id = ${jobId}::uuid
+  `;
+}
+
+/**
+ * Get jobs that were interrupted or failed, oldest first
+ */
+export async function getUnfinishedScoringJobs(
+  sql: Sql,
+  rulesetId?: string
+): Promise<ScoringJob[]> {
+  return sql<ScoringJob[]>`
+    SELECT * FROM scoring_jobs
+    WHERE status IN ('pending', 'in_progress', 'failed')
+      ${rulesetId ? sql`AND ruleset_id = ${rulesetId}` : sql``}
+    ORDER BY started_at, year
+  `;
+}
+
+/**
+ * Supersede unfinished jobs for the same ruleset version and year
+ *
+ * Called when a fresh run starts so --resume doesn't repeat work that
+ * the new job covers.
+ */
+export async function supersedeScoringJobs(
+  sql: Sql,
+  rulesetId: string,
+  rulesetVersion: number,
+  year: number
+): Promise<void> {
+  await sql`
+    UPDATE scoring_jobs
+    SET status = 'cancelled',
+        error_message = 'Superseded by a newer scoring job',
+        updated_at = NOW()
+    WHERE ruleset_id = ${rulesetId}
+      AND ruleset_version = ${rulesetVersion}
+      AND year = ${year}
+      AND status IN ('pending', 'in_progress', 'failed')
+  `;
+}
@@ -1,5 +1,5 @@
 import type { Sql } from '../client.js';
-import type { BatterGameStats, PitcherGameStats } from '../../types/database.js';
+import type { BatterGameStats, PitcherGameStats, FielderGameStats } from '../../types/database.js';
 
 export interface BatterStatsInsert {
   game_id: string;
@@ -26,6 +26,9 @@ export interface BatterStatsInsert {
   grounded_into_dp: number;
   reached_on_interference: number;
   reached_on_error: number;
+  total_bases: number;
+  grand_slams: number;
+  game_winning_rbi: number;
   is_dh: boolean;
   is_ph: boolean;
   is_pr: boolean;
@@ -61,12 +64,19 @@ export interface PitcherStatsInsert {
   sacrifice_flies_allowed: number;
   stolen_bases_allowed: number;
   caught_stealing: number;
+  inherited_runners: number;
+  inherited_runners_scored: number;
+  ground_outs: number;
+  air_outs: number;
+  pitches: number | null;
+  strikes: number | null;
   won: boolean;
   lost: boolean;
   saved: boolean;
   game_started: boolean;
   game_finished: boolean;
   complete_game: boolean;
+  shutout: boolean;
   team_won: boolean | null;
   team_lost: boolean | null;
   team_tied: boolean | null;
@@ -74,6 +84,27 @@ export interface PitcherStatsInsert {
   pitching_seq: number | null;
 }
 
+export interface FielderStatsInsert {
+  game_id: string;
+  player_id: string;
+  team_id: string;
+  is_home: boolean;
+  opponent_id: string | null;
+  position: string;
+  position_number: number;
+  position_started: boolean;
+  outs_played: number;
+  total_chances: number;
+  putouts: number;
+  assists: number;
+  errors: number;
+  double_plays: number;
+  triple_plays: number;
+  passed_balls: number;
+  catcher_interference: number;
+  fielding_seq: number | null;
+}
+
 /**
  * Upsert batter game stats
  */
@@ -85,6 +116,7 @@ export async function upsertBatterStats(sql: Sql, stats: BatterStatsInsert): Pro
       runs_batted_in, sacrifice_hits, sacrifice_flies, hit_by_pitch,
       walks, intentional_walks, strikeouts, stolen_bases, caught_stealing,
       grounded_into_dp, reached_on_interference, reached_on_error,
+      total_bases, grand_slams, game_winning_rbi,
       is_dh, is_ph, is_pr, team_won, team_lost, team_tied,
       stat_type, lineup_position, batting_seq
     ) VALUES (
@@ -95,6 +127,7 @@ export async function upsertBatterStats(sql: Sql, stats: BatterStatsInsert): Pro
       ${stats.walks}, ${stats.intentional_walks}, ${stats.strikeouts},
       ${stats.stolen_bases}, ${stats.caught_stealing}, ${stats.grounded_into_dp},
       ${stats.reached_on_interference}, ${stats.reached_on_error},
+      ${stats.total_bases}, ${stats.grand_slams}, ${stats.game_winning_rbi},
       ${stats.is_dh}, ${stats.is_ph}, ${stats.is_pr},
       ${stats.team_won}, ${stats.team_lost}, ${stats.team_tied},
       ${stats.stat_type ?? ''}, ${stats.lineup_position}, ${stats.batting_seq}
@@ -122,6 +155,9 @@ export async function upsertBatterStats(sql: Sql, stats: BatterStatsInsert): Pro
       grounded_into_dp = EXCLUDED.grounded_into_dp,
       reached_on_interference = EXCLUDED.reached_on_interference,
       reached_on_error = EXCLUDED.reached_on_error,
+      total_bases = EXCLUDED.total_bases,
+      grand_slams = EXCLUDED.grand_slams,
+      game_winning_rbi = EXCLUDED.game_winning_rbi,
       is_dh = EXCLUDED.is_dh,
       is_ph = EXCLUDED.is_ph,
       is_pr = EXCLUDED.is_pr,
@@ -144,7 +180,8 @@ export async function upsertPitcherStats(sql: Sql, stats: PitcherStatsInsert): P
       home_runs_allowed, runs_allowed, earned_runs, walks, intentional_walks,
       strikeouts, hit_batters, wild_pitches, balks,
       sacrifice_hits_allowed, sacrifice_flies_allowed, stolen_bases_allowed, caught_stealing,
-      won, lost, saved, game_started, game_finished, complete_game,
+      inherited_runners, inherited_runners_scored, ground_outs, air_outs, pitches, strikes,
+      won, lost, saved, game_started, game_finished, complete_game, shutout,
       team_won, team_lost, team_tied, stat_type, pitching_seq
     ) VALUES (
       ${stats.game_id}, ${stats.player_id}, ${stats.team_id}, ${stats.is_home}, ${stats.opponent_id},
@@ -154,8 +191,10 @@ export async function upsertPitcherStats(sql: Sql, stats: PitcherStatsInsert): P
       ${stats.strikeouts}, ${stats.hit_batters}, ${stats.wild_pitches}, ${stats.balks},
       ${stats.sacrifice_hits_allowed}, ${stats.sacrifice_flies_allowed},
       ${stats.stolen_bases_allowed}, ${stats.caught_stealing},
+      ${stats.inherited_runners}, ${stats.inherited_runners_scored},
+      ${stats.ground_outs}, ${stats.air_outs}, ${stats.pitches}, ${stats.strikes},
       ${stats.won}, ${stats.lost}, ${stats.saved},
-      ${stats.game_started}, ${stats.game_finished}, ${stats.complete_game},
+      ${stats.game_started}, ${stats.game_finished}, ${stats.complete_game}, ${stats.shutout},
       ${stats.team_won}, ${stats.team_lost}, ${stats.team_tied},
       ${stats.stat_type ?? ''}, ${stats.pitching_seq}
     )
@@ -181,12 +220,19 @@ export async function upsertPitcherStats(sql: Sql, stats: PitcherStatsInsert): P
       sacrifice_flies_allowed = EXCLUDED.sacrifice_flies_allowed,
       stolen_bases_allowed = EXCLUDED.stolen_bases_allowed,
       caught_stealing = EXCLUDED.caught_stealing,
+      inherited_runners = EXCLUDED.inherited_runners,
+      inherited_runners_scored = EXCLUDED.inherited_runners_scored,
+      ground_outs = EXCLUDED.ground_outs,
+      air_outs = EXCLUDED.air_outs,
+      pitches = EXCLUDED.pitches,
+      strikes = EXCLUDED.strikes,
       won = EXCLUDED.won,
       lost = EXCLUDED.lost,
       saved = EXCLUDED.saved,
       game_started = EXCLUDED.game_started,
       game_finished = EXCLUDED.game_finished,
       complete_game = EXCLUDED.complete_game,
+      shutout = EXCLUDED.shutout,
       team_won = EXCLUDED.team_won,
       team_lost = EXCLUDED.team_lost,
       team_tied = EXCLUDED.team_tied,
@@ -194,6 +240,42 @@ export async function upsertPitcherStats(sql: Sql, stats: PitcherStatsInsert): P
   `;
 }
 
+/**
+ * Upsert fielder game stats (one row per position)
+ */
+export async function upsertFielderStats(sql: Sql, stats: FielderStatsInsert): Promise<void> {
+  await sql`
+    INSERT INTO fielder_game_stats (
+      game_id, player_id, team_id, is_home, opponent_id,
+      position, position_number, position_started,
+      outs_played, total_chances, putouts, assists, errors,
+      double_plays, triple_plays, passed_balls, catcher_interference, fielding_seq
+    ) VALUES (
+      ${stats.game_id}, ${stats.player_id}, ${stats.team_id}, ${stats.is_home}, ${stats.opponent_id},
+      ${stats.position}, ${stats.position_number}, ${stats.position_started},
+      ${stats.outs_played}, ${stats.total_chances}, ${stats.putouts}, ${stats.assists}, ${stats.errors},
+      ${stats.double_plays}, ${stats.triple_plays}, ${stats.passed_balls},
+      ${stats.catcher_interference}, ${stats.fielding_seq}
+    )
+    ON CONFLICT (game_id, player_id, position) DO UPDATE SET
+      team_id = EXCLUDED.team_id,
+      is_home = EXCLUDED.is_home,
+      opponent_id = EXCLUDED.opponent_id,
+      position_number = EXCLUDED.position_number,
+      position_started = EXCLUDED.position_started,
+      outs_played = EXCLUDED.outs_played,
+      total_chances = EXCLUDED.total_chances,
+      putouts = EXCLUDED.putouts,
+      assists = EXCLUDED.assists,
+      errors = EXCLUDED.errors,
+      double_plays = EXCLUDED.double_plays,
+      triple_plays = EXCLUDED.triple_plays,
+      passed_balls = EXCLUDED.passed_balls,
+      catcher_interference = EXCLUDED.catcher_interference,
+      fielding_seq = EXCLUDED.fielding_seq
+  `;
+}
+
 /**
  * Get batter stats for a player
  */
@@ -265,3 +347,14 @@ export async function getPitcherStatsByGame(sql: Sql, gameId: string): Promise<P
     ORDER BY pitching_seq, player_id
   `;
 }
+
+/**
+ * Get fielder stats for a game, each player's positions in scorer's order
+ */
+export async function getFielderStatsByGame(sql: Sql, gameId: string): Promise<FielderGameStats[]> {
+  return sql<FielderGameStats[]>`
+    SELECT * FROM fielder_game_stats
+    WHERE game_id = ${gameId}
+    ORDER BY player_id, position_number
+  `;
+}
@@ -1,5 +1,6 @@
 import type { Sql } from '../client.js';
 import type { Team } from '../../types/database.js';
+import type { TeamName, Franchise } from '../../ingest/teams.js';
 
 /**
  * Upsert a team (insert or ignore if exists)
@@ -34,3 +35,63 @@ export async function upsertTeams(sql: Sql, teamIds: string[]): Promise<void> {
 export async function getAllTeams(sql: Sql): Promise<Team[]> {
   return sql<Team[]>`SELECT * FROM teams ORDER BY team_id`;
 }
+
+/**
+ * Replace all franchises and team names, linking each team code to its franchise
+ *
+ * Team codes not seen in any game yet are created so leaderboards can be filtered
+ * by franchise before every season is ingested.
+ */
+export async function replaceTeamNames(
+  sql: Sql,
+  franchises: Franchise[],
+  names: TeamName[]
+): Promise<void> {
+  await upsertTeams(sql, names.map((n) => n.team_id));
+  await sql`DELETE FROM team_names`;
+  await sql`
+    INSERT INTO franchises ${sql(franchises)}
+    ON CONFLICT (franchise_id) DO UPDATE SET name = EXCLUDED.name
+  `;
+  if (names.length > 0) {
+    await sql`INSERT INTO team_names ${sql(names)}`;
+  }
+  await sql`
+    UPDATE teams t
+    SET franchise_id = n.franchise_id
+    FROM (SELECT DISTINCT team_id, franchise_id FROM team_names) n
+    WHERE t.team_id = n.team_id
+  `;
+}
+
+/**
+ * Get every team name, oldest first within each franchise
+ */
+export async function getTeamNames(sql: Sql): Promise<TeamName[]> {
+  return sql<TeamName[]>`
+    SELECT franchise_id, team_id, league, division, city, nickname, first_year, last_year
+    FROM team_names
+    ORDER BY franchise_id, first_year, team_id
+  `;
+}
+
+/**
+ * Get the name a team code had in a season
+ */
+export async function getTeamName(sql: Sql, teamId: string, year: number): Promise<TeamName | null> {
+  const [name] = await sql<TeamName[]>`
+    SELECT franchise_id, team_id, league, division, city, nickname, first_year, last_year
+    FROM team_names
+    WHERE team_id = ${teamId}
+      AND first_year <= ${year}
+      AND (last_year IS NULL OR last_year >= ${year})
+  `;
+  return name ?? null;
+}
+
+/**
+ * Get all franchises
+ */
+export async function getFranchises(sql: Sql): Promise<Franchise[]> {
+  return sql<Franchise[]>`SELECT franchise_id, name FROM franchises ORDER BY franchise_id`;
+}
@@ -0,0 +1,168 @@
+import type { Sql } from '../client.js';
+import type { FantasyRuleset } from '../../types/fantasy.js';
+import type { BatterGameStats, PitcherGameStats } from '../../types/database.js';
+import { buildScoringSql, parkFactorJoin } from '../../scoring/sql.js';
+import type { StatSection } from '../../scoring/stats.js';
+import type { GameType } from '../../ingest/game-types.js';
+import type { LeaderboardEntry } from './fantasy.js';
+
+/**
+ * Games to score: a date range, or one calendar day across a range of years
+ */
+export type PerformanceDateFilter =
+  | { startDate: string; endDate: string }
+  | { month: number; day: number; yearStart?: number | null; yearEnd?: number | null };
+
+/**
+ * Limit `g` to games of some types (every game without a filter)
+ */
+function gameTypeFragment(sql: Sql, gameTypes: GameType[] | undefined) {
+  return gameTypes ? sql`AND g.game_type = ANY(${gameTypes}::varchar[])` : sql``;
+}
+
+export type WhatIfBattingPerformance = BatterGameStats & {
+  player_name: string | null;
+  game_date: Date;
+  total_points: string;
+};
+
+export type WhatIfPitchingPerformance = PitcherGameStats & {
+  player_name: string | null;
+  game_date: Date;
+  total_points: string;
+};
+
+/**
+ * Points for one stat row of `alias`, rounded like fantasy_game_points.total_points
+ *
+ * Park-adjusted rulesets read the `pf` row joined by parkFactors().
+ */
+function pointsFragment(sql: Sql, ruleset: FantasyRuleset, section: StatSection, alias: string) {
+  const scoring = buildScoringSql(ruleset, section, alias, { parkFactors: 'pf' });
+  return sql`(${sql.unsafe(scoring.total)})::numeric(10,2)`;
+}
+
+/**
+ * Park factors of each game's site, for park-adjusted rulesets (nothing otherwise)
+ */
+function parkFactors(sql: Sql, ruleset: FantasyRuleset) {
+  return sql.unsafe(parkFactorJoin(ruleset, 'g', 'pf'));
+}
+
+function statTable(sql: Sql, section: StatSection) {
+  return section === 'batting' ? sql`batter_game_stats` : sql`pitcher_game_stats`;
+}
+
+function dateFilterFragment(sql: Sql, filter: PerformanceDateFilter) {
+  if ('startDate' in filter) {
+    return sql`g.game_date >= ${filter.startDate}::date AND g.game_date <= ${filter.endDate}::date`;
+  }
+
+  return sql`
+    EXTRACT(MONTH FROM g.game_date) = ${filter.month}
+    AND EXTRACT(DAY FROM g.game_date) = ${filter.day}
+    ${filter.yearStart != null ? sql`AND EXTRACT(YEAR FROM g.game_date) >= ${filter.yearStart}` : sql``}
+    ${filter.yearEnd != null ? sql`AND EXTRACT(YEAR FROM g.game_date) <= ${filter.yearEnd}` : sql``}
+  `;
+}
+
+/**
+ * Leaderboard for a ruleset that has not been saved or scored
+ *
+ * Points are computed from the stat tables in a single query; nothing is
+ * written to fantasy_game_points.
+ */
+export async function getWhatIfLeaderboard(
+  sql: Sql,
+  ruleset: FantasyRuleset,
+  options: {
+    year?: number;
+    statType?: 'batting' | 'pitching';
+    gameTypes?: GameType[];
+    limit?: number;
+  } = {}
+): Promise<LeaderboardEntry[]> {
+  const { year, statType, gameTypes, limit = 25 } = options;
+  const sections: StatSection[] = statType ? [statType] : ['batting', 'pitching'];
+
+  const scored = sections.map(
+    (section) => sql`
+      SELECT s.player_id, ${pointsFragment(sql, ruleset, section, 's')} as total_points
+      FROM ${statTable(sql, section)} s
+      JOIN games g ON s.game_id = g.game_id
+      ${parkFactors(sql, ruleset)}
+      WHERE TRUE
+      ${year ? sql`AND g.game_date >= make_date(${year}, 1, 1) AND g.game_date < make_date(${year + 1}, 1, 1)` : sql``}
+      ${gameTypeFragment(sql, gameTypes)}
+    `
+  );
+
+  return sql<LeaderboardEntry[]>`
+    WITH scored AS (
+      ${scored[0]!}
+      ${scored[1] ? sql`UNION ALL ${scored[1]}` : sql``}
+    )
+    SELECT
+      player_id,
+      COUNT(*)::int as games,
+      SUM(total_points)::text as total_points,
+      ROUND(AVG(total_points), 2)::text as avg_points
+    FROM scored
+    GROUP BY player_id
+    ORDER BY SUM(total_points) DESC
+    LIMIT ${limit}
+  `;
+}
+
+async function getWhatIfTopPerformances<T>(
+  sql: Sql,
+  ruleset: FantasyRuleset,
+  section: StatSection,
+  filter: PerformanceDateFilter,
+  limit: number,
+  gameTypes: GameType[] | undefined
+): Promise<T[]> {
+  return [...await sql`
+    SELECT * FROM (
+      SELECT
+        s.*,
+        CASE WHEN p.name_first IS NOT NULL THEN p.name_first || ' ' || p.name_last ELSE NULL END as player_name,
+        g.game_date,
+        ${pointsFragment(sql, ruleset, section, 's')} as total_points
+      FROM ${statTable(sql, section)} s
+      JOIN games g ON s.game_id = g.game_id
+      ${parkFactors(sql, ruleset)}
+      LEFT JOIN players p ON s.player_id = p.player_id
+      WHERE ${dateFilterFragment(sql, filter)}
+        ${gameTypeFragment(sql, gameTypes)}
+    ) scored
+    ORDER BY total_points DESC
+    LIMIT ${limit}
+  `] as T[];
+}
+
+/**
+ * Top batting performances under an unsaved ruleset, computed from batter_game_stats
+ */
+export async function getWhatIfTopBatting(
+  sql: Sql,
+  ruleset: FantasyRuleset,
+  filter: PerformanceDateFilter,
+  limit = 10,
+  gameTypes?: GameType[]
+): Promise<WhatIfBattingPerformance[]> {
+  return getWhatIfTopPerformances<WhatIfBattingPerformance>(sql, ruleset, 'batting', filter, limit, gameTypes);
+}
+
+/**
+ * Top pitching performances under an unsaved ruleset, computed from pitcher_game_stats
+ */
+export async function getWhatIfTopPitching(
+  sql: Sql,
+  ruleset: FantasyRuleset,
+  filter: PerformanceDateFilter,
+  limit = 10,
+  gameTypes?: GameType[]
+): Promise<WhatIfPitchingPerformance[]> {
+  return getWhatIfTopPerformances<WhatIfPitchingPerformance>(sql, ruleset, 'pitching', filter, limit, gameTypes);
+}
@@ -14,24 +14,91 @@ export {
   loadPlayingToStaging,
   transformBattingData,
   transformPitchingData,
+  transformFieldingData,
   ingestYear,
   ingestYears,
+  ingestEventFile,
+  ingestEventFiles,
+  parseEventFile,
+  ingestGameLogFile,
+  ingestGameLogs,
+  parseGameLogs,
+  parseLineScore,
   parseYearRange,
   type DataType,
   type IngestOptions,
   type UnifiedIngestResult,
+  type EventIngestOptions,
+  type EventFileIngestResult,
+  type GameLogIngestOptions,
+  type GameLogIngestResult,
 } from './ingest/index.js';
+export {
+  loadBundledTeamNames,
+  parseTeamNames,
+  toFranchises,
+  findTeamName,
+  formatTeamSeason,
+  type TeamName,
+  type Franchise,
+} from './ingest/teams.js';
+export { loadBundledParks, loadParksFile, parseParks, type Park } from './ingest/parks.js';
+export {
+  RECONCILED_STATS,
+  DATA_QUALITY_CHECKS,
+  describeDataQualityIssue,
+  summarizeDataQuality,
+  type DataQualityCheck,
+  type DataQualityIssue,
+  type DataQualitySummary,
+} from './ingest/data-quality.js';
+export {
+  GAME_TYPES,
+  GAME_TYPE_NAMES,
+  GAME_TYPE_FILTERS,
+  POSTSEASON_GAME_TYPES,
+  normalizeGameType,
+  parseGameTypeFilter,
+  type GameType,
+} from './ingest/game-types.js';
 
 // Scoring
 export {
   calculateBattingPoints,
   calculatePitchingPoints,
+  calculateFieldingPoints,
+  parseExpression,
+  evaluateExpression,
+  getReferencedStats,
+  validateRuleset,
+  validateRulesetExpressions,
+  assertValidRuleset,
+  BATTING_STATS,
+  PITCHING_STATS,
+  DERIVED_BATTING_STATS,
+  DERIVED_PITCHING_STATS,
+  FIELDING_STATS,
+  DERIVED_FIELDING_STATS,
+  getKnownStats,
+  isKnownStat,
+  scoresFielding,
+  buildScoringSql,
+  parkFactorJoin,
+  PARK_ADJUSTED_STATS,
+  readRulesetFile,
+  loadRulesetFile,
+  formatRuleset,
+  diffRulesets,
   loadPresetRuleset,
   getOrLoadRuleset,
   seedStandardRuleset,
   scoreGame,
   scoreGamesForDateRange,
   scoreGamesForYear,
+  scoreYearSetBased,
+  scoreDateRangeSetBased,
+  createScoringJobs,
+  runScoringJob,
 } from './scoring/index.js';
 
 // Types
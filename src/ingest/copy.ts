@@ -0,0 +1,64 @@
+import { once } from 'events';
+import { finished } from 'stream/promises';
+import type { Writable } from 'stream';
+import type { Sql } from '../db/client.js';
+
+export type CopyValue = string | number | null | undefined;
+
+/**
+ * Format one value for COPY's text format (NULL for null/undefined)
+ */
+export function formatCopyValue(value: CopyValue): string {
+  if (value === null || value === undefined) return '\\N';
+  return String(value)
+    .replace(/\\/g, '\\\\')
+    .replace(/\t/g, '\\t')
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r');
+}
+
+/**
+ * Format a row as one tab-separated COPY text line
+ */
+export function formatCopyRow(values: CopyValue[]): string {
+  return values.map(formatCopyValue).join('\t') + '\n';
+}
+
+export interface CopyWriter {
+  /** Write a row, waiting for the connection to drain when its buffer is full */
+  write(values: CopyValue[]): Promise<void>;
+  /** Finish the COPY and wait for the server to confirm it */
+  end(): Promise<void>;
+  /** Cancel the COPY; nothing written is kept */
+  abort(error: Error): void;
+}
+
+/**
+ * Start a COPY FROM STDIN into a table
+ *
+ * Holds a pooled connection until end() resolves, so pass the pool rather
+ * than a transaction when running several copies at once.
+ */
+export async function openCopyWriter(sql: Sql, table: string, columns: string[]): Promise<CopyWriter> {
+  const stream: Writable = await sql
+    .unsafe(`COPY ${table} (${columns.join(', ')}) FROM STDIN`)
+    .writable();
+  const done = finished(stream);
+  // Surface a failed COPY from write() or end() rather than as an unhandled rejection
+  done.catch(() => {});
+
+  return {
+    async write(values) {
+      if (!stream.write(formatCopyRow(values))) {
+        await Promise.race([once(stream, 'drain'), done]);
+      }
+    },
+    async end() {
+      stream.end();
+      await done;
+    },
+    abort(error) {
+      stream.destroy(error);
+    },
+  };
+}
@@ -0,0 +1,76 @@
+/**
+ * Cross-table data quality checks
+ *
+ * A team's batting lines in a game must add up to what the opposing pitchers
+ * allowed, and every game must have lines for exactly two teams. The checks
+ * run in SQL (db/queries/data-quality.ts); this module names them and
+ * describes what they find.
+ */
+
+export type DataQualityCheck = 'hits' | 'walks' | 'home_runs' | 'runs' | 'team_count';
+
+/**
+ * Batting columns reconciled against the opposing pitchers' pitcher_game_stats column
+ */
+export const RECONCILED_STATS: Record<Exclude<DataQualityCheck, 'team_count'>, { batting: string; pitching: string }> = {
+  hits: { batting: 'hits', pitching: 'hits_allowed' },
+  walks: { batting: 'walks', pitching: 'walks' },
+  home_runs: { batting: 'home_runs', pitching: 'home_runs_allowed' },
+  runs: { batting: 'runs', pitching: 'runs_allowed' },
+};
+
+export const DATA_QUALITY_CHECKS: DataQualityCheck[] = [
+  ...(Object.keys(RECONCILED_STATS) as DataQualityCheck[]),
+  'team_count',
+];
+
+export type DataQualityIssue = {
+  season: number;
+  game_id: string;
+  check_name: DataQualityCheck;
+  team_id: string | null;
+  expected: number;
+  actual: number;
+};
+
+export type DataQualitySummary = {
+  season: number;
+  gamesChecked: number;
+  gamesWithIssues: number;
+  issues: number;
+  byCheck: Record<DataQualityCheck, number>;
+};
+
+/**
+ * Describe an issue in one line, e.g. "BOS batting hits 9 vs opposing pitchers' hits_allowed 8"
+ */
+export function describeDataQualityIssue(issue: DataQualityIssue): string {
+  if (issue.check_name === 'team_count') {
+    return `${issue.actual} teams with stat lines, expected ${issue.expected}`;
+  }
+
+  const { batting, pitching } = RECONCILED_STATS[issue.check_name];
+  return `${issue.team_id} batting ${batting} ${issue.expected} vs opposing pitchers' ${pitching} ${issue.actual}`;
+}
+
+/**
+ * Summarize a season's issues by check
+ */
+export function summarizeDataQuality(
+  season: number,
+  gamesChecked: number,
+  issues: DataQualityIssue[]
+): DataQualitySummary {
+  const byCheck = Object.fromEntries(DATA_QUALITY_CHECKS.map((check) => [check, 0])) as Record<DataQualityCheck, number>;
+  for (const issue of issues) {
+    byCheck[issue.check_name] += 1;
+  }
+
+  return {
+    season,
+    gamesChecked,
+    gamesWithIssues: new Set(issues.map((issue) => issue.game_id)).size,
+    issues: issues.length,
+    byCheck,
+  };
+}
@@ -2,6 +2,7 @@ import { mkdir, writeFile, access } from 'fs/promises';
 import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
 import { config } from '../config/index.js';
+import { syncSourceFile, type SourceFile } from './manifest.js';
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 const DATA_DIR = join(__dirname, '../../data');
@@ -49,40 +50,43 @@ export async function fileExists(path: string): Promise<boolean> {
 }
 
 /**
- * Download the unified playing CSV file for a year
+ * Bring the local playing file for a year up to date with Retrosheet
+ *
+ * Without `force` an existing file is only replaced if it changed upstream
+ * (or no longer matches its manifest entry); `changed` reports whether it did.
  */
-export async function downloadPlayingFile(
+export async function syncPlayingFile(
   year: number,
   options: { force?: boolean } = {}
-): Promise<string> {
+): Promise<SourceFile> {
   const localPath = getPlayingFilePath(year);
-
-  // Check if file already exists
-  if (!options.force && (await fileExists(localPath))) {
-    console.log(`File already exists: ${localPath}`);
-    return localPath;
-  }
-
-  // Ensure data directory exists
-  await mkdir(DATA_DIR, { recursive: true });
-
   const url = getPlayingFileUrl(year);
-  console.log(`Downloading ${url}...`);
-
-  const response = await fetch(url);
+  console.log(`Checking ${url}...`);
 
-  if (!response.ok) {
-    if (response.status === 404) {
+  try {
+    const file = await syncSourceFile(url, localPath, options);
+    if (file.changed) {
+      console.log(`Downloaded to ${localPath} (${file.entry.size} bytes)`);
+    } else {
+      console.log(`File is up to date: ${localPath}`);
+    }
+    return file;
+  } catch (error) {
+    if (error instanceof Error && error.message.includes(': 404 ')) {
       throw new Error(`Data not available for ${year} (404 Not Found)`);
     }
-    throw new Error(`Failed to download ${url}: ${response.status} ${response.statusText}`);
+    throw error;
   }
+}
 
-  const content = await response.text();
-  await writeFile(localPath, content, 'utf-8');
-
-  console.log(`Downloaded to ${localPath} (${content.length} bytes)`);
-  return localPath;
+/**
+ * Download the unified playing CSV file for a year, unless the local copy is current
+ */
+export async function downloadPlayingFile(
+  year: number,
+  options: { force?: boolean } = {}
+): Promise<string> {
+  return (await syncPlayingFile(year, options)).path;
 }
 
 /**
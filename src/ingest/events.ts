@@ -0,0 +1,504 @@
+/**
+ * Retrosheet event file parser (.EVA/.EVN)
+ *
+ * Replays each game's play records to track the base/out state and score, and
+ * returns one row per plate appearance. Plays that don't end a plate appearance
+ * (stolen bases, wild pitches, pickoffs, ...) update the state but aren't returned.
+ *
+ * Format reference: https://www.retrosheet.org/eventfile.htm
+ */
+import { readFile } from 'fs/promises';
+import type { GameInsert } from '../db/queries/games.js';
+import type { PlateAppearanceEventInsert } from '../db/queries/events.js';
+
+export type PlateAppearanceType =
+  | 'single'
+  | 'double'
+  | 'triple'
+  | 'home_run'
+  | 'walk'
+  | 'intentional_walk'
+  | 'hit_by_pitch'
+  | 'strikeout'
+  | 'out'
+  | 'error'
+  | 'fielders_choice'
+  | 'interference';
+
+export interface EventFileGame {
+  game: GameInsert;
+  /** Every player who appears in a start, sub or play record */
+  playerIds: string[];
+  plateAppearances: PlateAppearanceEventInsert[];
+}
+
+type Base = 'B' | '1' | '2' | '3';
+
+/** Destination base (4 = scored) or null when the runner is out */
+type Destination = 1 | 2 | 3 | 4 | null;
+
+interface Advance {
+  from: Base;
+  to: Destination;
+  /** Parenthesized annotations, e.g. "UR", "NR", "E5", "25" */
+  notes: string[];
+}
+
+interface PlayResult {
+  /** Undefined when the play doesn't involve the batter (stolen base, wild pitch, ...) */
+  type?: PlateAppearanceType;
+  moves: Map<Base, Destination>;
+  /** Runs on this play earn no RBI unless marked (RBI) */
+  noRbi: boolean;
+}
+
+const BASE_INDEX: Record<Exclude<Base, 'B'>, number> = { '1': 0, '2': 1, '3': 2 };
+
+/**
+ * Split an event file record into fields, honouring double-quoted strings
+ */
+export function splitEventRecord(line: string): string[] {
+  const fields: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (const char of line) {
+    if (char === '"') {
+      quoted = !quoted;
+    } else if (char === ',' && !quoted) {
+      fields.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  fields.push(current);
+
+  return fields;
+}
+
+/**
+ * Split a string on a separator, ignoring separators inside parentheses
+ */
+function splitOutsideParens(value: string, separator: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+
+  for (const char of value) {
+    if (char === '(') depth++;
+    if (char === ')') depth = Math.max(0, depth - 1);
+    if (char === separator && depth === 0) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+
+  return parts;
+}
+
+function toDestination(base: string): Destination {
+  if (base === 'H') return 4;
+  return parseInt(base, 10) as 1 | 2 | 3;
+}
+
+/**
+ * Parse the advance section of an event ("1-3;BX2(84)")
+ *
+ * An "X" advance is an out unless one of its annotations records an error.
+ */
+function parseAdvances(section: string): Advance[] {
+  const advances: Advance[] = [];
+
+  for (const part of section.split(';')) {
+    const match = /^([B123])([-X])([123H])((?:\([^)]*\))*)$/.exec(part.trim());
+    if (!match) continue;
+
+    const notes = [...match[4]!.matchAll(/\(([^)]*)\)/g)].map((m) => m[1]!);
+    const out = match[2] === 'X' && !notes.some((note) => /E\d/.test(note));
+    advances.push({
+      from: match[1] as Base,
+      to: out ? null : toDestination(match[3]!),
+      notes,
+    });
+  }
+
+  return advances;
+}
+
+/**
+ * Apply the implied effects of a non-batter play (SB2, CS3(25), PO1(E3), WP, ...)
+ */
+function applyRunnerPlay(play: string, moves: Map<Base, Destination>): void {
+  for (const part of play.split(';')) {
+    const stolen = /^SB([23H])/.exec(part);
+    if (stolen) {
+      const to = toDestination(stolen[1]!);
+      moves.set(String((to ?? 4) - 1) as Base, to);
+      continue;
+    }
+
+    // Caught stealing / pickoff caught stealing: the runner is out unless an error is noted
+    const caught = /^(?:POCS|CS)([23H])(\([^)]*\))?/.exec(part);
+    if (caught) {
+      if (!caught[2]?.includes('E')) {
+        const to = toDestination(caught[1]!);
+        moves.set(String((to ?? 4) - 1) as Base, null);
+      }
+      continue;
+    }
+
+    const pickoff = /^PO([123])(\([^)]*\))?/.exec(part);
+    if (pickoff && !pickoff[2]?.includes('E')) {
+      moves.set(pickoff[1] as Base, null);
+    }
+  }
+}
+
+/**
+ * Work out the batter's result and the implied runner moves of an event's basic play
+ */
+function parseBasicPlay(basic: string, modifiers: string[]): PlayResult {
+  const moves = new Map<Base, Destination>();
+  const [main = '', extra] = basic.split('+');
+  let type: PlateAppearanceType | undefined;
+  let noRbi = false;
+
+  if (/^HP$/.test(main)) {
+    type = 'hit_by_pitch';
+    moves.set('B', 1);
+  } else if (/^(HR|H)\d*$/.test(main)) {
+    type = 'home_run';
+    moves.set('B', 4);
+  } else if (/^S\d*$/.test(main)) {
+    type = 'single';
+    moves.set('B', 1);
+  } else if (/^(D|DGR)\d*$/.test(main)) {
+    type = 'double';
+    moves.set('B', 2);
+  } else if (/^T\d*$/.test(main)) {
+    type = 'triple';
+    moves.set('B', 3);
+  } else if (/^(IW|I)$/.test(main)) {
+    type = 'intentional_walk';
+    moves.set('B', 1);
+  } else if (main === 'W') {
+    type = 'walk';
+    moves.set('B', 1);
+  } else if (/^K\d*$/.test(main)) {
+    type = 'strikeout';
+    moves.set('B', null);
+  } else if (main === 'C') {
+    type = 'interference';
+    moves.set('B', 1);
+  } else if (/^E\d/.test(main)) {
+    type = 'error';
+    moves.set('B', 1);
+    noRbi = true;
+  } else if (/^FC\d*/.test(main)) {
+    type = 'fielders_choice';
+    moves.set('B', 1);
+  } else if (/^\d/.test(main)) {
+    // Fielded out: "8", "63", "64(1)3" (double play), "54(1)" (force, batter safe)
+    type = 'out';
+    const runnersOut = [...main.matchAll(/\(([B123])\)/g)].map((m) => m[1] as Base);
+    for (const runner of runnersOut) {
+      moves.set(runner, null);
+    }
+    if (!runnersOut.includes('B')) {
+      moves.set('B', main.endsWith(')') ? 1 : null);
+    }
+    if (modifiers.some((m) => /^(GDP|GTP)/.test(m))) noRbi = true;
+  } else {
+    // SB, CS, PO, POCS, WP, PB, BK, DI, OA, FLE, NP
+    applyRunnerPlay(main, moves);
+    noRbi = true;
+  }
+
+  if (extra) {
+    applyRunnerPlay(extra, moves);
+  }
+
+  return { type, moves, noRbi };
+}
+
+/**
+ * Parse a single event string against the current bases
+ *
+ * `bases` holds the runner on first, second and third (null when empty). Returns
+ * the batter's result (undefined for runner-only plays), the new bases, and the
+ * outs, runs and RBIs on the play.
+ */
+export function applyEvent(
+  event: string,
+  bases: (string | null)[],
+  batterId: string
+): {
+  type?: PlateAppearanceType;
+  modifiers: string[];
+  bases: (string | null)[];
+  outs: number;
+  runs: number;
+  rbi: number;
+} {
+  const cleaned = event.replace(/[#!?]/g, '');
+  const dot = cleaned.indexOf('.');
+  const description = dot >= 0 ? cleaned.slice(0, dot) : cleaned;
+  const advanceSection = dot >= 0 ? cleaned.slice(dot + 1) : '';
+
+  const [basic = '', ...modifiers] = splitOutsideParens(description, '/');
+  const play = parseBasicPlay(basic, modifiers);
+  const advances = parseAdvances(advanceSection);
+  const explicit = new Set<Base>(advances.map((a) => a.from));
+
+  for (const advance of advances) {
+    play.moves.set(advance.from, advance.to);
+  }
+
+  // Walks, hit batters and interference force runners along
+  if (play.type && ['walk', 'intentional_walk', 'hit_by_pitch', 'interference'].includes(play.type)) {
+    let forced = true;
+    for (const base of ['1', '2', '3'] as const) {
+      forced = forced && bases[BASE_INDEX[base]] !== null;
+      if (forced && !explicit.has(base)) {
+        play.moves.set(base, base === '3' ? 4 : ((BASE_INDEX[base] + 2) as 2 | 3));
+      }
+    }
+  }
+
+  const next: (string | null)[] = [null, null, null];
+  let outs = 0;
+  let runs = 0;
+  let rbi = 0;
+
+  const annotations = new Map<Base, string[]>(advances.map((a) => [a.from, a.notes]));
+  const place = (runner: string, from: Base, to: Destination) => {
+    if (to === null) {
+      outs++;
+      return;
+    }
+    if (to === 4) {
+      runs++;
+      const notes = annotations.get(from) ?? [];
+      const earnsRbi = notes.includes('RBI')
+        || (!play.noRbi && !notes.some((n) => n === 'NR' || n === 'NORBI' || /E\d/.test(n)));
+      if (earnsRbi) rbi++;
+      return;
+    }
+    next[to - 1] = runner;
+  };
+
+  // Lead runner first so a trailing runner can take a vacated base
+  for (const base of ['3', '2', '1'] as const) {
+    const runner = bases[BASE_INDEX[base]];
+    if (!runner) continue;
+    const to = play.moves.has(base)
+      ? (play.moves.get(base) as Destination)
+      : (parseInt(base, 10) as 1 | 2 | 3);
+    place(runner, base, to);
+  }
+  if (play.moves.has('B')) {
+    place(batterId, 'B', play.moves.get('B') as Destination);
+  }
+
+  return { type: play.type, modifiers, bases: next, outs, runs, rbi };
+}
+
+function parseCount(count: string): { balls: number | null; strikes: number | null } {
+  const match = /^(\d)(\d)$/.exec(count);
+  if (!match) return { balls: null, strikes: null };
+  return { balls: parseInt(match[1]!, 10), strikes: parseInt(match[2]!, 10) };
+}
+
+function isAtBat(type: PlateAppearanceType, modifiers: string[]): boolean {
+  if (['walk', 'intentional_walk', 'hit_by_pitch', 'interference'].includes(type)) return false;
+  return !modifiers.some((m) => m === 'SH' || m === 'SF');
+}
+
+/**
+ * Parse the contents of an event file into games and plate appearances
+ */
+export function parseEventFile(content: string): EventFileGame[] {
+  const games: EventFileGame[] = [];
+
+  let gameId: string | null = null;
+  let plateAppearances: PlateAppearanceEventInsert[] = [];
+  let info: Record<string, string> = {};
+  let players = new Set<string>();
+  // Current pitcher and batting order of each side (0 = visitors, 1 = home)
+  let pitchers: (string | null)[] = [null, null];
+  let lineups: Map<string, string>[] = [new Map(), new Map()];
+  let bases: (string | null)[] = [null, null, null];
+  let outs = 0;
+  let score = [0, 0];
+  let half = '';
+  let pendingRunners: { playerId: string; base: number }[] = [];
+  let eventSeq = 0;
+
+  const finish = () => {
+    if (!gameId) return;
+    const [year, month, day] = (info.date ?? '').split('/');
+    const game: GameInsert = {
+      game_id: gameId,
+      game_date: `${year}-${month}-${day}`,
+      game_number: parseInt(info.number ?? '0', 10) || 0,
+      site: info.site || null,
+      home_team_id: info.hometeam || null,
+      away_team_id: info.visteam || null,
+      game_type: 'REG',
+      has_box: false,
+      has_pbp: true,
+    };
+    games.push({ game, playerIds: [...players], plateAppearances });
+  };
+
+  const replaceRunner = (side: number, battingOrder: string, playerId: string) => {
+    const previous = lineups[side]!.get(battingOrder);
+    lineups[side]!.set(battingOrder, playerId);
+    if (!previous) return;
+    bases = bases.map((runner) => (runner === previous ? playerId : runner));
+  };
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) continue;
+    const fields = splitEventRecord(line);
+    const [record, ...rest] = fields;
+
+    switch (record) {
+      case 'id': {
+        finish();
+        gameId = rest[0] ?? '';
+        plateAppearances = [];
+        info = {};
+        players = new Set();
+        pitchers = [null, null];
+        lineups = [new Map(), new Map()];
+        bases = [null, null, null];
+        outs = 0;
+        score = [0, 0];
+        half = '';
+        pendingRunners = [];
+        eventSeq = 0;
+        break;
+      }
+      case 'info': {
+        if (rest[0]) info[rest[0]] = rest[1] ?? '';
+        break;
+      }
+      case 'start':
+      case 'sub': {
+        const [playerId, , team, battingOrder, position] = rest;
+        if (!playerId) break;
+        players.add(playerId);
+        const side = team === '1' ? 1 : 0;
+        if (battingOrder && battingOrder !== '0') {
+          if (record === 'sub') {
+            replaceRunner(side, battingOrder, playerId);
+          } else {
+            lineups[side]!.set(battingOrder, playerId);
+          }
+        }
+        if (position === '1') pitchers[side] = playerId;
+        break;
+      }
+      case 'radj': {
+        // Runner placed on base to start an extra inning (2020+)
+        const [playerId, base] = rest;
+        if (playerId && base) pendingRunners.push({ playerId, base: parseInt(base, 10) });
+        break;
+      }
+      case 'play': {
+        if (!gameId) break;
+        const [inningField, teamField, batterId = '', count = '', pitchSequence = '', event = ''] = rest;
+        const inning = parseInt(inningField ?? '0', 10);
+        const side = teamField === '1' ? 1 : 0;
+        eventSeq++;
+
+        if (`${inning}-${side}` !== half) {
+          half = `${inning}-${side}`;
+          bases = [null, null, null];
+          outs = 0;
+        }
+        for (const runner of pendingRunners) {
+          if (runner.base >= 1 && runner.base <= 3) bases[runner.base - 1] = runner.playerId;
+        }
+        pendingRunners = [];
+
+        if (event === 'NP' || !event) break;
+        players.add(batterId);
+
+        const before = { bases: [...bases], outs, score: [...score] };
+        const result = applyEvent(event, bases, batterId);
+        bases = result.bases;
+        outs += result.outs;
+        score[side]! += result.runs;
+
+        if (!result.type) break;
+
+        const homeScoreBefore = before.score[1]!;
+        const awayScoreBefore = before.score[0]!;
+        const { balls, strikes } = parseCount(count);
+        plateAppearances.push({
+          game_id: gameId,
+          event_seq: eventSeq,
+          inning,
+          is_bottom: side === 1,
+          batting_team_id: (side === 1 ? info.hometeam : info.visteam) || null,
+          batter_id: batterId,
+          pitcher_id: pitchers[1 - side] ?? null,
+          outs_before: before.outs,
+          runner_on_1b: before.bases[0] ?? null,
+          runner_on_2b: before.bases[1] ?? null,
+          runner_on_3b: before.bases[2] ?? null,
+          balls,
+          strikes,
+          pitch_sequence: pitchSequence || null,
+          event_text: event,
+          event_type: result.type,
+          is_hit: ['single', 'double', 'triple', 'home_run'].includes(result.type),
+          is_at_bat: isAtBat(result.type, result.modifiers),
+          outs_on_play: result.outs,
+          runs_on_play: result.runs,
+          rbi: result.rbi,
+          away_score_before: awayScoreBefore,
+          home_score_before: homeScoreBefore,
+          is_walk_off:
+            side === 1 && inning >= 9 && homeScoreBefore <= awayScoreBefore && score[1]! > score[0]!,
+        });
+        break;
+      }
+      default:
+        // version, com, data, badj, padj, ladj, presadj: not needed for plate appearances
+        break;
+    }
+  }
+
+  finish();
+  return games;
+}
+
+/**
+ * Read and parse an event file from disk
+ */
+export async function parseEventFileFromPath(filePath: string): Promise<EventFileGame[]> {
+  return parseEventFile(await readFile(filePath, 'latin1'));
+}
+
+/**
+ * Check whether a file name is a regular season event file (e.g. "2023ANA.EVA")
+ */
+export function isEventFile(fileName: string): boolean {
+  return /^\d{4}[A-Z0-9]{3}\.EV[AN]$/i.test(fileName);
+}
+
+/**
+ * Get the season of an event file from its name, or null if it doesn't start with one
+ */
+export function getEventFileYear(fileName: string): number | null {
+  const match = /^(\d{4})/.exec(fileName);
+  return match ? parseInt(match[1]!, 10) : null;
+}
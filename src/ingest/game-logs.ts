@@ -0,0 +1,176 @@
+/**
+ * Retrosheet game log parser (gl*.txt)
+ *
+ * Game logs have one unheaded CSV row of 161 fields per game with the final
+ * score, line scores, attendance, umpires and the pitchers of record.
+ *
+ * Format reference: https://www.retrosheet.org/gamelogs/glfields.txt
+ */
+import { readFile } from 'fs/promises';
+import { parse } from 'csv-parse/sync';
+import type { GameLogInsert, GameUmpire } from '../db/queries/games.js';
+import { parseLineScore } from './line-score.js';
+import type { GameType } from './game-types.js';
+
+export { parseLineScore };
+
+/** Zero-based field positions in a game log row */
+const FIELD = {
+  date: 0,
+  number: 1,
+  awayTeam: 3,
+  homeTeam: 6,
+  awayScore: 9,
+  homeScore: 10,
+  lengthOuts: 11,
+  dayNight: 12,
+  park: 16,
+  attendance: 17,
+  duration: 18,
+  awayLineScore: 19,
+  homeLineScore: 20,
+  umpires: 77,
+  winningPitcher: 93,
+  losingPitcher: 95,
+  savingPitcher: 97,
+  awayStartingPitcher: 101,
+  homeStartingPitcher: 103,
+} as const;
+
+const UMPIRE_POSITIONS: GameUmpire['position'][] = ['HP', '1B', '2B', '3B', 'LF', 'RF'];
+
+/**
+ * Game types of the game log files that aren't a single regular season
+ */
+const GAME_LOG_TYPES: Record<string, GameType> = {
+  as: 'ASG',
+  wc: 'WC',
+  dv: 'DS',
+  lc: 'LCS',
+  ws: 'WS',
+};
+
+function parseNullableInt(value: string | undefined): number | null {
+  if (!value) return null;
+  const num = parseInt(value, 10);
+  return isNaN(num) ? null : num;
+}
+
+/**
+ * Treat the game log placeholders for "nobody" as missing
+ */
+function parseId(value: string | undefined): string | null {
+  if (!value || value === '(none)' || value === '-') return null;
+  return value;
+}
+
+/**
+ * Get the game type of a game log file from its name ("gl2023.txt" is the regular season)
+ */
+export function getGameLogType(fileName: string): GameType | null {
+  const match = /^gl(\d{4}|as|wc|dv|lc|ws)\.txt$/i.exec(fileName);
+  if (!match) return null;
+  const suffix = match[1]!.toLowerCase();
+  return /^\d{4}$/.test(suffix) ? 'REG' : (GAME_LOG_TYPES[suffix] ?? null);
+}
+
+/**
+ * Get the season of a regular season game log file (null for postseason and All-Star files)
+ */
+export function getGameLogYear(fileName: string): number | null {
+  const match = /^gl(\d{4})\.txt$/i.exec(fileName);
+  return match ? parseInt(match[1]!, 10) : null;
+}
+
+/**
+ * Check whether a file name is a Retrosheet game log
+ */
+export function isGameLogFile(fileName: string): boolean {
+  return getGameLogType(fileName) !== null;
+}
+
+/**
+ * Convert one game log row to a game insert
+ *
+ * The game ID follows the Retrosheet convention: home team, date and game number.
+ */
+export function toGameLog(fields: string[], gameType: string | null): GameLogInsert {
+  const date = fields[FIELD.date] ?? '';
+  // A few early doubleheaders use A/B instead of 1/2
+  const rawNumber = fields[FIELD.number] ?? '0';
+  const gameNumber = rawNumber === 'A' ? 1 : rawNumber === 'B' ? 2 : parseNullableInt(rawNumber) ?? 0;
+  const homeTeam = fields[FIELD.homeTeam] ?? '';
+  const awayLineScore = fields[FIELD.awayLineScore] || null;
+  const homeLineScore = fields[FIELD.homeLineScore] || null;
+
+  const umpires: GameUmpire[] = [];
+  UMPIRE_POSITIONS.forEach((position, index) => {
+    const id = parseId(fields[FIELD.umpires + index * 2]);
+    if (!id) return;
+    umpires.push({ position, id, name: fields[FIELD.umpires + index * 2 + 1] ?? '' });
+  });
+
+  return {
+    game_id: `${homeTeam}${date}${gameNumber}`,
+    game_date: `${date.slice(0, 4)}-${date.slice(4, 6)}-${date.slice(6, 8)}`,
+    game_number: gameNumber,
+    site: fields[FIELD.park] || null,
+    home_team_id: homeTeam || null,
+    away_team_id: fields[FIELD.awayTeam] || null,
+    game_type: gameType,
+    has_box: false,
+    has_pbp: false,
+    away_score: parseNullableInt(fields[FIELD.awayScore]),
+    home_score: parseNullableInt(fields[FIELD.homeScore]),
+    innings: Math.max(
+      parseLineScore(awayLineScore ?? '').length,
+      parseLineScore(homeLineScore ?? '').length
+    ) || null,
+    length_outs: parseNullableInt(fields[FIELD.lengthOuts]),
+    day_night: fields[FIELD.dayNight] || null,
+    attendance: parseNullableInt(fields[FIELD.attendance]),
+    duration_minutes: parseNullableInt(fields[FIELD.duration]),
+    away_line_score: awayLineScore,
+    home_line_score: homeLineScore,
+    umpires,
+    away_starting_pitcher_id: parseId(fields[FIELD.awayStartingPitcher]),
+    home_starting_pitcher_id: parseId(fields[FIELD.homeStartingPitcher]),
+    winning_pitcher_id: parseId(fields[FIELD.winningPitcher]),
+    losing_pitcher_id: parseId(fields[FIELD.losingPitcher]),
+    saving_pitcher_id: parseId(fields[FIELD.savingPitcher]),
+  };
+}
+
+/**
+ * Get the players a game log references (starting pitchers and pitchers of record)
+ */
+export function getGameLogPlayerIds(game: GameLogInsert): string[] {
+  return [
+    game.away_starting_pitcher_id,
+    game.home_starting_pitcher_id,
+    game.winning_pitcher_id,
+    game.losing_pitcher_id,
+    game.saving_pitcher_id,
+  ].filter((id): id is string => id !== null);
+}
+
+/**
+ * Parse the contents of a game log file
+ */
+export function parseGameLogs(content: string, gameType: string | null): GameLogInsert[] {
+  const rows = parse(content, {
+    skip_empty_lines: true,
+    relax_column_count: true,
+    relax_quotes: true,
+  }) as string[][];
+
+  return rows.map((fields) => toGameLog(fields, gameType));
+}
+
+/**
+ * Read and parse a game log file from disk (the game type comes from the file name)
+ */
+export async function parseGameLogFile(filePath: string): Promise<GameLogInsert[]> {
+  const fileName = filePath.split(/[\\/]/).pop() ?? filePath;
+  return parseGameLogs(await readFile(filePath, 'latin1'), getGameLogType(fileName));
+}
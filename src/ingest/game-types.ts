@@ -0,0 +1,92 @@
+/**
+ * Game types
+ *
+ * games.game_type holds one of the codes below whatever the source: game log
+ * files name them (gl2023.txt, glws.txt, ...) and retrosplits rows carry a
+ * season phase that is normalized on transform.
+ */
+
+export const GAME_TYPES = ['REG', 'WC', 'DS', 'LCS', 'WS', 'ASG'] as const;
+
+export type GameType = (typeof GAME_TYPES)[number];
+
+export const POSTSEASON_GAME_TYPES: GameType[] = ['WC', 'DS', 'LCS', 'WS'];
+
+export const GAME_TYPE_NAMES: Record<GameType, string> = {
+  REG: 'Regular season',
+  WC: 'Wild Card',
+  DS: 'Division Series',
+  LCS: 'League Championship Series',
+  WS: 'World Series',
+  ASG: 'All-Star Game',
+};
+
+/**
+ * Game type filters accepted by the CLI and API, and the game types each selects
+ *
+ * "all" (or no filter) selects every game, including games without a type.
+ */
+export const GAME_TYPE_FILTERS: Record<string, GameType[]> = {
+  regular: ['REG'],
+  postseason: POSTSEASON_GAME_TYPES,
+  wildcard: ['WC'],
+  division: ['DS'],
+  lcs: ['LCS'],
+  'world-series': ['WS'],
+  'all-star': ['ASG'],
+};
+
+/**
+ * Season phase codes and spellings seen in retrosplits and Retrosheet files
+ *
+ * Keys are upper case with spaces, dashes and underscores removed. Retrosheet's
+ * CSV files spell the game type out (regular, wildcard, divisionseries, lcs,
+ * worldseries, allstar, playoff); exhibition, preseason and championship games
+ * have no code and are reported by the transform.
+ */
+export const GAME_TYPE_ALIASES: Record<string, GameType> = {
+  R: 'REG',
+  REGULAR: 'REG',
+  // Tie-breaker playoffs count toward the regular season
+  PLAYOFF: 'REG',
+  W: 'WC',
+  WILDCARD: 'WC',
+  D: 'DS',
+  DV: 'DS',
+  DIVISION: 'DS',
+  DIVISIONSERIES: 'DS',
+  L: 'LCS',
+  LC: 'LCS',
+  S: 'WS',
+  WORLDSERIES: 'WS',
+  A: 'ASG',
+  AS: 'ASG',
+  ALLSTAR: 'ASG',
+};
+
+/**
+ * Map a source game type or season phase to its code, or null if it isn't recognized
+ */
+export function normalizeGameType(value: string | null | undefined): GameType | null {
+  const key = value?.trim().toUpperCase().replace(/[\s_-]/g, '');
+  if (!key) return null;
+  if ((GAME_TYPES as readonly string[]).includes(key)) return key as GameType;
+  return GAME_TYPE_ALIASES[key] ?? null;
+}
+
+/**
+ * Parse a --game-type / ?gameType= filter into the game types it selects
+ *
+ * Returns undefined for "all" or no filter.
+ */
+export function parseGameTypeFilter(value: string | undefined): GameType[] | undefined {
+  if (!value || value === 'all') return undefined;
+
+  const gameTypes = GAME_TYPE_FILTERS[value.toLowerCase()];
+  if (!gameTypes) {
+    throw new Error(
+      `Unknown game type "${value}" (expected all, ${Object.keys(GAME_TYPE_FILTERS).join(', ')})`
+    );
+  }
+  return gameTypes;
+}
@@ -1,12 +1,56 @@
-import type { Sql } from '../db/client.js';
-import { downloadPlayingFile } from './downloader.js';
-import { loadPlayingToStaging, createIngestionBatch, updateIngestionBatch, hasCompletedIngestion, clearStagingBatch } from './staging.js';
-import { transformBattingData, transformPitchingData, type TransformResult } from './transformer.js';
+import { readdir } from 'fs/promises';
+import { join, basename } from 'path';
+import { transaction, type Sql } from '../db/client.js';
+import { upsertGame, upsertGameLog } from '../db/queries/games.js';
+import { upsertPlayers, updatePlayerAges } from '../db/queries/players.js';
+import { upsertTeams } from '../db/queries/teams.js';
+import { computeParkFactors } from '../db/queries/parks.js';
+import { runDataQualityChecks } from '../db/queries/data-quality.js';
+import { replaceGameEvents } from '../db/queries/events.js';
+import { rollbackIngestedYear } from '../db/queries/ingestion.js';
+import { syncPlayingFile, type DataType } from './downloader.js';
+import { hashFile, verifySourceFile } from './manifest.js';
+import { loadPlayingToStaging, createIngestionBatch, updateIngestionBatch, getIngestedSourceHash, hasCompletedFileIngestion, clearStagingBatch } from './staging.js';
+import { parseEventFileFromPath, isEventFile, getEventFileYear } from './events.js';
+import { parseGameLogFile, isGameLogFile, getGameLogYear, getGameLogPlayerIds } from './game-logs.js';
+import { type DataQualitySummary } from './data-quality.js';
+import {
+  transformBattingData,
+  transformPitchingData,
+  transformFieldingData,
+  type TransformResult,
+} from './transformer.js';
 
-export { downloadPlayingFile, type DataType } from './downloader.js';
+export { downloadPlayingFile, syncPlayingFile, type DataType } from './downloader.js';
+export { readManifest, verifySourceFile, type ManifestEntry } from './manifest.js';
 export { parseBattingCSV, parsePitchingCSV, parseCSV } from './parser.js';
+export {
+  parseEventFile,
+  parseEventFileFromPath,
+  applyEvent,
+  splitEventRecord,
+  isEventFile,
+  getEventFileYear,
+  type EventFileGame,
+  type PlateAppearanceType,
+} from './events.js';
+export {
+  parseGameLogs,
+  parseGameLogFile,
+  parseLineScore,
+  toGameLog,
+  isGameLogFile,
+  getGameLogType,
+  getGameLogYear,
+  getGameLogPlayerIds,
+} from './game-logs.js';
 export { loadPlayingToStaging, loadBattingToStaging, loadPitchingToStaging } from './staging.js';
-export { transformBattingData, transformPitchingData, transformData } from './transformer.js';
+export {
+  transformBattingData,
+  transformPitchingData,
+  transformFieldingData,
+  transformData,
+} from './transformer.js';
 
 export interface IngestOptions {
   force?: boolean;
@@ -18,19 +62,52 @@ export interface IngestOptions {
 export interface UnifiedIngestResult {
   year: number;
   skipped: boolean;
+  /** Re-ingested because the source file changed upstream since the last ingestion */
+  sourceChanged?: boolean;
   battingBatchId?: string;
   pitchingBatchId?: string;
+  fieldingBatchId?: string;
   totalRows?: number;
   battingRows?: number;
   pitchingRows?: number;
+  fieldingRows?: number;
   battingTransform?: TransformResult;
   pitchingTransform?: TransformResult;
+  fieldingTransform?: TransformResult;
+  dataQuality?: DataQualitySummary;
   error?: string;
 }
 
 /**
- * Ingest all data (batting and pitching) for a single year
- * Downloads the unified playing-YYYY.csv file and processes both stat types
+ * Hashes of the files a year's batting and pitching were last ingested from
+ * (null unless both were ingested)
+ */
+async function getIngestedHashes(sql: Sql, year: number): Promise<(string | null)[] | null> {
+  const types: DataType[] = ['batting', 'pitching'];
+  const hashes = await Promise.all(types.map((type) => getIngestedSourceHash(sql, type, year)));
+  return hashes.some((hash) => hash === undefined) ? null : (hashes as (string | null)[]);
+}
+
+/**
+ * Warn about games stored without a game type because their code isn't recognized
+ */
+function warnUnknownGameTypes(section: string, result: TransformResult): void {
+  const codes = Object.entries(result.unknownGameTypes);
+  if (codes.length === 0) return;
+
+  const list = codes.map(([code, games]) => `"${code}" (${games} games)`).join(', ');
+  console.warn(`Unknown game types in ${section} rows, stored without a type: ${list}`);
+}
+
+/**
+ * Ingest all data (batting, pitching and fielding) for a single year
+ * Downloads the unified playing-YYYY.csv file and processes every stat type
+ *
+ * An already ingested year is skipped unless its file changed upstream since
+ * (years ingested before file hashes were recorded need --force). A changed
+ * year is rolled back (see rollbackIngestedYear) once the new file is staged,
+ * in the transaction that transforms it, so a failed re-ingest leaves the year
+ * as it was; its event files and game logs need loading again.
  */
 export async function ingestYear(
   sql: Sql,
@@ -40,17 +117,39 @@ export async function ingestYear(
   const sourceFile = `playing-${year}.csv`;
 
   // Check for existing completed ingestion (check both batting and pitching)
-  const battingExists = await hasCompletedIngestion(sql, 'batting', year);
-  const pitchingExists = await hasCompletedIngestion(sql, 'pitching', year);
+  const ingestedHashes = await getIngestedHashes(sql, year);
+  let sourceChanged = false;
+  let downloadedPath: string | undefined;
+
+  if (!options.force && ingestedHashes) {
+    if (options.localFile || options.skipDownload || ingestedHashes.includes(null)) {
+      console.log(`${year} already ingested. Use --force to re-ingest.`);
+      return { year, skipped: true };
+    }
 
-  if (!options.force && battingExists && pitchingExists) {
-    console.log(`${year} already ingested. Use --force to re-ingest.`);
-    return { year, skipped: true };
+    let current: string;
+    try {
+      const file = await syncPlayingFile(year);
+      downloadedPath = file.path;
+      current = file.entry.sha256;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.log(`${year} already ingested; could not check for upstream changes (${message})`);
+      return { year, skipped: true };
+    }
+
+    if (ingestedHashes.every((hash) => hash === current)) {
+      console.log(`${year} already ingested and unchanged upstream. Use --force to re-ingest.`);
+      return { year, skipped: true };
+    }
+    console.log(`${sourceFile} changed upstream since it was ingested; re-ingesting ${year}`);
+    sourceChanged = true;
   }
 
-  // Create batch records for both types
+  // Create batch records for each type
   const battingBatchId = await createIngestionBatch(sql, 'batting', year, sourceFile);
   const pitchingBatchId = await createIngestionBatch(sql, 'pitching', year, sourceFile);
+  const fieldingBatchId = await createIngestionBatch(sql, 'fielding', year, sourceFile);
 
   try {
     // Download file (or use local file)
@@ -60,35 +159,87 @@ export async function ingestYear(
     } else if (options.skipDownload) {
       throw new Error('skipDownload specified but no localFile provided');
     } else {
-      filePath = await downloadPlayingFile(year, { force: options.force });
+      filePath = downloadedPath ?? (await syncPlayingFile(year, { force: options.force })).path;
     }
 
-    // Load to staging (handles both batting and pitching)
+    // Refuse a truncated or corrupted download, and record which file the batches loaded
+    const entry = await verifySourceFile(filePath);
+    const sha256 = entry?.sha256 ?? (await hashFile(filePath)).sha256;
+
+    // Load to staging (handles batting, pitching and fielding)
     console.log(`Loading ${sourceFile} to staging...`);
-    const stagingResult = await loadPlayingToStaging(sql, filePath, sourceFile);
-    console.log(`Staged ${stagingResult.battingRows} batting rows, ${stagingResult.pitchingRows} pitching rows (from ${stagingResult.totalRows} total rows)`);
+    const stagingResult = await loadPlayingToStaging(sql, filePath, sourceFile, {
+      batting: battingBatchId,
+      pitching: pitchingBatchId,
+      fielding: fieldingBatchId,
+    });
+    console.log(`Staged ${stagingResult.battingRows} batting rows, ${stagingResult.pitchingRows} pitching rows, ${stagingResult.fieldingRows} fielding rows (from ${stagingResult.totalRows} total rows)`);
 
     await updateIngestionBatch(sql, battingBatchId, {
       totalRows: stagingResult.battingRows,
       status: 'in_progress',
+      sourceSha256: sha256,
     });
     await updateIngestionBatch(sql, pitchingBatchId, {
       totalRows: stagingResult.pitchingRows,
       status: 'in_progress',
+      sourceSha256: sha256,
+    });
+    await updateIngestionBatch(sql, fieldingBatchId, {
+      totalRows: stagingResult.fieldingRows,
+      status: 'in_progress',
+      sourceSha256: sha256,
     });
 
     // Transform to typed tables
     let battingTransform: TransformResult | undefined;
     let pitchingTransform: TransformResult | undefined;
+    let fieldingTransform: TransformResult | undefined;
+    let dataQuality: DataQualitySummary | undefined;
 
-    if (!options.skipTransform) {
+    const transformAll = async (db: Sql) => {
       console.log('Transforming batting data...');
-      battingTransform = await transformBattingData(sql, stagingResult.battingBatchId);
+      battingTransform = await transformBattingData(db, stagingResult.battingBatchId);
       console.log(`Transformed ${battingTransform.processedRows} batting rows`);
+      warnUnknownGameTypes('batting', battingTransform);
 
       console.log('Transforming pitching data...');
-      pitchingTransform = await transformPitchingData(sql, stagingResult.pitchingBatchId);
+      pitchingTransform = await transformPitchingData(db, stagingResult.pitchingBatchId);
       console.log(`Transformed ${pitchingTransform.processedRows} pitching rows`);
+      warnUnknownGameTypes('pitching', pitchingTransform);
+
+      console.log('Transforming fielding data...');
+      fieldingTransform = await transformFieldingData(db, stagingResult.fieldingBatchId);
+      console.log(`Transformed ${fieldingTransform.processedRows} fielding rows`);
+      warnUnknownGameTypes('fielding', fieldingTransform);
+    };
+
+    if (sourceChanged) {
+      // Lines Retrosheet removed or re-keyed must not survive the re-ingest, nor anything
+      // derived from them. They are removed in the transaction that loads the new file, so
+      // the year stays as it was if that fails
+      await transaction(sql, async (tx) => {
+        const rolledBack = await rollbackIngestedYear(tx, year, {
+          keepBatchIds: [battingBatchId, pitchingBatchId, fieldingBatchId],
+        });
+        const { games, fantasyPoints } = rolledBack;
+        console.log(`Replacing ${games} games and ${fantasyPoints} fantasy point rows of ${year}`);
+        if (!options.skipTransform) await transformAll(tx);
+      });
+    } else if (!options.skipTransform) {
+      await transformAll(sql);
+    }
+
+    if (!options.skipTransform) {
+      // Players synced from the register before this season was ingested already have birth dates
+      await updatePlayerAges(sql, year);
+
+      // Park-adjusted rulesets score this season against the refreshed factors
+      await transaction(sql, (tx) => computeParkFactors(tx, year));
+
+      console.log('Reconciling batting and pitching lines...');
+      dataQuality = await transaction(sql, (tx) => runDataQualityChecks(tx, year));
+      console.log(`Checked ${dataQuality.gamesChecked} games: ${dataQuality.issues} data quality issues in ${dataQuality.gamesWithIssues} games`);
     }
 
     // Mark complete
@@ -100,21 +251,31 @@ export async function ingestYear(
       status: 'completed',
       processedRows: pitchingTransform?.processedRows ?? stagingResult.pitchingRows,
     });
+    await updateIngestionBatch(sql, fieldingBatchId, {
+      status: 'completed',
+      processedRows: fieldingTransform?.processedRows ?? stagingResult.fieldingRows,
+    });
 
     // Clean up staging data
     await clearStagingBatch(sql, 'batting', stagingResult.battingBatchId);
     await clearStagingBatch(sql, 'pitching', stagingResult.pitchingBatchId);
+    await clearStagingBatch(sql, 'fielding', stagingResult.fieldingBatchId);
 
     return {
       year,
       skipped: false,
+      sourceChanged,
       battingBatchId,
       pitchingBatchId,
+      fieldingBatchId,
       totalRows: stagingResult.totalRows,
       battingRows: stagingResult.battingRows,
       pitchingRows: stagingResult.pitchingRows,
+      fieldingRows: stagingResult.fieldingRows,
       battingTransform,
       pitchingTransform,
+      fieldingTransform,
+      dataQuality,
     };
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
@@ -126,12 +287,17 @@ export async function ingestYear(
       status: 'failed',
       errorMessage,
     });
+    await updateIngestionBatch(sql, fieldingBatchId, {
+      status: 'failed',
+      errorMessage,
+    });
 
     return {
       year,
       skipped: false,
       battingBatchId,
       pitchingBatchId,
+      fieldingBatchId,
       error: errorMessage,
     };
   }
@@ -157,7 +323,196 @@ export async function ingestYears(
     } else if (result.skipped) {
       console.log(`Skipped ${year}`);
     } else {
-      console.log(`Completed ${year}: ${result.battingRows} batting, ${result.pitchingRows} pitching rows`);
+      console.log(`Completed ${year}: ${result.battingRows} batting, ${result.pitchingRows} pitching, ${result.fieldingRows} fielding rows`);
+    }
+  }
+
+  return results;
+}
+
+export interface EventIngestOptions {
+  force?: boolean;
+  /** Only ingest files for these seasons */
+  years?: number[];
+}
+
+export interface EventFileIngestResult {
+  file: string;
+  year: number;
+  skipped: boolean;
+  batchId?: string;
+  games?: number;
+  plateAppearances?: number;
+  error?: string;
+}
+
+/**
+ * Ingest a Retrosheet event file into plate_appearance_events
+ *
+ * Each game is written in its own transaction, replacing any events already
+ * stored for it, so re-ingesting a file is safe. Games, teams and players missing
+ * from the database are created.
+ */
+export async function ingestEventFile(
+  sql: Sql,
+  filePath: string,
+  options: { force?: boolean } = {}
+): Promise<EventFileIngestResult> {
+  const sourceFile = basename(filePath);
+  const year = getEventFileYear(sourceFile) ?? 0;
+
+  if (!options.force && (await hasCompletedFileIngestion(sql, 'events', sourceFile))) {
+    return { file: sourceFile, year, skipped: true };
+  }
+
+  const batchId = await createIngestionBatch(sql, 'events', year, sourceFile);
+
+  try {
+    const games = await parseEventFileFromPath(filePath);
+    const plateAppearances = games.reduce((sum, g) => sum + g.plateAppearances.length, 0);
+    await updateIngestionBatch(sql, batchId, { totalRows: plateAppearances, status: 'in_progress' });
+
+    for (const { game, playerIds, plateAppearances: events } of games) {
+      await transaction(sql, async (tx) => {
+        await upsertTeams(tx, [game.home_team_id ?? '', game.away_team_id ?? '']);
+        await upsertPlayers(tx, playerIds);
+        await upsertGame(tx, game);
+        await replaceGameEvents(tx, game.game_id, events);
+      });
+    }
+
+    await updateIngestionBatch(sql, batchId, {
+      status: 'completed',
+      processedRows: plateAppearances,
+    });
+
+    return { file: sourceFile, year, skipped: false, batchId, games: games.length, plateAppearances };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    await updateIngestionBatch(sql, batchId, { status: 'failed', errorMessage });
+    return { file: sourceFile, year, skipped: false, batchId, error: errorMessage };
+  }
+}
+
+/**
+ * Ingest every regular season event file (.EVA/.EVN) in a local directory
+ */
+export async function ingestEventFiles(
+  sql: Sql,
+  directory: string,
+  options: EventIngestOptions = {}
+): Promise<EventFileIngestResult[]> {
+  const files = (await readdir(directory))
+    .filter(isEventFile)
+    .filter((file) => !options.years || options.years.includes(getEventFileYear(file) ?? 0))
+    .sort();
+
+  const results: EventFileIngestResult[] = [];
+  for (const file of files) {
+    const result = await ingestEventFile(sql, join(directory, file), { force: options.force });
+    results.push(result);
+
+    if (result.error) {
+      console.error(`Error ingesting ${file}: ${result.error}`);
+    } else if (result.skipped) {
+      console.log(`Skipped ${file} (already ingested)`);
+    } else {
+      console.log(`Ingested ${file}: ${result.games} games, ${result.plateAppearances} plate appearances`);
+    }
+  }
+
+  return results;
+}
+
+export interface GameLogIngestOptions {
+  force?: boolean;
+  /** Only ingest games from these seasons */
+  years?: number[];
+}
+
+export interface GameLogIngestResult {
+  file: string;
+  skipped: boolean;
+  batchId?: string;
+  games?: number;
+  error?: string;
+}
+
+/**
+ * Ingest a Retrosheet game log file, adding results to games
+ *
+ * The whole file is written in one transaction. Games not yet in the database
+ * are created; existing games get their result columns overwritten.
+ */
+export async function ingestGameLogFile(
+  sql: Sql,
+  filePath: string,
+  options: GameLogIngestOptions = {}
+): Promise<GameLogIngestResult> {
+  const sourceFile = basename(filePath);
+
+  if (!options.force && (await hasCompletedFileIngestion(sql, 'gamelogs', sourceFile))) {
+    return { file: sourceFile, skipped: true };
+  }
+
+  // Postseason and All-Star files span every season, so they have no single year
+  const year = getGameLogYear(sourceFile) ?? 0;
+  const batchId = await createIngestionBatch(sql, 'gamelogs', year, sourceFile);
+
+  try {
+    const games = (await parseGameLogFile(filePath)).filter(
+      (game) => !options.years || options.years.includes(parseInt(game.game_date.slice(0, 4), 10))
+    );
+    await updateIngestionBatch(sql, batchId, { totalRows: games.length, status: 'in_progress' });
+
+    await transaction(sql, async (tx) => {
+      await upsertTeams(tx, games.flatMap((g) => [g.home_team_id ?? '', g.away_team_id ?? '']));
+      await upsertPlayers(tx, games.flatMap(getGameLogPlayerIds));
+      for (const game of games) {
+        await upsertGameLog(tx, game);
+      }
+    });
+
+    await updateIngestionBatch(sql, batchId, { status: 'completed', processedRows: games.length });
+
+    return { file: sourceFile, skipped: false, batchId, games: games.length };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    await updateIngestionBatch(sql, batchId, { status: 'failed', errorMessage });
+    return { file: sourceFile, skipped: false, batchId, error: errorMessage };
+  }
+}
+
+/**
+ * Ingest every game log file (gl*.txt) in a local directory
+ *
+ * Season files outside `years` are skipped; postseason and All-Star files are
+ * filtered game by game.
+ */
+export async function ingestGameLogs(
+  sql: Sql,
+  directory: string,
+  options: GameLogIngestOptions = {}
+): Promise<GameLogIngestResult[]> {
+  const files = (await readdir(directory))
+    .filter(isGameLogFile)
+    .filter((file) => {
+      const season = getGameLogYear(file);
+      return !options.years || season === null || options.years.includes(season);
+    })
+    .sort();
+
+  const results: GameLogIngestResult[] = [];
+  for (const file of files) {
+    const result = await ingestGameLogFile(sql, join(directory, file), options);
+    results.push(result);
+
+    if (result.error) {
+      console.error(`Error ingesting ${file}: ${result.error}`);
+    } else if (result.skipped) {
+      console.log(`Skipped ${file} (already ingested)`);
+    } else {
+      console.log(`Ingested ${file}: ${result.games} games`);
     }
   }
 
@@ -0,0 +1,25 @@
+/**
+ * Line scores as written in Retrosheet game logs
+ *
+ * Kept free of database imports so the API can share it.
+ */
+
+/**
+ * Parse a line score such as "010000(10)0x" into runs per inning
+ *
+ * Innings of more than 9 runs are wrapped in parentheses; "x" (the home team
+ * didn't bat) becomes null.
+ */
+export function parseLineScore(lineScore: string): (number | null)[] {
+  const innings: (number | null)[] = [];
+
+  for (const match of lineScore.matchAll(/\((\d+)\)|(\d)|([xX])/g)) {
+    if (match[3]) {
+      innings.push(null);
+    } else {
+      innings.push(parseInt(match[1] ?? match[2]!, 10));
+    }
+  }
+
+  return innings;
+}
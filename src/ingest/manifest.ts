@@ -0,0 +1,181 @@
+import { createHash } from 'crypto';
+import { createReadStream } from 'fs';
+import { access, mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { basename, dirname, join } from 'path';
+
+/**
+ * Download manifest
+ *
+ * Every downloaded source file is recorded in a manifest.json next to it with
+ * where it came from, the validators the server sent and its size and
+ * SHA-256. Later downloads are conditional on those validators, and a file
+ * is checked against its entry before it is loaded.
+ */
+
+const MANIFEST_FILE = 'manifest.json';
+
+export interface ManifestEntry {
+  url: string;
+  etag: string | null;
+  lastModified: string | null;
+  size: number;
+  sha256: string;
+  downloadedAt: string;
+}
+
+/** Manifest entries by file name */
+export type Manifest = Record<string, ManifestEntry>;
+
+export interface SourceFile {
+  path: string;
+  entry: ManifestEntry;
+  /** The content differs from the previously recorded download (or none was recorded) */
+  changed: boolean;
+}
+
+async function exists(path: string): Promise<boolean> {
+  try {
+    await access(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function getManifestPath(localPath: string): string {
+  return join(dirname(localPath), MANIFEST_FILE);
+}
+
+/**
+ * Read the manifest of a data directory (empty if there is none yet)
+ */
+export async function readManifest(dir: string): Promise<Manifest> {
+  const path = join(dir, MANIFEST_FILE);
+  if (!(await exists(path))) return {};
+  return JSON.parse(await readFile(path, 'utf-8')) as Manifest;
+}
+
+async function writeManifestEntry(localPath: string, entry: ManifestEntry): Promise<void> {
+  const dir = dirname(localPath);
+  const manifest = await readManifest(dir);
+  manifest[basename(localPath)] = entry;
+
+  // Write then rename so an interrupted write never leaves a partial manifest
+  const path = getManifestPath(localPath);
+  await writeFile(`${path}.tmp`, JSON.stringify(manifest, null, 2) + '\n', 'utf-8');
+  await rename(`${path}.tmp`, path);
+}
+
+/**
+ * Size and SHA-256 of a file
+ */
+export async function hashFile(path: string): Promise<{ size: number; sha256: string }> {
+  const hash = createHash('sha256');
+  let size = 0;
+  for await (const chunk of createReadStream(path)) {
+    hash.update(chunk as Buffer);
+    size += (chunk as Buffer).length;
+  }
+  return { size, sha256: hash.digest('hex') };
+}
+
+/**
+ * Describe how a file differs from its manifest entry, or null if it matches
+ */
+export function describeMismatch(
+  entry: Pick<ManifestEntry, 'size' | 'sha256'>,
+  actual: { size: number; sha256: string }
+): string | null {
+  if (actual.size !== entry.size) {
+    const kind = actual.size < entry.size ? 'truncated' : 'larger than downloaded';
+    return `${kind}: ${actual.size} bytes, expected ${entry.size}`;
+  }
+  if (actual.sha256 !== entry.sha256) {
+    return `corrupted: SHA-256 ${actual.sha256.slice(0, 12)}…, expected ${entry.sha256.slice(0, 12)}…`;
+  }
+  return null;
+}
+
+/**
+ * Headers for a download that only returns content if it changed since the entry
+ */
+export function conditionalHeaders(entry: ManifestEntry | undefined): Record<string, string> {
+  const headers: Record<string, string> = {};
+  if (entry?.etag) headers['If-None-Match'] = entry.etag;
+  if (entry?.lastModified) headers['If-Modified-Since'] = entry.lastModified;
+  return headers;
+}
+
+/**
+ * Check a file against its manifest entry before loading it
+ *
+ * Throws if the file is truncated or corrupted. Files with no entry (copied
+ * in by hand, or downloaded before the manifest existed) are not checked.
+ */
+export async function verifySourceFile(localPath: string): Promise<ManifestEntry | null> {
+  const entry = (await readManifest(dirname(localPath)))[basename(localPath)];
+  if (!entry) return null;
+
+  const mismatch = describeMismatch(entry, await hashFile(localPath));
+  if (mismatch) {
+    throw new Error(`${basename(localPath)} does not match its download (${mismatch}); re-download it with --force`);
+  }
+  return entry;
+}
+
+/**
+ * Bring a local copy of a source file up to date and record it in the manifest
+ *
+ * With a manifest entry and an intact local file the request is conditional,
+ * so an unchanged file costs a 304. `force` downloads unconditionally. A
+ * response shorter than its Content-Length is refused and nothing is written.
+ */
+export async function syncSourceFile(
+  url: string,
+  localPath: string,
+  options: { force?: boolean } = {}
+): Promise<SourceFile> {
+  const name = basename(localPath);
+  const previous = (await readManifest(dirname(localPath)))[name];
+
+  let intact = false;
+  if (previous && (await exists(localPath))) {
+    intact = describeMismatch(previous, await hashFile(localPath)) === null;
+    if (!intact) {
+      console.log(`${name} does not match the manifest; downloading it again`);
+    }
+  }
+
+  const response = await fetch(url, {
+    headers: !options.force && intact ? conditionalHeaders(previous) : {},
+  });
+
+  if (response.status === 304 && previous) {
+    return { path: localPath, entry: previous, changed: false };
+  }
+  if (!response.ok) {
+    throw new Error(`Failed to download ${url}: ${response.status} ${response.statusText}`);
+  }
+
+  const content = Buffer.from(await response.arrayBuffer());
+  const contentLength = response.headers.get('content-length');
+  // Compressed responses report the compressed length, so only compare identity responses
+  if (contentLength && !response.headers.get('content-encoding') && content.length !== Number(contentLength)) {
+    throw new Error(`Download of ${name} was truncated: ${content.length} of ${contentLength} bytes`);
+  }
+
+  const entry: ManifestEntry = {
+    url,
+    etag: response.headers.get('etag'),
+    lastModified: response.headers.get('last-modified'),
+    size: content.length,
+    sha256: createHash('sha256').update(content).digest('hex'),
+    downloadedAt: new Date().toISOString(),
+  };
+
+  await mkdir(dirname(localPath), { recursive: true });
+  await writeFile(localPath, content);
+  await writeManifestEntry(localPath, entry);
+
+  return { path: localPath, entry, changed: entry.sha256 !== previous?.sha256 };
+}
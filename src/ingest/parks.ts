@@ -0,0 +1,79 @@
+/**
+ * Ballpark metadata
+ *
+ * Parks are keyed by the Retrosheet site code stored in games.site. The bundled
+ * file (data/parks.csv) uses the layout of Retrosheet's ballparks file, so the
+ * complete file from retrosheet.org can be loaded with the same parser.
+ */
+import { readFile } from 'fs/promises';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { parse } from 'csv-parse/sync';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const PARKS_FILE = join(__dirname, 'data', 'parks.csv');
+
+export type Park = {
+  park_id: string;
+  name: string;
+  /** Other names the park went by, separated by semicolons */
+  aka: string | null;
+  city: string;
+  state: string | null;
+  first_year: number | null;
+  /** NULL while the park is still in use */
+  last_year: number | null;
+  league: string | null;
+};
+
+/**
+ * Read the year from a Retrosheet park date ("04/19/1966") or a plain year
+ */
+export function toParkYear(value: string | undefined): number | null {
+  const match = value?.trim().match(/(\d{4})$/);
+  return match ? parseInt(match[1]!, 10) : null;
+}
+
+/**
+ * Parse a ballparks file (PARKID, NAME, AKA, CITY, STATE, START, END, LEAGUE, NOTES)
+ */
+export function parseParks(content: string): Park[] {
+  const rows = parse(content, {
+    columns: (header: string[]) => header.map((column) => column.toLowerCase()),
+    comment: '#',
+    skip_empty_lines: true,
+    relax_column_count: true,
+    trim: true,
+  }) as Record<string, string>[];
+
+  return rows.map((row, index) => {
+    if (!row.parkid || !row.name) {
+      throw new Error(`Invalid park row ${index + 1}: ${JSON.stringify(row)}`);
+    }
+
+    return {
+      park_id: row.parkid,
+      name: row.name,
+      aka: row.aka || null,
+      city: row.city ?? '',
+      state: row.state || null,
+      first_year: toParkYear(row.start),
+      last_year: toParkYear(row.end),
+      league: row.league || null,
+    };
+  });
+}
+
+/**
+ * Load the bundled parks
+ */
+export async function loadBundledParks(): Promise<Park[]> {
+  return parseParks(await readFile(PARKS_FILE, 'utf-8'));
+}
+
+/**
+ * Load parks from a Retrosheet ballparks file
+ */
+export async function loadParksFile(filePath: string): Promise<Park[]> {
+  return parseParks(await readFile(filePath, 'utf-8'));
+}
@@ -1,10 +1,10 @@
-import { mkdir, writeFile } from 'fs/promises';
 import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
 import { config } from '../config/index.js';
-import { fileExists } from './downloader.js';
+import { syncSourceFile, verifySourceFile } from './manifest.js';
 import { streamParseCSV } from './parser.js';
 import type { Sql } from '../db/client.js';
+import { updatePlayerAges } from '../db/queries/players.js';
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 const DATA_DIR = join(__dirname, '../../data');
@@ -12,11 +12,12 @@ const DATA_DIR = join(__dirname, '../../data');
 // The register data is split into 16 files by hex digit
 const HEX_DIGITS = ['0', '1', '2', '3', '4', '5', '6', '7', '8', '9', 'a', 'b', 'c', 'd', 'e', 'f'];
 
-interface RawPersonRow {
+export interface RawPersonRow {
   key_person: string;
   key_retro: string;
   key_mlbam?: string;
   key_bbref?: string;
+  key_fangraphs?: string;
   name_last: string;
   name_first: string;
   name_given?: string;
@@ -42,28 +43,12 @@ function getPeopleFilePath(hexDigit: string): string {
 }
 
 /**
- * Download a single people file
+ * Download a single people file, unless the local copy is current
  */
 async function downloadPeopleFile(hexDigit: string, options: { force?: boolean } = {}): Promise<string> {
-  const localPath = getPeopleFilePath(hexDigit);
-
-  if (!options.force && (await fileExists(localPath))) {
-    return localPath;
-  }
-
-  await mkdir(DATA_DIR, { recursive: true });
-
   const url = `${config.registerBaseUrl}/people-${hexDigit}.csv`;
-  const response = await fetch(url);
-
-  if (!response.ok) {
-    throw new Error(`Failed to download people-${hexDigit}.csv: ${response.status} ${response.statusText}`);
-  }
-
-  const content = await response.text();
-  await writeFile(localPath, content, 'utf-8');
-
-  return localPath;
+  const file = await syncSourceFile(url, getPeopleFilePath(hexDigit), options);
+  return file.path;
 }
 
 /**
@@ -84,22 +69,97 @@ export async function downloadAllPeopleFiles(options: { force?: boolean } = {}):
 }
 
 /**
- * Sync player names from the register to the database
- * Only updates players that already exist in our database
+ * A player's biography and external IDs, as written to players
+ */
+export type PlayerBio = {
+  id: string;
+  name_first: string;
+  name_last: string;
+  name_given: string | null;
+  name_suffix: string | null;
+  name_nick: string | null;
+  birth_date: string | null;
+  birth_year: number | null;
+  death_date: string | null;
+  mlb_played_first: number | null;
+  mlb_played_last: number | null;
+  pro_played_first: number | null;
+  pro_played_last: number | null;
+  key_person: string | null;
+  key_mlbam: number | null;
+  key_bbref: string | null;
+  key_fangraphs: number | null;
+};
+
+function parseOptionalInt(value: string | undefined): number | null {
+  if (!value) return null;
+  const num = parseInt(value, 10);
+  return isNaN(num) ? null : num;
+}
+
+/**
+ * Build a YYYY-MM-DD date from register parts (null unless year, month and day are all known)
+ */
+export function toRegisterDate(
+  year: string | undefined,
+  month: string | undefined,
+  day: string | undefined
+): string | null {
+  const [y, m, d] = [parseOptionalInt(year), parseOptionalInt(month), parseOptionalInt(day)];
+  if (y === null || m === null || d === null) return null;
+  return `${String(y).padStart(4, '0')}-${String(m).padStart(2, '0')}-${String(d).padStart(2, '0')}`;
+}
+
+/**
+ * Convert a register row to the biography stored for a Retrosheet player
  */
-export async function syncPlayerNames(sql: Sql): Promise<{ updated: number; total: number }> {
+export function toPlayerBio(row: RawPersonRow): PlayerBio {
+  return {
+    id: row.key_retro,
+    name_first: row.name_first || '',
+    name_last: row.name_last || '',
+    name_given: row.name_given || null,
+    name_suffix: row.name_suffix || null,
+    name_nick: row.name_nick || null,
+    birth_date: toRegisterDate(row.birth_year, row.birth_month, row.birth_day),
+    birth_year: parseOptionalInt(row.birth_year),
+    death_date: toRegisterDate(row.death_year, row.death_month, row.death_day),
+    mlb_played_first: parseOptionalInt(row.mlb_played_first),
+    mlb_played_last: parseOptionalInt(row.mlb_played_last),
+    pro_played_first: parseOptionalInt(row.pro_played_first),
+    pro_played_last: parseOptionalInt(row.pro_played_last),
+    key_person: row.key_person || null,
+    key_mlbam: parseOptionalInt(row.key_mlbam),
+    key_bbref: row.key_bbref || null,
+    key_fangraphs: parseOptionalInt(row.key_fangraphs),
+  };
+}
+
+/**
+ * Sync player biographies and external IDs from the register to the database
+ *
+ * Only updates players that already exist in our database: by default those
+ * never synced, or every player with `force`. Ages on stat lines are refreshed
+ * afterwards.
+ */
+export async function syncPlayerRegister(
+  sql: Sql,
+  options: { force?: boolean } = {}
+): Promise<{ updated: number; total: number; agesUpdated: number }> {
   // First, get all player IDs we have in the database
-  const existingPlayers = await sql<{ player_id: string }[]>`
-    SELECT player_id FROM players WHERE name_last IS NULL
-  `;
+  const existingPlayers = options.force
+    ? await sql<{ player_id: string }[]>`SELECT player_id FROM players`
+    : await sql<{ player_id: string }[]>`
+        SELECT player_id FROM players WHERE register_synced_at IS NULL
+      `;
 
   if (existingPlayers.length === 0) {
-    console.log('All players already have names');
-    return { updated: 0, total: 0 };
+    console.log('All players already synced with the register');
+    return { updated: 0, total: 0, agesUpdated: 0 };
   }
 
   const playerIds = new Set(existingPlayers.map((p) => p.player_id));
-  console.log(`Found ${playerIds.size} players needing name updates`);
+  console.log(`Found ${playerIds.size} players to sync`);
 
   // Download all people files
   const filePaths = await downloadAllPeopleFiles();
@@ -107,21 +167,40 @@ export async function syncPlayerNames(sql: Sql): Promise<{ updated: number; tota
   // Parse and update matching players
   let updated = 0;
   const BATCH_SIZE = 500;
-  let batch: { id: string; first: string; last: string; given: string | null }[] = [];
+  let batch: PlayerBio[] = [];
 
   const flushBatch = async () => {
     if (batch.length === 0) return;
 
-    // Use a single UPDATE with CASE for efficiency
     await sql`
       UPDATE players
       SET
-        name_first = updates.first,
-        name_last = updates.last,
-        name_given = updates.given
+        name_first = updates.name_first,
+        name_last = updates.name_last,
+        name_given = updates.name_given,
+        name_suffix = updates.name_suffix,
+        name_nick = updates.name_nick,
+        birth_date = updates.birth_date,
+        birth_year = updates.birth_year,
+        death_date = updates.death_date,
+        mlb_played_first = updates.mlb_played_first,
+        mlb_played_last = updates.mlb_played_last,
+        pro_played_first = updates.pro_played_first,
+        pro_played_last = updates.pro_played_last,
+        key_person = updates.key_person,
+        key_mlbam = updates.key_mlbam,
+        key_bbref = updates.key_bbref,
+        key_fangraphs = updates.key_fangraphs,
+        register_synced_at = NOW()
       FROM (
         SELECT * FROM jsonb_to_recordset(${sql.json(batch)}::jsonb)
-        AS t(id text, first text, last text, given text)
+        AS t(
+          id text, name_first text, name_last text, name_given text, name_suffix text,
+          name_nick text, birth_date date, birth_year smallint, death_date date,
+          mlb_played_first smallint, mlb_played_last smallint,
+          pro_played_first smallint, pro_played_last smallint,
+          key_person text, key_mlbam integer, key_bbref text, key_fangraphs integer
+        )
       ) AS updates
       WHERE players.player_id = updates.id
     `;
@@ -132,17 +211,13 @@ export async function syncPlayerNames(sql: Sql): Promise<{ updated: number; tota
 
   // Process each file
   for (const filePath of filePaths) {
+    await verifySourceFile(filePath);
     for await (const { row } of streamParseCSV<RawPersonRow>(filePath)) {
       // The retrosplits data uses key_retro as the player ID
       const retroId = row.key_retro;
       if (!retroId || !playerIds.has(retroId)) continue;
 
-      batch.push({
-        id: retroId,
-        first: row.name_first || '',
-        last: row.name_last || '',
-        given: row.name_given || null,
-      });
+      batch.push(toPlayerBio(row));
 
       if (batch.length >= BATCH_SIZE) {
         await flushBatch();
@@ -152,7 +227,9 @@ export async function syncPlayerNames(sql: Sql): Promise<{ updated: number; tota
   }
 
   await flushBatch();
-  console.log(`\rUpdated ${updated} player names`);
+  console.log(`\rUpdated ${updated} players from the register`);
+
+  const agesUpdated = await updatePlayerAges(sql);
 
-  return { updated, total: playerIds.size };
+  return { updated, total: playerIds.size, agesUpdated };
 }
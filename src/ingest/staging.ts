@@ -1,11 +1,22 @@
 import { randomUUID } from 'crypto';
 import type { Sql } from '../db/client.js';
 import { streamParseCSV } from './parser.js';
-import type { RawBattingRow, RawPitchingRow, RawPlayingRow } from '../types/retrosplits.js';
-import { toBattingRow, toPitchingRow, hasBattingStats, hasPitchingStats } from '../types/retrosplits.js';
+import { openCopyWriter } from './copy.js';
+import type { RawPlayingRow } from '../types/retrosplits.js';
+import {
+  toBattingRow,
+  toPitchingRow,
+  toFieldingRows,
+  hasBattingStats,
+  hasPitchingStats,
+} from '../types/retrosplits.js';
 import type { DataType } from './downloader.js';
+import type { IngestionBatch } from '../types/database.js';
 
-const BATCH_SIZE = 1000;
+/**
+ * Kinds of staged data tracked in ingestion_batches
+ */
+export type IngestSourceType = DataType | 'fielding' | 'events' | 'gamelogs';
 
 export interface StagingResult {
   batchId: string;
@@ -13,65 +24,131 @@ export interface StagingResult {
   sourceFile: string;
 }
 
+// Staging column and the CSV field it is copied from, for the columns every staging table shares
+const GAME_COLUMNS: [string, string][] = [
+  ['gid', 'gid'],
+  ['player_id', 'id'],
+  ['team', 'team'],
+  ['game_date', 'date'],
+  ['game_number', 'number'],
+  ['site', 'site'],
+  ['vishome', 'vishome'],
+  ['opp', 'opp'],
+];
+
+const sameName = (fields: string[]): [string, string][] => fields.map((f) => [f, f]);
+
+const BATTING_STAGING_COLUMNS: [string, string][] = [
+  ...GAME_COLUMNS,
+  ...sameName([
+    'b_pa', 'b_ab', 'b_r', 'b_h', 'b_d', 'b_t', 'b_hr', 'b_rbi',
+    'b_sh', 'b_sf', 'b_hbp', 'b_w', 'b_iw', 'b_k', 'b_sb', 'b_cs', 'b_gdp', 'b_xi', 'b_roe',
+    'b_tb', 'b_hr4', 'b_gw',
+    'dh', 'ph', 'pr', 'win', 'loss', 'tie', 'gametype', 'box', 'pbp', 'stattype', 'b_lp', 'b_seq',
+  ]),
+];
+
+const PITCHING_STAGING_COLUMNS: [string, string][] = [
+  ...GAME_COLUMNS,
+  ...sameName([
+    'p_ipouts', 'p_noout', 'p_bfp', 'p_h', 'p_d', 'p_t', 'p_hr', 'p_r', 'p_er',
+    'p_w', 'p_iw', 'p_k', 'p_hbp', 'p_wp', 'p_bk', 'p_sh', 'p_sf', 'p_sb', 'p_cs', 'p_pb',
+    'wp', 'lp',
+  ]),
+  ['save_flag', 'save'],
+  ...sameName(['gs', 'gf', 'cg']),
+  ['p_sho', 'sho'],
+  ...sameName([
+    'p_ir', 'p_irs', 'p_go', 'p_ao', 'p_pitch', 'p_strike',
+    'win', 'loss', 'tie', 'gametype', 'box', 'pbp', 'stattype', 'p_seq',
+  ]),
+];
+
+const FIELDING_STAGING_COLUMNS: [string, string][] = [
+  ...GAME_COLUMNS,
+  ...sameName([
+    'gametype', 'pos', 'f_g', 'f_gs', 'f_out', 'f_tc', 'f_po', 'f_a', 'f_e',
+    'f_dp', 'f_tp', 'f_pb', 'f_xi', 'f_seq',
+  ]),
+];
+
+interface StagingWriter {
+  write(row: object): Promise<void>;
+  end(): Promise<number>;
+  abort(error: Error): void;
+}
+
 /**
- * Load batting CSV to staging table
+ * Stream rows into a staging table with COPY FROM STDIN, numbering them from 1
  */
-export async function loadBattingToStaging(
+async function openStagingWriter(
   sql: Sql,
-  filePath: string,
+  table: string,
+  columns: [string, string][],
+  batchId: string,
   sourceFile: string
-): Promise<StagingResult> {
-  const batchId = randomUUID();
-  let totalRows = 0;
-  let batch: RawBattingRow[] = [];
-
-  const insertBatch = async () => {
-    if (batch.length === 0) return;
+): Promise<StagingWriter> {
+  const writer = await openCopyWriter(sql, table, [
+    'batch_id',
+    'source_file',
+    'row_num',
+    ...columns.map(([column]) => column),
+  ]);
+  let rows = 0;
 
-    await sql`
-      INSERT INTO staging_batting (
-        batch_id, source_file, row_num,
-        gid, player_id, team, game_date, game_number, site, vishome, opp,
-        b_pa, b_ab, b_r, b_h, b_d, b_t, b_hr, b_rbi,
-        b_sh, b_sf, b_hbp, b_w, b_iw, b_k, b_sb, b_cs, b_gdp, b_xi, b_roe,
-        dh, ph, pr, win, loss, tie, gametype, box, pbp, stattype, b_lp, b_seq
-      )
-      SELECT
-        ${batchId}::uuid,
-        ${sourceFile},
-        (data->>'row_num')::int,
-        data->>'gid', data->>'id', data->>'team', data->>'date', data->>'number',
-        data->>'site', data->>'vishome', data->>'opp',
-        data->>'b_pa', data->>'b_ab', data->>'b_r', data->>'b_h',
-        data->>'b_d', data->>'b_t', data->>'b_hr', data->>'b_rbi',
-        data->>'b_sh', data->>'b_sf', data->>'b_hbp', data->>'b_w',
-        data->>'b_iw', data->>'b_k', data->>'b_sb', data->>'b_cs',
-        data->>'b_gdp', data->>'b_xi', data->>'b_roe',
-        data->>'dh', data->>'ph', data->>'pr',
-        data->>'win', data->>'loss', data->>'tie',
-        data->>'gametype', data->>'box', data->>'pbp',
-        data->>'stattype', data->>'b_lp', data->>'b_seq'
-      FROM jsonb_array_elements(${sql.json(batch.map((row, i) => ({ ...row, row_num: totalRows - batch.length + i + 1 })))}) AS data
-    `;
-
-    batch = [];
+  return {
+    async write(row) {
+      rows++;
+      const fields = row as Record<string, string | undefined>;
+      await writer.write([batchId, sourceFile, rows, ...columns.map(([, field]) => fields[field])]);
+    },
+    async end() {
+      await writer.end();
+      return rows;
+    },
+    abort(error) {
+      writer.abort(error);
+    },
   };
+}
 
-  for await (const { row } of streamParseCSV<RawBattingRow>(filePath)) {
-    batch.push(row);
-    totalRows++;
+/**
+ * Copy every row of a CSV file to one staging table
+ */
+async function copyFileToStaging(
+  sql: Sql,
+  table: string,
+  columns: [string, string][],
+  filePath: string,
+  sourceFile: string
+): Promise<StagingResult> {
+  const batchId = randomUUID();
+  const writer = await openStagingWriter(sql, table, columns, batchId, sourceFile);
 
-    if (batch.length >= BATCH_SIZE) {
-      await insertBatch();
+  try {
+    for await (const { row } of streamParseCSV<Record<string, string>>(filePath)) {
+      await writer.write(row);
     }
+  } catch (error) {
+    writer.abort(error instanceof Error ? error : new Error(String(error)));
+    throw error;
   }
 
-  // Insert remaining rows
-  await insertBatch();
-
+  const totalRows = await writer.end();
   return { batchId, totalRows, sourceFile };
 }
 
+/**
+ * Load batting CSV to staging table
+ */
+export async function loadBattingToStaging(
+  sql: Sql,
+  filePath: string,
+  sourceFile: string
+): Promise<StagingResult> {
+  return copyFileToStaging(sql, 'staging_batting', BATTING_STAGING_COLUMNS, filePath, sourceFile);
+}
+
 /**
  * Load pitching CSV to staging table
  */
@@ -80,185 +157,85 @@ export async function loadPitchingToStaging(
   filePath: string,
   sourceFile: string
 ): Promise<StagingResult> {
-  const batchId = randomUUID();
-  let totalRows = 0;
-  let batch: RawPitchingRow[] = [];
-
-  const insertBatch = async () => {
-    if (batch.length === 0) return;
-
-    await sql`
-      INSERT INTO staging_pitching (
-        batch_id, source_file, row_num,
-        gid, player_id, team, game_date, game_number, site, vishome, opp,
-        p_ipouts, p_noout, p_bfp, p_h, p_d, p_t, p_hr, p_r, p_er,
-        p_w, p_iw, p_k, p_hbp, p_wp, p_bk, p_sh, p_sf, p_sb, p_cs, p_pb,
-        wp, lp, save_flag, gs, gf, cg,
-        win, loss, tie, gametype, box, pbp, stattype, p_seq
-      )
-      SELECT
-        ${batchId}::uuid,
-        ${sourceFile},
-        (data->>'row_num')::int,
-        data->>'gid', data->>'id', data->>'team', data->>'date', data->>'number',
-        data->>'site', data->>'vishome', data->>'opp',
-        data->>'p_ipouts', data->>'p_noout', data->>'p_bfp',
-        data->>'p_h', data->>'p_d', data->>'p_t', data->>'p_hr',
-        data->>'p_r', data->>'p_er', data->>'p_w', data->>'p_iw',
-        data->>'p_k', data->>'p_hbp', data->>'p_wp', data->>'p_bk',
-        data->>'p_sh', data->>'p_sf', data->>'p_sb', data->>'p_cs', data->>'p_pb',
-        data->>'wp', data->>'lp', data->>'save',
-        data->>'gs', data->>'gf', data->>'cg',
-        data->>'win', data->>'loss', data->>'tie',
-        data->>'gametype', data->>'box', data->>'pbp',
-        data->>'stattype', data->>'p_seq'
-      FROM jsonb_array_elements(${sql.json(batch.map((row, i) => ({ ...row, row_num: totalRows - batch.length + i + 1 })))}) AS data
-    `;
-
-    batch = [];
-  };
-
-  for await (const { row } of streamParseCSV<RawPitchingRow>(filePath)) {
-    batch.push(row);
-    totalRows++;
-
-    if (batch.length >= BATCH_SIZE) {
-      await insertBatch();
-    }
-  }
-
-  await insertBatch();
-
-  return { batchId, totalRows, sourceFile };
+  return copyFileToStaging(sql, 'staging_pitching', PITCHING_STAGING_COLUMNS, filePath, sourceFile);
 }
 
 export interface UnifiedStagingResult {
   battingBatchId: string;
   pitchingBatchId: string;
+  fieldingBatchId: string;
   battingRows: number;
   pitchingRows: number;
+  fieldingRows: number;
   totalRows: number;
   sourceFile: string;
 }
 
 /**
- * Load a unified playing CSV file to both staging tables
- * The playing file contains both batting and pitching stats in each row
+ * Load a unified playing CSV file to the batting, pitching and fielding staging tables
+ * The playing file contains batting, pitching and per-position fielding stats in each row
+ *
+ * The file is parsed once and streamed to all three tables through concurrent
+ * COPY FROM STDIN commands, so this needs three free pooled connections.
+ *
+ * Pass the ingestion batch IDs so the staged rows belong to their batches;
+ * rows of batches that are no longer in progress are purged as orphans.
  */
 export async function loadPlayingToStaging(
   sql: Sql,
   filePath: string,
-  sourceFile: string
+  sourceFile: string,
+  batchIds?: { batting: string; pitching: string; fielding: string }
 ): Promise<UnifiedStagingResult> {
-  const battingBatchId = randomUUID();
-  const pitchingBatchId = randomUUID();
-  let battingRows = 0;
-  let pitchingRows = 0;
+  const battingBatchId = batchIds?.batting ?? randomUUID();
+  const pitchingBatchId = batchIds?.pitching ?? randomUUID();
+  const fieldingBatchId = batchIds?.fielding ?? randomUUID();
   let totalRows = 0;
-  let battingBatch: RawBattingRow[] = [];
-  let pitchingBatch: RawPitchingRow[] = [];
-
-  const insertBattingBatch = async () => {
-    if (battingBatch.length === 0) return;
-
-    await sql`
-      INSERT INTO staging_batting (
-        batch_id, source_file, row_num,
-        gid, player_id, team, game_date, game_number, site, vishome, opp,
-        b_pa, b_ab, b_r, b_h, b_d, b_t, b_hr, b_rbi,
-        b_sh, b_sf, b_hbp, b_w, b_iw, b_k, b_sb, b_cs, b_gdp, b_xi, b_roe,
-        dh, ph, pr, win, loss, tie, gametype, box, pbp, stattype, b_lp, b_seq
-      )
-      SELECT
-        ${battingBatchId}::uuid,
-        ${sourceFile},
-        (data->>'row_num')::int,
-        data->>'gid', data->>'id', data->>'team', data->>'date', data->>'number',
-        data->>'site', data->>'vishome', data->>'opp',
-        data->>'b_pa', data->>'b_ab', data->>'b_r', data->>'b_h',
-        data->>'b_d', data->>'b_t', data->>'b_hr', data->>'b_rbi',
-        data->>'b_sh', data->>'b_sf', data->>'b_hbp', data->>'b_w',
-        data->>'b_iw', data->>'b_k', data->>'b_sb', data->>'b_cs',
-        data->>'b_gdp', data->>'b_xi', data->>'b_roe',
-        data->>'dh', data->>'ph', data->>'pr',
-        data->>'win', data->>'loss', data->>'tie',
-        data->>'gametype', data->>'box', data->>'pbp',
-        data->>'stattype', data->>'b_lp', data->>'b_seq'
-      FROM jsonb_array_elements(${sql.json(battingBatch.map((row, i) => ({ ...row, row_num: battingRows - battingBatch.length + i + 1 })))}) AS data
-    `;
-
-    battingBatch = [];
-  };
-
-  const insertPitchingBatch = async () => {
-    if (pitchingBatch.length === 0) return;
-
-    await sql`
-      INSERT INTO staging_pitching (
-        batch_id, source_file, row_num,
-        gid, player_id, team, game_date, game_number, site, vishome, opp,
-        p_ipouts, p_noout, p_bfp, p_h, p_d, p_t, p_hr, p_r, p_er,
-        p_w, p_iw, p_k, p_hbp, p_wp, p_bk, p_sh, p_sf, p_sb, p_cs, p_pb,
-        wp, lp, save_flag, gs, gf, cg,
-        win, loss, tie, gametype, box, pbp, stattype, p_seq
-      )
-      SELECT
-        ${pitchingBatchId}::uuid,
-        ${sourceFile},
-        (data->>'row_num')::int,
-        data->>'gid', data->>'id', data->>'team', data->>'date', data->>'number',
-        data->>'site', data->>'vishome', data->>'opp',
-        data->>'p_ipouts', data->>'p_noout', data->>'p_bfp',
-        data->>'p_h', data->>'p_d', data->>'p_t', data->>'p_hr',
-        data->>'p_r', data->>'p_er', data->>'p_w', data->>'p_iw',
-        data->>'p_k', data->>'p_hbp', data->>'p_wp', data->>'p_bk',
-        data->>'p_sh', data->>'p_sf', data->>'p_sb', data->>'p_cs', data->>'p_pb',
-        data->>'wp', data->>'lp', data->>'save',
-        data->>'gs', data->>'gf', data->>'cg',
-        data->>'win', data->>'loss', data->>'tie',
-        data->>'gametype', data->>'box', data->>'pbp',
-        data->>'stattype', data->>'p_seq'
-      FROM jsonb_array_elements(${sql.json(pitchingBatch.map((row, i) => ({ ...row, row_num: pitchingRows - pitchingBatch.length + i + 1 })))}) AS data
-    `;
-
-    pitchingBatch = [];
-  };
 
-  for await (const { row } of streamParseCSV<RawPlayingRow>(filePath)) {
-    totalRows++;
+  const writers = await Promise.all([
+    openStagingWriter(sql, 'staging_batting', BATTING_STAGING_COLUMNS, battingBatchId, sourceFile),
+    openStagingWriter(sql, 'staging_pitching', PITCHING_STAGING_COLUMNS, pitchingBatchId, sourceFile),
+    openStagingWriter(sql, 'staging_fielding', FIELDING_STAGING_COLUMNS, fieldingBatchId, sourceFile),
+  ]);
+  const [batting, pitching, fielding] = writers;
 
-    // Check if row has batting stats
-    if (hasBattingStats(row)) {
-      const battingRow = toBattingRow(row);
-      battingBatch.push(battingRow);
-      battingRows++;
+  try {
+    for await (const { row } of streamParseCSV<RawPlayingRow>(filePath)) {
+      totalRows++;
 
-      if (battingBatch.length >= BATCH_SIZE) {
-        await insertBattingBatch();
+      if (hasBattingStats(row)) {
+        await batting.write(toBattingRow(row));
       }
-    }
 
-    // Check if row has pitching stats
-    if (hasPitchingStats(row)) {
-      const pitchingRow = toPitchingRow(row);
-      pitchingBatch.push(pitchingRow);
-      pitchingRows++;
+      if (hasPitchingStats(row)) {
+        await pitching.write(toPitchingRow(row));
+      }
 
-      if (pitchingBatch.length >= BATCH_SIZE) {
-        await insertPitchingBatch();
+      // One fielding row per position played
+      for (const fieldingRow of toFieldingRows(row)) {
+        await fielding.write(fieldingRow);
       }
     }
+  } catch (error) {
+    for (const writer of writers) {
+      writer.abort(error instanceof Error ? error : new Error(String(error)));
+    }
+    throw error;
   }
 
-  // Insert remaining rows
-  await insertBattingBatch();
-  await insertPitchingBatch();
+  const [battingRows, pitchingRows, fieldingRows] = await Promise.all([
+    batting.end(),
+    pitching.end(),
+    fielding.end(),
+  ]);
 
   return {
     battingBatchId,
     pitchingBatchId,
+    fieldingBatchId,
     battingRows,
     pitchingRows,
+    fieldingRows,
     totalRows,
     sourceFile,
   };
@@ -286,7 +263,7 @@ export async function loadToStaging(
  */
 export async function createIngestionBatch(
   sql: Sql,
-  type: DataType,
+  type: IngestSourceType,
   year: number,
   sourceFile: string
 ): Promise<string> {
@@ -305,10 +282,11 @@ export async function updateIngestionBatch(
   sql: Sql,
   batchId: string,
   updates: {
-    status?: 'pending' | 'in_progress' | 'completed' | 'failed';
+    status?: IngestionBatch['status'];
     totalRows?: number;
     processedRows?: number;
     errorMessage?: string;
+    sourceSha256?: string;
   }
 ): Promise<void> {
   if (updates.status === 'completed') {
@@ -317,6 +295,7 @@ export async function updateIngestionBatch(
       SET status = ${updates.status},
           total_rows = COALESCE(${updates.totalRows ?? null}, total_rows),
           processed_rows = COALESCE(${updates.processedRows ?? null}, processed_rows),
+          source_sha256 = COALESCE(${updates.sourceSha256 ?? null}, source_sha256),
           completed_at = NOW()
       WHERE batch_id = ${batchId}::uuid
     `;
@@ -332,7 +311,8 @@ export async function updateIngestionBatch(
       UPDATE ingestion_batches
       SET status = COALESCE(${updates.status ?? null}, status),
           total_rows = COALESCE(${updates.totalRows ?? null}, total_rows),
-          processed_rows = COALESCE(${updates.processedRows ?? null}, processed_rows)
+          processed_rows = COALESCE(${updates.processedRows ?? null}, processed_rows),
+          source_sha256 = COALESCE(${updates.sourceSha256 ?? null}, source_sha256)
       WHERE batch_id = ${batchId}::uuid
     `;
   }
@@ -343,7 +323,7 @@ export async function updateIngestionBatch(
  */
 export async function hasCompletedIngestion(
   sql: Sql,
-  type: DataType,
+  type: IngestSourceType,
   year: number
 ): Promise<boolean> {
   const [result] = await sql<{ count: string }[]>`
@@ -356,16 +336,57 @@ export async function hasCompletedIngestion(
 }
 
 /**
- * Clear staging data for a batch
+ * Hash of the file behind a year/type's latest completed ingestion
+ *
+ * Undefined if it was never ingested, null if it was ingested before file
+ * hashes were recorded.
+ */
+export async function getIngestedSourceHash(
+  sql: Sql,
+  type: IngestSourceType,
+  year: number
+): Promise<string | null | undefined> {
+  const [result] = await sql<{ source_sha256: string | null }[]>`
+    SELECT source_sha256 FROM ingestion_batches
+    WHERE source_type = ${type}
+      AND year = ${year}
+      AND status = 'completed'
+    ORDER BY completed_at DESC
+    LIMIT 1
+  `;
+  return result ? result.source_sha256 : undefined;
+}
+
+/**
+ * Check if a source file has already been ingested
+ */
+export async function hasCompletedFileIngestion(
+  sql: Sql,
+  type: IngestSourceType,
+  sourceFile: string
+): Promise<boolean> {
+  const [result] = await sql<{ count: string }[]>`
+    SELECT COUNT(*) as count FROM ingestion_batches
+    WHERE source_type = ${type}
+      AND source_file = ${sourceFile}
+      AND status = 'completed'
+  `;
+  return parseInt(result?.count ?? '0', 10) > 0;
+}
+
+/**
+ * Clear staging data for a batch (event files are not staged)
  */
 export async function clearStagingBatch(
   sql: Sql,
-  type: DataType,
+  type: IngestSourceType,
   batchId: string
 ): Promise<void> {
   if (type === 'batting') {
     await sql`DELETE FROM staging_batting WHERE batch_id = ${batchId}::uuid`;
-  } else {
+  } else if (type === 'pitching') {
     await sql`DELETE FROM staging_pitching WHERE batch_id = ${batchId}::uuid`;
+  } else if (type === 'fielding') {
+    await sql`DELETE FROM staging_fielding WHERE batch_id = ${batchId}::uuid`;
   }
 }
@@ -0,0 +1,113 @@
+/**
+ * Team and franchise metadata
+ *
+ * Team names by season come from a bundled file (data/team-names.csv) with one
+ * row per span of seasons a team code kept the same name, league and division.
+ * Codes that moved (MON → WAS) share a franchise ID.
+ */
+import { readFile } from 'fs/promises';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { parse } from 'csv-parse/sync';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const TEAM_NAMES_FILE = join(__dirname, 'data', 'team-names.csv');
+
+const DIVISIONS: Record<string, string> = { E: 'East', C: 'Central', W: 'West' };
+
+export type TeamName = {
+  franchise_id: string;
+  team_id: string;
+  league: string;
+  division: string | null;
+  city: string;
+  nickname: string;
+  first_year: number;
+  last_year: number | null;
+};
+
+export type Franchise = {
+  franchise_id: string;
+  /** Name of the franchise's latest team, e.g. "Washington Nationals" */
+  name: string;
+};
+
+/**
+ * Parse team name rows (see data/team-names.csv for the columns)
+ */
+export function parseTeamNames(content: string): TeamName[] {
+  const rows = parse(content, {
+    columns: true,
+    comment: '#',
+    skip_empty_lines: true,
+    trim: true,
+  }) as Record<string, string>[];
+
+  return rows.map((row, index) => {
+    const firstYear = parseInt(row.first_year ?? '', 10);
+    if (!row.franchise_id || !row.team_id || isNaN(firstYear)) {
+      throw new Error(`Invalid team name row ${index + 1}: ${JSON.stringify(row)}`);
+    }
+
+    return {
+      franchise_id: row.franchise_id,
+      team_id: row.team_id,
+      league: row.league ?? '',
+      division: row.division || null,
+      city: row.city ?? '',
+      nickname: row.nickname ?? '',
+      first_year: firstYear,
+      last_year: row.last_year ? parseInt(row.last_year, 10) : null,
+    };
+  });
+}
+
+/**
+ * Load the bundled team names
+ */
+export async function loadBundledTeamNames(): Promise<TeamName[]> {
+  return parseTeamNames(await readFile(TEAM_NAMES_FILE, 'utf-8'));
+}
+
+/**
+ * Get one franchise per franchise ID, named after its latest team
+ */
+export function toFranchises(names: TeamName[]): Franchise[] {
+  const latest = new Map<string, TeamName>();
+  for (const name of names) {
+    const current = latest.get(name.franchise_id);
+    if (!current || name.first_year > current.first_year) {
+      latest.set(name.franchise_id, name);
+    }
+  }
+
+  return [...latest.values()]
+    .map((name) => ({ franchise_id: name.franchise_id, name: `${name.city} ${name.nickname}` }))
+    .sort((a, b) => a.franchise_id.localeCompare(b.franchise_id));
+}
+
+/**
+ * Find the name a team code had in a season
+ */
+export function findTeamName(names: TeamName[], teamId: string, year: number): TeamName | null {
+  return (
+    names.find(
+      (name) =>
+        name.team_id === teamId &&
+        name.first_year <= year &&
+        (name.last_year === null || name.last_year >= year)
+    ) ?? null
+  );
+}
+
+/**
+ * Format a team season for display, e.g. "1995 Montreal Expos (NL East)"
+ */
+export function formatTeamSeason(
+  name: Pick<TeamName, 'league' | 'division' | 'city' | 'nickname'>,
+  year?: number
+): string {
+  const division = name.division ? DIVISIONS[name.division] ?? name.division : null;
+  const league = division ? `${name.league} ${division}` : name.league;
+  return `${year !== undefined ? `${year} ` : ''}${name.city} ${name.nickname} (${league})`;
+}
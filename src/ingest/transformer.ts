@@ -1,274 +1,342 @@
 import type { Sql } from '../db/client.js';
-import { upsertPlayers } from '../db/queries/players.js';
-import { upsertTeams } from '../db/queries/teams.js';
-import { upsertGame, type GameInsert } from '../db/queries/games.js';
-import {
-  upsertBatterStats,
-  upsertPitcherStats,
-  type BatterStatsInsert,
-  type PitcherStatsInsert,
-} from '../db/queries/stats.js';
+import { FIELDING_POSITIONS } from '../types/retrosplits.js';
 import type { DataType } from './downloader.js';
+import { GAME_TYPES, GAME_TYPE_ALIASES } from './game-types.js';
 
-const TRANSFORM_BATCH_SIZE = 500;
-
-/**
- * Parse a string to a number, returning 0 for empty/invalid values
+/*
+ * The transform runs as a handful of INSERT ... SELECT statements per batch.
+ * Staged values are text, so the helpers below build the SQL that parses them
+ * (column names only, never data).
  */
-function parseNum(val: string | undefined | null): number {
-  if (!val || val.trim() === '') return 0;
-  const parsed = parseInt(val, 10);
-  return isNaN(parsed) ? 0 : parsed;
-}
 
-/**
- * Parse a string to a boolean
- */
-function parseBool(val: string | undefined | null): boolean {
-  if (!val || val.trim() === '') return false;
-  return val === '1' || val.toLowerCase() === 'true' || val.toLowerCase() === 'y';
-}
+/** Leading integer, 0 when empty or invalid */
+const num = (col: string) => `COALESCE(SUBSTRING(${col} FROM '^\\s*([+-]?\\d+)')::int, 0)`;
 
-/**
- * Parse a nullable number
- */
-function parseNullableNum(val: string | undefined | null): number | null {
-  if (!val || val.trim() === '') return null;
-  const parsed = parseInt(val, 10);
-  return isNaN(parsed) ? null : parsed;
+/** Leading integer, NULL when empty or invalid */
+const nullableNum = (col: string) => `SUBSTRING(${col} FROM '^\\s*([+-]?\\d+)')::int`;
+
+/** 1, true or y (any case) */
+const bool = (col: string) => `COALESCE(${col} = '1' OR LOWER(${col}) IN ('true', 'y'), false)`;
+
+/** Like bool, but NULL when empty */
+const nullableBool = (col: string) =>
+  `CASE WHEN TRIM(COALESCE(${col}, '')) = '' THEN NULL ELSE ${bool(col)} END`;
+
+const present = (col: string) => `COALESCE(${col}, '') <> ''`;
+
+const IS_HOME = `COALESCE(UPPER(s.vishome) = 'H', false)`;
+
+// normalizeGameType: look the trimmed, upper-cased code up among the codes and aliases
+const GAME_TYPE_LOOKUP = [...GAME_TYPES.map((t) => [t, t]), ...Object.entries(GAME_TYPE_ALIASES)]
+  .map(([alias, code]) => `('${alias}', '${code}')`)
+  .join(', ');
+const GAME_TYPE = `(
+  SELECT gt.code FROM (VALUES ${GAME_TYPE_LOOKUP}) AS gt(alias, code)
+  WHERE gt.alias = UPPER(REGEXP_REPLACE(TRIM(s.gametype), '[\\s_-]', '', 'g'))
+)`;
+
+const POSITION_NUMBER = `array_position(ARRAY[${FIELDING_POSITIONS.map((p) => `'${p}'`).join(', ')}]::text[], s.pos)`;
+
+type StagingTable = 'staging_batting' | 'staging_pitching' | 'staging_fielding';
+
+interface StatsTarget {
+  table: string;
+  /** Target column and the SQL computing it from a staging row `s` */
+  columns: [string, string][];
+  conflict: string[];
+  /** Extra condition a staging row must meet */
+  where?: string;
 }
 
+const BATTER_STATS: StatsTarget = {
+  table: 'batter_game_stats',
+  columns: [
+    ['game_id', 's.gid'],
+    ['player_id', 's.player_id'],
+    ['team_id', 's.team'],
+    ['is_home', IS_HOME],
+    ['opponent_id', `NULLIF(s.opp, '')`],
+    ['plate_appearances', num('s.b_pa')],
+    ['at_bats', num('s.b_ab')],
+    ['runs', num('s.b_r')],
+    ['hits', num('s.b_h')],
+    ['doubles', num('s.b_d')],
+    ['triples', num('s.b_t')],
+    ['home_runs', num('s.b_hr')],
+    ['runs_batted_in', num('s.b_rbi')],
+    ['sacrifice_hits', num('s.b_sh')],
+    ['sacrifice_flies', num('s.b_sf')],
+    ['hit_by_pitch', num('s.b_hbp')],
+    ['walks', num('s.b_w')],
+    ['intentional_walks', num('s.b_iw')],
+    ['strikeouts', num('s.b_k')],
+    ['stolen_bases', num('s.b_sb')],
+    ['caught_stealing', num('s.b_cs')],
+    ['grounded_into_dp', num('s.b_gdp')],
+    ['reached_on_interference', num('s.b_xi')],
+    ['reached_on_error', num('s.b_roe')],
+    // Older daybyday files have no total bases column
+    [
+      'total_bases',
+      `CASE WHEN ${present('s.b_tb')} THEN ${num('s.b_tb')}
+        ELSE ${num('s.b_h')} + ${num('s.b_d')} + 2 * ${num('s.b_t')} + 3 * ${num('s.b_hr')} END`,
+    ],
+    ['grand_slams', num('s.b_hr4')],
+    ['game_winning_rbi', num('s.b_gw')],
+    ['is_dh', bool('s.dh')],
+    ['is_ph', bool('s.ph')],
+    ['is_pr', bool('s.pr')],
+    ['team_won', nullableBool('s.win')],
+    ['team_lost', nullableBool('s.loss')],
+    ['team_tied', nullableBool('s.tie')],
+    ['stat_type', `COALESCE(s.stattype, '')`],
+    ['lineup_position', nullableNum('s.b_lp')],
+    ['batting_seq', nullableNum('s.b_seq')],
+  ],
+  conflict: ['game_id', 'player_id', 'stat_type'],
+};
+
+const PITCHER_STATS: StatsTarget = {
+  table: 'pitcher_game_stats',
+  columns: [
+    ['game_id', 's.gid'],
+    ['player_id', 's.player_id'],
+    ['team_id', 's.team'],
+    ['is_home', IS_HOME],
+    ['opponent_id', `NULLIF(s.opp, '')`],
+    ['outs_pitched', num('s.p_ipouts')],
+    ['batters_faced', num('s.p_bfp')],
+    ['hits_allowed', num('s.p_h')],
+    ['doubles_allowed', num('s.p_d')],
+    ['triples_allowed', num('s.p_t')],
+    ['home_runs_allowed', num('s.p_hr')],
+    ['runs_allowed', num('s.p_r')],
+    ['earned_runs', num('s.p_er')],
+    ['walks', num('s.p_w')],
+    ['intentional_walks', num('s.p_iw')],
+    ['strikeouts', num('s.p_k')],
+    ['hit_batters', num('s.p_hbp')],
+    ['wild_pitches', num('s.p_wp')],
+    ['balks', num('s.p_bk')],
+    ['sacrifice_hits_allowed', num('s.p_sh')],
+    ['sacrifice_flies_allowed', num('s.p_sf')],
+    ['stolen_bases_allowed', num('s.p_sb')],
+    ['caught_stealing', num('s.p_cs')],
+    ['inherited_runners', num('s.p_ir')],
+    ['inherited_runners_scored', num('s.p_irs')],
+    ['ground_outs', num('s.p_go')],
+    ['air_outs', num('s.p_ao')],
+    ['pitches', nullableNum('s.p_pitch')],
+    ['strikes', nullableNum('s.p_strike')],
+    ['won', bool('s.wp')],
+    ['lost', bool('s.lp')],
+    ['saved', bool('s.save_flag')],
+    ['game_started', bool('s.gs')],
+    ['game_finished', bool('s.gf')],
+    ['complete_game', bool('s.cg')],
+    ['shutout', bool('s.p_sho')],
+    ['team_won', nullableBool('s.win')],
+    ['team_lost', nullableBool('s.loss')],
+    ['team_tied', nullableBool('s.tie')],
+    ['stat_type', `COALESCE(s.stattype, '')`],
+    ['pitching_seq', nullableNum('s.p_seq')],
+  ],
+  conflict: ['game_id', 'player_id', 'stat_type'],
+};
+
+const FIELDER_STATS: StatsTarget = {
+  table: 'fielder_game_stats',
+  columns: [
+    ['game_id', 's.gid'],
+    ['player_id', 's.player_id'],
+    ['team_id', 's.team'],
+    ['is_home', IS_HOME],
+    ['opponent_id', `NULLIF(s.opp, '')`],
+    ['position', 's.pos'],
+    ['position_number', POSITION_NUMBER],
+    ['position_started', bool('s.f_gs')],
+    ['outs_played', num('s.f_out')],
+    ['total_chances', num('s.f_tc')],
+    ['putouts', num('s.f_po')],
+    ['assists', num('s.f_a')],
+    ['errors', num('s.f_e')],
+    ['double_plays', num('s.f_dp')],
+    ['triple_plays', num('s.f_tp')],
+    ['passed_balls', num('s.f_pb')],
+    ['catcher_interference', num('s.f_xi')],
+    ['fielding_seq', nullableNum('s.f_seq')],
+  ],
+  conflict: ['game_id', 'player_id', 'position'],
+  where: `${POSITION_NUMBER} IS NOT NULL`,
+};
+
 /**
- * Parse a nullable boolean
+ * Build the INSERT ... SELECT for a stats table
+ *
+ * A key staged twice keeps its last row, as row-by-row upserts did.
  */
-function parseNullableBool(val: string | undefined | null): boolean | null {
-  if (!val || val.trim() === '') return null;
-  return val === '1' || val.toLowerCase() === 'true' || val.toLowerCase() === 'y';
+function buildStatsUpsert(source: StagingTable, target: StatsTarget): string {
+  const keys = target.conflict.map((column) => target.columns.find(([c]) => c === column)![1]);
+  const updates = target.columns
+    .filter(([column]) => !target.conflict.includes(column))
+    .map(([column]) => `${column} = EXCLUDED.${column}`);
+
+  return `
+    INSERT INTO ${target.table} (${target.columns.map(([column]) => column).join(', ')})
+    SELECT DISTINCT ON (${keys.join(', ')})
+      ${target.columns.map(([, expr]) => expr).join(',\n      ')}
+    FROM ${source} s
+    WHERE s.batch_id = $1::uuid
+      AND NOT s.processed
+      AND ${present('s.gid')} AND ${present('s.player_id')} AND ${present('s.team')}
+      ${target.where ? `AND ${target.where}` : ''}
+    ORDER BY ${keys.join(', ')}, s.id DESC
+    ON CONFLICT (${target.conflict.join(', ')}) DO UPDATE SET
+      ${updates.join(',\n      ')}
+  `;
 }
 
-interface StagingBattingRow {
-  id: number;
-  gid: string;
-  player_id: string;
-  team: string;
-  game_date: string;
-  game_number: string;
-  site: string;
-  vishome: string;
-  opp: string;
-  b_pa: string;
-  b_ab: string;
-  b_r: string;
-  b_h: string;
-  b_d: string;
-  b_t: string;
-  b_hr: string;
-  b_rbi: string;
-  b_sh: string;
-  b_sf: string;
-  b_hbp: string;
-  b_w: string;
-  b_iw: string;
-  b_k: string;
-  b_sb: string;
-  b_cs: string;
-  b_gdp: string;
-  b_xi: string;
-  b_roe: string;
-  dh: string;
-  ph: string;
-  pr: string;
-  win: string;
-  loss: string;
-  tie: string;
-  gametype: string;
-  box: string;
-  pbp: string;
-  stattype: string;
-  b_lp: string;
-  b_seq: string;
-}
-
-interface StagingPitchingRow {
-  id: number;
-  gid: string;
-  player_id: string;
-  team: string;
-  game_date: string;
-  game_number: string;
-  site: string;
-  vishome: string;
-  opp: string;
-  p_ipouts: string;
-  p_noout: string;
-  p_bfp: string;
-  p_h: string;
-  p_d: string;
-  p_t: string;
-  p_hr: string;
-  p_r: string;
-  p_er: string;
-  p_w: string;
-  p_iw: string;
-  p_k: string;
-  p_hbp: string;
-  p_wp: string;
-  p_bk: string;
-  p_sh: string;
-  p_sf: string;
-  p_sb: string;
-  p_cs: string;
-  p_pb: string;
-  wp: string;
-  lp: string;
-  save_flag: string;
-  gs: string;
-  gf: string;
-  cg: string;
-  win: string;
-  loss: string;
-  tie: string;
-  gametype: string;
-  box: string;
-  pbp: string;
-  stattype: string;
-  p_seq: string;
-}
+const STATS_UPSERTS: Record<StagingTable, string> = {
+  staging_batting: buildStatsUpsert('staging_batting', BATTER_STATS),
+  staging_pitching: buildStatsUpsert('staging_pitching', PITCHER_STATS),
+  staging_fielding: buildStatsUpsert('staging_fielding', FIELDER_STATS),
+};
 
 export interface TransformResult {
   processedRows: number;
   gamesCreated: number;
   playersCreated: number;
   teamsCreated: number;
+  /** Game type codes with no GAME_TYPES mapping, and how many games carry each */
+  unknownGameTypes: Record<string, number>;
 }
 
 /**
- * Transform staging batting data to typed tables
+ * Transform one staging batch to typed tables
+ *
+ * Teams and players are inserted first (foreign keys), then each game from
+ * its first staged row, then the stat lines; the batch is then marked processed.
+ * Games whose game type code isn't recognized are stored without a type (so
+ * game type filters skip them) and counted by code in `unknownGameTypes`.
+ * Re-running a batch is idempotent.
  */
-export async function transformBattingData(
+async function transformStagingBatch(
   sql: Sql,
+  source: StagingTable,
   batchId: string
 ): Promise<TransformResult> {
-  let processedRows = 0;
-  const games = new Map<string, GameInsert>();
-  const players = new Set<string>();
-  const teams = new Set<string>();
-
-  // Process in batches
-  let hasMore = true;
-
-  while (hasMore) {
-    const rows = await sql<StagingBattingRow[]>`
-      SELECT * FROM staging_batting
-      WHERE batch_id = ${batchId}::uuid
-        AND processed = false
-      ORDER BY id
-      LIMIT ${TRANSFORM_BATCH_SIZE}
-    `;
-
-    if (rows.length === 0) {
-      hasMore = false;
-      break;
-    }
-
-    // Collect unique entities
-    for (const row of rows) {
-      if (row.player_id) players.add(row.player_id);
-      if (row.team) teams.add(row.team);
-      if (row.opp) teams.add(row.opp);
-
-      if (row.gid && !games.has(row.gid)) {
-        // Determine home/away teams from this row
-        const isHome = row.vishome?.toUpperCase() === 'H';
-        const homeTeam = isHome ? row.team : row.opp;
-        const awayTeam = isHome ? row.opp : row.team;
-
-        games.set(row.gid, {
-          game_id: row.gid,
-          game_date: row.game_date,
-          game_number: parseNum(row.game_number),
-          site: row.site || null,
-          home_team_id: homeTeam || null,
-          away_team_id: awayTeam || null,
-          game_type: row.gametype || null,
-          has_box: parseBool(row.box),
-          has_pbp: row.pbp === 'y' || row.pbp === 'd',
-        });
-      }
-    }
-
-    // Upsert teams first (foreign key dependency)
-    await upsertTeams(sql, Array.from(teams));
-
-    // Upsert players
-    await upsertPlayers(sql, Array.from(players));
-
-    // Upsert games
-    for (const game of games.values()) {
-      await upsertGame(sql, game);
-    }
-
-    // Insert batter stats
-    for (const row of rows) {
-      if (!row.gid || !row.player_id || !row.team) continue;
-
-      const stats: BatterStatsInsert = {
-        game_id: row.gid,
-        player_id: row.player_id,
-        team_id: row.team,
-        is_home: row.vishome?.toUpperCase() === 'H',
-        opponent_id: row.opp || null,
-        plate_appearances: parseNum(row.b_pa),
-        at_bats: parseNum(row.b_ab),
-        runs: parseNum(row.b_r),
-        hits: parseNum(row.b_h),
-        doubles: parseNum(row.b_d),
-        triples: parseNum(row.b_t),
-        home_runs: parseNum(row.b_hr),
-        runs_batted_in: parseNum(row.b_rbi),
-        sacrifice_hits: parseNum(row.b_sh),
-        sacrifice_flies: parseNum(row.b_sf),
-        hit_by_pitch: parseNum(row.b_hbp),
-        walks: parseNum(row.b_w),
-        intentional_walks: parseNum(row.b_iw),
-        strikeouts: parseNum(row.b_k),
-        stolen_bases: parseNum(row.b_sb),
-        caught_stealing: parseNum(row.b_cs),
-        grounded_into_dp: parseNum(row.b_gdp),
-        reached_on_interference: parseNum(row.b_xi),
-        reached_on_error: parseNum(row.b_roe),
-        is_dh: parseBool(row.dh),
-        is_ph: parseBool(row.ph),
-        is_pr: parseBool(row.pr),
-        team_won: parseNullableBool(row.win),
-        team_lost: parseNullableBool(row.loss),
-        team_tied: parseNullableBool(row.tie),
-        stat_type: row.stattype || null,
-        lineup_position: parseNullableNum(row.b_lp),
-        batting_seq: parseNullableNum(row.b_seq),
-      };
-
-      await upsertBatterStats(sql, stats);
-      processedRows++;
-    }
-
-    // Mark rows as processed
-    const rowIds = rows.map((r) => r.id);
-    await sql`
-      UPDATE staging_batting
-      SET processed = true
-      WHERE id = ANY(${rowIds}::int[])
-    `;
-  }
+  const staged = () => sql`
+    FROM ${sql.unsafe(source)} s
+    WHERE s.batch_id = ${batchId}::uuid
+      AND NOT s.processed
+  `;
+
+  const [teams] = await sql<[{ count: number }]>`
+    WITH staged AS (
+      SELECT DISTINCT t.team_id
+      FROM ${sql.unsafe(source)} s
+      CROSS JOIN LATERAL (VALUES (s.team), (s.opp)) AS t(team_id)
+      WHERE s.batch_id = ${batchId}::uuid
+        AND NOT s.processed
+    ),
+    inserted AS (
+      INSERT INTO teams (team_id)
+      SELECT team_id FROM staged WHERE TRIM(COALESCE(team_id, '')) <> ''
+      ON CONFLICT (team_id) DO NOTHING
+    )
+    SELECT COUNT(*)::int as count FROM staged WHERE ${sql.unsafe(present('team_id'))}
+  `;
+
+  const [players] = await sql<[{ count: number }]>`
+    WITH staged AS (
+      SELECT DISTINCT s.player_id
+      ${staged()}
+        AND ${sql.unsafe(present('s.player_id'))}
+    ),
+    inserted AS (
+      INSERT INTO players (player_id)
+      SELECT player_id FROM staged
+      ON CONFLICT (player_id) DO NOTHING
+    )
+    SELECT COUNT(*)::int as count FROM staged
+  `;
+
+  // Fielding rows carry no box score or play-by-play flags
+  const hasBox = source === 'staging_fielding' ? 'false' : bool('s.box');
+  const hasPbp = source === 'staging_fielding' ? 'false' : `COALESCE(s.pbp IN ('y', 'd'), false)`;
+
+  const [games] = await sql<[{ count: number; unknown_game_types: Record<string, number> }]>`
+    WITH staged AS (
+      SELECT DISTINCT ON (s.gid)
+        TRIM(COALESCE(s.gametype, '')) as source_game_type,
+        s.gid as game_id,
+        s.game_date::date as game_date,
+        ${sql.unsafe(num('s.game_number'))} as game_number,
+        NULLIF(s.site, '') as site,
+        NULLIF(CASE WHEN ${sql.unsafe(IS_HOME)} THEN s.team ELSE s.opp END, '') as home_team_id,
+        NULLIF(CASE WHEN ${sql.unsafe(IS_HOME)} THEN s.opp ELSE s.team END, '') as away_team_id,
+        ${sql.unsafe(GAME_TYPE)} as game_type,
+        ${sql.unsafe(hasBox)} as has_box,
+        ${sql.unsafe(hasPbp)} as has_pbp
+      ${staged()}
+        AND ${sql.unsafe(present('s.gid'))}
+      ORDER BY s.gid, s.id
+    ),
+    upserted AS (
+      INSERT INTO games (
+        game_id, game_date, game_number, site, home_team_id, away_team_id,
+        game_type, has_box, has_pbp
+      )
+      SELECT
+        game_id, game_date, game_number, site, home_team_id, away_team_id,
+        game_type, has_box, has_pbp
+      FROM staged
+      ON CONFLICT (game_id) DO UPDATE SET
+        has_box = EXCLUDED.has_box OR games.has_box,
+        has_pbp = EXCLUDED.has_pbp OR games.has_pbp
+    ),
+    unknown AS (
+      SELECT source_game_type, COUNT(*)::int as games
+      FROM staged
+      WHERE game_type IS NULL AND source_game_type <> ''
+      GROUP BY source_game_type
+    )
+    SELECT
+      (SELECT COUNT(*)::int FROM staged) as count,
+      COALESCE(
+        (SELECT jsonb_object_agg(source_game_type, games) FROM unknown),
+        '{}'::jsonb
+      ) as unknown_game_types
+  `;
+
+  const stats = await sql.unsafe(STATS_UPSERTS[source], [batchId]);
+
+  await sql`
+    UPDATE ${sql.unsafe(source)}
+    SET processed = true
+    WHERE batch_id = ${batchId}::uuid
+      AND NOT processed
+  `;
 
   return {
-    processedRows,
-    gamesCreated: games.size,
-    playersCreated: players.size,
-    teamsCreated: teams.size,
+    processedRows: stats.count,
+    gamesCreated: games.count,
+    playersCreated: players.count,
+    teamsCreated: teams.count,
+    unknownGameTypes: games.unknown_game_types,
   };
 }
 
+/**
+ * Transform staging batting data to typed tables
+ */
+export async function transformBattingData(
+  sql: Sql,
+  batchId: string
+): Promise<TransformResult> {
+  return transformStagingBatch(sql, 'staging_batting', batchId);
+}
+
 /**
  * Transform staging pitching data to typed tables
  */
@@ -276,123 +344,17 @@ export async function transformPitchingData(
   sql: Sql,
   batchId: string
 ): Promise<TransformResult> {
-  let processedRows = 0;
-  const games = new Map<string, GameInsert>();
-  const players = new Set<string>();
-  const teams = new Set<string>();
-
-  let hasMore = true;
-
-  while (hasMore) {
-    const rows = await sql<StagingPitchingRow[]>`
-      SELECT * FROM staging_pitching
-      WHERE batch_id = ${batchId}::uuid
-        AND processed = false
-      ORDER BY id
-      LIMIT ${TRANSFORM_BATCH_SIZE}
-    `;
-
-    if (rows.length === 0) {
-      hasMore = false;
-      break;
-    }
-
-    // Collect unique entities
-    for (const row of rows) {
-      if (row.player_id) players.add(row.player_id);
-      if (row.team) teams.add(row.team);
-      if (row.opp) teams.add(row.opp);
-
-      if (row.gid && !games.has(row.gid)) {
-        const isHome = row.vishome?.toUpperCase() === 'H';
-        const homeTeam = isHome ? row.team : row.opp;
-        const awayTeam = isHome ? row.opp : row.team;
-
-        games.set(row.gid, {
-          game_id: row.gid,
-          game_date: row.game_date,
-          game_number: parseNum(row.game_number),
-          site: row.site || null,
-          home_team_id: homeTeam || null,
-          away_team_id: awayTeam || null,
-          game_type: row.gametype || null,
-          has_box: parseBool(row.box),
-          has_pbp: row.pbp === 'y' || row.pbp === 'd',
-        });
-      }
-    }
-
-    // Upsert teams first
-    await upsertTeams(sql, Array.from(teams));
-
-    // Upsert players
-    await upsertPlayers(sql, Array.from(players));
-
-    // Upsert games
-    for (const game of games.values()) {
-      await upsertGame(sql, game);
-    }
-
-    // Insert pitcher stats
-    for (const row of rows) {
-      if (!row.gid || !row.player_id || !row.team) continue;
-
-      const stats: PitcherStatsInsert = {
-        game_id: row.gid,
-        player_id: row.player_id,
-        team_id: row.team,
-        is_home: row.vishome?.toUpperCase() === 'H',
-        opponent_id: row.opp || null,
-        outs_pitched: parseNum(row.p_ipouts),
-        batters_faced: parseNum(row.p_bfp),
-        hits_allowed: parseNum(row.p_h),
-        doubles_allowed: parseNum(row.p_d),
-        triples_allowed: parseNum(row.p_t),
-        home_runs_allowed: parseNum(row.p_hr),
-        runs_allowed: parseNum(row.p_r),
-        earned_runs: parseNum(row.p_er),
-        walks: parseNum(row.p_w),
-        intentional_walks: parseNum(row.p_iw),
-        strikeouts: parseNum(row.p_k),
-        hit_batters: parseNum(row.p_hbp),
-        wild_pitches: parseNum(row.p_wp),
-        balks: parseNum(row.p_bk),
-        sacrifice_hits_allowed: parseNum(row.p_sh),
-        sacrifice_flies_allowed: parseNum(row.p_sf),
-        stolen_bases_allowed: parseNum(row.p_sb),
-        caught_stealing: parseNum(row.p_cs),
-        won: parseBool(row.wp),
-        lost: parseBool(row.lp),
-        saved: parseBool(row.save_flag),
-        game_started: parseBool(row.gs),
-        game_finished: parseBool(row.gf),
-        complete_game: parseBool(row.cg),
-        team_won: parseNullableBool(row.win),
-        team_lost: parseNullableBool(row.loss),
-        team_tied: parseNullableBool(row.tie),
-        stat_type: row.stattype || null,
-        pitching_seq: parseNullableNum(row.p_seq),
-      };
-
-      await upsertPitcherStats(sql, stats);
-      processedRows++;
-    }
-
-    // Mark rows as processed
-    const rowIds = rows.map((r) => r.id);
-    await sql`
-      UPDATE staging_pitching
-      SET processed = true
-      WHERE id = ANY(${rowIds}::int[])
-    `;
-  }
+  return transformStagingBatch(sql, 'staging_pitching', batchId);
+}
 
-  return {
-    processedRows,
-    gamesCreated: games.size,
-    playersCreated: players.size,
-    teamsCreated: teams.size,
-  };
+/**
+ * Transform staging fielding data to typed tables
+ */
+export async function transformFieldingData(
+  sql: Sql,
+  batchId: string
+): Promise<TransformResult> {
+  return transformStagingBatch(sql, 'staging_fielding', batchId);
 }
 
 /**
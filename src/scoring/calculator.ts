@@ -2,17 +2,165 @@ import type {
   FantasyRuleset,
   ScoringRule,
   BonusRule,
+  RuleContext,
+  RuleMultiplier,
+  ScoringPolicy,
   PointBreakdown,
   ScoringResult,
 } from '../types/fantasy.js';
-import type { BatterGameStats, PitcherGameStats } from '../types/database.js';
+import type {
+  BatterGameStats,
+  PitcherGameStats,
+  FielderGameStats,
+  ParkFactor,
+} from '../types/database.js';
+import { compileExpression, evaluateExpression } from './expression.js';
+import {
+  getStatColumns,
+  getDerivedStats,
+  getSectionRules,
+  bonusAppliesTo,
+  getTiersDescending,
+  getContextEntries,
+  describeContext,
+  getScoringPolicy,
+  getRoundingScale,
+  PARK_ADJUSTED_STATS,
+  type StatSection,
+} from './stats.js';
+
+/**
+ * Facts about the game a stat line comes from that some rulesets score against
+ */
+export interface ScoringOptions {
+  /** Factors of the game's site, used by park-adjusted rulesets (neutral when missing) */
+  parkFactor?: Pick<ParkFactor, 'run_factor' | 'hr_factor'> | null;
+}
+
+/**
+ * Round points to a rounding scale (100 for hundredths), halves up
+ */
+function roundPoints(points: number, scale: number): number {
+  return Math.round(points * scale) / scale;
+}
+
+/**
+ * Convert a raw stat value to a number (booleans become 1/0, missing values 0)
+ */
+function toNumber(value: unknown): number {
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  return typeof value === 'number' ? value : 0;
+}
+
+/**
+ * Divide the park-sensitive columns of a stat line by its site's park factors
+ *
+ * A factor of 0 is treated as neutral, as the SQL engine does.
+ */
+function adjustForPark(
+  stats: object,
+  section: StatSection,
+  parkFactor: Pick<ParkFactor, 'run_factor' | 'hr_factor'>
+): object {
+  const columns = getStatColumns(section);
+  const record = stats as Record<string, unknown>;
+  const adjusted: Record<string, unknown> = { ...record };
+
+  for (const [stat, kind] of Object.entries(PARK_ADJUSTED_STATS[section])) {
+    const column = columns[stat]!;
+    const value = record[column];
+    const factor = kind === 'runs' ? parkFactor.run_factor : parkFactor.hr_factor;
+    if (typeof value === 'number') {
+      adjusted[column] = value / (factor || 1);
+    }
+  }
+
+  return adjusted;
+}
+
+/**
+ * Build a lookup that resolves any catalog stat name to a number for one stat line
+ *
+ * Names resolve, in order, to ruleset-defined derived stats, stat columns, and
+ * built-in derived stats. Unknown names resolve to 0 (rulesets are validated on save).
+ */
+function createStatResolver(
+  stats: object,
+  section: StatSection,
+  derived: Record<string, number>
+): (name: string) => number {
+  const columns = getStatColumns(section);
+  const builtins = getDerivedStats(section);
+  const record = stats as Record<string, unknown>;
+
+  const resolve = (name: string): number => {
+    if (name in derived) return derived[name]!;
+    const column = columns[name];
+    if (column) return toNumber(record[column]);
+    const builtin = builtins[name];
+    if (builtin) return evaluateExpression(compileExpression(builtin), resolve);
+    return 0;
+  };
+
+  return resolve;
+}
+
+/**
+ * Resolve the value a rule scores against
+ *
+ * Derived (expression) rules are evaluated against the stat line plus any
+ * derived stats defined earlier in the same section, and their results are
+ * recorded in `derived` so later rules and bonuses can reference them.
+ */
+function resolveRuleValue(
+  stats: object,
+  section: StatSection,
+  rule: ScoringRule,
+  derived: Record<string, number>,
+  resolve: (name: string) => number
+): number | boolean | null | undefined {
+  if (!rule.expr) {
+    const column = getStatColumns(section)[rule.stat];
+    if (column) {
+      return (stats as Record<string, unknown>)[column] as number | boolean | null | undefined;
+    }
+    return resolve(rule.stat);
+  }
+
+  const value = evaluateExpression(compileExpression(rule.expr), resolve);
+  derived[rule.stat] = value;
+  return value;
+}
 
 /**
- * Calculate points for a single scoring rule
+ * Round a rule's value to a whole number (nearest rounds halves up, as in SQL)
+ */
+function roundValue(value: number, mode: NonNullable<ScoringRule['round']>): number {
+  if (mode === 'down') return Math.floor(value);
+  if (mode === 'up') return Math.ceil(value);
+  return Math.floor(value + 0.5);
+}
+
+/**
+ * Check a stat line against a rule context (missing flags count as false)
+ */
+function matchesContext(stats: object, when: RuleContext): boolean {
+  const record = stats as Record<string, unknown>;
+  return getContextEntries(when).every((entry) =>
+    'opponents' in entry
+      ? typeof record.opponent_id === 'string' && entry.opponents.includes(record.opponent_id)
+      : Boolean(record[entry.flag]) === entry.value
+  );
+}
+
+/**
+ * Calculate points for a single scoring rule, scaled by the multipliers whose context matched
  */
 function calculateRulePoints(
   value: number | boolean | null | undefined,
-  rule: ScoringRule
+  rule: ScoringRule,
+  scale: number,
+  multipliers: RuleMultiplier[] = []
 ): PointBreakdown | null {
   // Handle boolean values (convert to 1 or 0)
   let numValue: number;
@@ -24,6 +172,10 @@ function calculateRulePoints(
     numValue = value;
   }
 
+  if (rule.round) {
+    numValue = roundValue(numValue, rule.round);
+  }
+
   if (numValue === 0) return null;
 
   let points: number;
@@ -37,10 +189,18 @@ function calculateRulePoints(
     calculation = `${numValue} * ${rule.points}`;
   }
 
+  if (rule.when) {
+    calculation += ` [${describeContext(rule.when)}]`;
+  }
+  for (const multiplier of multipliers) {
+    points *= multiplier.factor;
+    calculation += ` × ${multiplier.factor} [${describeContext(multiplier.when)}]`;
+  }
+
   return {
     stat: rule.stat,
     value: numValue,
-    points: Math.round(points * 100) / 100, // Round to 2 decimal places
+    points: roundPoints(points, scale),
     calculation,
   };
 }
@@ -48,23 +208,9 @@ function calculateRulePoints(
 /**
  * Evaluate bonus conditions
  */
-function evaluateBonusConditions(
-  stats: Record<string, unknown>,
-  bonus: BonusRule
-): boolean {
+function evaluateBonusConditions(resolve: (name: string) => number, bonus: BonusRule): boolean {
   const results = bonus.conditions.map((condition) => {
-    let value = stats[condition.stat];
-
-    // Handle boolean values
-    if (typeof value === 'boolean') {
-      value = value ? 1 : 0;
-    }
-
-    if (value === null || value === undefined) {
-      value = 0;
-    }
-
-    const numValue = typeof value === 'number' ? value : 0;
+    const numValue = resolve(condition.stat);
 
     switch (condition.op) {
       case 'gte':
@@ -86,152 +232,190 @@ function evaluateBonusConditions(
 }
 
 /**
- * Calculate batting fantasy points
+ * Calculate the award of a bonus whose conditions hold
+ *
+ * Returns null when a tiered bonus reaches no tier or a repeating bonus has
+ * no increment beyond its threshold.
  */
-export function calculateBattingPoints(
-  stats: BatterGameStats,
-  ruleset: FantasyRuleset
-): ScoringResult {
-  const breakdown: PointBreakdown[] = [];
-  let totalPoints = 0;
-
-  // Map stat names to BatterGameStats properties
-  const statMapping: Record<string, keyof BatterGameStats> = {
-    plate_appearances: 'plate_appearances',
-    at_bats: 'at_bats',
-    runs: 'runs',
-    hits: 'hits',
-    doubles: 'doubles',
-    triples: 'triples',
-    home_runs: 'home_runs',
-    runs_batted_in: 'runs_batted_in',
-    sacrifice_hits: 'sacrifice_hits',
-    sacrifice_flies: 'sacrifice_flies',
-    hit_by_pitch: 'hit_by_pitch',
-    walks: 'walks',
-    intentional_walks: 'intentional_walks',
-    strikeouts: 'strikeouts',
-    stolen_bases: 'stolen_bases',
-    caught_stealing: 'caught_stealing',
-    grounded_into_dp: 'grounded_into_dp',
-    reached_on_interference: 'reached_on_interference',
-    reached_on_error: 'reached_on_error',
-  };
-
-  // Apply base scoring rules
-  for (const rule of ruleset.batting) {
-    const propName = statMapping[rule.stat] ?? (rule.stat as keyof BatterGameStats);
-    const value = stats[propName];
+function calculateBonusPoints(
+  resolve: (name: string) => number,
+  bonus: BonusRule,
+  scale: number
+): PointBreakdown | null {
+  const stat = `bonus:${bonus.name}`;
 
-    const result = calculateRulePoints(value as number | boolean | null | undefined, rule);
-    if (result) {
-      breakdown.push(result);
-      totalPoints += result.points;
-    }
+  if (bonus.tiers) {
+    const value = resolve(bonus.tiers.stat);
+    const tier = getTiersDescending(bonus).find((t) => value >= t.min);
+    if (!tier) return null;
+    return {
+      stat,
+      value,
+      points: roundPoints(tier.points, scale),
+      calculation: `Bonus: ${bonus.name} (${bonus.tiers.stat} >= ${tier.min})`,
+    };
   }
 
-  // Apply bonuses
-  const bonusesApplied: string[] = [];
-  if (ruleset.bonuses) {
-    const statsRecord = stats as unknown as Record<string, unknown>;
-    for (const bonus of ruleset.bonuses) {
-      // Only apply batting-relevant bonuses
-      const isBattingBonus = bonus.conditions.some((c) => c.stat in statMapping);
-      if (isBattingBonus && evaluateBonusConditions(statsRecord, bonus)) {
-        totalPoints += bonus.points;
-        bonusesApplied.push(bonus.name);
-        breakdown.push({
-          stat: `bonus:${bonus.name}`,
-          value: 1,
-          points: bonus.points,
-          calculation: `Bonus: ${bonus.name}`,
-        });
-      }
-    }
+  if (bonus.repeat) {
+    const { beyond = 0, every = 1, points } = bonus.repeat;
+    const increments = Math.floor((resolve(bonus.repeat.stat) - beyond) / every);
+    if (increments < 1) return null;
+    return {
+      stat,
+      value: increments,
+      points: roundPoints(increments * points, scale),
+      calculation: `Bonus: ${bonus.name} (${increments} * ${points})`,
+    };
   }
 
   return {
-    totalPoints: Math.round(totalPoints * 100) / 100,
-    breakdown,
-    bonusesApplied,
+    stat,
+    value: 1,
+    points: roundPoints(bonus.points ?? 0, scale),
+    calculation: `Bonus: ${bonus.name}`,
   };
 }
 
 /**
- * Calculate pitching fantasy points
+ * Bound a game's total by the policy's cap and floor
+ *
+ * A bounded total gets a "cap" or "floor" breakdown entry worth the
+ * adjustment, so the breakdown still adds up to the total.
  */
-export function calculatePitchingPoints(
-  stats: PitcherGameStats,
-  ruleset: FantasyRuleset
+function applyLimits(result: ScoringResult, policy: ScoringPolicy): ScoringResult {
+  const total = result.totalPoints;
+  let bound: number;
+  let kind: 'cap' | 'floor';
+
+  if (policy.cap !== undefined && total > policy.cap) {
+    bound = policy.cap;
+    kind = 'cap';
+  } else if (policy.floor !== undefined && total < policy.floor) {
+    bound = policy.floor;
+    kind = 'floor';
+  } else {
+    return result;
+  }
+
+  const entry: PointBreakdown = {
+    stat: kind,
+    value: total,
+    points: roundPoints(bound - total, 100),
+    calculation: `${kind === 'cap' ? 'Capped' : 'Floored'} at ${bound} (from ${total})`,
+  };
+  return { ...result, totalPoints: bound, breakdown: [...result.breakdown, entry] };
+}
+
+/**
+ * Score one stat line against the rules of a section, plus the bonuses that apply to it
+ */
+function calculateSectionPoints(
+  line: object,
+  section: StatSection,
+  ruleset: FantasyRuleset,
+  options: ScoringOptions
 ): ScoringResult {
+  const stats =
+    ruleset.parkAdjusted && options.parkFactor
+      ? adjustForPark(line, section, options.parkFactor)
+      : line;
   const breakdown: PointBreakdown[] = [];
   let totalPoints = 0;
-
-  // Map stat names to PitcherGameStats properties
-  const statMapping: Record<string, keyof PitcherGameStats> = {
-    outs_pitched: 'outs_pitched',
-    innings_pitched: 'outs_pitched', // Will be divided by 3
-    batters_faced: 'batters_faced',
-    hits_allowed: 'hits_allowed',
-    doubles_allowed: 'doubles_allowed',
-    triples_allowed: 'triples_allowed',
-    home_runs_allowed: 'home_runs_allowed',
-    runs_allowed: 'runs_allowed',
-    earned_runs: 'earned_runs',
-    walks: 'walks',
-    intentional_walks: 'intentional_walks',
-    strikeouts: 'strikeouts',
-    hit_batters: 'hit_batters',
-    wild_pitches: 'wild_pitches',
-    balks: 'balks',
-    sacrifice_hits_allowed: 'sacrifice_hits_allowed',
-    sacrifice_flies_allowed: 'sacrifice_flies_allowed',
-    stolen_bases_allowed: 'stolen_bases_allowed',
-    caught_stealing: 'caught_stealing',
-    won: 'won',
-    lost: 'lost',
-    saved: 'saved',
-    save: 'saved',
-    game_started: 'game_started',
-    game_finished: 'game_finished',
-    complete_game: 'complete_game',
-  };
+  const derived: Record<string, number> = {};
+  const resolve = createStatResolver(stats, section, derived);
+  const scale = getRoundingScale(ruleset, section);
 
   // Apply base scoring rules
-  for (const rule of ruleset.pitching) {
-    const propName = statMapping[rule.stat] ?? (rule.stat as keyof PitcherGameStats);
-    const value = stats[propName];
+  for (const rule of getSectionRules(ruleset, section)) {
+    const value = resolveRuleValue(stats, section, rule, derived, resolve);
+    if (rule.when && !matchesContext(stats, rule.when)) continue;
 
-    const result = calculateRulePoints(value as number | boolean | null | undefined, rule);
+    const multipliers = (rule.multipliers ?? []).filter((m) => matchesContext(stats, m.when));
+    const result = calculateRulePoints(value, rule, scale, multipliers);
     if (result) {
       breakdown.push(result);
       totalPoints += result.points;
     }
   }
 
-  // Apply bonuses
+  // Apply bonuses, at most one per group
   const bonusesApplied: string[] = [];
-  if (ruleset.bonuses) {
-    const statsRecord = stats as unknown as Record<string, unknown>;
-    for (const bonus of ruleset.bonuses) {
-      // Only apply pitching-relevant bonuses
-      const isPitchingBonus = bonus.conditions.some((c) => c.stat in statMapping);
-      if (isPitchingBonus && evaluateBonusConditions(statsRecord, bonus)) {
-        totalPoints += bonus.points;
-        bonusesApplied.push(bonus.name);
-        breakdown.push({
-          stat: `bonus:${bonus.name}`,
-          value: 1,
-          points: bonus.points,
-          calculation: `Bonus: ${bonus.name}`,
-        });
-      }
-    }
+  const groupsAwarded = new Set<string>();
+  for (const bonus of ruleset.bonuses ?? []) {
+    if (!bonusAppliesTo(bonus, section, (stat) => stat in derived)) continue;
+    if (bonus.group !== undefined && groupsAwarded.has(bonus.group)) continue;
+    if (!evaluateBonusConditions(resolve, bonus)) continue;
+
+    const result = calculateBonusPoints(resolve, bonus, scale);
+    if (!result) continue;
+
+    totalPoints += result.points;
+    bonusesApplied.push(bonus.name);
+    breakdown.push(result);
+    if (bonus.group !== undefined) groupsAwarded.add(bonus.group);
   }
 
   return {
-    totalPoints: Math.round(totalPoints * 100) / 100,
+    totalPoints: roundPoints(totalPoints, scale),
     breakdown,
     bonusesApplied,
   };
 }
+
+/**
+ * Calculate batting fantasy points
+ */
+export function calculateBattingPoints(
+  stats: BatterGameStats,
+  ruleset: FantasyRuleset,
+  options: ScoringOptions = {}
+): ScoringResult {
+  const result = calculateSectionPoints(stats, 'batting', ruleset, options);
+  return applyLimits(result, getScoringPolicy(ruleset, 'batting'));
+}
+
+/**
+ * Calculate pitching fantasy points
+ */
+export function calculatePitchingPoints(
+  stats: PitcherGameStats,
+  ruleset: FantasyRuleset,
+  options: ScoringOptions = {}
+): ScoringResult {
+  const result = calculateSectionPoints(stats, 'pitching', ruleset, options);
+  return applyLimits(result, getScoringPolicy(ruleset, 'pitching'));
+}
+
+/**
+ * Calculate fielding fantasy points for one position line
+ *
+ * The fielding cap and floor bound the player's whole game, so they are
+ * applied by combineFieldingResults rather than per position.
+ */
+export function calculateFieldingPoints(
+  stats: FielderGameStats,
+  ruleset: FantasyRuleset,
+  options: ScoringOptions = {}
+): ScoringResult {
+  return calculateSectionPoints(stats, 'fielding', ruleset, options);
+}
+
+/**
+ * Combine a player's per-position fielding results for a game into one
+ *
+ * Totals are summed and re-rounded; breakdowns are concatenated in position order.
+ * With the ruleset, its fielding rounding, cap and floor apply to the combined game.
+ */
+export function combineFieldingResults(
+  results: ScoringResult[],
+  ruleset?: FantasyRuleset
+): ScoringResult {
+  const totalPoints = results.reduce((sum, r) => sum + r.totalPoints, 0);
+  const scale = ruleset ? getRoundingScale(ruleset, 'fielding') : 100;
+  const combined = {
+    totalPoints: roundPoints(totalPoints, scale),
+    breakdown: results.flatMap((r) => r.breakdown),
+    bonusesApplied: results.flatMap((r) => r.bonusesApplied),
+  };
+  return ruleset ? applyLimits(combined, getScoringPolicy(ruleset, 'fielding')) : combined;
+}
@@ -0,0 +1,174 @@
+import type { FantasyRuleset, ScoringRule, BonusRule, ScoringPolicy } from '../types/fantasy.js';
+import { describeContext, STAT_SECTIONS } from './stats.js';
+
+export type RulesetDiffSection = 'batting' | 'pitching' | 'fielding' | 'bonuses' | 'settings';
+
+export type RulesetDiffStatus = 'added' | 'removed' | 'changed' | 'unchanged';
+
+/**
+ * One rule compared across two rulesets
+ *
+ * `left`/`right` are human-readable descriptions, or null when the rule
+ * only exists on one side.
+ */
+export interface RulesetDiffEntry {
+  section: RulesetDiffSection;
+  key: string;
+  left: string | null;
+  right: string | null;
+  status: RulesetDiffStatus;
+}
+
+const CONDITION_OPS: Record<string, string> = {
+  gte: '>=',
+  lte: '<=',
+  eq: '=',
+  gt: '>',
+  lt: '<',
+};
+
+/**
+ * Describe a scoring rule, e.g. "1 per 3", "2 × (hits - doubles)", "4 × 0.5 [is_ph]"
+ * or "3 (round down)"
+ */
+export function describeRule(rule: ScoringRule): string {
+  const points = rule.perUnit ? `${rule.points} per ${rule.perUnit}` : `${rule.points}`;
+  const multipliers = (rule.multipliers ?? [])
+    .map((m) => ` × ${m.factor} [${describeContext(m.when)}]`)
+    .join('');
+  const round = rule.round ? ` (round ${rule.round})` : '';
+  return (rule.expr ? `${points} × (${rule.expr})` : points) + multipliers + round;
+}
+
+/**
+ * Key a scoring rule by its stat and context, e.g. "strikeouts [game_started]"
+ */
+function ruleKey(rule: ScoringRule): string {
+  return rule.when ? `${rule.stat} [${describeContext(rule.when)}]` : rule.stat;
+}
+
+/**
+ * Describe a bonus rule, e.g. "home_runs >= 2 → 3" or
+ * "pitching: strikeouts beyond 10: 2 each [group: dominance]"
+ */
+export function describeBonus(bonus: BonusRule): string {
+  const conditions = bonus.conditions
+    .map((c) => `${c.stat} ${CONDITION_OPS[c.op] ?? c.op} ${c.value}`)
+    .join(` ${bonus.logic} `);
+
+  let award = `${bonus.points ?? 0}`;
+  if (bonus.tiers) {
+    const { stat, levels } = bonus.tiers;
+    award = levels.map((t) => `${stat} >= ${t.min}: ${t.points}`).join(', ');
+  } else if (bonus.repeat) {
+    const { stat, beyond = 0, every = 1, points } = bonus.repeat;
+    award = `${every === 1 ? '' : `${every} `}${stat} beyond ${beyond}: ${points} each`;
+  }
+
+  const scope = bonus.scope ? `${bonus.scope}: ` : '';
+  const group = bonus.group !== undefined ? ` [group: ${bonus.group}]` : '';
+  return `${scope}${conditions ? `${conditions} → ` : ''}${award}${group}`;
+}
+
+/**
+ * Key entries by name, numbering repeats so duplicates still line up
+ */
+function keyEntries<T>(items: T[], getName: (item: T) => string): Map<string, T> {
+  const keyed = new Map<string, T>();
+  const counts = new Map<string, number>();
+
+  for (const item of items) {
+    const name = getName(item);
+    const count = (counts.get(name) ?? 0) + 1;
+    counts.set(name, count);
+    keyed.set(count === 1 ? name : `${name} #${count}`, item);
+  }
+
+  return keyed;
+}
+
+function diffSection<T>(
+  section: RulesetDiffSection,
+  left: T[],
+  right: T[],
+  getName: (item: T) => string,
+  describe: (item: T) => string
+): RulesetDiffEntry[] {
+  const leftKeyed = keyEntries(left, getName);
+  const rightKeyed = keyEntries(right, getName);
+  const keys = [...new Set([...leftKeyed.keys(), ...rightKeyed.keys()])];
+
+  return keys.map((key) => {
+    const l = leftKeyed.get(key);
+    const r = rightKeyed.get(key);
+    const leftText = l === undefined ? null : describe(l);
+    const rightText = r === undefined ? null : describe(r);
+
+    let status: RulesetDiffStatus;
+    if (leftText === null) status = 'added';
+    else if (rightText === null) status = 'removed';
+    else status = leftText === rightText ? 'unchanged' : 'changed';
+
+    return { section, key, left: leftText, right: rightText, status };
+  });
+}
+
+/**
+ * Describe a stat type's scoring policy, e.g. "cap 40, floor -5, rounding whole"
+ */
+export function describePolicy(policy: ScoringPolicy | undefined): string {
+  const parts: string[] = [];
+  if (policy?.cap !== undefined) parts.push(`cap ${policy.cap}`);
+  if (policy?.floor !== undefined) parts.push(`floor ${policy.floor}`);
+  if (policy?.rounding) parts.push(`rounding ${policy.rounding}`);
+  return parts.length > 0 ? parts.join(', ') : 'none';
+}
+
+function settingEntry(key: string, leftText: string, rightText: string): RulesetDiffEntry {
+  return {
+    section: 'settings',
+    key,
+    left: leftText,
+    right: rightText,
+    status: leftText === rightText ? 'unchanged' : 'changed',
+  };
+}
+
+/**
+ * Compare ruleset-wide settings (listed only when either side sets one)
+ */
+function diffSettings(left: FantasyRuleset, right: FantasyRuleset): RulesetDiffEntry[] {
+  const entries: RulesetDiffEntry[] = [];
+
+  if (left.parkAdjusted || right.parkAdjusted) {
+    const leftText = left.parkAdjusted ? 'on' : 'off';
+    const rightText = right.parkAdjusted ? 'on' : 'off';
+    entries.push(settingEntry('parkAdjusted', leftText, rightText));
+  }
+
+  for (const section of STAT_SECTIONS) {
+    const leftPolicy = left.policies?.[section];
+    const rightPolicy = right.policies?.[section];
+    if (!leftPolicy && !rightPolicy) continue;
+    const key = `policies.${section}`;
+    entries.push(settingEntry(key, describePolicy(leftPolicy), describePolicy(rightPolicy)));
+  }
+
+  return entries;
+}
+
+/**
+ * Compare the batting, pitching, fielding and bonus rules and the settings of two rulesets
+ *
+ * Rules are matched by stat name and context and bonuses by name; `added` means only
+ * the right-hand ruleset has the rule.
+ */
+export function diffRulesets(left: FantasyRuleset, right: FantasyRuleset): RulesetDiffEntry[] {
+  return [
+    ...diffSection('batting', left.batting, right.batting, ruleKey, describeRule),
+    ...diffSection('pitching', left.pitching, right.pitching, ruleKey, describeRule),
+    ...diffSection('fielding', left.fielding ?? [], right.fielding ?? [], ruleKey, describeRule),
+    ...diffSection('bonuses', left.bonuses ?? [], right.bonuses ?? [], (b) => b.name, describeBonus),
+    ...diffSettings(left, right),
+  ];
+}
@@ -0,0 +1,330 @@
+/**
+ * Safe arithmetic expression language for derived stats
+ *
+ * Expressions reference stat columns by name and are parsed into an AST once,
+ * then evaluated per stat line. No JavaScript is ever executed from ruleset input.
+ *
+ * Supported syntax:
+ * - Numbers and stat names: `hits`, `3`, `0.5`
+ * - Arithmetic: `+ - * / %` (division by zero evaluates to 0)
+ * - Comparisons: `< <= > >= == !=` (evaluate to 1 or 0)
+ * - Logic: `&& || !` (evaluate to 1 or 0)
+ * - Functions: `min(a, b, ...)`, `max(a, b, ...)`, `abs(x)`, `floor(x)`, `ceil(x)`, `round(x)`
+ * - Parentheses for grouping
+ */
+
+export type BinaryOperator =
+  | '+'
+  | '-'
+  | '*'
+  | '/'
+  | '%'
+  | '<'
+  | '<='
+  | '>'
+  | '>='
+  | '=='
+  | '!='
+  | '&&'
+  | '||';
+
+export type UnaryOperator = '-' | '!';
+
+export type ExpressionFunction = 'min' | 'max' | 'abs' | 'floor' | 'ceil' | 'round';
+
+export type ExpressionNode =
+  | { type: 'number'; value: number }
+  | { type: 'stat'; name: string }
+  | { type: 'unary'; op: UnaryOperator; operand: ExpressionNode }
+  | { type: 'binary'; op: BinaryOperator; left: ExpressionNode; right: ExpressionNode }
+  | { type: 'call'; fn: ExpressionFunction; args: ExpressionNode[] };
+
+const FUNCTION_ARITY: Record<ExpressionFunction, { min: number; max: number }> = {
+  min: { min: 1, max: Infinity },
+  max: { min: 1, max: Infinity },
+  abs: { min: 1, max: 1 },
+  floor: { min: 1, max: 1 },
+  ceil: { min: 1, max: 1 },
+  round: { min: 1, max: 1 },
+};
+
+// Binary operator precedence, lowest first
+const PRECEDENCE: BinaryOperator[][] = [
+  ['||'],
+  ['&&'],
+  ['==', '!='],
+  ['<', '<=', '>', '>='],
+  ['+', '-'],
+  ['*', '/', '%'],
+];
+
+type Token =
+  | { kind: 'number'; value: number; pos: number }
+  | { kind: 'ident'; value: string; pos: number }
+  | { kind: 'op'; value: string; pos: number }
+  | { kind: 'eof'; pos: number };
+
+function isOp(token: Token, value: string): boolean {
+  return token.kind === 'op' && token.value === value;
+}
+
+const OPERATORS = ['<=', '>=', '==', '!=', '&&', '||', '+', '-', '*', '/', '%', '<', '>', '!', '(', ')', ','];
+
+/**
+ * Split an expression into tokens
+ */
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const ch = source[i]!;
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    if (/[0-9.]/.test(ch)) {
+      const match = /^(\d+\.?\d*|\.\d+)/.exec(source.slice(i));
+      if (!match) {
+        throw new Error(`Invalid expression "${source}": unexpected "${ch}" at position ${i}`);
+      }
+      tokens.push({ kind: 'number', value: parseFloat(match[0]), pos: i });
+      i += match[0].length;
+      continue;
+    }
+
+    if (/[A-Za-z_]/.test(ch)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i))!;
+      tokens.push({ kind: 'ident', value: match[0], pos: i });
+      i += match[0].length;
+      continue;
+    }
+
+    const op = OPERATORS.find((o) => source.startsWith(o, i));
+    if (!op) {
+      throw new Error(`Invalid expression "${source}": unexpected "${ch}" at position ${i}`);
+    }
+    tokens.push({ kind: 'op', value: op, pos: i });
+    i += op.length;
+  }
+
+  tokens.push({ kind: 'eof', pos: source.length });
+  return tokens;
+}
+
+/**
+ * Parse an expression string into an AST
+ *
+ * Throws if the expression is syntactically invalid or calls an unknown function.
+ */
+export function parseExpression(source: string): ExpressionNode {
+  const tokens = tokenize(source);
+  let pos = 0;
+
+  const peek = (): Token => tokens[pos]!;
+  const next = (): Token => tokens[pos++]!;
+  const fail = (token: Token, message: string): never => {
+    throw new Error(`Invalid expression "${source}": ${message} at position ${token.pos}`);
+  };
+  const expectOp = (value: string) => {
+    const token = next();
+    if (!isOp(token, value)) {
+      fail(token, `expected "${value}"`);
+    }
+  };
+
+  const parseBinary = (level: number): ExpressionNode => {
+    if (level >= PRECEDENCE.length) return parseUnary();
+
+    const ops = PRECEDENCE[level]!;
+    let left = parseBinary(level + 1);
+
+    for (;;) {
+      const token = peek();
+      if (token.kind !== 'op' || !ops.includes(token.value as BinaryOperator)) break;
+      next();
+      const right = parseBinary(level + 1);
+      left = { type: 'binary', op: token.value as BinaryOperator, left, right };
+    }
+
+    return left;
+  };
+
+  const parseUnary = (): ExpressionNode => {
+    const token = peek();
+    if (token.kind === 'op' && (token.value === '-' || token.value === '!')) {
+      next();
+      return { type: 'unary', op: token.value, operand: parseUnary() };
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): ExpressionNode => {
+    const token = next();
+
+    if (token.kind === 'number') {
+      return { type: 'number', value: token.value };
+    }
+
+    if (token.kind === 'ident') {
+      if (isOp(peek(), '(')) {
+        if (!(token.value in FUNCTION_ARITY)) {
+          fail(token, `unknown function "${token.value}"`);
+        }
+        const fn = token.value as ExpressionFunction;
+        next();
+
+        const args: ExpressionNode[] = [];
+        if (!isOp(peek(), ')')) {
+          args.push(parseBinary(0));
+          while (isOp(peek(), ',')) {
+            next();
+            args.push(parseBinary(0));
+          }
+        }
+        expectOp(')');
+
+        const arity = FUNCTION_ARITY[fn];
+        if (args.length < arity.min || args.length > arity.max) {
+          fail(token, `wrong number of arguments to "${fn}"`);
+        }
+        return { type: 'call', fn, args };
+      }
+      return { type: 'stat', name: token.value };
+    }
+
+    if (isOp(token, '(')) {
+      const inner = parseBinary(0);
+      expectOp(')');
+      return inner;
+    }
+
+    return fail(token, token.kind === 'eof' ? 'unexpected end of input' : 'unexpected token');
+  };
+
+  const ast = parseBinary(0);
+  const trailing = peek();
+  if (trailing.kind !== 'eof') {
+    fail(trailing, 'unexpected token');
+  }
+
+  return ast;
+}
+
+/**
+ * List the stat names referenced by an expression
+ */
+export function getReferencedStats(node: ExpressionNode): string[] {
+  const names = new Set<string>();
+
+  const visit = (n: ExpressionNode) => {
+    switch (n.type) {
+      case 'stat':
+        names.add(n.name);
+        break;
+      case 'unary':
+        visit(n.operand);
+        break;
+      case 'binary':
+        visit(n.left);
+        visit(n.right);
+        break;
+      case 'call':
+        n.args.forEach(visit);
+        break;
+      case 'number':
+        break;
+    }
+  };
+
+  visit(node);
+  return [...names];
+}
+
+/**
+ * Evaluate a parsed expression
+ *
+ * `resolve` returns the numeric value for a stat name.
+ */
+export function evaluateExpression(
+  node: ExpressionNode,
+  resolve: (stat: string) => number
+): number {
+  switch (node.type) {
+    case 'number':
+      return node.value;
+    case 'stat':
+      return resolve(node.name);
+    case 'unary': {
+      const value = evaluateExpression(node.operand, resolve);
+      return node.op === '-' ? -value : value ? 0 : 1;
+    }
+    case 'binary': {
+      const left = evaluateExpression(node.left, resolve);
+      const right = evaluateExpression(node.right, resolve);
+      switch (node.op) {
+        case '+':
+          return left + right;
+        case '-':
+          return left - right;
+        case '*':
+          return left * right;
+        case '/':
+          return right === 0 ? 0 : left / right;
+        case '%':
+          return right === 0 ? 0 : left % right;
+        case '<':
+          return left < right ? 1 : 0;
+        case '<=':
+          return left <= right ? 1 : 0;
+        case '>':
+          return left > right ? 1 : 0;
+        case '>=':
+          return left >= right ? 1 : 0;
+        case '==':
+          return left === right ? 1 : 0;
+        case '!=':
+          return left !== right ? 1 : 0;
+        case '&&':
+          return left && right ? 1 : 0;
+        case '||':
+          return left || right ? 1 : 0;
+      }
+      break;
+    }
+    case 'call': {
+      const args = node.args.map((arg) => evaluateExpression(arg, resolve));
+      switch (node.fn) {
+        case 'min':
+          return Math.min(...args);
+        case 'max':
+          return Math.max(...args);
+        case 'abs':
+          return Math.abs(args[0]!);
+        case 'floor':
+          return Math.floor(args[0]!);
+        case 'ceil':
+          return Math.ceil(args[0]!);
+        case 'round':
+          return Math.round(args[0]!);
+      }
+    }
+  }
+  return 0;
+}
+
+const expressionCache = new Map<string, ExpressionNode>();
+
+/**
+ * Parse an expression, reusing a cached AST when the same source was seen before
+ */
+export function compileExpression(source: string): ExpressionNode {
+  let ast = expressionCache.get(source);
+  if (!ast) {
+    ast = parseExpression(source);
+    expressionCache.set(source, ast);
+  }
+  return ast;
+}
@@ -8,17 +8,109 @@ import {
   upsertFantasyGamePoints,
   type FantasyGamePointsInsert,
 } from '../db/queries/fantasy.js';
-import { getBatterStatsByGame, getPitcherStatsByGame } from '../db/queries/stats.js';
+import {
+  getBatterStatsByGame,
+  getPitcherStatsByGame,
+  getFielderStatsByGame,
+} from '../db/queries/stats.js';
 import { getGame } from '../db/queries/games.js';
-import { calculateBattingPoints, calculatePitchingPoints } from './calculator.js';
+import { getParkFactorForGame } from '../db/queries/parks.js';
+import {
+  calculateBattingPoints,
+  calculatePitchingPoints,
+  calculateFieldingPoints,
+  combineFieldingResults,
+} from './calculator.js';
+import { scoresFielding } from './stats.js';
 import { FantasyRulesetSchema, type FantasyRuleset } from '../types/fantasy.js';
+import { parseRulesetRef, getScoringVersion } from './ruleset-ref.js';
+import type { FielderGameStats } from '../types/database.js';
+import type { GameType } from '../ingest/game-types.js';
+
+export {
+  calculateBattingPoints,
+  calculatePitchingPoints,
+  calculateFieldingPoints,
+  combineFieldingResults,
+  type ScoringOptions,
+} from './calculator.js';
+export { parseExpression, evaluateExpression, getReferencedStats } from './expression.js';
+export {
+  validateRuleset,
+  validateRulesetExpressions,
+  assertValidRuleset,
+  type RulesetIssue,
+  type RulesetIssueCode,
+} from './validation.js';
+export {
+  BATTING_STATS,
+  PITCHING_STATS,
+  DERIVED_BATTING_STATS,
+  DERIVED_PITCHING_STATS,
+  FIELDING_STATS,
+  DERIVED_FIELDING_STATS,
+  BOOLEAN_STATS,
+  STAT_SECTIONS,
+  getKnownStats,
+  getSectionRules,
+  isKnownStat,
+  scoresFielding,
+  PARK_ADJUSTED_STATS,
+  type ParkFactorKind,
+  type StatSection,
+} from './stats.js';
 
-export { calculateBattingPoints, calculatePitchingPoints } from './calculator.js';
+export { buildScoringSql, parkFactorJoin, type ScoringSql, type RuleSql, type BonusSql } from './sql.js';
+export {
+  scoreYearSetBased,
+  scoreDateRangeSetBased,
+  type SetBasedScoreResult,
+} from './sql-engine.js';
+export {
+  createScoringJobs,
+  runScoringJob,
+  splitByYear,
+  type ScoringEngine,
+  type ScoringProgress,
+  type RunScoringJobOptions,
+} from './jobs.js';
+export {
+  readRulesetFile,
+  loadRulesetFile,
+  parseRulesetText,
+  formatRuleset,
+  getRulesetFileFormat,
+  type RulesetFileFormat,
+} from './ruleset-file.js';
+export { parseRulesetRef, formatRulesetRef, type RulesetRef } from './ruleset-ref.js';
+export {
+  diffRulesets,
+  describeRule,
+  describeBonus,
+  describePolicy,
+  type RulesetDiffEntry,
+  type RulesetDiffSection,
+  type RulesetDiffStatus,
+} from './diff.js';
+export {
+  DEFAULT_ROTO_CATEGORIES,
+  validateLeague,
+  assertValidLeague,
+  computeStandings,
+  getCategoryValue,
+  formatCategoryValue,
+  type RotoStandings,
+  type RotoStanding,
+  type RotoCategoryResult,
+  type RotoTotals,
+} from './roto.js';
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 
 /**
  * Load a preset ruleset from JSON file
+ *
+ * Throws if the preset references stats outside the catalog.
  */
 export async function loadPresetRuleset(presetName: string): Promise<FantasyRuleset> {
   const filePath = join(__dirname, 'presets', `${presetName}.json`);
@@ -29,22 +121,31 @@ export async function loadPresetRuleset(presetName: string): Promise<FantasyRule
 
 /**
  * Get or load a ruleset
+ *
+ * Accepts a ruleset ID or a pinned version ("standard@v3"). Unknown IDs fall back
+ * to the bundled presets, which are saved as version 1.
  */
 export async function getOrLoadRuleset(
   sql: Sql,
-  rulesetId: string
+  rulesetRef: string
 ): Promise<FantasyRuleset | null> {
   // First try to get from database
-  let ruleset = await getRuleset(sql, rulesetId);
+  let ruleset = await getRuleset(sql, rulesetRef);
+  const ref = parseRulesetRef(rulesetRef);
 
-  // If not found, try to load from presets
-  if (!ruleset) {
+  // If not found, try to load from presets (a pinned version must already exist)
+  if (!ruleset && ref.version === undefined) {
     try {
-      ruleset = await loadPresetRuleset(rulesetId);
+      const preset = await loadPresetRuleset(ref.id);
       // Save to database for future use
-      await upsertRuleset(sql, ruleset);
-    } catch {
-      return null;
+      const { version } = await upsertRuleset(sql, preset);
+      ruleset = { ...preset, version };
+    } catch (error) {
+      // A missing preset means "not found"; an invalid one should fail loudly
+      if ((error as { code?: string }).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
     }
   }
 
@@ -63,10 +164,15 @@ export interface ScoreGameResult {
   gameId: string;
   battingScores: number;
   pitchingScores: number;
+  fieldingScores: number;
 }
 
 /**
  * Score all players in a game
+ *
+ * Fielding is scored only when the ruleset has fielding rules or bonuses; a
+ * player's position lines are combined into one fielding row per game.
+ * Park-adjusted rulesets use the factors of the game's site and season.
  */
 export async function scoreGame(
   sql: Sql,
@@ -78,17 +184,23 @@ export async function scoreGame(
     throw new Error(`Game not found: ${gameId}`);
   }
 
+  const version = getScoringVersion(ruleset);
   const gameDate = game.game_date.toISOString().split('T')[0]!;
+  const options = {
+    parkFactor: ruleset.parkAdjusted ? await getParkFactorForGame(sql, gameId) : null,
+  };
   let battingScores = 0;
   let pitchingScores = 0;
+  let fieldingScores = 0;
 
   // Score batting stats
   const batterStats = await getBatterStatsByGame(sql, gameId);
   for (const stats of batterStats) {
-    const result = calculateBattingPoints(stats, ruleset);
+    const result = calculateBattingPoints(stats, ruleset, options);
 
     const pointsInsert: FantasyGamePointsInsert = {
       ruleset_id: ruleset.id,
+      ruleset_version: version,
       game_id: gameId,
       player_id: stats.player_id,
       stat_type: 'batting',
@@ -104,10 +216,11 @@ export async function scoreGame(
   // Score pitching stats
   const pitcherStats = await getPitcherStatsByGame(sql, gameId);
   for (const stats of pitcherStats) {
-    const result = calculatePitchingPoints(stats, ruleset);
+    const result = calculatePitchingPoints(stats, ruleset, options);
 
     const pointsInsert: FantasyGamePointsInsert = {
       ruleset_id: ruleset.id,
+      ruleset_version: version,
       game_id: gameId,
       player_id: stats.player_id,
       stat_type: 'pitching',
@@ -120,37 +233,76 @@ export async function scoreGame(
     pitchingScores++;
   }
 
-  return { gameId, battingScores, pitchingScores };
+  // Score fielding stats, one row per player across the positions they played
+  if (scoresFielding(ruleset)) {
+    const linesByPlayer = new Map<string, FielderGameStats[]>();
+    for (const stats of await getFielderStatsByGame(sql, gameId)) {
+      linesByPlayer.set(stats.player_id, [...(linesByPlayer.get(stats.player_id) ?? []), stats]);
+    }
+
+    for (const [playerId, lines] of linesByPlayer) {
+      const result = combineFieldingResults(
+        lines.map((stats) => calculateFieldingPoints(stats, ruleset)),
+        ruleset
+      );
+
+      const pointsInsert: FantasyGamePointsInsert = {
+        ruleset_id: ruleset.id,
+        ruleset_version: version,
+        game_id: gameId,
+        player_id: playerId,
+        stat_type: 'fielding',
+        total_points: result.totalPoints,
+        breakdown: result.breakdown,
+        game_date: gameDate,
+      };
+
+      await upsertFantasyGamePoints(sql, pointsInsert);
+      fieldingScores++;
+    }
+  }
+
+  return { gameId, battingScores, pitchingScores, fieldingScores };
 }
 
 /**
- * Score games for a date range
+ * Score games for a date range, optionally only games of some types
  */
 export async function scoreGamesForDateRange(
   sql: Sql,
   ruleset: FantasyRuleset,
   startDate: string,
   endDate: string,
-  options: { force?: boolean } = {}
-): Promise<{ gamesScored: number; totalBatting: number; totalPitching: number }> {
+  options: { force?: boolean; gameTypes?: GameType[] } = {}
+): Promise<{
+  gamesScored: number;
+  totalBatting: number;
+  totalPitching: number;
+  totalFielding: number;
+}> {
   // Get games in date range
   const games = await sql<{ game_id: string }[]>`
     SELECT game_id FROM games
     WHERE game_date >= ${startDate}::date
       AND game_date <= ${endDate}::date
+      ${options.gameTypes ? sql`AND game_type = ANY(${options.gameTypes}::varchar[])` : sql``}
     ORDER BY game_date
   `;
 
+  const version = getScoringVersion(ruleset);
   let gamesScored = 0;
   let totalBatting = 0;
   let totalPitching = 0;
+  let totalFielding = 0;
 
   for (const { game_id } of games) {
     // Check if already scored (unless force)
     if (!options.force) {
       const [existing] = await sql<{ count: string }[]>`
         SELECT COUNT(*) as count FROM fantasy_game_points
-        WHERE ruleset_id = ${ruleset.id} AND game_id = ${game_id}
+        WHERE ruleset_id = ${ruleset.id}
+          AND ruleset_version = ${version}
+          AND game_id = ${game_id}
       `;
       if (parseInt(existing?.count ?? '0', 10) > 0) {
         continue;
@@ -161,20 +313,26 @@ export async function scoreGamesForDateRange(
     gamesScored++;
     totalBatting += result.battingScores;
     totalPitching += result.pitchingScores;
+    totalFielding += result.fieldingScores;
   }
 
-  return { gamesScored, totalBatting, totalPitching };
+  return { gamesScored, totalBatting, totalPitching, totalFielding };
 }
 
 /**
- * Score games for a year
+ * Score games for a year, optionally only games of some types
  */
 export async function scoreGamesForYear(
   sql: Sql,
   ruleset: FantasyRuleset,
   year: number,
-  options: { force?: boolean } = {}
-): Promise<{ gamesScored: number; totalBatting: number; totalPitching: number }> {
+  options: { force?: boolean; gameTypes?: GameType[] } = {}
+): Promise<{
+  gamesScored: number;
+  totalBatting: number;
+  totalPitching: number;
+  totalFielding: number;
+}> {
   return scoreGamesForDateRange(
     sql,
     ruleset,
@@ -0,0 +1,236 @@
+/**
+ * Resumable scoring jobs
+ *
+ * A job scores one ruleset version for one year. Work is split into chunks
+ * of game dates that run on a pool of workers; after each chunk the job's
+ * cursor advances to the last date before which every chunk has finished, so
+ * an interrupted job resumes from its cursor without redoing finished dates.
+ */
+import type { Sql } from '../db/client.js';
+import type { FantasyRuleset } from '../types/fantasy.js';
+import type { ScoringJob } from '../types/database.js';
+import type { GameType } from '../ingest/game-types.js';
+import { getGameCountsByDate } from '../db/queries/games.js';
+import {
+  createScoringJob,
+  updateScoringJob,
+  supersedeScoringJobs,
+} from '../db/queries/scoring-jobs.js';
+import { scoreGamesForDateRange } from './index.js';
+import { scoreDateRangeSetBased, type SetBasedScoreResult } from './sql-engine.js';
+import { getScoringVersion } from './ruleset-ref.js';
+
+export type ScoringEngine = 'sql' | 'js';
+
+export interface ScoringProgress {
+  job: ScoringJob;
+  gamesDone: number;
+  totalGames: number;
+  cursorDate: string | null;
+}
+
+export interface RunScoringJobOptions {
+  /** Number of chunks scored at once (default 4) */
+  concurrency?: number;
+  onProgress?: (progress: ScoringProgress) => void;
+}
+
+interface ScoringChunk {
+  startDate: string;
+  endDate: string;
+  games: number;
+}
+
+/**
+ * Format a DATE column value as YYYY-MM-DD
+ */
+function toDateString(date: Date): string {
+  return date.toISOString().split('T')[0]!;
+}
+
+/**
+ * Split a date range into calendar years
+ */
+export function splitByYear(
+  startDate: string,
+  endDate: string
+): { year: number; startDate: string; endDate: string }[] {
+  const startYear = parseInt(startDate.slice(0, 4), 10);
+  const endYear = parseInt(endDate.slice(0, 4), 10);
+  const years = [];
+
+  for (let year = startYear; year <= endYear; year++) {
+    years.push({
+      year,
+      startDate: year === startYear ? startDate : `${year}-01-01`,
+      endDate: year === endYear ? endDate : `${year}-12-31`,
+    });
+  }
+
+  return years;
+}
+
+/**
+ * Group game dates into chunks: one date for the JS engine, one month for the SQL engine
+ */
+function planChunks(
+  counts: { game_date: string; games: number }[],
+  engine: ScoringEngine
+): ScoringChunk[] {
+  const chunks: ScoringChunk[] = [];
+  const keyLength = engine === 'sql' ? 7 : 10;
+
+  for (const { game_date, games } of counts) {
+    const last = chunks[chunks.length - 1];
+    if (last && last.startDate.slice(0, keyLength) === game_date.slice(0, keyLength)) {
+      last.endDate = game_date;
+      last.games += games;
+    } else {
+      chunks.push({ startDate: game_date, endDate: game_date, games });
+    }
+  }
+
+  return chunks;
+}
+
+/**
+ * Create one job per year of a date range, replacing unfinished jobs for the same years
+ */
+export async function createScoringJobs(
+  sql: Sql,
+  ruleset: FantasyRuleset,
+  startDate: string,
+  endDate: string,
+  options: { engine: ScoringEngine; force?: boolean; gameTypes?: GameType[] }
+): Promise<ScoringJob[]> {
+  const version = getScoringVersion(ruleset);
+  const jobs: ScoringJob[] = [];
+
+  for (const range of splitByYear(startDate, endDate)) {
+    const counts = await getGameCountsByDate(sql, range.startDate, range.endDate, options.gameTypes);
+    await supersedeScoringJobs(sql, ruleset.id, version, range.year);
+    jobs.push(
+      await createScoringJob(sql, {
+        ruleset_id: ruleset.id,
+        ruleset_version: version,
+        year: range.year,
+        start_date: range.startDate,
+        end_date: range.endDate,
+        engine: options.engine,
+        force: options.force ?? false,
+        game_types: options.gameTypes ?? null,
+        total_games: counts.reduce((sum, c) => sum + c.games, 0),
+      })
+    );
+  }
+
+  return jobs;
+}
+
+/**
+ * Run (or resume) a scoring job from its cursor
+ *
+ * The ruleset must be the version the job was created for. On failure the job
+ * is marked failed, keeping its cursor, and the error is rethrown.
+ */
+export async function runScoringJob(
+  sql: Sql,
+  ruleset: FantasyRuleset,
+  job: ScoringJob,
+  options: RunScoringJobOptions = {}
+): Promise<SetBasedScoreResult> {
+  const version = getScoringVersion(ruleset);
+  if (ruleset.id !== job.ruleset_id || version !== job.ruleset_version) {
+    throw new Error(
+      `Job ${job.job_id} is for ${job.ruleset_id}@v${job.ruleset_version}, not ${ruleset.id}@v${version}`
+    );
+  }
+
+  const concurrency = Math.max(1, options.concurrency ?? 4);
+  const startDate = toDateString(job.start_date);
+  const endDate = toDateString(job.end_date);
+  const initialCursor = job.cursor_date ? toDateString(job.cursor_date) : null;
+
+  const gameTypes = job.game_types ?? undefined;
+  const counts = await getGameCountsByDate(sql, startDate, endDate, gameTypes);
+  const remaining = counts.filter((c) => initialCursor === null || c.game_date > initialCursor);
+  const chunks = planChunks(remaining, job.engine);
+
+  const totalGames = counts.reduce((sum, c) => sum + c.games, 0);
+  let gamesDone = totalGames - remaining.reduce((sum, c) => sum + c.games, 0);
+  let cursorDate = initialCursor;
+  const totals: SetBasedScoreResult = {
+    gamesScored: job.games_scored,
+    totalBatting: job.batting_records,
+    totalPitching: job.pitching_records,
+    totalFielding: job.fielding_records,
+  };
+
+  await updateScoringJob(sql, job.job_id, { status: 'in_progress' });
+  options.onProgress?.({ job, gamesDone, totalGames, cursorDate });
+
+  const finished = chunks.map(() => false);
+  let nextChunk = 0;
+  let contiguous = 0;
+  let failure: unknown = null;
+
+  const worker = async () => {
+    while (failure === null && nextChunk < chunks.length) {
+      const index = nextChunk++;
+      const chunk = chunks[index]!;
+
+      try {
+        const scoreRange = job.engine === 'sql' ? scoreDateRangeSetBased : scoreGamesForDateRange;
+        const result = await scoreRange(sql, ruleset, chunk.startDate, chunk.endDate, {
+          force: job.force,
+          gameTypes,
+        });
+
+        totals.gamesScored += result.gamesScored;
+        totals.totalBatting += result.totalBatting;
+        totals.totalPitching += result.totalPitching;
+        totals.totalFielding += result.totalFielding;
+        gamesDone += chunk.games;
+
+        // The cursor only passes chunks once everything before them is done too
+        finished[index] = true;
+        while (contiguous < chunks.length && finished[contiguous]) {
+          cursorDate = chunks[contiguous]!.endDate;
+          contiguous++;
+        }
+
+        await updateScoringJob(sql, job.job_id, {
+          cursorDate: cursorDate ?? undefined,
+          gamesScored: totals.gamesScored,
+          battingRecords: totals.totalBatting,
+          pitchingRecords: totals.totalPitching,
+          fieldingRecords: totals.totalFielding,
+        });
+        options.onProgress?.({ job, gamesDone, totalGames, cursorDate });
+      } catch (error) {
+        failure ??= error;
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, chunks.length) }, worker));
+
+  if (failure !== null) {
+    await updateScoringJob(sql, job.job_id, {
+      status: 'failed',
+      errorMessage: failure instanceof Error ? failure.message : String(failure),
+    });
+    throw failure;
+  }
+
+  await updateScoringJob(sql, job.job_id, {
+    status: 'completed',
+    cursorDate: endDate,
+    gamesScored: totals.gamesScored,
+    battingRecords: totals.totalBatting,
+    pitchingRecords: totals.totalPitching,
+    fieldingRecords: totals.totalFielding,
+  });
+
+  return totals;
+}
@@ -0,0 +1,411 @@
+/**
+ * Rotisserie standings: season category totals per team, ranked category by category
+ *
+ * Each category awards points by rank: with N teams the best value earns N
+ * points and the worst 1; tied teams share the average of the points of the
+ * places they occupy. Teams are ordered by their total points, then by the
+ * league's tiebreaker categories, then by head-to-head category wins among the
+ * tied teams. Teams still tied share a rank.
+ */
+import type { RotoCategory, RotoLeague } from '../types/roto.js';
+import type { FantasyRuleset } from '../types/fantasy.js';
+import { compileExpression, getReferencedStats } from './expression.js';
+import { buildScoringSql } from './sql.js';
+import { getKnownStats } from './stats.js';
+
+/**
+ * Classic 5x5 categories: R, HR, RBI, SB, AVG and W, SV, K, ERA, WHIP
+ */
+export const DEFAULT_ROTO_CATEGORIES: RotoCategory[] = [
+  { name: 'R', section: 'batting', sum: 'runs', order: 'desc' },
+  { name: 'HR', section: 'batting', sum: 'home_runs', order: 'desc' },
+  { name: 'RBI', section: 'batting', sum: 'runs_batted_in', order: 'desc' },
+  { name: 'SB', section: 'batting', sum: 'stolen_bases', order: 'desc' },
+  { name: 'AVG', section: 'batting', sum: 'hits', per: 'at_bats', order: 'desc', decimals: 3 },
+  { name: 'W', section: 'pitching', sum: 'won', order: 'desc' },
+  { name: 'SV', section: 'pitching', sum: 'saved', order: 'desc' },
+  { name: 'K', section: 'pitching', sum: 'strikeouts', order: 'desc' },
+  {
+    name: 'ERA',
+    section: 'pitching',
+    sum: 'earned_runs * 9',
+    per: 'innings_pitched',
+    order: 'asc',
+    decimals: 2,
+  },
+  {
+    name: 'WHIP',
+    section: 'pitching',
+    sum: 'walks + hits_allowed',
+    per: 'innings_pitched',
+    order: 'asc',
+    decimals: 2,
+  },
+];
+
+/**
+ * A problem with a league definition, at its path in the league object
+ */
+export interface RotoLeagueIssue {
+  message: string;
+  path: (string | number)[];
+}
+
+/**
+ * Season totals of one team's players in one category (`per` is 0 for counting categories)
+ */
+export interface RotoCategoryTotal {
+  sum: number;
+  per: number;
+}
+
+/**
+ * Category totals by team id, then by category name
+ */
+export type RotoTotals = Record<string, Record<string, RotoCategoryTotal>>;
+
+/**
+ * A team's value, rank and points in one category
+ */
+export interface RotoCategoryResult {
+  category: string;
+  value: number | null;
+  rank: number;
+  points: number;
+}
+
+/**
+ * A team's place in the standings
+ *
+ * `tiebreak` names what separated the team from the teams it tied on points.
+ */
+export interface RotoStanding {
+  rank: number;
+  teamId: string;
+  teamName: string;
+  points: number;
+  categories: RotoCategoryResult[];
+  tiebreak?: string;
+}
+
+export interface RotoStandings {
+  leagueId: string;
+  name: string;
+  season: number;
+  categories: string[];
+  teams: RotoStanding[];
+}
+
+/**
+ * Check a league's categories against the stat catalog, and its tiebreakers and rosters
+ *
+ * Reports unknown stats, malformed expressions, duplicate category names,
+ * tiebreakers that are not categories, duplicate team ids and players on more than one team.
+ */
+export function validateLeague(league: RotoLeague): RotoLeagueIssue[] {
+  const issues: RotoLeagueIssue[] = [];
+
+  const names = new Set<string>();
+  league.categories.forEach((category, index) => {
+    if (names.has(category.name)) {
+      issues.push({
+        message: `category "${category.name}" is defined more than once`,
+        path: ['categories', index, 'name'],
+      });
+    }
+    names.add(category.name);
+
+    const known = getKnownStats(category.section);
+    for (const field of ['sum', 'per'] as const) {
+      const source = category[field];
+      if (source === undefined) continue;
+      try {
+        for (const stat of getReferencedStats(compileExpression(source))) {
+          if (!known.has(stat)) {
+            issues.push({
+              message: `category "${category.name}": unknown ${category.section} stat "${stat}"`,
+              path: ['categories', index, field],
+            });
+          }
+        }
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        issues.push({
+          message: `category "${category.name}": ${reason}`,
+          path: ['categories', index, field],
+        });
+      }
+    }
+  });
+
+  league.tiebreakers.forEach((name, index) => {
+    if (!names.has(name)) {
+      issues.push({
+        message: `tiebreaker "${name}" is not a category`,
+        path: ['tiebreakers', index],
+      });
+    }
+  });
+
+  const teamIds = new Set<string>();
+  const rostered = new Map<string, string>();
+  league.teams.forEach((team, index) => {
+    if (teamIds.has(team.id)) {
+      issues.push({
+        message: `team "${team.id}" is defined more than once`,
+        path: ['teams', index, 'id'],
+      });
+    }
+    teamIds.add(team.id);
+
+    team.players.forEach((playerId, playerIndex) => {
+      const owner = rostered.get(playerId);
+      if (owner !== undefined) {
+        issues.push({
+          message: `player "${playerId}" is on both "${owner}" and "${team.id}"`,
+          path: ['teams', index, 'players', playerIndex],
+        });
+      }
+      rostered.set(playerId, team.id);
+    });
+  });
+
+  return issues;
+}
+
+/**
+ * Throw if a league references unknown stats, has invalid expressions or shares players
+ */
+export function assertValidLeague(league: RotoLeague): void {
+  const issues = validateLeague(league);
+  if (issues.length > 0) {
+    throw new Error(
+      `Invalid league "${league.id}":\n  - ${issues.map((i) => i.message).join('\n  - ')}`
+    );
+  }
+}
+
+/**
+ * Compile a category expression to SQL over one stat row of `alias`
+ *
+ * Goes through the scoring compiler, so stats resolve exactly as in rulesets.
+ */
+function expressionSql(category: RotoCategory, expr: string, alias: string): string {
+  const ruleset: FantasyRuleset = {
+    id: 'roto',
+    name: category.name,
+    batting: [],
+    pitching: [],
+    [category.section]: [{ stat: category.name, points: 1, expr }],
+  };
+  return buildScoringSql(ruleset, category.section, alias).rules[0]!.value;
+}
+
+/**
+ * SQL arrays of each category's `sum` and `per` totals over grouped stat rows of `alias`
+ *
+ * Selected per team they give the arrays toRotoTotals reads; `per` is 0 for
+ * counting categories.
+ */
+export function buildCategorySql(
+  categories: RotoCategory[],
+  alias: string
+): { sums: string; pers: string } {
+  const sums = categories.map((c) => `SUM(${expressionSql(c, c.sum, alias)})`);
+  const pers = categories.map((c) => (c.per ? `SUM(${expressionSql(c, c.per, alias)})` : '0'));
+  return {
+    sums: `ARRAY[${sums.join(', ')}]::float8[]`,
+    pers: `ARRAY[${pers.join(', ')}]::float8[]`,
+  };
+}
+
+/**
+ * Collect per-team rows of buildCategorySql arrays into category totals
+ */
+export function toRotoTotals(
+  categories: RotoCategory[],
+  rows: { team_id: string; sums: number[]; pers: number[] }[],
+  totals: RotoTotals = {}
+): RotoTotals {
+  for (const row of rows) {
+    const team = (totals[row.team_id] ??= {});
+    categories.forEach((category, index) => {
+      team[category.name] = { sum: row.sums[index] ?? 0, per: row.pers[index] ?? 0 };
+    });
+  }
+  return totals;
+}
+
+/**
+ * A category's value from its totals: the sum, or the sum per `per` (null without any `per`)
+ */
+export function getCategoryValue(
+  category: RotoCategory,
+  total: RotoCategoryTotal | undefined
+): number | null {
+  const sum = total?.sum ?? 0;
+  if (category.per === undefined) return sum;
+  const per = total?.per ?? 0;
+  return per === 0 ? null : sum / per;
+}
+
+/**
+ * Format a category value for display (rates at their decimals, e.g. ".287" and "3.41")
+ */
+export function formatCategoryValue(category: RotoCategory, value: number | null): string {
+  if (value === null) return '-';
+  if (category.decimals === undefined) return String(Math.round(value * 100) / 100);
+  const text = value.toFixed(category.decimals);
+  return text.startsWith('0.') ? text.slice(1) : text;
+}
+
+/**
+ * Split items into groups of equal score, highest score first (stable within a group)
+ */
+function groupByScore<T>(items: T[], score: (item: T) => number): T[][] {
+  const scored = items.map((item) => ({ item, score: score(item) }));
+  scored.sort((a, b) => b.score - a.score);
+
+  const groups: T[][] = [];
+  let previous: number | undefined;
+  for (const { item, score: value } of scored) {
+    const last = groups[groups.length - 1];
+    if (last && value === previous) {
+      last.push(item);
+    } else {
+      groups.push([item]);
+    }
+    previous = value;
+  }
+  return groups;
+}
+
+/**
+ * Score of a category value for ranking: higher is better, missing values rank last
+ */
+function rankingScore(category: RotoCategory, value: number | null): number {
+  if (value === null) return -Infinity;
+  const scale = 10 ** (category.decimals ?? 6);
+  const rounded = Math.round(value * scale) / scale;
+  return category.order === 'asc' ? -rounded : rounded;
+}
+
+interface TeamEntry {
+  teamId: string;
+  teamName: string;
+  values: Map<string, number | null>;
+  results: Map<string, RotoCategoryResult>;
+  points: number;
+}
+
+/**
+ * A way to order teams tied on points, given the group of tied teams
+ */
+interface TiebreakStep {
+  label: string;
+  score: (team: TeamEntry, tied: TeamEntry[]) => number;
+}
+
+/**
+ * Order tied teams by each step in turn, keeping the label of the step that split them
+ */
+function breakTies(
+  teams: TeamEntry[],
+  steps: TiebreakStep[]
+): { teams: TeamEntry[]; tiebreak?: string }[] {
+  const [step, ...rest] = steps;
+  if (teams.length < 2 || !step) return [{ teams }];
+
+  const groups = groupByScore(teams, (team) => step.score(team, teams));
+  if (groups.length === 1) return breakTies(teams, rest);
+  return groups.flatMap((group) =>
+    breakTies(group, rest).map((result) => ({
+      teams: result.teams,
+      tiebreak: result.tiebreak ?? step.label,
+    }))
+  );
+}
+
+/**
+ * Compute roto standings from each team's category totals
+ *
+ * Teams without totals (no lines that season) score 0 in counting categories
+ * and rank last in rate categories.
+ */
+export function computeStandings(league: RotoLeague, totals: RotoTotals): RotoStandings {
+  const teams: TeamEntry[] = league.teams.map((team) => ({
+    teamId: team.id,
+    teamName: team.name,
+    values: new Map(
+      league.categories.map((c) => [c.name, getCategoryValue(c, totals[team.id]?.[c.name])])
+    ),
+    results: new Map(),
+    points: 0,
+  }));
+
+  for (const category of league.categories) {
+    const value = (team: TeamEntry) => team.values.get(category.name) ?? null;
+    let place = 1;
+    for (const group of groupByScore(teams, (team) => rankingScore(category, value(team)))) {
+      // Places place..last share their points: N + 1 - place down to N + 1 - last
+      const last = place + group.length - 1;
+      const points = teams.length + 1 - (place + last) / 2;
+      for (const team of group) {
+        team.results.set(category.name, {
+          category: category.name,
+          value: value(team),
+          rank: place,
+          points,
+        });
+        team.points += points;
+      }
+      place = last + 1;
+    }
+  }
+
+  const categoryPoints = (team: TeamEntry, name: string) => team.results.get(name)?.points ?? 0;
+  const steps: TiebreakStep[] = [
+    ...league.tiebreakers.map((name) => ({
+      label: `${name} points`,
+      score: (team: TeamEntry) => categoryPoints(team, name),
+    })),
+    {
+      label: 'head-to-head categories',
+      // Categories in which the team beats each other tied team
+      score: (team: TeamEntry, tied: TeamEntry[]) =>
+        tied.reduce(
+          (wins, other) =>
+            wins +
+            league.categories.filter(
+              (c) => categoryPoints(team, c.name) > categoryPoints(other, c.name)
+            ).length,
+          0
+        ),
+    },
+  ];
+
+  const standings: RotoStanding[] = [];
+  for (const tied of groupByScore(teams, (team) => team.points)) {
+    for (const { teams: group, tiebreak } of breakTies(tied, steps)) {
+      const rank = standings.length + 1;
+      for (const team of group) {
+        standings.push({
+          rank,
+          teamId: team.teamId,
+          teamName: team.teamName,
+          points: team.points,
+          categories: league.categories.map((c) => team.results.get(c.name)!),
+          ...(tiebreak !== undefined && { tiebreak }),
+        });
+      }
+    }
+  }
+
+  return {
+    leagueId: league.id,
+    name: league.name,
+    season: league.season,
+    categories: league.categories.map((c) => c.name),
+    teams: standings,
+  };
+}
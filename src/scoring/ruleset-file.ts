@@ -0,0 +1,72 @@
+import { readFile } from 'fs/promises';
+import { extname } from 'path';
+import yaml from 'js-yaml';
+import { FantasyRulesetShapeSchema, type FantasyRuleset } from '../types/fantasy.js';
+
+export type RulesetFileFormat = 'json' | 'yaml';
+
+/**
+ * Pick a file format from a file extension (defaults to JSON)
+ */
+export function getRulesetFileFormat(filePath: string): RulesetFileFormat {
+  const ext = extname(filePath).toLowerCase();
+  return ext === '.yaml' || ext === '.yml' ? 'yaml' : 'json';
+}
+
+/**
+ * Parse ruleset file contents without validating them
+ */
+export function parseRulesetText(content: string, format: RulesetFileFormat): unknown {
+  return format === 'yaml' ? yaml.load(content) : JSON.parse(content);
+}
+
+/**
+ * Read and parse a JSON or YAML ruleset file without validating it
+ */
+export async function readRulesetFile(filePath: string): Promise<unknown> {
+  const content = await readFile(filePath, 'utf-8');
+  try {
+    return parseRulesetText(content, getRulesetFileFormat(filePath));
+  } catch (error) {
+    throw new Error(
+      `Could not parse ${filePath}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+/**
+ * Read a ruleset file and check its structure (stat catalog checks are left to the caller)
+ */
+export async function loadRulesetFile(filePath: string): Promise<FantasyRuleset> {
+  const data = await readRulesetFile(filePath);
+  const parsed = FantasyRulesetShapeSchema.safeParse(data);
+
+  if (!parsed.success) {
+    const details = parsed.error.issues
+      .map((issue) => `  - ${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('\n');
+    throw new Error(`${filePath} is not a valid ruleset:\n${details}`);
+  }
+
+  return parsed.data;
+}
+
+/**
+ * Serialize a ruleset in the same layout as the bundled presets
+ */
+export function formatRuleset(ruleset: FantasyRuleset, format: RulesetFileFormat): string {
+  const data: FantasyRuleset = {
+    id: ruleset.id,
+    ...(ruleset.version !== undefined && { version: ruleset.version }),
+    name: ruleset.name,
+    ...(ruleset.description !== undefined && { description: ruleset.description }),
+    batting: ruleset.batting,
+    pitching: ruleset.pitching,
+    ...(ruleset.fielding !== undefined && { fielding: ruleset.fielding }),
+    ...(ruleset.bonuses !== undefined && { bonuses: ruleset.bonuses }),
+    ...(ruleset.parkAdjusted !== undefined && { parkAdjusted: ruleset.parkAdjusted }),
+    ...(ruleset.policies !== undefined && { policies: ruleset.policies }),
+  };
+
+  return format === 'yaml' ? yaml.dump(data, { noRefs: true }) : JSON.stringify(data, null, 2) + '\n';
+}
@@ -0,0 +1,48 @@
+import type { FantasyRuleset } from '../types/fantasy.js';
+
+/**
+ * A ruleset reference: a ruleset ID, optionally pinned to a version ("standard@v3")
+ */
+export interface RulesetRef {
+  id: string;
+  version?: number;
+}
+
+/**
+ * Parse "standard", "standard@v3" or "standard@3"
+ */
+export function parseRulesetRef(ref: string): RulesetRef {
+  const at = ref.lastIndexOf('@');
+  if (at === -1) {
+    return { id: ref };
+  }
+
+  const id = ref.slice(0, at);
+  const match = /^v?(\d+)$/.exec(ref.slice(at + 1));
+  const version = match ? parseInt(match[1]!, 10) : NaN;
+  if (!id || !(version > 0)) {
+    throw new Error(`Invalid ruleset reference "${ref}" (expected <id> or <id>@v<version>)`);
+  }
+
+  return { id, version };
+}
+
+/**
+ * Format a ruleset reference, e.g. "standard@v3"
+ */
+export function formatRulesetRef(id: string, version?: number): string {
+  return version === undefined ? id : `${id}@v${version}`;
+}
+
+/**
+ * Get the version points should be recorded against
+ *
+ * Rulesets must come from the database (or getOrLoadRuleset) so results can be
+ * traced back to the exact rules that produced them.
+ */
+export function getScoringVersion(ruleset: FantasyRuleset): number {
+  if (ruleset.version === undefined) {
+    throw new Error(`Ruleset ${ruleset.id} has no version; save it to the database before scoring`);
+  }
+  return ruleset.version;
+}
@@ -0,0 +1,237 @@
+/**
+ * Set-based scoring engine
+ *
+ * Compiles a ruleset into one INSERT ... SELECT per year instead of scoring
+ * game by game in JavaScript. Produces the same total_points and breakdown
+ * JSON as calculator.ts (see tests/integration/scoring-parity.test.ts).
+ */
+import type { Sql } from '../db/client.js';
+import type { FantasyRuleset } from '../types/fantasy.js';
+import { buildScoringSql, limitTotalSql, parkFactorJoin } from './sql.js';
+import { getScoringVersion } from './ruleset-ref.js';
+import { scoresFielding, type StatSection } from './stats.js';
+import type { GameType } from '../ingest/game-types.js';
+
+export interface SetBasedScoreResult {
+  gamesScored: number;
+  totalBatting: number;
+  totalPitching: number;
+  totalFielding: number;
+}
+
+/**
+ * Limit `g` to games of some types (every game without a filter)
+ */
+function gameTypeCondition(sql: Sql, gameTypes: GameType[] | undefined) {
+  return gameTypes ? sql`AND g.game_type = ANY(${gameTypes}::varchar[])` : sql``;
+}
+
+/**
+ * Select one scored row per player and game for a section
+ *
+ * When a player has several stat rows in a game, the row the JS engine would
+ * upsert last (highest sequence number) wins.
+ */
+function scoredRows(
+  sql: Sql,
+  ruleset: FantasyRuleset,
+  version: number,
+  section: Exclude<StatSection, 'fielding'>,
+  startDate: string,
+  endDate: string,
+  force: boolean,
+  gameTypes: GameType[] | undefined
+) {
+  const scoring = buildScoringSql(ruleset, section, 's', { parkFactors: 'pf' });
+  const table = section === 'batting' ? sql`batter_game_stats` : sql`pitcher_game_stats`;
+  const sequence = section === 'batting' ? sql`s.batting_seq` : sql`s.pitching_seq`;
+
+  return sql`
+    SELECT DISTINCT ON (s.game_id, s.player_id)
+      s.game_id,
+      s.player_id,
+      ${section}::varchar as stat_type,
+      (${sql.unsafe(scoring.total)})::numeric(10,2) as total_points,
+      ${sql.unsafe(scoring.breakdown)} as breakdown,
+      g.game_date
+    FROM ${table} s
+    JOIN games g ON s.game_id = g.game_id
+    ${sql.unsafe(parkFactorJoin(ruleset, 'g', 'pf'))}
+    WHERE g.game_date >= ${startDate}::date
+      AND g.game_date <= ${endDate}::date
+      ${gameTypeCondition(sql, gameTypes)}
+      ${force ? sql`` : sql`
+        AND NOT EXISTS (
+          SELECT 1 FROM fantasy_game_points f
+          WHERE f.ruleset_id = ${ruleset.id}
+            AND f.ruleset_version = ${version}
+            AND f.game_id = s.game_id
+        )
+      `}
+    ORDER BY s.game_id, s.player_id, ${sequence} DESC NULLS FIRST, s.id DESC
+  `;
+}
+
+/**
+ * Select one scored fielding row per player and game
+ *
+ * Each position line is scored separately; totals are summed and breakdowns
+ * concatenated in position order, then the fielding cap and floor applied, as
+ * combineFieldingResults does.
+ */
+function scoredFieldingRows(
+  sql: Sql,
+  ruleset: FantasyRuleset,
+  version: number,
+  startDate: string,
+  endDate: string,
+  force: boolean,
+  gameTypes: GameType[] | undefined
+) {
+  const scoring = buildScoringSql(ruleset, 'fielding', 's');
+  const limited = limitTotalSql(ruleset, 'fielding', 'SUM(line.total)');
+  const limitEntries = limited.entries.map((entry) => ` || ${entry}`).join('');
+
+  return sql`
+    SELECT
+      line.game_id,
+      line.player_id,
+      'fielding'::varchar as stat_type,
+      (${sql.unsafe(limited.total)})::numeric(10,2) as total_points,
+      jsonb_path_query_array(
+        jsonb_agg(line.breakdown ORDER BY line.position_number),
+        '$[*][*]'
+      )${sql.unsafe(limitEntries)} as breakdown,
+      line.game_date
+    FROM (
+      SELECT
+        s.game_id,
+        s.player_id,
+        s.position_number,
+        ${sql.unsafe(scoring.total)} as total,
+        ${sql.unsafe(scoring.breakdown)} as breakdown,
+        g.game_date
+      FROM fielder_game_stats s
+      JOIN games g ON s.game_id = g.game_id
+      WHERE g.game_date >= ${startDate}::date
+        AND g.game_date <= ${endDate}::date
+        ${gameTypeCondition(sql, gameTypes)}
+        ${force ? sql`` : sql`
+          AND NOT EXISTS (
+            SELECT 1 FROM fantasy_game_points f
+            WHERE f.ruleset_id = ${ruleset.id}
+              AND f.ruleset_version = ${version}
+              AND f.game_id = s.game_id
+          )
+        `}
+    ) line
+    GROUP BY line.game_id, line.player_id, line.game_date
+  `;
+}
+
+/**
+ * Score every batting and pitching line in a date range with a single statement
+ *
+ * Fielding lines are included only for rulesets that score fielding.
+ */
+async function scoreRange(
+  sql: Sql,
+  ruleset: FantasyRuleset,
+  version: number,
+  startDate: string,
+  endDate: string,
+  force: boolean,
+  gameTypes: GameType[] | undefined
+): Promise<SetBasedScoreResult> {
+  const [result] = await sql<
+    { games: number; batting: number; pitching: number; fielding: number }[]
+  >`
+    WITH inserted AS (
+      INSERT INTO fantasy_game_points (
+        ruleset_id, ruleset_version, game_id, player_id, stat_type, total_points, breakdown, game_date
+      )
+      SELECT ${ruleset.id}, ${version}, game_id, player_id, stat_type, total_points, breakdown, game_date
+      FROM (
+        -- Each member ends in its own ORDER BY (for DISTINCT ON), so it needs parentheses
+        (${scoredRows(sql, ruleset, version, 'batting', startDate, endDate, force, gameTypes)})
+        UNION ALL
+        (${scoredRows(sql, ruleset, version, 'pitching', startDate, endDate, force, gameTypes)})
+        ${scoresFielding(ruleset) ? sql`
+          UNION ALL
+          (${scoredFieldingRows(sql, ruleset, version, startDate, endDate, force, gameTypes)})
+        ` : sql``}
+      ) scored
+      ON CONFLICT (ruleset_id, ruleset_version, game_id, player_id, stat_type)
+      DO UPDATE SET
+        total_points = EXCLUDED.total_points,
+        breakdown = EXCLUDED.breakdown,
+        game_date = EXCLUDED.game_date,
+        calculated_at = NOW()
+      RETURNING game_id, stat_type
+    )
+    SELECT
+      COUNT(DISTINCT game_id)::int as games,
+      COUNT(*) FILTER (WHERE stat_type = 'batting')::int as batting,
+      COUNT(*) FILTER (WHERE stat_type = 'pitching')::int as pitching,
+      COUNT(*) FILTER (WHERE stat_type = 'fielding')::int as fielding
+    FROM inserted
+  `;
+
+  return {
+    gamesScored: result?.games ?? 0,
+    totalBatting: result?.batting ?? 0,
+    totalPitching: result?.pitching ?? 0,
+    totalFielding: result?.fielding ?? 0,
+  };
+}
+
+/**
+ * Score a date range with the set-based engine, one statement per calendar year
+ */
+export async function scoreDateRangeSetBased(
+  sql: Sql,
+  ruleset: FantasyRuleset,
+  startDate: string,
+  endDate: string,
+  options: { force?: boolean; gameTypes?: GameType[] } = {}
+): Promise<SetBasedScoreResult> {
+  const version = getScoringVersion(ruleset);
+  const startYear = parseInt(startDate.slice(0, 4), 10);
+  const endYear = parseInt(endDate.slice(0, 4), 10);
+  const total: SetBasedScoreResult = {
+    gamesScored: 0,
+    totalBatting: 0,
+    totalPitching: 0,
+    totalFielding: 0,
+  };
+
+  for (let year = startYear; year <= endYear; year++) {
+    const result = await scoreRange(
+      sql,
+      ruleset,
+      version,
+      year === startYear ? startDate : `${year}-01-01`,
+      year === endYear ? endDate : `${year}-12-31`,
+      options.force ?? false,
+      options.gameTypes
+    );
+    total.gamesScored += result.gamesScored;
+    total.totalBatting += result.totalBatting;
+    total.totalPitching += result.totalPitching;
+    total.totalFielding += result.totalFielding;
+  }
+
+  return total;
+}
+
+/**
+ * Score a year with the set-based engine in a single INSERT ... SELECT
+ */
+export async function scoreYearSetBased(
+  sql: Sql,
+  ruleset: FantasyRuleset,
+  year: number,
+  options: { force?: boolean; gameTypes?: GameType[] } = {}
+): Promise<SetBasedScoreResult> {
+  return scoreDateRangeSetBased(sql, ruleset, `${year}-01-01`, `${year}-12-31`, options);
+}
@@ -0,0 +1,432 @@
+/**
+ * Compile rulesets into SQL expressions over a stat table row
+ *
+ * The generated SQL mirrors calculator.ts exactly (same resolution order,
+ * float8 arithmetic, per-rule rounding and caps and floors, bonus applicability,
+ * tiers, increments, groups and rule contexts), so points computed in the database match
+ * points computed in JavaScript.
+ *
+ * Only catalog column names, numeric literals and quoted labels are ever
+ * inlined into the generated SQL; stat names in expressions and conditions are
+ * resolved through the stat catalog and never interpolated.
+ */
+import type { FantasyRuleset, ScoringRule, BonusRule, RuleContext } from '../types/fantasy.js';
+import { compileExpression, type ExpressionNode } from './expression.js';
+import {
+  BOOLEAN_STATS,
+  getStatColumns,
+  getDerivedStats,
+  getSectionRules,
+  bonusAppliesTo,
+  getTiersDescending,
+  getContextEntries,
+  describeContext,
+  getScoringPolicy,
+  getRoundingScale,
+  PARK_ADJUSTED_STATS,
+  type StatSection,
+} from './stats.js';
+
+/**
+ * SQL for one scoring rule: the value it scores against, the points it awards
+ * and its breakdown entry (a one-element JSONB array, or empty when it scored nothing)
+ */
+export interface RuleSql {
+  rule: ScoringRule;
+  value: string;
+  points: string;
+  entry: string;
+}
+
+/**
+ * SQL for one bonus that applies to the section: when it is awarded (its
+ * conditions hold, it reaches a tier or increment, and no earlier bonus of its
+ * group was awarded), the points it awards then, and its breakdown entry
+ */
+export interface BonusSql {
+  bonus: BonusRule;
+  condition: string;
+  points: string;
+  entry: string;
+}
+
+/**
+ * SQL expressions for scoring one section of a ruleset
+ *
+ * `breakdown` evaluates to the same JSONB array the calculator stores.
+ */
+export interface ScoringSql {
+  rules: RuleSql[];
+  bonuses: BonusSql[];
+  total: string;
+  breakdown: string;
+}
+
+const CONDITION_OPS: Record<string, string> = {
+  gte: '>=',
+  lte: '<=',
+  eq: '=',
+  gt: '>',
+  lt: '<',
+};
+
+// Rounding of a rule's value, with halves rounding up like Math.round
+const ROUNDING: Record<NonNullable<ScoringRule['round']>, (value: string) => string> = {
+  down: (value) => `floor(${value})`,
+  up: (value) => `ceil(${value})`,
+  nearest: (value) => `floor(${value} + 0.5)`,
+};
+
+/**
+ * Render a number as a float8 literal
+ */
+function literal(value: number): string {
+  if (!Number.isFinite(value)) {
+    throw new Error(`Cannot compile non-finite number ${value} to SQL`);
+  }
+  return `(${value})::float8`;
+}
+
+/**
+ * Render a string as a SQL literal (assumes standard_conforming_strings, the default)
+ */
+function quote(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Build a breakdown entry matching PointBreakdown
+ */
+function breakdownEntry(stat: string, value: string, points: string, calculation: string): string {
+  return `jsonb_build_array(jsonb_build_object('stat', ${quote(stat)}, 'value', ${value}, 'points', ${points}, 'calculation', ${calculation}))`;
+}
+
+/**
+ * Render a SQL condition as 1 or 0, like comparisons in the expression language
+ */
+function flag(condition: string): string {
+  return `(CASE WHEN ${condition} THEN 1 ELSE 0 END)::float8`;
+}
+
+/**
+ * Round to a rounding scale the way Math.round(x * scale) / scale does (halves round up)
+ */
+function roundPoints(value: string, scale: number): string {
+  return `(floor(${value} * ${scale} + 0.5) / ${scale})`;
+}
+
+/**
+ * Compile a rule context to a condition on the stat row (NULL flags count as false)
+ */
+function contextToSql(when: RuleContext, alias: string): string {
+  const conditions = getContextEntries(when).map((entry) => {
+    if ('opponents' in entry) {
+      return `COALESCE(${alias}.opponent_id IN (${entry.opponents.map(quote).join(', ')}), FALSE)`;
+    }
+    const flagged = `COALESCE(${alias}.${entry.flag}, FALSE)`;
+    return entry.value ? flagged : `NOT ${flagged}`;
+  });
+  return conditions.length > 0 ? `(${conditions.join(' AND ')})` : 'TRUE';
+}
+
+/**
+ * Compile an expression AST to SQL, resolving stat names with `resolve`
+ */
+export function expressionToSql(node: ExpressionNode, resolve: (stat: string) => string): string {
+  switch (node.type) {
+    case 'number':
+      return literal(node.value);
+    case 'stat':
+      return resolve(node.name);
+    case 'unary': {
+      const operand = expressionToSql(node.operand, resolve);
+      return node.op === '-' ? `(-${operand})` : flag(`${operand} = 0`);
+    }
+    case 'binary': {
+      const left = expressionToSql(node.left, resolve);
+      const right = expressionToSql(node.right, resolve);
+      switch (node.op) {
+        case '+':
+        case '-':
+        case '*':
+          return `(${left} ${node.op} ${right})`;
+        case '/':
+          return `COALESCE(${left} / NULLIF(${right}, 0), 0)`;
+        case '%':
+          return `(CASE WHEN ${right} = 0 THEN 0 ELSE ${left} - ${right} * trunc(${left} / ${right}) END)`;
+        case '<':
+        case '<=':
+        case '>':
+        case '>=':
+          return flag(`${left} ${node.op} ${right}`);
+        case '==':
+          return flag(`${left} = ${right}`);
+        case '!=':
+          return flag(`${left} <> ${right}`);
+        case '&&':
+          return flag(`${left} <> 0 AND ${right} <> 0`);
+        case '||':
+          return flag(`${left} <> 0 OR ${right} <> 0`);
+      }
+      break;
+    }
+    case 'call': {
+      const args = node.args.map((arg) => expressionToSql(arg, resolve));
+      switch (node.fn) {
+        case 'min':
+          return `LEAST(${args.join(', ')})`;
+        case 'max':
+          return `GREATEST(${args.join(', ')})`;
+        case 'abs':
+        case 'floor':
+        case 'ceil':
+          return `${node.fn}(${args[0]})`;
+        case 'round':
+          return `floor(${args[0]} + 0.5)`;
+      }
+    }
+  }
+  return '0';
+}
+
+function assertAlias(alias: string): void {
+  if (!/^[a-z_][a-z0-9_]*$/i.test(alias)) {
+    throw new Error(`Invalid table alias "${alias}"`);
+  }
+}
+
+/**
+ * LEFT JOIN of the park_factors row for a game's site and season, for park-adjusted rulesets
+ *
+ * Empty for other rulesets. `gameAlias` is the alias of the joined games row.
+ */
+export function parkFactorJoin(ruleset: FantasyRuleset, gameAlias: string, alias: string): string {
+  if (!ruleset.parkAdjusted) return '';
+  assertAlias(gameAlias);
+  assertAlias(alias);
+  return `LEFT JOIN park_factors ${alias} ON ${alias}.park_id = ${gameAlias}.site AND ${alias}.season = EXTRACT(YEAR FROM ${gameAlias}.game_date)`;
+}
+
+/**
+ * Compile the rules of one section of a ruleset into SQL over a stat row
+ *
+ * `alias` is the table alias of the batter_game_stats, pitcher_game_stats or
+ * fielder_game_stats row. `total` evaluates to the same total_points as
+ * calculateBattingPoints/calculatePitchingPoints/calculateFieldingPoints for that row.
+ * Park-adjusted rulesets also need `parkFactors`, the alias of the row joined by
+ * parkFactorJoin (except for fielding, which is never adjusted).
+ */
+export function buildScoringSql(
+  ruleset: FantasyRuleset,
+  section: StatSection,
+  alias: string,
+  options: { parkFactors?: string } = {}
+): ScoringSql {
+  assertAlias(alias);
+  const parkAdjusted = ruleset.parkAdjusted ? PARK_ADJUSTED_STATS[section] : {};
+  if (Object.keys(parkAdjusted).length > 0) {
+    if (!options.parkFactors) {
+      throw new Error(`Ruleset "${ruleset.id}" is park-adjusted and needs a park factors alias`);
+    }
+    assertAlias(options.parkFactors);
+  }
+
+  const columns = getStatColumns(section);
+  const builtins = getDerivedStats(section);
+  const derived = new Map<string, string>();
+  const scale = getRoundingScale(ruleset, section);
+
+  const column = (stat: string): string => {
+    const ref = `${alias}.${columns[stat]}`;
+    if (BOOLEAN_STATS.has(stat)) return `COALESCE(${ref}::int::float8, 0)`;
+
+    const kind = parkAdjusted[stat];
+    if (!kind) return `COALESCE(${ref}::float8, 0)`;
+    // Missing factors (and a factor of 0) are neutral, as in the calculator
+    const factor = `${options.parkFactors}.${kind === 'runs' ? 'run_factor' : 'hr_factor'}`;
+    return `(COALESCE(${ref}::float8, 0) / COALESCE(NULLIF(${factor}::float8, 0), 1))`;
+  };
+
+  // Same resolution order as the calculator: ruleset-derived, column, built-in derived
+  const resolve = (stat: string): string => {
+    const fromRuleset = derived.get(stat);
+    if (fromRuleset !== undefined) return fromRuleset;
+    if (stat in columns) return column(stat);
+    const builtin = builtins[stat];
+    if (builtin) return expressionToSql(compileExpression(builtin), resolve);
+    return '0';
+  };
+
+  const rules: RuleSql[] = [];
+  for (const rule of getSectionRules(ruleset, section)) {
+    let value: string;
+    if (rule.expr) {
+      value = expressionToSql(compileExpression(rule.expr), resolve);
+      derived.set(rule.stat, value);
+    } else {
+      // Plain rules read their column directly, even if a derived stat shadows the name
+      value = rule.stat in columns ? column(rule.stat) : resolve(rule.stat);
+    }
+    // Later rules see the unrounded derived value, as in the calculator
+    if (rule.round) {
+      value = ROUNDING[rule.round](value);
+    }
+    // Out of context the rule scores nothing, like a zero value
+    if (rule.when) {
+      value = `(CASE WHEN ${contextToSql(rule.when, alias)} THEN ${value} ELSE 0 END)`;
+    }
+
+    let raw = rule.perUnit
+      ? `((${value} / ${literal(rule.perUnit)}) * ${literal(rule.points)})`
+      : `(${value} * ${literal(rule.points)})`;
+    // Factors of unmatched multipliers are 1, so matched ones compound in rule order
+    for (const multiplier of rule.multipliers ?? []) {
+      const matched = contextToSql(multiplier.when, alias);
+      raw = `(${raw} * (CASE WHEN ${matched} THEN ${literal(multiplier.factor)} ELSE 1 END))`;
+    }
+    const points = roundPoints(raw, scale);
+
+    // Same text as the calculator: "3 * 2" or "18/3 * 1" (float8 prints like JS numbers),
+    // then the context and any applied multipliers, e.g. " [is_ph] × 0.5 [!is_home]"
+    let suffix = rule.perUnit ? `/${rule.perUnit} * ${rule.points}` : ` * ${rule.points}`;
+    if (rule.when) {
+      suffix += ` [${describeContext(rule.when)}]`;
+    }
+    let calculation = `(${value})::text || ${quote(suffix)}`;
+    for (const multiplier of rule.multipliers ?? []) {
+      const matched = contextToSql(multiplier.when, alias);
+      const text = quote(` × ${multiplier.factor} [${describeContext(multiplier.when)}]`);
+      calculation += ` || (CASE WHEN ${matched} THEN ${text} ELSE '' END)`;
+    }
+    const entry = `(CASE WHEN ${value} <> 0 THEN ${breakdownEntry(rule.stat, value, points, calculation)} ELSE '[]'::jsonb END)`;
+
+    rules.push({ rule, value, points, entry });
+  }
+
+  const bonuses: BonusSql[] = [];
+  // Whether each earlier bonus of a group fired, so later ones in the group are excluded
+  const groupFired = new Map<string, string[]>();
+  for (const bonus of ruleset.bonuses ?? []) {
+    if (!bonusAppliesTo(bonus, section, (stat) => derived.has(stat))) continue;
+
+    const conditions = bonus.conditions.map(
+      (c) => `${resolve(c.stat)} ${CONDITION_OPS[c.op]} ${literal(c.value)}`
+    );
+    const joiner = bonus.logic === 'AND' ? ' AND ' : ' OR ';
+    const empty = bonus.logic === 'AND' ? 'TRUE' : 'FALSE';
+    const held = `(${conditions.length > 0 ? conditions.join(joiner) : empty})`;
+
+    let fires: string;
+    let value: string;
+    let points: string;
+    let calculation: string;
+    if (bonus.tiers) {
+      const tiers = getTiersDescending(bonus);
+      value = resolve(bonus.tiers.stat);
+      const lowest = tiers[tiers.length - 1]!;
+      fires = `(${held} AND ${value} >= ${literal(lowest.min)})`;
+      const byTier = (render: (min: number, tierPoints: number) => string) => {
+        const cases = tiers.map(
+          (t) => `WHEN ${value} >= ${literal(t.min)} THEN ${render(t.min, t.points)}`
+        );
+        return `(CASE ${cases.join(' ')} END)`;
+      };
+      // Constant points are rounded to the policy here rather than in SQL
+      points = byTier((_, tierPoints) => literal(Math.round(tierPoints * scale) / scale));
+      calculation = byTier((min) => quote(`Bonus: ${bonus.name} (${bonus.tiers!.stat} >= ${min})`));
+    } else if (bonus.repeat) {
+      const { beyond = 0, every = 1 } = bonus.repeat;
+      value = `floor((${resolve(bonus.repeat.stat)} - ${literal(beyond)}) / ${literal(every)})`;
+      fires = `(${held} AND ${value} >= 1)`;
+      points = roundPoints(`(${value} * ${literal(bonus.repeat.points)})`, scale);
+      const prefix = quote(`Bonus: ${bonus.name} (`);
+      calculation = `${prefix} || (${value})::text || ${quote(` * ${bonus.repeat.points})`)}`;
+    } else {
+      fires = held;
+      value = '1';
+      points = literal(Math.round((bonus.points ?? 0) * scale) / scale);
+      calculation = quote(`Bonus: ${bonus.name}`);
+    }
+
+    let condition = fires;
+    if (bonus.group !== undefined) {
+      const earlier = groupFired.get(bonus.group) ?? [];
+      if (earlier.length > 0) {
+        condition = `(${fires} AND NOT (${earlier.join(' OR ')}))`;
+      }
+      groupFired.set(bonus.group, [...earlier, fires]);
+    }
+
+    const entry = `(CASE WHEN ${condition} THEN ${breakdownEntry(
+      `bonus:${bonus.name}`,
+      value,
+      points,
+      calculation
+    )} ELSE '[]'::jsonb END)`;
+
+    bonuses.push({ bonus, condition, points, entry });
+  }
+
+  const terms = [
+    ...rules.map((r) => r.points),
+    ...bonuses.map((b) => `(CASE WHEN ${b.condition} THEN ${b.points} ELSE 0 END)`),
+  ];
+
+  const entries = [...rules.map((r) => r.entry), ...bonuses.map((b) => b.entry)];
+  const sum = `(0 + ${terms.length > 0 ? terms.join(' + ') : '0'})`;
+
+  // Fielding rows are per position; their limits apply once summed per game
+  if (section === 'fielding') {
+    return {
+      rules,
+      bonuses,
+      total: roundPoints(sum, scale),
+      breakdown: ["'[]'::jsonb", ...entries].join(' || '),
+    };
+  }
+
+  const limited = limitTotalSql(ruleset, section, sum);
+  return {
+    rules,
+    bonuses,
+    total: limited.total,
+    breakdown: ["'[]'::jsonb", ...entries, ...limited.entries].join(' || '),
+  };
+}
+
+/**
+ * Round a game's summed points and bound them by the section's cap and floor
+ *
+ * `entries` are the "cap"/"floor" breakdown entries (JSONB arrays, empty unless
+ * the bound applied) the calculator adds. Fielding sums are per player and game.
+ */
+export function limitTotalSql(
+  ruleset: FantasyRuleset,
+  section: StatSection,
+  sum: string
+): { total: string; entries: string[] } {
+  const policy = getScoringPolicy(ruleset, section);
+  const rounded = roundPoints(sum, getRoundingScale(ruleset, section));
+
+  let total = rounded;
+  const entries: string[] = [];
+  const bound = (kind: 'cap' | 'floor', limit: number) => {
+    const op = kind === 'cap' ? '>' : '<';
+    const label = `${kind === 'cap' ? 'Capped' : 'Floored'} at ${limit} (from `;
+    const points = roundPoints(`(${literal(limit)} - ${rounded})`, 100);
+    const calculation = `${quote(label)} || (${rounded})::text || ')'`;
+    const entry = breakdownEntry(kind, rounded, points, calculation);
+    const applies = `${rounded} ${op} ${literal(limit)}`;
+    entries.push(`(CASE WHEN ${applies} THEN ${entry} ELSE '[]'::jsonb END)`);
+  };
+
+  if (policy.floor !== undefined) {
+    total = `GREATEST(${total}, ${literal(policy.floor)})`;
+    bound('floor', policy.floor);
+  }
+  if (policy.cap !== undefined) {
+    total = `LEAST(${total}, ${literal(policy.cap)})`;
+    bound('cap', policy.cap);
+  }
+  return { total, entries };
+}
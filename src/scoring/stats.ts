@@ -0,0 +1,362 @@
+import type { BatterGameStats, PitcherGameStats, FielderGameStats } from '../types/database.js';
+import type {
+  FantasyRuleset,
+  ScoringRule,
+  BonusRule,
+  BonusTier,
+  RuleContext,
+  ScoringPolicy,
+} from '../types/fantasy.js';
+
+export type StatSection = 'batting' | 'pitching' | 'fielding';
+
+export const STAT_SECTIONS: StatSection[] = ['batting', 'pitching', 'fielding'];
+
+/** Outs in an inning: `outs_pitched` counts thirds of an inning */
+export const OUTS_PER_INNING = 3;
+
+/**
+ * Batting stats that map directly to a batter_game_stats column
+ */
+export const BATTING_STATS: Record<string, keyof BatterGameStats> = {
+  plate_appearances: 'plate_appearances',
+  at_bats: 'at_bats',
+  runs: 'runs',
+  hits: 'hits',
+  doubles: 'doubles',
+  triples: 'triples',
+  home_runs: 'home_runs',
+  runs_batted_in: 'runs_batted_in',
+  sacrifice_hits: 'sacrifice_hits',
+  sacrifice_flies: 'sacrifice_flies',
+  hit_by_pitch: 'hit_by_pitch',
+  walks: 'walks',
+  intentional_walks: 'intentional_walks',
+  strikeouts: 'strikeouts',
+  stolen_bases: 'stolen_bases',
+  caught_stealing: 'caught_stealing',
+  grounded_into_dp: 'grounded_into_dp',
+  reached_on_interference: 'reached_on_interference',
+  reached_on_error: 'reached_on_error',
+  total_bases: 'total_bases',
+  grand_slams: 'grand_slams',
+  game_winning_rbi: 'game_winning_rbi',
+  age: 'player_age',
+};
+
+/**
+ * Pitching stats that map directly to a pitcher_game_stats column
+ */
+export const PITCHING_STATS: Record<string, keyof PitcherGameStats> = {
+  outs_pitched: 'outs_pitched',
+  batters_faced: 'batters_faced',
+  hits_allowed: 'hits_allowed',
+  doubles_allowed: 'doubles_allowed',
+  triples_allowed: 'triples_allowed',
+  home_runs_allowed: 'home_runs_allowed',
+  runs_allowed: 'runs_allowed',
+  earned_runs: 'earned_runs',
+  walks: 'walks',
+  intentional_walks: 'intentional_walks',
+  strikeouts: 'strikeouts',
+  hit_batters: 'hit_batters',
+  wild_pitches: 'wild_pitches',
+  balks: 'balks',
+  sacrifice_hits_allowed: 'sacrifice_hits_allowed',
+  sacrifice_flies_allowed: 'sacrifice_flies_allowed',
+  stolen_bases_allowed: 'stolen_bases_allowed',
+  caught_stealing: 'caught_stealing',
+  inherited_runners: 'inherited_runners',
+  inherited_runners_scored: 'inherited_runners_scored',
+  ground_outs: 'ground_outs',
+  air_outs: 'air_outs',
+  pitches: 'pitches',
+  strikes: 'strikes',
+  won: 'won',
+  lost: 'lost',
+  saved: 'saved',
+  save: 'saved',
+  game_started: 'game_started',
+  game_finished: 'game_finished',
+  complete_game: 'complete_game',
+  shutout: 'shutout',
+  age: 'player_age',
+};
+
+/**
+ * Fielding stats that map directly to a fielder_game_stats column (one row per position)
+ */
+export const FIELDING_STATS: Record<string, keyof FielderGameStats> = {
+  position: 'position_number', // 1 = P, 2 = C, 3 = 1B ... 9 = RF
+  position_started: 'position_started',
+  outs_played: 'outs_played',
+  total_chances: 'total_chances',
+  putouts: 'putouts',
+  assists: 'assists',
+  errors: 'errors',
+  double_plays: 'double_plays',
+  triple_plays: 'triple_plays',
+  passed_balls: 'passed_balls',
+  catcher_interference: 'catcher_interference',
+  age: 'player_age',
+};
+
+/**
+ * Built-in derived batting stats, defined as expressions over BATTING_STATS
+ */
+export const DERIVED_BATTING_STATS: Record<string, string> = {
+  singles: 'hits - doubles - triples - home_runs',
+  extra_base_hits: 'doubles + triples + home_runs',
+  times_on_base: 'hits + walks + hit_by_pitch',
+};
+
+/**
+ * Built-in derived pitching stats, defined as expressions over PITCHING_STATS
+ */
+export const DERIVED_PITCHING_STATS: Record<string, string> = {
+  // Fractional: 6.2 IP (20 outs) is 6.667 innings; round it per rule with `round`
+  innings_pitched: `outs_pitched / ${OUTS_PER_INNING}`,
+  singles_allowed: 'hits_allowed - doubles_allowed - triples_allowed - home_runs_allowed',
+  quality_start: 'game_started && outs_pitched >= 18 && earned_runs <= 3',
+  inherited_runners_stranded: 'inherited_runners - inherited_runners_scored',
+};
+
+/**
+ * Built-in derived fielding stats, defined as expressions over FIELDING_STATS
+ */
+export const DERIVED_FIELDING_STATS: Record<string, string> = {
+  at_catcher: 'position == 2',
+  at_infield: 'position >= 3 && position <= 6',
+  at_outfield: 'position >= 7',
+  errorless: 'total_chances > 0 && errors == 0',
+};
+
+/** A boolean context flag (every context key but `opponent`) */
+export type ContextFlag = Exclude<keyof RuleContext, 'opponent'>;
+
+/**
+ * Role and game-context flags each section's rules can be limited to or
+ * multiplied by (each is a boolean column of the section's stat table)
+ */
+export const CONTEXT_FLAGS: Record<StatSection, ContextFlag[]> = {
+  batting: ['is_home', 'is_dh', 'is_ph', 'is_pr', 'team_won', 'team_lost', 'team_tied'],
+  pitching: ['is_home', 'game_started', 'game_finished', 'team_won', 'team_lost', 'team_tied'],
+  fielding: ['is_home', 'position_started'],
+};
+
+// Every context key, in the order contexts are checked and described
+const CONTEXT_KEYS: (keyof RuleContext)[] = [
+  'is_home',
+  'is_dh',
+  'is_ph',
+  'is_pr',
+  'game_started',
+  'game_finished',
+  'position_started',
+  'team_won',
+  'team_lost',
+  'team_tied',
+  'opponent',
+];
+
+/**
+ * One requirement of a rule context: a flag's value, or the opposing teams allowed
+ */
+export type ContextEntry =
+  | { flag: ContextFlag; value: boolean }
+  | { opponents: string[] };
+
+/**
+ * The flags and opponents a context requires, in a fixed order
+ */
+export function getContextEntries(when: RuleContext): ContextEntry[] {
+  return CONTEXT_KEYS.flatMap((key): ContextEntry[] => {
+    const value = when[key];
+    if (value === undefined) return [];
+    if (key === 'opponent') return [{ opponents: value as string[] }];
+    return [{ flag: key, value: value as boolean }];
+  });
+}
+
+/**
+ * Describe a context for breakdowns, e.g. "is_ph", "!is_home" or "game_started, vs NYA/BOS"
+ */
+export function describeContext(when: RuleContext): string {
+  return getContextEntries(when)
+    .map((entry) => {
+      if ('opponents' in entry) return `vs ${entry.opponents.join('/')}`;
+      return entry.value ? entry.flag : `!${entry.flag}`;
+    })
+    .join(', ');
+}
+
+/**
+ * What points are multiplied by before rounding and divided by after, per rounding policy
+ */
+export const ROUNDING_SCALES: Record<NonNullable<ScoringPolicy['rounding']>, number> = {
+  whole: 1,
+  tenths: 10,
+  hundredths: 100,
+};
+
+/**
+ * The scoring policy of a section (empty when the ruleset sets none)
+ */
+export function getScoringPolicy(ruleset: FantasyRuleset, section: StatSection): ScoringPolicy {
+  return ruleset.policies?.[section] ?? {};
+}
+
+/**
+ * The rounding scale of a section's points (hundredths unless the ruleset says otherwise)
+ */
+export function getRoundingScale(ruleset: FantasyRuleset, section: StatSection): number {
+  return ROUNDING_SCALES[getScoringPolicy(ruleset, section).rounding ?? 'hundredths'];
+}
+
+/**
+ * Built-in stats that can take fractional values
+ */
+export const FRACTIONAL_STATS = new Set(['innings_pitched']);
+
+/**
+ * Stats that can only be 0 or 1
+ */
+export const BOOLEAN_STATS = new Set([
+  'won',
+  'lost',
+  'saved',
+  'save',
+  'game_started',
+  'game_finished',
+  'complete_game',
+  'shutout',
+  'quality_start',
+  'position_started',
+  'at_catcher',
+  'at_infield',
+  'at_outfield',
+  'errorless',
+]);
+
+export type ParkFactorKind = 'runs' | 'home_runs';
+
+/**
+ * Stat columns divided by a park factor in park-adjusted rulesets, and which factor
+ *
+ * Derived stats built from these columns (singles, quality_start, ...) are adjusted
+ * through them; fielding is never adjusted.
+ */
+export const PARK_ADJUSTED_STATS: Record<StatSection, Record<string, ParkFactorKind>> = {
+  batting: {
+    runs: 'runs',
+    hits: 'runs',
+    doubles: 'runs',
+    triples: 'runs',
+    home_runs: 'home_runs',
+    runs_batted_in: 'runs',
+    total_bases: 'runs',
+    grand_slams: 'home_runs',
+  },
+  pitching: {
+    hits_allowed: 'runs',
+    doubles_allowed: 'runs',
+    triples_allowed: 'runs',
+    home_runs_allowed: 'home_runs',
+    runs_allowed: 'runs',
+    earned_runs: 'runs',
+  },
+  fielding: {},
+};
+
+/**
+ * Get the column mapping for a section
+ */
+export function getStatColumns(section: StatSection): Record<string, string> {
+  if (section === 'fielding') return FIELDING_STATS;
+  return section === 'batting' ? BATTING_STATS : PITCHING_STATS;
+}
+
+/**
+ * Get the built-in derived stats for a section
+ */
+export function getDerivedStats(section: StatSection): Record<string, string> {
+  if (section === 'fielding') return DERIVED_FIELDING_STATS;
+  return section === 'batting' ? DERIVED_BATTING_STATS : DERIVED_PITCHING_STATS;
+}
+
+/**
+ * Get the rules of one section of a ruleset (fielding is optional)
+ */
+export function getSectionRules(ruleset: FantasyRuleset, section: StatSection): ScoringRule[] {
+  if (section === 'fielding') return ruleset.fielding ?? [];
+  return section === 'batting' ? ruleset.batting : ruleset.pitching;
+}
+
+/**
+ * Whether a ruleset scores fielding: it has fielding rules or a bonus on a fielding stat
+ *
+ * Rulesets that don't are never given fielding rows in fantasy_game_points.
+ */
+export function scoresFielding(ruleset: FantasyRuleset): boolean {
+  if ((ruleset.fielding ?? []).length > 0) return true;
+  return (ruleset.bonuses ?? []).some((bonus) => bonusAppliesTo(bonus, 'fielding', () => false));
+}
+
+/**
+ * Get every stat name known for a section (columns and built-in derived stats)
+ */
+export function getKnownStats(section: StatSection): Set<string> {
+  return new Set([
+    ...Object.keys(getStatColumns(section)),
+    ...Object.keys(getDerivedStats(section)),
+  ]);
+}
+
+/**
+ * Check whether a stat name is in the catalog for a section
+ */
+export function isKnownStat(section: StatSection, stat: string): boolean {
+  return stat in getStatColumns(section) || stat in getDerivedStats(section);
+}
+
+/**
+ * Every stat a bonus reads: its conditions, tier stat and repeat stat
+ */
+export function getBonusStats(bonus: BonusRule): string[] {
+  return [
+    ...bonus.conditions.map((c) => c.stat),
+    ...(bonus.tiers ? [bonus.tiers.stat] : []),
+    ...(bonus.repeat ? [bonus.repeat.stat] : []),
+  ];
+}
+
+/**
+ * Whether a bonus scores lines of a section
+ *
+ * A scoped bonus scores only its scope. An unscoped one scores every section
+ * that knows one of its stats, from the catalog or `isDerived` (the section's
+ * ruleset-defined derived stats).
+ */
+export function bonusAppliesTo(
+  bonus: BonusRule,
+  section: StatSection,
+  isDerived: (stat: string) => boolean
+): boolean {
+  if (bonus.scope) return bonus.scope === section;
+  return getBonusStats(bonus).some((stat) => isKnownStat(section, stat) || isDerived(stat));
+}
+
+/**
+ * A tiered bonus's tiers, highest threshold first (the first one reached is awarded)
+ */
+export function getTiersDescending(bonus: BonusRule): BonusTier[] {
+  return [...(bonus.tiers?.levels ?? [])].sort((a, b) => b.min - a.min);
+}
+
+/**
+ * Format outs as innings pitched in baseball notation, where the digit after
+ * the point counts outs: 20 outs is "6.2", not "6.7"
+ */
+export function formatIP(outs: number): string {
+  return `${Math.floor(outs / OUTS_PER_INNING)}.${outs % OUTS_PER_INNING}`;
+}
@@ -0,0 +1,335 @@
+import type {
+  FantasyRuleset,
+  ScoringRule,
+  BonusRule,
+  BonusCondition,
+  RuleContext,
+} from '../types/fantasy.js';
+import { compileExpression, getReferencedStats } from './expression.js';
+import {
+  BOOLEAN_STATS,
+  CONTEXT_FLAGS,
+  FRACTIONAL_STATS,
+  STAT_SECTIONS,
+  getKnownStats,
+  getSectionRules,
+  describeContext,
+  type StatSection,
+} from './stats.js';
+
+export type RulesetIssueCode =
+  | 'unknown_stat'
+  | 'invalid_expression'
+  | 'unreachable_bonus'
+  | 'invalid_bonus'
+  | 'invalid_context'
+  | 'invalid_policy'
+  | 'duplicate_rule';
+
+/**
+ * A problem found in a ruleset
+ *
+ * Errors make a ruleset unusable and are rejected on save; warnings are
+ * reported by `ruleset validate` but do not block saving.
+ */
+export interface RulesetIssue {
+  severity: 'error' | 'warning';
+  code: RulesetIssueCode;
+  message: string;
+  path: (string | number)[];
+}
+
+/**
+ * Check that a rule context only uses flags the section's stat lines have
+ */
+function validateContext(
+  section: StatSection,
+  rule: ScoringRule,
+  when: RuleContext,
+  path: (string | number)[],
+  issues: RulesetIssue[]
+): void {
+  const flags = new Set<string>(CONTEXT_FLAGS[section]);
+  for (const key of Object.keys(when)) {
+    if (key === 'opponent' || flags.has(key)) continue;
+    issues.push({
+      severity: 'error',
+      code: 'invalid_context',
+      message: `${section} rule "${rule.stat}": ${section} lines have no "${key}" flag`,
+      path: [...path, key],
+    });
+  }
+}
+
+/**
+ * Check one rule section for unknown stats, bad expressions, invalid contexts and duplicates
+ *
+ * Returns the stat names available to bonuses (catalog plus ruleset-defined derived stats).
+ */
+function validateSection(
+  section: StatSection,
+  rules: ScoringRule[],
+  issues: RulesetIssue[]
+): Set<string> {
+  const available = getKnownStats(section);
+  const seen = new Set<string>();
+
+  rules.forEach((rule, index) => {
+    // Rules for the same stat in different contexts (e.g. starters and relievers) are distinct
+    const key = rule.when ? `${rule.stat} [${describeContext(rule.when)}]` : rule.stat;
+    if (seen.has(key)) {
+      issues.push({
+        severity: 'warning',
+        code: 'duplicate_rule',
+        message: `${section} rule "${rule.stat}" is defined more than once`,
+        path: [section, index, 'stat'],
+      });
+    }
+    seen.add(key);
+
+    if (rule.when) validateContext(section, rule, rule.when, [section, index, 'when'], issues);
+    rule.multipliers?.forEach((multiplier, i) => {
+      const path = [section, index, 'multipliers', i, 'when'];
+      validateContext(section, rule, multiplier.when, path, issues);
+    });
+
+    if (rule.expr === undefined) {
+      if (!available.has(rule.stat)) {
+        issues.push({
+          severity: 'error',
+          code: 'unknown_stat',
+          message: `${section} rule "${rule.stat}": unknown stat`,
+          path: [section, index, 'stat'],
+        });
+      }
+      return;
+    }
+
+    try {
+      const ast = compileExpression(rule.expr);
+      for (const name of getReferencedStats(ast)) {
+        if (!available.has(name)) {
+          issues.push({
+            severity: 'error',
+            code: 'unknown_stat',
+            message: `${section} rule "${rule.stat}": unknown stat "${name}" in expression`,
+            path: [section, index, 'expr'],
+          });
+        }
+      }
+    } catch (error) {
+      issues.push({
+        severity: 'error',
+        code: 'invalid_expression',
+        message: `${section} rule "${rule.stat}": ${error instanceof Error ? error.message : String(error)}`,
+        path: [section, index, 'expr'],
+      });
+    }
+
+    // Later expressions and bonuses may build on this derived stat
+    available.add(rule.stat);
+  });
+
+  return available;
+}
+
+/**
+ * Integer range a catalog stat can take, or null for ruleset-defined expressions
+ * and fractional stats (nothing is assumed about them)
+ */
+function getStatRange(stat: string, customDerived: Set<string>): { lo: number; hi: number } | null {
+  if (customDerived.has(stat) || FRACTIONAL_STATS.has(stat)) return null;
+  if (BOOLEAN_STATS.has(stat)) return { lo: 0, hi: 1 };
+  return { lo: 0, hi: Infinity };
+}
+
+/**
+ * Check whether a set of conditions on the same whole-number stat can all hold at once
+ */
+function conditionsSatisfiable(
+  conditions: BonusCondition[],
+  range: { lo: number; hi: number } | null
+): boolean {
+  if (!range) return true;
+
+  let { lo, hi } = range;
+  for (const c of conditions) {
+    switch (c.op) {
+      case 'eq':
+        if (!Number.isInteger(c.value)) return false;
+        lo = Math.max(lo, c.value);
+        hi = Math.min(hi, c.value);
+        break;
+      case 'gte':
+        lo = Math.max(lo, Math.ceil(c.value));
+        break;
+      case 'gt':
+        lo = Math.max(lo, Math.floor(c.value) + 1);
+        break;
+      case 'lte':
+        hi = Math.min(hi, Math.floor(c.value));
+        break;
+      case 'lt':
+        hi = Math.min(hi, Math.ceil(c.value) - 1);
+        break;
+    }
+  }
+
+  return lo <= hi;
+}
+
+/**
+ * Explain why a bonus can never fire, or return null if it can
+ */
+function findUnreachableReason(
+  bonus: BonusRule,
+  available: Record<StatSection, Set<string>>,
+  customDerived: Record<StatSection, Set<string>>
+): string | null {
+  const scaled = bonus.tiers !== undefined || bonus.repeat !== undefined;
+  if (bonus.conditions.length === 0 && (!scaled || bonus.logic === 'OR')) {
+    return 'has no conditions';
+  }
+
+  const sections = bonus.scope ? [bonus.scope] : STAT_SECTIONS;
+  const scaledStat = bonus.tiers?.stat ?? bonus.repeat?.stat;
+
+  const satisfiableIn = (section: StatSection, conditions: BonusCondition[]): boolean => {
+    if (!conditions.every((c) => available[section].has(c.stat))) return false;
+    if (scaledStat !== undefined && !available[section].has(scaledStat)) return false;
+
+    const byStat = new Map<string, BonusCondition[]>();
+    for (const c of conditions) {
+      byStat.set(c.stat, [...(byStat.get(c.stat) ?? []), c]);
+    }
+    for (const [stat, group] of byStat) {
+      if (!conditionsSatisfiable(group, getStatRange(stat, customDerived[section]))) return false;
+    }
+    return true;
+  };
+
+  if (bonus.logic === 'AND') {
+    if (sections.some((section) => satisfiableIn(section, bonus.conditions))) return null;
+    return bonus.scope
+      ? `its conditions can never all hold for the same ${bonus.scope} line`
+      : 'its conditions can never all hold for the same batting, pitching or fielding line';
+  }
+
+  const reachable = bonus.conditions.some((c) =>
+    sections.some((section) => satisfiableIn(section, [c]))
+  );
+  return reachable ? null : 'none of its conditions can ever hold';
+}
+
+/**
+ * Validate a ruleset against the stat catalog
+ *
+ * Reports unknown stats, malformed expressions, bonuses without exactly one
+ * award, invalid contexts and floors above caps (errors), and duplicate rules
+ * and bonuses that can never fire (warnings).
+ */
+export function validateRuleset(ruleset: FantasyRuleset): RulesetIssue[] {
+  const issues: RulesetIssue[] = [];
+
+  const available = {} as Record<StatSection, Set<string>>;
+  const customDerived = {} as Record<StatSection, Set<string>>;
+  for (const section of STAT_SECTIONS) {
+    const rules = getSectionRules(ruleset, section);
+    available[section] = validateSection(section, rules, issues);
+    customDerived[section] = new Set(rules.filter((r) => r.expr !== undefined).map((r) => r.stat));
+
+    const { cap, floor } = ruleset.policies?.[section] ?? {};
+    if (cap !== undefined && floor !== undefined && floor > cap) {
+      issues.push({
+        severity: 'error',
+        code: 'invalid_policy',
+        message: `${section} floor ${floor} is above its cap ${cap}`,
+        path: ['policies', section, 'floor'],
+      });
+    }
+  }
+
+  const bonusNames = new Set<string>();
+  (ruleset.bonuses ?? []).forEach((bonus, index) => {
+    if (bonusNames.has(bonus.name)) {
+      issues.push({
+        severity: 'warning',
+        code: 'duplicate_rule',
+        message: `bonus "${bonus.name}" is defined more than once`,
+        path: ['bonuses', index, 'name'],
+      });
+    }
+    bonusNames.add(bonus.name);
+
+    const awards = [bonus.points, bonus.tiers, bonus.repeat].filter((a) => a !== undefined);
+    if (awards.length !== 1) {
+      issues.push({
+        severity: 'error',
+        code: 'invalid_bonus',
+        message: `bonus "${bonus.name}" must set exactly one of points, tiers or repeat`,
+        path: ['bonuses', index],
+      });
+    }
+
+    // A scoped bonus may only use its section's stats
+    const sections = bonus.scope ? [bonus.scope] : STAT_SECTIONS;
+    const stats: { stat: string; path: (string | number)[] }[] = bonus.conditions.map((c, i) => ({
+      stat: c.stat,
+      path: ['conditions', i, 'stat'],
+    }));
+    if (bonus.tiers) stats.push({ stat: bonus.tiers.stat, path: ['tiers', 'stat'] });
+    if (bonus.repeat) stats.push({ stat: bonus.repeat.stat, path: ['repeat', 'stat'] });
+
+    let hasUnknown = false;
+    for (const { stat, path } of stats) {
+      if (!sections.some((section) => available[section].has(stat))) {
+        hasUnknown = true;
+        issues.push({
+          severity: 'error',
+          code: 'unknown_stat',
+          message: bonus.scope
+            ? `bonus "${bonus.name}": unknown ${bonus.scope} stat "${stat}"`
+            : `bonus "${bonus.name}": unknown stat "${stat}"`,
+          path: ['bonuses', index, ...path],
+        });
+      }
+    }
+    if (hasUnknown || awards.length !== 1) return;
+
+    const reason = findUnreachableReason(bonus, available, customDerived);
+    if (reason) {
+      issues.push({
+        severity: 'warning',
+        code: 'unreachable_bonus',
+        message: `bonus "${bonus.name}" can never be awarded: ${reason}`,
+        path: ['bonuses', index],
+      });
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * Validate the derived-stat expressions in a ruleset
+ *
+ * Returns a list of human-readable problems (empty when the ruleset is valid).
+ */
+export function validateRulesetExpressions(ruleset: FantasyRuleset): string[] {
+  return validateRuleset(ruleset)
+    .filter((issue) => issue.code === 'invalid_expression' || issue.path.includes('expr'))
+    .map((issue) => issue.message);
+}
+
+/**
+ * Throw if a ruleset references unknown stats or has invalid expressions
+ */
+export function assertValidRuleset(ruleset: FantasyRuleset): void {
+  const errors = validateRuleset(ruleset).filter((issue) => issue.severity === 'error');
+  if (errors.length > 0) {
+    throw new Error(
+      `Invalid ruleset "${ruleset.id}":\n  - ${errors.map((e) => e.message).join('\n  - ')}`
+    );
+  }
+}
+
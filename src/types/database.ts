@@ -2,13 +2,33 @@
  * Database entity types (typed representations of database rows)
  */
 
+import type { GameType } from '../ingest/game-types.js';
+
 export interface Player {
   player_id: string;
+  name_first: string | null;
+  name_last: string | null;
+  name_given: string | null;
+  name_suffix: string | null;
+  name_nick: string | null;
+  birth_date: Date | null;
+  birth_year: number | null;
+  death_date: Date | null;
+  mlb_played_first: number | null;
+  mlb_played_last: number | null;
+  pro_played_first: number | null;
+  pro_played_last: number | null;
+  key_person: string | null;
+  key_mlbam: number | null;
+  key_bbref: string | null;
+  key_fangraphs: number | null;
+  register_synced_at: Date | null;
   created_at: Date;
 }
 
 export interface Team {
   team_id: string;
+  franchise_id: string | null;
   created_at: Date;
 }
 
@@ -22,9 +42,37 @@ export interface Game {
   game_type: string | null;
   has_box: boolean;
   has_pbp: boolean;
+  away_score: number | null;
+  home_score: number | null;
+  innings: number | null;
+  length_outs: number | null;
+  day_night: string | null;
+  attendance: number | null;
+  duration_minutes: number | null;
+  away_line_score: string | null;
+  home_line_score: string | null;
+  umpires: { position: string; id: string; name: string }[] | null;
+  away_starting_pitcher_id: string | null;
+  home_starting_pitcher_id: string | null;
+  winning_pitcher_id: string | null;
+  losing_pitcher_id: string | null;
+  saving_pitcher_id: string | null;
   created_at: Date;
 }
 
+/**
+ * Run and home run factors of a site in one season (1 = neutral)
+ */
+export interface ParkFactor {
+  park_id: string;
+  season: number;
+  games: number;
+  runs: number;
+  home_runs: number;
+  run_factor: number;
+  hr_factor: number;
+}
+
 export interface BatterGameStats {
   id: number;
   game_id: string;
@@ -53,6 +101,9 @@ export interface BatterGameStats {
   grounded_into_dp: number;
   reached_on_interference: number;
   reached_on_error: number;
+  total_bases: number;
+  grand_slams: number;
+  game_winning_rbi: number;
 
   // Role flags
   is_dh: boolean;
@@ -68,6 +119,7 @@ export interface BatterGameStats {
   stat_type: string | null;
   lineup_position: number | null;
   batting_seq: number | null;
+  player_age: number | null;
 
   created_at: Date;
 }
@@ -99,6 +151,12 @@ export interface PitcherGameStats {
   sacrifice_flies_allowed: number;
   stolen_bases_allowed: number;
   caught_stealing: number;
+  inherited_runners: number;
+  inherited_runners_scored: number;
+  ground_outs: number;
+  air_outs: number;
+  pitches: number | null;
+  strikes: number | null;
 
   // Decision flags
   won: boolean;
@@ -107,6 +165,7 @@ export interface PitcherGameStats {
   game_started: boolean;
   game_finished: boolean;
   complete_game: boolean;
+  shutout: boolean;
 
   // Outcome
   team_won: boolean | null;
@@ -116,19 +175,114 @@ export interface PitcherGameStats {
   // Metadata
   stat_type: string | null;
   pitching_seq: number | null;
+  player_age: number | null;
+
+  created_at: Date;
+}
+
+export interface FielderGameStats {
+  id: number;
+  game_id: string;
+  player_id: string;
+  team_id: string;
+  is_home: boolean;
+  opponent_id: string | null;
+
+  // Position
+  position: string;
+  position_number: number;
+  position_started: boolean;
+
+  // Stats
+  outs_played: number;
+  total_chances: number;
+  putouts: number;
+  assists: number;
+  errors: number;
+  double_plays: number;
+  triple_plays: number;
+  passed_balls: number;
+  catcher_interference: number;
+
+  // Metadata
+  fielding_seq: number | null;
+  player_age: number | null;
+
+  created_at: Date;
+}
+
+export interface PlateAppearanceEvent {
+  id: number;
+  game_id: string;
+  event_seq: number;
+
+  inning: number;
+  is_bottom: boolean;
+  batting_team_id: string | null;
+  batter_id: string;
+  pitcher_id: string | null;
+
+  // State before the play
+  outs_before: number;
+  runner_on_1b: string | null;
+  runner_on_2b: string | null;
+  runner_on_3b: string | null;
+  away_score_before: number;
+  home_score_before: number;
+
+  // Count and pitches
+  balls: number | null;
+  strikes: number | null;
+  pitch_sequence: string | null;
+
+  // Result
+  event_text: string;
+  event_type: string;
+  is_hit: boolean;
+  is_at_bat: boolean;
+  outs_on_play: number;
+  runs_on_play: number;
+  rbi: number;
+  is_walk_off: boolean;
 
   created_at: Date;
 }
 
 export interface IngestionBatch {
   batch_id: string;
-  source_type: 'batting' | 'pitching';
+  source_type: 'batting' | 'pitching' | 'fielding' | 'events' | 'gamelogs';
   source_file: string;
   year: number;
   started_at: Date;
   completed_at: Date | null;
   total_rows: number | null;
   processed_rows: number;
-  status: 'pending' | 'in_progress' | 'completed' | 'failed';
+  status: 'pending' | 'in_progress' | 'completed' | 'failed' | 'rolled_back';
+  error_message: string | null;
+  /** SHA-256 of the loaded file (null for batches loaded before hashes were recorded) */
+  source_sha256: string | null;
+}
+
+export interface ScoringJob {
+  job_id: string;
+  ruleset_id: string;
+  ruleset_version: number;
+  year: number;
+  start_date: Date;
+  end_date: Date;
+  engine: 'sql' | 'js';
+  force: boolean;
+  /** Only games of these types are scored (null = every game) */
+  game_types: GameType[] | null;
+  cursor_date: Date | null;
+  total_games: number | null;
+  games_scored: number;
+  batting_records: number;
+  pitching_records: number;
+  fielding_records: number;
+  started_at: Date;
+  updated_at: Date;
+  completed_at: Date | null;
+  status: 'pending' | 'in_progress' | 'completed' | 'failed' | 'cancelled';
   error_message: string | null;
 }
@@ -1,12 +1,56 @@
 import { z } from 'zod';
+import { validateRuleset } from '../scoring/validation.js';
+
+/**
+ * Role and game context of a stat line: every flag given must have that value,
+ * and `opponent` must list the opposing team
+ */
+export const RuleContextSchema = z
+  .object({
+    is_home: z.boolean().optional(),
+    is_dh: z.boolean().optional(),
+    is_ph: z.boolean().optional(),
+    is_pr: z.boolean().optional(),
+    game_started: z.boolean().optional(),
+    game_finished: z.boolean().optional(),
+    position_started: z.boolean().optional(),
+    team_won: z.boolean().optional(),
+    team_lost: z.boolean().optional(),
+    team_tied: z.boolean().optional(),
+    opponent: z.array(z.string()).min(1).optional(),
+  })
+  .strict();
+
+export type RuleContext = z.infer<typeof RuleContextSchema>;
+
+/**
+ * Multiply a rule's points by `factor` on lines matching `when`
+ */
+export const RuleMultiplierSchema = z.object({
+  when: RuleContextSchema,
+  factor: z.number(),
+});
+
+export type RuleMultiplier = z.infer<typeof RuleMultiplierSchema>;
 
 /**
  * Scoring rule for a single stat
+ *
+ * When `expr` is set the rule scores a derived stat: `stat` becomes the label
+ * and the value is computed from the expression (e.g. "hits - doubles - triples - home_runs").
+ * `round` rounds the value to a whole number before scoring, e.g. to score
+ * `innings_pitched` by whole innings (nearest rounds halves up). A rule with
+ * `when` only scores lines in that context; `multipliers` scale its points on
+ * lines matching theirs (several matching multipliers compound).
  */
 export const ScoringRuleSchema = z.object({
   stat: z.string(),
   points: z.number(),
   perUnit: z.number().optional(),
+  expr: z.string().optional(),
+  round: z.enum(['down', 'nearest', 'up']).optional(),
+  when: RuleContextSchema.optional(),
+  multipliers: z.array(RuleMultiplierSchema).optional(),
 });
 
 export type ScoringRule = z.infer<typeof ScoringRuleSchema>;
@@ -22,31 +66,107 @@ export const BonusConditionSchema = z.object({
 
 export type BonusCondition = z.infer<typeof BonusConditionSchema>;
 
+/**
+ * One tier of a tiered bonus: `points` once the tier stat reaches `min`
+ */
+export const BonusTierSchema = z.object({
+  min: z.number(),
+  points: z.number(),
+});
+
+export type BonusTier = z.infer<typeof BonusTierSchema>;
+
+/**
+ * Points for every `every` units of a stat beyond `beyond` (defaults 1 and 0),
+ * e.g. "+2 for every strikeout beyond 10"
+ */
+export const BonusRepeatSchema = z.object({
+  stat: z.string(),
+  beyond: z.number().optional(),
+  every: z.number().positive().optional(),
+  points: z.number(),
+});
+
+export type BonusRepeat = z.infer<typeof BonusRepeatSchema>;
+
 /**
  * Bonus or penalty rule
+ *
+ * Awards exactly one of: flat `points`, the points of the highest tier reached
+ * on `tiers.stat`, or `repeat` points per increment. The conditions must hold
+ * either way (an empty AND always holds). Without a `scope` the bonus scores
+ * every section that knows one of its stats. Of the bonuses sharing a `group`,
+ * only the first (in ruleset order) that fires on a line is awarded.
  */
 export const BonusRuleSchema = z.object({
   name: z.string(),
-  conditions: z.array(BonusConditionSchema),
-  logic: z.enum(['AND', 'OR']),
-  points: z.number(),
+  scope: z.enum(['batting', 'pitching', 'fielding']).optional(),
+  conditions: z.array(BonusConditionSchema).default([]),
+  logic: z.enum(['AND', 'OR']).default('AND'),
+  points: z.number().optional(),
+  tiers: z
+    .object({
+      stat: z.string(),
+      levels: z.array(BonusTierSchema).min(1),
+    })
+    .optional(),
+  repeat: BonusRepeatSchema.optional(),
+  group: z.string().optional(),
 });
 
 export type BonusRule = z.infer<typeof BonusRuleSchema>;
 
 /**
- * Complete fantasy ruleset
+ * How a stat type's game scores are rounded and bounded
+ *
+ * `rounding` applies to every breakdown entry and the total (default hundredths).
+ * `cap` and `floor` bound the total of each scored row (a player's game).
+ */
+export const ScoringPolicySchema = z.object({
+  cap: z.number().optional(),
+  floor: z.number().optional(),
+  rounding: z.enum(['whole', 'tenths', 'hundredths']).optional(),
+});
+
+export type ScoringPolicy = z.infer<typeof ScoringPolicySchema>;
+
+/**
+ * Complete fantasy ruleset (structure only, no stat catalog checks)
  */
-export const FantasyRulesetSchema = z.object({
-  id: z.string(),
+export const FantasyRulesetShapeSchema = z.object({
+  id: z.string().regex(/^[^@]+$/, 'Ruleset id must be non-empty and must not contain "@"'),
+  /** Set when loaded from the database; ignored when saving (each save creates a new version) */
+  version: z.number().int().positive().optional(),
   name: z.string(),
   description: z.string().optional(),
   batting: z.array(ScoringRuleSchema),
   pitching: z.array(ScoringRuleSchema),
+  /** Scored per position played; omit for leagues without defensive scoring */
+  fielding: z.array(ScoringRuleSchema).optional(),
   bonuses: z.array(BonusRuleSchema).optional(),
+  /** Divide park-sensitive stats by the park factors of the game's site (see PARK_ADJUSTED_STATS) */
+  parkAdjusted: z.boolean().optional(),
+  /** Rounding, caps and floors per stat type */
+  policies: z
+    .object({
+      batting: ScoringPolicySchema.optional(),
+      pitching: ScoringPolicySchema.optional(),
+      fielding: ScoringPolicySchema.optional(),
+    })
+    .optional(),
 });
 
-export type FantasyRuleset = z.infer<typeof FantasyRulesetSchema>;
+/**
+ * Complete fantasy ruleset, rejecting unknown stats and invalid expressions
+ */
+export const FantasyRulesetSchema = FantasyRulesetShapeSchema.superRefine((ruleset, ctx) => {
+  for (const issue of validateRuleset(ruleset)) {
+    if (issue.severity !== 'error') continue;
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: issue.message, path: issue.path });
+  }
+});
+
+export type FantasyRuleset = z.infer<typeof FantasyRulesetShapeSchema>;
 
 /**
  * Breakdown of points for a single stat
@@ -76,7 +196,29 @@ export interface FantasyRulesetRow {
   description: string | null;
   batting_rules: ScoringRule[];
   pitching_rules: ScoringRule[];
+  fielding_rules: ScoringRule[] | null;
+  bonus_rules: BonusRule[] | null;
+  park_adjusted: boolean;
+  scoring_policies: FantasyRuleset['policies'] | null;
+  current_version: number;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Database representation of an immutable ruleset version
+ */
+export interface FantasyRulesetVersionRow {
+  ruleset_id: string;
+  version: number;
+  name: string;
+  description: string | null;
+  batting_rules: ScoringRule[];
+  pitching_rules: ScoringRule[];
+  fielding_rules: ScoringRule[] | null;
   bonus_rules: BonusRule[] | null;
+  park_adjusted: boolean;
+  scoring_policies: FantasyRuleset['policies'] | null;
   created_at: Date;
 }
 
@@ -86,9 +228,10 @@ export interface FantasyRulesetRow {
 export interface FantasyGamePointsRow {
   id: number;
   ruleset_id: string;
+  ruleset_version: number;
   game_id: string;
   player_id: string;
-  stat_type: 'batting' | 'pitching';
+  stat_type: 'batting' | 'pitching' | 'fielding';
   total_points: number;
   breakdown: PointBreakdown[];
   game_date: Date;
@@ -1,3 +1,4 @@
 export * from './retrosplits.js';
 export * from './database.js';
 export * from './fantasy.js';
+export * from './roto.js';
@@ -83,10 +83,45 @@ export interface RawPlayingRow {
   P_PITCH: string;
   P_STRIKE: string;
 
-  // Allow additional fielding columns (F_*) we don't use
+  // Fielding stats (F_<position>_ prefix, e.g. F_C_PO), read via toFieldingRows
   [key: string]: string;
 }
 
+/**
+ * Fielding positions in the retrosplits F_* columns, in scorer's order (P = 1 ... RF = 9)
+ */
+export const FIELDING_POSITIONS = ['P', 'C', '1B', '2B', '3B', 'SS', 'LF', 'CF', 'RF'] as const;
+
+export type FieldingPosition = (typeof FIELDING_POSITIONS)[number];
+
+/**
+ * One player's fielding line at one position, as staged
+ */
+export interface RawFieldingRow {
+  gid: string;
+  id: string; // player_id
+  team: string;
+  date: string;
+  number: string;
+  site: string;
+  vishome: string;
+  opp: string;
+  gametype: string;
+  pos: FieldingPosition;
+  f_g: string;
+  f_gs: string;
+  f_out: string;
+  f_tc: string;
+  f_po: string;
+  f_a: string;
+  f_e: string;
+  f_dp: string;
+  f_tp: string;
+  f_pb: string; // Catchers only
+  f_xi: string; // Catchers only
+  f_seq: string;
+}
+
 /**
  * Transform a RawPlayingRow to the internal batting format
  */
@@ -119,6 +154,9 @@ export function toBattingRow(row: RawPlayingRow): RawBattingRow {
     b_gdp: row.B_GDP,
     b_xi: row.B_XI,
     b_roe: '', // Not available in retrosplits playing file
+    b_tb: row.B_TB,
+    b_hr4: row.B_HR4,
+    b_gw: row.B_GW,
     dh: row.B_G_DH,
     ph: row.B_G_PH,
     pr: row.B_G_PR,
@@ -173,6 +211,13 @@ export function toPitchingRow(row: RawPlayingRow): RawPitchingRow {
     gs: row.P_GS,
     gf: row.P_GF,
     cg: row.P_CG,
+    sho: row.P_SHO,
+    p_ir: row.P_IR,
+    p_irs: row.P_IRS,
+    p_go: row.P_GO,
+    p_ao: row.P_AO,
+    p_pitch: row.P_PITCH,
+    p_strike: row.P_STRIKE,
     win: '', // Not directly available per-player
     loss: '',
     tie: '',
@@ -184,6 +229,45 @@ export function toPitchingRow(row: RawPlayingRow): RawPitchingRow {
   };
 }
 
+/**
+ * Transform a RawPlayingRow to one fielding row per position played (F_<pos>_G > 0)
+ */
+export function toFieldingRows(row: RawPlayingRow): RawFieldingRow[] {
+  const rows: RawFieldingRow[] = [];
+
+  for (const pos of FIELDING_POSITIONS) {
+    const games = parseInt(row[`F_${pos}_G`] ?? '', 10);
+    if (isNaN(games) || games <= 0) continue;
+
+    rows.push({
+      gid: row['game.key'],
+      id: row['person.key'],
+      team: row['team.key'],
+      date: row['game.date'],
+      number: row['game.number'],
+      site: row['site.key'],
+      vishome: row['team.alignment'] === '1' ? 'H' : 'V',
+      opp: row['opponent.key'],
+      gametype: row['season.phase'],
+      pos,
+      f_g: row[`F_${pos}_G`] ?? '',
+      f_gs: row[`F_${pos}_GS`] ?? '',
+      f_out: row[`F_${pos}_OUT`] ?? '',
+      f_tc: row[`F_${pos}_TC`] ?? '',
+      f_po: row[`F_${pos}_PO`] ?? '',
+      f_a: row[`F_${pos}_A`] ?? '',
+      f_e: row[`F_${pos}_E`] ?? '',
+      f_dp: row[`F_${pos}_DP`] ?? '',
+      f_tp: row[`F_${pos}_TP`] ?? '',
+      f_pb: row[`F_${pos}_PB`] ?? '',
+      f_xi: row[`F_${pos}_XI`] ?? '',
+      f_seq: row.seq,
+    });
+  }
+
+  return rows;
+}
+
 /**
  * Check if a row has batting stats (B_G > 0)
  */
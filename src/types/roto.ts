@@ -0,0 +1,72 @@
+import { z } from 'zod';
+import { DEFAULT_ROTO_CATEGORIES, validateLeague } from '../scoring/roto.js';
+
+/**
+ * Rotisserie category computed from a season of batting or pitching lines
+ *
+ * A counting category totals `sum` over every line; a rate category divides
+ * that total by the total of `per` (e.g. ERA is `earned_runs * 9` per
+ * `innings_pitched`). `order` is "asc" for categories where lower is better.
+ * Rate values tie when equal at `decimals`.
+ */
+export const RotoCategorySchema = z.object({
+  name: z.string().min(1),
+  section: z.enum(['batting', 'pitching']),
+  sum: z.string(),
+  per: z.string().optional(),
+  order: z.enum(['desc', 'asc']).default('desc'),
+  decimals: z.number().int().min(0).max(6).optional(),
+});
+
+export type RotoCategory = z.infer<typeof RotoCategorySchema>;
+
+/**
+ * Fantasy team of a roto league and the players on its roster
+ */
+export const RotoTeamSchema = z.object({
+  id: z.string().min(1).max(50),
+  name: z.string(),
+  players: z.array(z.string()).default([]),
+});
+
+export type RotoTeam = z.infer<typeof RotoTeamSchema>;
+
+/**
+ * Roto league for one season (structure only, no stat catalog checks)
+ *
+ * Categories default to the classic 5x5 (see DEFAULT_ROTO_CATEGORIES).
+ * `tiebreakers` lists categories whose points break ties in the overall standings,
+ * before head-to-head category wins between the tied teams.
+ */
+export const RotoLeagueShapeSchema = z.object({
+  id: z.string().min(1).max(50),
+  name: z.string(),
+  season: z.number().int().min(1871),
+  categories: z.array(RotoCategorySchema).min(1).default(DEFAULT_ROTO_CATEGORIES),
+  tiebreakers: z.array(z.string()).default([]),
+  teams: z.array(RotoTeamSchema).default([]),
+});
+
+/**
+ * Roto league, rejecting unknown stats, invalid expressions and shared players
+ */
+export const RotoLeagueSchema = RotoLeagueShapeSchema.superRefine((league, ctx) => {
+  for (const issue of validateLeague(league)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: issue.message, path: issue.path });
+  }
+});
+
+export type RotoLeague = z.infer<typeof RotoLeagueShapeSchema>;
+
+/**
+ * Database representation of a roto league
+ */
+export interface RotoLeagueRow {
+  league_id: string;
+  name: string;
+  season: number;
+  categories: RotoCategory[];
+  tiebreakers: string[];
+  created_at: Date;
+  updated_at: Date;
+}
@@ -12,20 +12,56 @@
  * - TEST_DB_NAME (default: mlb_fantasy_test)
  */
 
-import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
 import { join, dirname } from 'path';
+import { mkdtemp, readFile, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
 import { fileURLToPath } from 'url';
 import postgres from 'postgres';
-import type { Sql } from '../../src/db/client.js';
+import { transaction, type Sql } from '../../src/db/client.js';
 import { runMigrations } from '../../src/db/migrations/runner.js';
-import { loadBattingToStaging, loadPitchingToStaging } from '../../src/ingest/staging.js';
+import {
+  loadBattingToStaging,
+  loadPitchingToStaging,
+  createIngestionBatch,
+  updateIngestionBatch,
+  hasCompletedIngestion,
+} from '../../src/ingest/staging.js';
 import { transformBattingData, transformPitchingData } from '../../src/ingest/transformer.js';
 import { calculateBattingPoints, calculatePitchingPoints } from '../../src/scoring/calculator.js';
-import { seedStandardRuleset, scoreGame } from '../../src/scoring/index.js';
+import { seedStandardRuleset, scoreGame, scoreGamesForDateRange } from '../../src/scoring/index.js';
 import { getBatterStatsByGame, getPitcherStatsByGame } from '../../src/db/queries/stats.js';
-import { getFantasyPointsByGame, getRuleset } from '../../src/db/queries/fantasy.js';
+import {
+  getFantasyPointsByGame,
+  getFantasyLeaderboard,
+  getRuleset,
+} from '../../src/db/queries/fantasy.js';
+import { getWhatIfLeaderboard } from '../../src/db/queries/what-if.js';
+import { getPlateAppearancesByGame } from '../../src/db/queries/events.js';
+import { ingestEventFiles, ingestGameLogs, ingestYear } from '../../src/ingest/index.js';
+import { syncPlayingFile } from '../../src/ingest/downloader.js';
+import { hashFile } from '../../src/ingest/manifest.js';
+import { getGame } from '../../src/db/queries/games.js';
+import { getPlayerByExternalId, updatePlayerAges } from '../../src/db/queries/players.js';
+import { replaceTeamNames, getTeamName } from '../../src/db/queries/teams.js';
+import { loadBundledTeamNames, toFranchises } from '../../src/ingest/teams.js';
+import { upsertParks, computeParkFactors, getParkFactors } from '../../src/db/queries/parks.js';
+import { loadBundledParks } from '../../src/ingest/parks.js';
+import { runDataQualityChecks, getDataQualityIssues } from '../../src/db/queries/data-quality.js';
+import { POSTSEASON_GAME_TYPES } from '../../src/ingest/game-types.js';
+import {
+  getIngestionBatches,
+  rollbackIngestedYear,
+  purgeOrphanedStaging,
+} from '../../src/db/queries/ingestion.js';
 import type { FantasyRuleset } from '../../src/types/fantasy.js';
 
+// Upstream files are served from fixtures instead of Retrosheet
+vi.mock('../../src/ingest/downloader.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../src/ingest/downloader.js')>()),
+  syncPlayingFile: vi.fn(),
+}));
+
 const __dirname = dirname(fileURLToPath(import.meta.url));
 const fixturesDir = join(__dirname, '../fixtures');
 
@@ -83,11 +119,17 @@ describe('Integration: Full Pipeline', () => {
 
     // Clean up stats tables between tests
     await sql`DELETE FROM fantasy_game_points`;
+    await sql`DELETE FROM data_quality_issues`;
     await sql`DELETE FROM batter_game_stats`;
     await sql`DELETE FROM pitcher_game_stats`;
+    await sql`DELETE FROM fielder_game_stats`;
+    await sql`DELETE FROM plate_appearance_events`;
     await sql`DELETE FROM games`;
     await sql`DELETE FROM players`;
+    await sql`DELETE FROM team_names`;
+    // teams.franchise_id references franchises
     await sql`DELETE FROM teams`;
+    await sql`DELETE FROM franchises`;
     await sql`DELETE FROM staging_batting`;
     await sql`DELETE FROM staging_pitching`;
   });
@@ -280,4 +322,476 @@ describe('Integration: Full Pipeline', () => {
       expect(parseFloat(String(sandovalPoints!.total_points))).toBe(11.5);
     });
   });
+
+  describe('What-if Scoring', () => {
+    it('should match stored points without writing any', async () => {
+      if (!dbAvailable) {
+        console.warn('Skipping: Test database not available');
+        return;
+      }
+
+      const battingStaging = await loadBattingToStaging(
+        sql,
+        join(fixturesDir, 'batting-sample.csv'),
+        'batting-sample.csv'
+      );
+      await transformBattingData(sql, battingStaging.batchId);
+
+      const pitchingStaging = await loadPitchingToStaging(
+        sql,
+        join(fixturesDir, 'pitching-sample.csv'),
+        'pitching-sample.csv'
+      );
+      await transformPitchingData(sql, pitchingStaging.batchId);
+
+      // Nothing has been scored yet, and what-if scoring must not change that
+      const whatIf = await getWhatIfLeaderboard(sql, standardRuleset, { year: 2023, limit: 100 });
+      const [pointCount] = await sql<{ count: string }[]>`SELECT COUNT(*) as count FROM fantasy_game_points`;
+      expect(parseInt(pointCount!.count, 10)).toBe(0);
+
+      await scoreGamesForDateRange(sql, standardRuleset, '2023-04-01', '2023-04-01');
+      const stored = await getFantasyLeaderboard(sql, 'standard', { year: 2023, limit: 100 });
+
+      const byPlayer = (entries: { player_id: string; total_points: string }[]) =>
+        Object.fromEntries(entries.map((e) => [e.player_id, parseFloat(e.total_points)]));
+      expect(byPlayer(whatIf)).toEqual(byPlayer(stored));
+    });
+  });
+
+  describe('Event File Pipeline', () => {
+    it('should ingest plate appearances from event files', async () => {
+      if (!dbAvailable) {
+        console.warn('Skipping: Test database not available');
+        return;
+      }
+
+      const eventsDir = join(fixturesDir, 'events');
+      const [result, ...others] = await ingestEventFiles(sql, eventsDir, { force: true });
+      expect(others).toHaveLength(0); // the roster file is ignored
+      expect(result).toMatchObject({ file: '2023ANA.EVA', year: 2023, games: 2 });
+
+      const events = await getPlateAppearancesByGame(sql, 'ANA202304010');
+      expect(events).toHaveLength(11);
+      expect(events[0]).toMatchObject({ batter_id: 'kempt001', event_type: 'single' });
+
+      const [game] = await sql<{ has_pbp: boolean }[]>`
+        SELECT has_pbp FROM games WHERE game_id = 'ANA202304020'
+      `;
+      expect(game!.has_pbp).toBe(true);
+
+      // Already ingested: skipped unless forced, and forcing replaces rather than duplicates
+      const [skipped] = await ingestEventFiles(sql, eventsDir);
+      expect(skipped!.skipped).toBe(true);
+      await ingestEventFiles(sql, eventsDir, { force: true });
+      expect(await getPlateAppearancesByGame(sql, 'ANA202304010')).toHaveLength(11);
+    });
+  });
+
+  describe('Game Log Pipeline', () => {
+    it('should add results to games from game logs', async () => {
+      if (!dbAvailable) {
+        console.warn('Skipping: Test database not available');
+        return;
+      }
+
+      const gameLogsDir = join(fixturesDir, 'gamelogs');
+      const [result] = await ingestGameLogs(sql, gameLogsDir, { force: true });
+      expect(result).toMatchObject({ file: 'gl2023.txt', games: 3 });
+
+      const game = await getGame(sql, 'BOS202303300');
+      expect(game).toMatchObject({
+        away_score: 10,
+        home_score: 9,
+        attendance: 36049,
+        home_line_score: '01000080x',
+        winning_pitcher_id: 'bakeb001',
+        saving_pitcher_id: 'bautf001',
+      });
+      expect(game!.umpires).toHaveLength(4);
+
+      const [skipped] = await ingestGameLogs(sql, gameLogsDir);
+      expect(skipped!.skipped).toBe(true);
+    });
+  });
+
+  describe('Player Register', () => {
+    it('should look up players by external ID and store ages on stat lines', async () => {
+      if (!dbAvailable) {
+        console.warn('Skipping: Test database not available');
+        return;
+      }
+
+      const staging = await loadBattingToStaging(
+        sql,
+        join(fixturesDir, 'batting-sample.csv'),
+        'batting-sample.csv'
+      );
+      await transformBattingData(sql, staging.batchId);
+
+      await sql`
+        UPDATE players SET birth_date = '1991-08-07', key_mlbam = 545361
+        WHERE player_id = 'troutmi01'
+      `;
+
+      const player = await getPlayerByExternalId(sql, 'mlbam', '545361');
+      expect(player!.player_id).toBe('troutmi01');
+
+      expect(await updatePlayerAges(sql, 2023)).toBeGreaterThan(0);
+      const [line] = await sql<{ player_age: number }[]>`
+        SELECT player_age FROM batter_game_stats
+        WHERE player_id = 'troutmi01' AND game_id = 'ANA202304010'
+      `;
+      expect(line!.player_age).toBe(31);
+
+      // Ages already stored aren't rewritten
+      expect(await updatePlayerAges(sql, 2023)).toBe(0);
+    });
+  });
+
+  describe('Franchises', () => {
+    it('should map team codes to franchises and filter leaderboards by franchise', async () => {
+      if (!dbAvailable) {
+        console.warn('Skipping: Test database not available');
+        return;
+      }
+
+      const names = await loadBundledTeamNames();
+      await replaceTeamNames(sql, toFranchises(names), names);
+
+      const expos = await getTeamName(sql, 'MON', 1995);
+      expect(expos).toMatchObject({ franchise_id: 'WAS', city: 'Montreal', nickname: 'Expos' });
+
+      const staging = await loadBattingToStaging(
+        sql,
+        join(fixturesDir, 'batting-sample.csv'),
+        'batting-sample.csv'
+      );
+      await transformBattingData(sql, staging.batchId);
+      await scoreGamesForDateRange(sql, standardRuleset, '2023-04-01', '2023-04-01');
+
+      const angels = await getFantasyLeaderboard(sql, 'standard', { franchise: 'ANA', limit: 100 });
+      const ids = angels.map((e) => e.player_id);
+      expect(ids).toContain('troutmi01');
+
+      const athletics = await getFantasyLeaderboard(sql, 'standard', { franchise: 'OAK', limit: 100 });
+      expect(athletics.map((e) => e.player_id)).not.toContain('troutmi01');
+    });
+  });
+
+  describe('Park Factors', () => {
+    it('should compute factors per site and season from batting lines', async () => {
+      if (!dbAvailable) {
+        console.warn('Skipping: Test database not available');
+        return;
+      }
+
+      await upsertParks(sql, await loadBundledParks());
+
+      const staging = await loadBattingToStaging(
+        sql,
+        join(fixturesDir, 'batting-sample.csv'),
+        'batting-sample.csv'
+      );
+      await transformBattingData(sql, staging.batchId);
+
+      // Both fixture games were played at ANA02, so it is the season average
+      expect(await computeParkFactors(sql, 2023, { minGames: 1 })).toBe(1);
+      const [factor] = await getParkFactors(sql, 2023);
+      expect(factor).toMatchObject({ park_id: 'ANA02', games: 2, run_factor: 1, hr_factor: 1 });
+
+      // Sites below the minimum lose their factors
+      expect(await computeParkFactors(sql, 2023, { minGames: 3 })).toBe(0);
+      expect(await getParkFactors(sql, 2023)).toEqual([]);
+    });
+  });
+
+  describe('Data Quality', () => {
+    it('should record batting lines that disagree with the opposing pitchers', async () => {
+      if (!dbAvailable) {
+        console.warn('Skipping: Test database not available');
+        return;
+      }
+
+      const battingStaging = await loadBattingToStaging(
+        sql,
+        join(fixturesDir, 'batting-sample.csv'),
+        'batting-sample.csv'
+      );
+      await transformBattingData(sql, battingStaging.batchId);
+      const pitchingStaging = await loadPitchingToStaging(
+        sql,
+        join(fixturesDir, 'pitching-sample.csv'),
+        'pitching-sample.csv'
+      );
+      await transformPitchingData(sql, pitchingStaging.batchId);
+
+      // The fixtures hold one team's batters and pitchers per game, so neither side reconciles
+      const summary = await runDataQualityChecks(sql, 2023);
+      expect(summary).toEqual({
+        season: 2023,
+        gamesChecked: 2,
+        gamesWithIssues: 2,
+        issues: 16,
+        byCheck: { hits: 4, walks: 4, home_runs: 2, runs: 4, team_count: 2 },
+      });
+
+      const hits = await getDataQualityIssues(sql, 2023, { check: 'hits' });
+      expect(hits).toContainEqual({
+        season: 2023,
+        game_id: 'ANA202304010',
+        check_name: 'hits',
+        team_id: 'OAK',
+        expected: 0,
+        actual: 5,
+      });
+
+      // Re-running replaces the season's issues
+      await runDataQualityChecks(sql, 2023);
+      const [{ count }] = await sql<[{ count: number }]>`SELECT COUNT(*)::int as count FROM data_quality_issues`;
+      expect(count).toBe(16);
+    });
+  });
+
+  describe('Game Types', () => {
+    it('should normalize the season phase and filter leaderboards by game type', async () => {
+      if (!dbAvailable) {
+        console.warn('Skipping: Test database not available');
+        return;
+      }
+
+      const staging = await loadBattingToStaging(
+        sql,
+        join(fixturesDir, 'batting-sample.csv'),
+        'batting-sample.csv'
+      );
+      await transformBattingData(sql, staging.batchId);
+
+      const game = await getGame(sql, 'ANA202304010');
+      expect(game?.game_type).toBe('REG');
+
+      // Only the postseason game is scored
+      await sql`UPDATE games SET game_type = 'WS' WHERE game_id = 'OAK202304010'`;
+      const scored = await scoreGamesForDateRange(sql, standardRuleset, '2023-04-01', '2023-04-01', {
+        gameTypes: POSTSEASON_GAME_TYPES,
+      });
+      expect(scored.gamesScored).toBe(1);
+
+      await scoreGamesForDateRange(sql, standardRuleset, '2023-04-01', '2023-04-01');
+
+      const postseason = await getFantasyLeaderboard(sql, 'standard', {
+        gameTypes: POSTSEASON_GAME_TYPES,
+        limit: 100,
+      });
+      expect(postseason.map((e) => e.player_id)).toContain('langlr01');
+      expect(postseason.map((e) => e.player_id)).not.toContain('troutmi01');
+
+      const regular = await getFantasyLeaderboard(sql, 'standard', { gameTypes: ['REG'], limit: 100 });
+      expect(regular.map((e) => e.player_id)).toContain('troutmi01');
+      expect(regular.map((e) => e.player_id)).not.toContain('langlr01');
+
+      const whatIf = await getWhatIfLeaderboard(sql, standardRuleset, {
+        gameTypes: POSTSEASON_GAME_TYPES,
+        limit: 100,
+      });
+      expect(whatIf.map((e) => e.player_id).sort()).toEqual(postseason.map((e) => e.player_id).sort());
+    });
+
+    it('should map stored spelled-out game types on migration', async () => {
+      if (!dbAvailable) {
+        console.warn('Skipping: Test database not available');
+        return;
+      }
+
+      const staging = await loadBattingToStaging(
+        sql,
+        join(fixturesDir, 'gametypes-sample.csv'),
+        'gametypes-sample.csv'
+      );
+      await transformBattingData(sql, staging.batchId);
+      // As left by the original 016, which upper-cased spellings it did not know
+      // (game_type is varchar(10), so worldseries and divisionseries never fit)
+      await sql`UPDATE games SET game_type = 'REGULAR' WHERE game_id = 'ANA202304050'`;
+      await sql`UPDATE games SET game_type = 'All-Star' WHERE game_id = 'ANA202307110'`;
+      await sql`UPDATE games SET game_type = 'WILDCARD' WHERE game_id = 'ANA202310030'`;
+      await sql`UPDATE games SET game_type = 'EXHIBITION' WHERE game_id = 'ANA202311050'`;
+
+      const migration = await readFile(
+        join(__dirname, '../../src/db/migrations/020_game_type_spellings.sql'),
+        'utf-8'
+      );
+      await sql.unsafe(migration);
+
+      const games = await sql<{ game_id: string; game_type: string | null }[]>`
+        SELECT game_id, game_type FROM games
+        WHERE game_id IN ('ANA202304050', 'ANA202307110', 'ANA202310030', 'ANA202311050')
+        ORDER BY game_id
+      `;
+      expect(games.map((g) => g.game_type)).toEqual(['REG', 'ASG', 'WC', null]);
+    });
+
+    it("should map Retrosheet's game types and report the ones it can't", async () => {
+      if (!dbAvailable) {
+        console.warn('Skipping: Test database not available');
+        return;
+      }
+
+      const staging = await loadBattingToStaging(
+        sql,
+        join(fixturesDir, 'gametypes-sample.csv'),
+        'gametypes-sample.csv'
+      );
+      const result = await transformBattingData(sql, staging.batchId);
+
+      expect(result.gamesCreated).toBe(9);
+      expect(result.unknownGameTypes).toEqual({ preseason: 1, exhibition: 1 });
+
+      const games = await sql<{ game_id: string; game_type: string | null }[]>`
+        SELECT game_id, game_type FROM games ORDER BY game_id
+      `;
+      expect(Object.fromEntries(games.map((g) => [g.game_id, g.game_type]))).toEqual({
+        ANA202303010: null,
+        ANA202304050: 'REG',
+        ANA202307110: 'ASG',
+        ANA202310010: 'REG',
+        ANA202310030: 'WC',
+        ANA202310070: 'DS',
+        ANA202310160: 'LCS',
+        ANA202310270: 'WS',
+        ANA202311050: null,
+      });
+    });
+  });
+
+  describe('Ingestion Batches', () => {
+    it('should roll back a year with its stats and fantasy points', async () => {
+      if (!dbAvailable) {
+        console.warn('Skipping: Test database not available');
+        return;
+      }
+
+      const batchId = await createIngestionBatch(sql, 'batting', 2023, 'batting-sample.csv');
+      const staging = await loadBattingToStaging(
+        sql,
+        join(fixturesDir, 'batting-sample.csv'),
+        'batting-sample.csv'
+      );
+      const transform = await transformBattingData(sql, staging.batchId);
+      await updateIngestionBatch(sql, batchId, { status: 'completed', processedRows: transform.processedRows });
+      await scoreGamesForDateRange(sql, standardRuleset, '2023-04-01', '2023-04-01');
+
+      const [batch] = await getIngestionBatches(sql, { years: [2023], status: 'completed', limit: 1 });
+      expect(batch?.batch_id).toBe(batchId);
+      expect(batch?.duration_seconds).toBeGreaterThanOrEqual(0);
+
+      const [{ lines }] = await sql<[{ lines: number }]>`SELECT COUNT(*)::int as lines FROM batter_game_stats`;
+      const result = await transaction(sql, (tx) => rollbackIngestedYear(tx, 2023));
+      expect(result.games).toBe(2);
+      expect(result.battingLines).toBe(lines);
+      expect(result.fantasyPoints).toBeGreaterThan(0);
+
+      const [{ count }] = await sql<[{ count: number }]>`SELECT COUNT(*)::int as count FROM games`;
+      expect(count).toBe(0);
+      expect(await hasCompletedIngestion(sql, 'batting', 2023)).toBe(false);
+    });
+
+    it('should replace a year whose file changed upstream', async () => {
+      if (!dbAvailable) {
+        console.warn('Skipping: Test database not available');
+        return;
+      }
+
+      await sql`DELETE FROM ingestion_batches WHERE year = 2023`;
+      const dir = await mkdtemp(join(tmpdir(), 'playing-'));
+      const original = join(dir, 'original.csv');
+      const corrected = join(dir, 'corrected.csv');
+      const lines = (await readFile(join(fixturesDir, 'playing-sample.csv'), 'utf-8')).split('\n');
+      await writeFile(original, lines.join('\n'));
+      // Retrosheet dropped a line in the corrected file
+      await writeFile(corrected, lines.filter((line) => !line.includes('troutmi01')).join('\n'));
+
+      await ingestYear(sql, 2023, { localFile: original });
+      await scoreGamesForDateRange(sql, standardRuleset, '2023-04-01', '2023-04-01');
+      const before = await sql`SELECT 1 FROM fantasy_game_points WHERE player_id = 'troutmi01'`;
+      expect(before).toHaveLength(1);
+
+      const entry = { ...(await hashFile(corrected)), url: '', etag: null, lastModified: null };
+      vi.mocked(syncPlayingFile).mockResolvedValue({
+        path: corrected,
+        entry: { ...entry, downloadedAt: new Date().toISOString() },
+        changed: true,
+      });
+      const result = await ingestYear(sql, 2023);
+      expect(result.sourceChanged).toBe(true);
+
+      const trout = await sql`SELECT 1 FROM batter_game_stats WHERE player_id = 'troutmi01'`;
+      expect(trout).toHaveLength(0);
+      const points = await sql`SELECT 1 FROM fantasy_game_points WHERE player_id = 'troutmi01'`;
+      expect(points).toHaveLength(0);
+      const batches = await getIngestionBatches(sql, { years: [2023], status: 'completed' });
+      expect(batches.every((b) => b.source_sha256 === entry.sha256)).toBe(true);
+    });
+
+    it('should keep a year whose changed file fails to load', async () => {
+      if (!dbAvailable) {
+        console.warn('Skipping: Test database not available');
+        return;
+      }
+
+      await sql`DELETE FROM ingestion_batches WHERE year = 2023`;
+      await ingestYear(sql, 2023, { localFile: join(fixturesDir, 'playing-sample.csv') });
+      const ingested = await getIngestionBatches(sql, { years: [2023], status: 'completed' });
+
+      // The download went missing after it was hashed
+      const missing = join(await mkdtemp(join(tmpdir(), 'playing-')), 'missing.csv');
+      vi.mocked(syncPlayingFile).mockResolvedValue({
+        path: missing,
+        entry: {
+          url: '',
+          etag: null,
+          lastModified: null,
+          size: 1,
+          sha256: 'changed',
+          downloadedAt: new Date().toISOString(),
+        },
+        changed: true,
+      });
+      const result = await ingestYear(sql, 2023);
+      expect(result.error).toBeDefined();
+
+      const trout = await sql`SELECT 1 FROM batter_game_stats WHERE player_id = 'troutmi01'`;
+      expect(trout.length).toBeGreaterThan(0);
+      const batches = await getIngestionBatches(sql, { years: [2023], status: 'completed' });
+      expect(batches.map((b) => b.batch_id).sort()).toEqual(ingested.map((b) => b.batch_id).sort());
+    });
+
+    it('should purge staging rows no running ingestion owns', async () => {
+      if (!dbAvailable) {
+        console.warn('Skipping: Test database not available');
+        return;
+      }
+
+      const running = await createIngestionBatch(sql, 'pitching', 2023, 'pitching-sample.csv');
+      const orphaned = await loadBattingToStaging(
+        sql,
+        join(fixturesDir, 'batting-sample.csv'),
+        'batting-sample.csv'
+      );
+      const owned = await loadPitchingToStaging(
+        sql,
+        join(fixturesDir, 'pitching-sample.csv'),
+        'pitching-sample.csv'
+      );
+      await sql`UPDATE staging_pitching SET batch_id = ${running}::uuid WHERE batch_id = ${owned.batchId}::uuid`;
+
+      // The batting rows were staged under a batch id no ingestion_batches row has
+      const result = await purgeOrphanedStaging(sql);
+      expect(result.battingRows).toBe(orphaned.totalRows);
+      expect(result.pitchingRows).toBe(0);
+
+      // A batch in progress for too long is abandoned and its rows purged too
+      const stale = await purgeOrphanedStaging(sql, { staleHours: 0 });
+      expect(stale.abandonedBatches).toBeGreaterThanOrEqual(1);
+      expect(stale.pitchingRows).toBe(owned.totalRows);
+    });
+  });
 });
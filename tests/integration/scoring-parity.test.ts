@@ -0,0 +1,345 @@
+/**
+ * Parity tests for the set-based SQL scoring engine
+ *
+ * Scores the fixtures with both engines and checks they store identical
+ * total_points and breakdown JSON. Requires the test database (see pipeline.test.ts).
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import postgres from 'postgres';
+import type { Sql } from '../../src/db/client.js';
+import { runMigrations } from '../../src/db/migrations/runner.js';
+import { loadBattingToStaging, loadPitchingToStaging } from '../../src/ingest/staging.js';
+import { transformBattingData, transformPitchingData } from '../../src/ingest/transformer.js';
+import { loadPresetRuleset, scoreGamesForDateRange } from '../../src/scoring/index.js';
+import { scoreDateRangeSetBased } from '../../src/scoring/sql-engine.js';
+import { createScoringJobs, runScoringJob } from '../../src/scoring/jobs.js';
+import { upsertRuleset } from '../../src/db/queries/fantasy.js';
+import type { FantasyRuleset, PointBreakdown } from '../../src/types/fantasy.js';
+import type { ScoringJob } from '../../src/types/database.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const fixturesDir = join(__dirname, '../fixtures');
+
+const testDbConfig = {
+  host: process.env.TEST_DB_HOST ?? 'localhost',
+  port: parseInt(process.env.TEST_DB_PORT ?? '5433', 10),
+  user: process.env.TEST_DB_USER ?? 'mlb_test',
+  password: process.env.TEST_DB_PASSWORD ?? 'mlb_test_password',
+  database: process.env.TEST_DB_NAME ?? 'mlb_fantasy_test',
+};
+
+const FIXTURE_DATE = '2023-04-01';
+
+// Exercises every rule feature: expressions, per-unit rules, booleans,
+// derived stats in bonuses, OR logic and labels that need quoting
+const kitchenSink: FantasyRuleset = {
+  id: 'parity-kitchen-sink',
+  name: 'Parity Kitchen Sink',
+  batting: [
+    { stat: 'singles', points: 1 },
+    { stat: 'total_bases', points: 0.25 },
+    { stat: 'home_runs', points: 4.1 },
+    { stat: 'power', expr: 'doubles + 2 * triples + 3 * home_runs', points: 0.3 },
+    { stat: 'obp_ish', expr: 'round(times_on_base / max(plate_appearances, 1) * 10)', points: 0.7 },
+    { stat: 'odd_hits', expr: 'hits % 2 == 1 || !walks', points: 1 },
+    { stat: 'strikeouts', points: -0.33, perUnit: 2 },
+    {
+      stat: 'runs',
+      points: 1.5,
+      when: { is_home: false },
+      multipliers: [{ when: { team_won: true }, factor: 1.25 }],
+    },
+  ],
+  pitching: [
+    { stat: 'outs_pitched', points: 1, perUnit: 3 },
+    { stat: 'won', points: 5 },
+    { stat: 'saved', points: 5 },
+    { stat: 'quality_start', points: 3 },
+    { stat: 'k_minus_bb', expr: 'min(strikeouts - walks, 5) / 3', points: 1.5 },
+    { stat: 'earned_runs', points: -2 },
+    { stat: 'inherited_runners_stranded', points: 0.5 },
+    { stat: 'pitches', points: -0.1, perUnit: 10 },
+    {
+      stat: 'strikeouts',
+      points: 1,
+      when: { game_started: true },
+      multipliers: [{ when: { is_home: true }, factor: 0.9 }],
+    },
+    { stat: 'strikeouts', points: 2, when: { game_started: false } },
+  ],
+  bonuses: [
+    { name: "Slugger's Day", conditions: [{ stat: 'power', op: 'gte', value: 3 }], logic: 'AND', points: 2.5 },
+    {
+      name: 'Clean Inning',
+      conditions: [
+        { stat: 'hits_allowed', op: 'eq', value: 0 },
+        { stat: 'walks', op: 'lt', value: 1 },
+      ],
+      logic: 'OR',
+      points: 1,
+    },
+    {
+      name: 'Quality Start Bonus',
+      conditions: [{ stat: 'quality_start', op: 'eq', value: 1 }],
+      logic: 'AND',
+      points: 2,
+    },
+  ],
+  policies: {
+    batting: { floor: -0.5, rounding: 'tenths' },
+    pitching: { cap: 10 },
+  },
+};
+
+// Scores multi-position fielding lines, including a fielding-only bonus
+const defense: FantasyRuleset = {
+  id: 'parity-defense',
+  name: 'Parity Defense',
+  batting: [{ stat: 'hits', points: 1 }],
+  pitching: [],
+  fielding: [
+    { stat: 'putouts', points: 0.25 },
+    { stat: 'assists', points: 0.5 },
+    { stat: 'errors', points: -1.5 },
+    { stat: 'outs_played', points: 0.1, perUnit: 3 },
+    { stat: 'infield_dp', expr: 'at_infield * double_plays', points: 0.75 },
+  ],
+  bonuses: [
+    {
+      name: 'Clean Glove',
+      conditions: [
+        { stat: 'errorless', op: 'eq', value: 1 },
+        { stat: 'position_started', op: 'eq', value: 1 },
+      ],
+      logic: 'AND',
+      points: 1,
+    },
+  ],
+  policies: { fielding: { cap: 2, rounding: 'whole' } },
+};
+
+// The kitchen sink scored against park factors for the fixture site
+const parkAdjusted: FantasyRuleset = {
+  ...kitchenSink,
+  id: 'parity-park-adjusted',
+  name: 'Parity Park Adjusted',
+  parkAdjusted: true,
+};
+
+interface StoredPoints {
+  game_id: string;
+  player_id: string;
+  stat_type: string;
+  total_points: string;
+  breakdown: PointBreakdown[];
+}
+
+describe('Integration: SQL Scoring Engine Parity', () => {
+  let sql: Sql;
+  let dbAvailable = false;
+  const rulesets: FantasyRuleset[] = [];
+
+  async function getStoredPoints(ruleset: FantasyRuleset): Promise<StoredPoints[]> {
+    return [...await sql<StoredPoints[]>`
+      SELECT game_id, player_id, stat_type, total_points, breakdown
+      FROM fantasy_game_points
+      WHERE ruleset_id = ${ruleset.id} AND ruleset_version = ${ruleset.version!}
+      ORDER BY game_id, player_id, stat_type
+    `];
+  }
+
+  async function clearPoints(ruleset: FantasyRuleset): Promise<void> {
+    await sql`DELETE FROM fantasy_game_points WHERE ruleset_id = ${ruleset.id}`;
+  }
+
+  beforeAll(async () => {
+    try {
+      sql = postgres({ ...testDbConfig, connect_timeout: 5 });
+      await sql`SELECT 1`;
+      dbAvailable = true;
+    } catch {
+      console.warn('Test database not available, skipping parity tests');
+      return;
+    }
+
+    await runMigrations(sql);
+
+    await sql`DELETE FROM scoring_jobs`;
+    await sql`DELETE FROM fantasy_game_points`;
+    await sql`DELETE FROM data_quality_issues`;
+    await sql`DELETE FROM batter_game_stats`;
+    await sql`DELETE FROM fielder_game_stats`;
+    await sql`DELETE FROM plate_appearance_events`;
+    await sql`DELETE FROM pitcher_game_stats`;
+    await sql`DELETE FROM games`;
+    await sql`DELETE FROM players`;
+    await sql`DELETE FROM team_names`;
+    // teams.franchise_id references franchises
+    await sql`DELETE FROM teams`;
+    await sql`DELETE FROM franchises`;
+
+    const batting = await loadBattingToStaging(sql, join(fixturesDir, 'batting-sample.csv'), 'batting-sample.csv');
+    await transformBattingData(sql, batting.batchId);
+    const pitching = await loadPitchingToStaging(sql, join(fixturesDir, 'pitching-sample.csv'), 'pitching-sample.csv');
+    await transformPitchingData(sql, pitching.batchId);
+
+    // Fielding lines derived from the batting fixture: everyone at SS, and hitters
+    // with a home run also played a few innings in LF
+    await sql`
+      INSERT INTO fielder_game_stats (
+        game_id, player_id, team_id, is_home, opponent_id, position, position_number,
+        position_started, outs_played, total_chances, putouts, assists, errors, double_plays
+      )
+      SELECT game_id, player_id, team_id, is_home, opponent_id, 'SS', 6,
+        true, 24, hits + walks + 1, walks + 1, hits, strikeouts % 2, runs
+      FROM batter_game_stats
+      UNION ALL
+      SELECT game_id, player_id, team_id, is_home, opponent_id, 'LF', 7,
+        false, 3, 1, 1, 0, 0, 0
+      FROM batter_game_stats
+      WHERE home_runs > 0
+    `;
+
+    await sql`DELETE FROM park_factors`;
+    await sql`
+      INSERT INTO park_factors (park_id, season, games, runs, home_runs, run_factor, hr_factor)
+      VALUES ('ANA02', 2023, 2, 20, 5, 1.150, 0.875)
+    `;
+
+    for (const ruleset of [await loadPresetRuleset('standard'), kitchenSink, defense, parkAdjusted]) {
+      const { version } = await upsertRuleset(sql, ruleset);
+      rulesets.push({ ...ruleset, version });
+    }
+  }, 30000);
+
+  afterAll(async () => {
+    if (sql) {
+      await sql.end();
+    }
+  });
+
+  it('should store the same points and breakdowns as the JS engine', async () => {
+    if (!dbAvailable) {
+      console.warn('Skipping: Test database not available');
+      return;
+    }
+
+    for (const ruleset of rulesets.slice(0, 2)) {
+      await clearPoints(ruleset);
+      const jsResult = await scoreGamesForDateRange(sql, ruleset, FIXTURE_DATE, FIXTURE_DATE);
+      const jsPoints = await getStoredPoints(ruleset);
+
+      await clearPoints(ruleset);
+      const sqlResult = await scoreDateRangeSetBased(sql, ruleset, FIXTURE_DATE, FIXTURE_DATE);
+      const sqlPoints = await getStoredPoints(ruleset);
+
+      expect(jsPoints.length).toBe(17); // every fixture line
+      expect(sqlResult.totalBatting).toBe(jsResult.totalBatting);
+      expect(sqlResult.totalPitching).toBe(jsResult.totalPitching);
+      expect(sqlPoints).toEqual(jsPoints);
+    }
+  });
+
+  it('should adjust for parks the same way in both engines', async () => {
+    if (!dbAvailable) {
+      console.warn('Skipping: Test database not available');
+      return;
+    }
+
+    const ruleset = rulesets[3]!;
+    await clearPoints(ruleset);
+    await scoreGamesForDateRange(sql, ruleset, FIXTURE_DATE, FIXTURE_DATE);
+    const jsPoints = await getStoredPoints(ruleset);
+
+    await clearPoints(ruleset);
+    await scoreDateRangeSetBased(sql, ruleset, FIXTURE_DATE, FIXTURE_DATE);
+    const sqlPoints = await getStoredPoints(ruleset);
+
+    expect(sqlPoints).toEqual(jsPoints);
+
+    // Home runs at a 0.875 HR factor are worth more than in a neutral park
+    const homer = jsPoints.find((p) => p.breakdown.some((b) => b.stat === 'home_runs'));
+    expect(homer!.breakdown.find((b) => b.stat === 'home_runs')!.value).toBeCloseTo(1 / 0.875);
+  });
+
+  it('should skip games that already have points unless forced', async () => {
+    if (!dbAvailable) {
+      console.warn('Skipping: Test database not available');
+      return;
+    }
+
+    const ruleset = rulesets[0]!;
+    await clearPoints(ruleset);
+    await scoreDateRangeSetBased(sql, ruleset, FIXTURE_DATE, FIXTURE_DATE);
+
+    const skipped = await scoreDateRangeSetBased(sql, ruleset, FIXTURE_DATE, FIXTURE_DATE);
+    expect(skipped.gamesScored).toBe(0);
+
+    const forced = await scoreDateRangeSetBased(sql, ruleset, FIXTURE_DATE, FIXTURE_DATE, {
+      force: true,
+    });
+    expect(forced.gamesScored).toBe(2);
+    expect(forced.totalBatting + forced.totalPitching).toBe(17);
+  });
+
+  it('should run scoring jobs to completion and skip them on resume', async () => {
+    if (!dbAvailable) {
+      console.warn('Skipping: Test database not available');
+      return;
+    }
+
+    const ruleset = rulesets[1]!;
+    await clearPoints(ruleset);
+
+    for (const engine of ['js', 'sql'] as const) {
+      const [job] = await createScoringJobs(sql, ruleset, FIXTURE_DATE, FIXTURE_DATE, {
+        engine,
+        force: true,
+      });
+      expect(job!.total_games).toBe(2);
+
+      const progress: number[] = [];
+      const result = await runScoringJob(sql, ruleset, job!, {
+        concurrency: 2,
+        onProgress: (p) => progress.push(p.gamesDone),
+      });
+      expect(result.totalBatting + result.totalPitching).toBe(17);
+      expect(progress[progress.length - 1]).toBe(2);
+
+      const [stored] = await sql<{ status: string; cursor_date: Date }[]>`
+        SELECT status, cursor_date FROM scoring_jobs WHERE job_id = ${job!.job_id}
+      `;
+      expect(stored!.status).toBe('completed');
+      expect(stored!.cursor_date.toISOString().split('T')[0]).toBe(FIXTURE_DATE);
+
+      // A finished cursor leaves nothing to score
+      const [finished] = await sql<ScoringJob[]>`SELECT * FROM scoring_jobs WHERE job_id = ${job!.job_id}`;
+      const resumed = await runScoringJob(sql, ruleset, finished!);
+      expect(resumed.totalBatting).toBe(result.totalBatting);
+    }
+    expect((await getStoredPoints(ruleset)).length).toBe(17);
+  });
+
+  it('should score combined fielding lines the same in both engines', async () => {
+    if (!dbAvailable) {
+      console.warn('Skipping: Test database not available');
+      return;
+    }
+
+    const ruleset = rulesets[2]!;
+    await clearPoints(ruleset);
+    const jsResult = await scoreGamesForDateRange(sql, ruleset, FIXTURE_DATE, FIXTURE_DATE);
+    const jsPoints = await getStoredPoints(ruleset);
+
+    await clearPoints(ruleset);
+    const sqlResult = await scoreDateRangeSetBased(sql, ruleset, FIXTURE_DATE, FIXTURE_DATE);
+    const sqlPoints = await getStoredPoints(ruleset);
+
+    expect(jsResult.totalFielding).toBe(jsResult.totalBatting);
+    expect(sqlResult.totalFielding).toBe(jsResult.totalFielding);
+    expect(sqlPoints).toEqual(jsPoints);
+  });
+});
@@ -0,0 +1,23 @@
+import { describe, it, expect } from 'vitest';
+import { formatCopyValue, formatCopyRow } from '../../src/ingest/copy.js';
+
+describe('COPY text format', () => {
+  it('should write null and undefined as \\N', () => {
+    expect(formatCopyValue(null)).toBe('\\N');
+    expect(formatCopyValue(undefined)).toBe('\\N');
+  });
+
+  it('should keep empty strings distinct from NULL', () => {
+    expect(formatCopyValue('')).toBe('');
+  });
+
+  it('should escape backslashes, tabs and line breaks', () => {
+    expect(formatCopyValue('a\\b')).toBe('a\\\\b');
+    expect(formatCopyValue('a\tb')).toBe('a\\tb');
+    expect(formatCopyValue('a\r\nb')).toBe('a\\r\\nb');
+  });
+
+  it('should join a row with tabs and end it with a newline', () => {
+    expect(formatCopyRow(['ANA202304010', 3, null, ''])).toBe('ANA202304010\t3\t\\N\t\n');
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import {
+  describeDataQualityIssue,
+  summarizeDataQuality,
+  type DataQualityIssue,
+} from '../../src/ingest/data-quality.js';
+
+const hitsIssue: DataQualityIssue = {
+  season: 2023,
+  game_id: 'BOS202304010',
+  check_name: 'hits',
+  team_id: 'BAL',
+  expected: 9,
+  actual: 8,
+};
+
+const teamCountIssue: DataQualityIssue = {
+  season: 2023,
+  game_id: 'BOS202304020',
+  check_name: 'team_count',
+  team_id: null,
+  expected: 2,
+  actual: 1,
+};
+
+describe('Data quality', () => {
+  describe('describeDataQualityIssue', () => {
+    it('should name the batting and pitching columns of a reconciliation', () => {
+      expect(describeDataQualityIssue(hitsIssue)).toBe(
+        "BAL batting hits 9 vs opposing pitchers' hits_allowed 8"
+      );
+      expect(describeDataQualityIssue({ ...hitsIssue, check_name: 'home_runs', expected: 2, actual: 1 })).toBe(
+        "BAL batting home_runs 2 vs opposing pitchers' home_runs_allowed 1"
+      );
+    });
+
+    it('should describe team count issues', () => {
+      expect(describeDataQualityIssue(teamCountIssue)).toBe('1 teams with stat lines, expected 2');
+    });
+  });
+
+  describe('summarizeDataQuality', () => {
+    it('should count issues by check and affected games', () => {
+      const summary = summarizeDataQuality(2023, 10, [
+        hitsIssue,
+        { ...hitsIssue, check_name: 'runs', expected: 5, actual: 4 },
+        teamCountIssue,
+      ]);
+
+      expect(summary).toEqual({
+        season: 2023,
+        gamesChecked: 10,
+        gamesWithIssues: 2,
+        issues: 3,
+        byCheck: { hits: 1, walks: 0, home_runs: 0, runs: 1, team_count: 1 },
+      });
+    });
+
+    it('should report every check for a clean season', () => {
+      expect(summarizeDataQuality(2023, 10, []).byCheck).toEqual({
+        hits: 0,
+        walks: 0,
+        home_runs: 0,
+        runs: 0,
+        team_count: 0,
+      });
+    });
+  });
+});
@@ -0,0 +1,207 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import {
+  parseEventFileFromPath,
+  applyEvent,
+  splitEventRecord,
+  isEventFile,
+  getEventFileYear,
+  type EventFileGame,
+} from '../../src/ingest/events.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const fixturesDir = join(__dirname, '../fixtures/events');
+
+describe('Event File Parser', () => {
+  describe('splitEventRecord', () => {
+    it('should split on commas outside quotes', () => {
+      expect(splitEventRecord('start,troum001,"Trout, Mike",1,2,8')).toEqual([
+        'start',
+        'troum001',
+        'Trout, Mike',
+        '1',
+        '2',
+        '8',
+      ]);
+    });
+  });
+
+  describe('applyEvent', () => {
+    const empty = [null, null, null];
+
+    it('should put the batter on base for hits', () => {
+      expect(applyEvent('S7/L', empty, 'bat').bases).toEqual(['bat', null, null]);
+      expect(applyEvent('D9/L', empty, 'bat').bases).toEqual([null, 'bat', null]);
+      expect(applyEvent('T8', empty, 'bat').bases).toEqual([null, null, 'bat']);
+    });
+
+    it('should score everyone on a home run', () => {
+      const result = applyEvent('HR/F7.2-H;1-H', ['r1', 'r2', null], 'bat');
+      expect(result).toMatchObject({ type: 'home_run', runs: 3, rbi: 3, outs: 0 });
+      expect(result.bases).toEqual([null, null, null]);
+    });
+
+    it('should record runners out in the basic play of a double play', () => {
+      const result = applyEvent('64(1)3/GDP', ['r1', null, 'r3'], 'bat');
+      expect(result).toMatchObject({ type: 'out', outs: 2, runs: 0 });
+      expect(result.bases).toEqual([null, null, 'r3']);
+    });
+
+    it('should leave the batter on first after a force out', () => {
+      const result = applyEvent('54(1)/FO/G', ['r1', null, null], 'bat');
+      expect(result.outs).toBe(1);
+      expect(result.bases).toEqual(['bat', null, null]);
+    });
+
+    it('should force runners along on a walk', () => {
+      const result = applyEvent('W', ['r1', null, 'r3'], 'bat');
+      expect(result.bases).toEqual(['bat', 'r1', 'r3']);
+      expect(result.runs).toBe(0);
+
+      const loaded = applyEvent('W', ['r1', 'r2', 'r3'], 'bat');
+      expect(loaded).toMatchObject({ runs: 1, rbi: 1 });
+    });
+
+    it('should treat an X advance with an error as safe', () => {
+      const result = applyEvent('S8.2XH(8E2)', [null, 'r2', null], 'bat');
+      expect(result).toMatchObject({ runs: 1, outs: 0, rbi: 0 });
+    });
+
+    it('should let explicit advances override the batter default', () => {
+      const result = applyEvent('K/WP.B-1', empty, 'bat');
+      expect(result).toMatchObject({ type: 'strikeout', outs: 0 });
+      expect(result.bases).toEqual(['bat', null, null]);
+    });
+
+    it('should withhold RBIs on errors and when marked NR', () => {
+      expect(applyEvent('E6/G.3-H', [null, null, 'r3'], 'bat')).toMatchObject({ runs: 1, rbi: 0 });
+      expect(applyEvent('S7.3-H(NR)', [null, null, 'r3'], 'bat')).toMatchObject({ runs: 1, rbi: 0 });
+    });
+
+    it('should move runners on plays without a batter result', () => {
+      expect(applyEvent('SB2;SB3', ['r1', 'r2', null], 'bat')).toMatchObject({
+        type: undefined,
+        bases: [null, 'r1', 'r2'],
+      });
+      expect(applyEvent('CS2(24)', ['r1', null, null], 'bat')).toMatchObject({ outs: 1 });
+      expect(applyEvent('CS2(2E4).1-3', ['r1', null, null], 'bat')).toMatchObject({
+        outs: 0,
+        bases: [null, null, 'r1'],
+      });
+      expect(applyEvent('WP.3-H', [null, null, 'r3'], 'bat')).toMatchObject({ runs: 1, rbi: 0 });
+    });
+  });
+
+  describe('parseEventFileFromPath', () => {
+    let games: EventFileGame[];
+
+    beforeAll(async () => {
+      games = await parseEventFileFromPath(join(fixturesDir, '2023ANA.EVA'));
+    });
+
+    const pa = (gameIndex: number, seq: number) =>
+      games[gameIndex]!.plateAppearances.find((p) => p.event_seq === seq);
+
+    it('should read game info', () => {
+      expect(games).toHaveLength(2);
+      expect(games[0]!.game).toMatchObject({
+        game_id: 'ANA202304010',
+        game_date: '2023-04-01',
+        game_number: 0,
+        site: 'ANA01',
+        home_team_id: 'ANA',
+        away_team_id: 'OAK',
+        has_pbp: true,
+      });
+      expect(games[0]!.playerIds).toContain('fletd001');
+    });
+
+    it('should only return plate appearances', () => {
+      // 13 play records, minus a stolen base and a wild pitch
+      expect(games[0]!.plateAppearances).toHaveLength(11);
+      expect(pa(0, 2)).toBeUndefined();
+      expect(pa(0, 8)).toBeUndefined();
+    });
+
+    it('should track the base/out state before each plate appearance', () => {
+      expect(pa(0, 3)).toMatchObject({
+        batter_id: 'ruize001',
+        pitcher_id: 'sandp001',
+        outs_before: 0,
+        runner_on_2b: 'kempt001',
+        event_type: 'strikeout',
+        balls: 1,
+        strikes: 2,
+      });
+      expect(pa(0, 5)).toMatchObject({
+        outs_before: 1,
+        runner_on_1b: 'rooke001',
+        runner_on_2b: 'kempt001',
+        outs_on_play: 2,
+      });
+      // The half inning resets the bases and outs
+      expect(pa(0, 6)).toMatchObject({
+        is_bottom: true,
+        batting_team_id: 'ANA',
+        pitcher_id: 'muslk001',
+        outs_before: 0,
+        runner_on_1b: null,
+        event_type: 'home_run',
+        runs_on_play: 1,
+        rbi: 1,
+      });
+    });
+
+    it('should keep score and credit RBIs', () => {
+      expect(pa(0, 9)).toMatchObject({ event_type: 'double', runner_on_2b: 'troum001', rbi: 1 });
+      expect(pa(0, 10)).toMatchObject({ event_type: 'error', rbi: 0, home_score_before: 2 });
+      expect(pa(0, 11)).toMatchObject({
+        event_type: 'out',
+        is_at_bat: false,
+        runner_on_3b: 'ohtas001',
+        rbi: 1,
+        home_score_before: 2,
+      });
+    });
+
+    it('should put pinch runners on base in place of the runner they replace', () => {
+      expect(pa(0, 11)!.runner_on_1b).toBe('fletd001');
+      expect(pa(0, 13)).toMatchObject({ runner_on_2b: 'fletd001', outs_before: 2 });
+    });
+
+    it('should place extra-inning runners and detect walk-offs', () => {
+      const tying = games[1]!.plateAppearances.find((p) => p.inning === 9 && p.is_bottom);
+      expect(tying).toMatchObject({ event_type: 'home_run', is_walk_off: false });
+
+      const leadoff10 = games[1]!.plateAppearances.find((p) => p.inning === 10 && !p.is_bottom);
+      expect(leadoff10).toMatchObject({ runner_on_2b: 'ruize001' });
+
+      const last = games[1]!.plateAppearances.at(-1)!;
+      expect(last).toMatchObject({
+        batter_id: 'wardt002',
+        pitcher_id: 'mollm001',
+        runner_on_1b: 'stasm001',
+        runner_on_2b: 'drurb001',
+        home_score_before: 1,
+        away_score_before: 1,
+        rbi: 1,
+        is_walk_off: true,
+      });
+    });
+  });
+
+  describe('file names', () => {
+    it('should recognise regular season event files', () => {
+      expect(isEventFile('2023ANA.EVA')).toBe(true);
+      expect(isEventFile('2023NYN.evn')).toBe(true);
+      expect(isEventFile('2023OAK.ROS')).toBe(false);
+      expect(isEventFile('TEAM2023')).toBe(false);
+    });
+
+    it('should read the year from the file name', () => {
+      expect(getEventFileYear('1998SEA.EVA')).toBe(1998);
+      expect(getEventFileYear('TEAM2023')).toBeNull();
+    });
+  });
+});
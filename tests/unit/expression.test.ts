@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseExpression,
+  evaluateExpression,
+  getReferencedStats,
+} from '../../src/scoring/expression.js';
+import { validateRulesetExpressions } from '../../src/scoring/validation.js';
+import type { FantasyRuleset } from '../../src/types/fantasy.js';
+
+function evaluate(expr: string, stats: Record<string, number> = {}): number {
+  return evaluateExpression(parseExpression(expr), (name) => stats[name] ?? 0);
+}
+
+describe('Expression Language', () => {
+  describe('evaluateExpression', () => {
+    it('should evaluate arithmetic with precedence', () => {
+      expect(evaluate('1 + 2 * 3')).toBe(7);
+      expect(evaluate('(1 + 2) * 3')).toBe(9);
+      expect(evaluate('10 - 4 - 3')).toBe(3);
+      expect(evaluate('-2 + 5')).toBe(3);
+    });
+
+    it('should resolve stat names', () => {
+      const stats = { hits: 3, doubles: 1, triples: 0, home_runs: 1 };
+      expect(evaluate('hits - doubles - triples - home_runs', stats)).toBe(1);
+    });
+
+    it('should evaluate comparisons and logic as 1 or 0', () => {
+      const stats = { outs_pitched: 18, earned_runs: 3 };
+      expect(evaluate('outs_pitched >= 18 && earned_runs <= 3', stats)).toBe(1);
+      expect(evaluate('outs_pitched > 18 || earned_runs < 3', stats)).toBe(0);
+      expect(evaluate('!(earned_runs == 3)', stats)).toBe(0);
+    });
+
+    it('should treat division by zero as 0', () => {
+      expect(evaluate('hits / at_bats', { hits: 2, at_bats: 0 })).toBe(0);
+    });
+
+    it('should support functions', () => {
+      expect(evaluate('max(0, strikeouts - 10)', { strikeouts: 13 })).toBe(3);
+      expect(evaluate('min(4, 9, 2)')).toBe(2);
+      expect(evaluate('floor(outs_pitched / 3)', { outs_pitched: 20 })).toBe(6);
+    });
+  });
+
+  describe('parseExpression', () => {
+    it('should reject malformed expressions', () => {
+      expect(() => parseExpression('hits -')).toThrow(/unexpected end of input/);
+      expect(() => parseExpression('hits ) 2')).toThrow(/unexpected token/);
+      expect(() => parseExpression('hits $ 2')).toThrow(/unexpected "\$"/);
+    });
+
+    it('should reject unknown functions and bad arity', () => {
+      expect(() => parseExpression('eval(hits)')).toThrow(/unknown function "eval"/);
+      expect(() => parseExpression('abs(hits, runs)')).toThrow(/wrong number of arguments/);
+    });
+
+    it('should list referenced stats', () => {
+      const ast = parseExpression('max(hits, walks) + hits * 2');
+      expect(getReferencedStats(ast).sort()).toEqual(['hits', 'walks']);
+    });
+  });
+
+  describe('validateRulesetExpressions', () => {
+    const baseRuleset: FantasyRuleset = {
+      id: 'expr-test',
+      name: 'Expression Test',
+      batting: [],
+      pitching: [],
+    };
+
+    it('should accept valid expressions, including chained derived stats', () => {
+      const issues = validateRulesetExpressions({
+        ...baseRuleset,
+        batting: [
+          { stat: 'singles', expr: 'hits - doubles - triples - home_runs', points: 1 },
+          { stat: 'total_bases', expr: 'singles + 2 * doubles + 3 * triples + 4 * home_runs', points: 1 },
+        ],
+      });
+      expect(issues).toEqual([]);
+    });
+
+    it('should report typos in stat names', () => {
+      const issues = validateRulesetExpressions({
+        ...baseRuleset,
+        batting: [{ stat: 'singles', expr: 'hits - doubles - triples - homeruns', points: 1 }],
+      });
+      expect(issues).toHaveLength(1);
+      expect(issues[0]).toContain('unknown stat "homeruns"');
+    });
+
+    it('should check stats against the rule section', () => {
+      const issues = validateRulesetExpressions({
+        ...baseRuleset,
+        pitching: [{ stat: 'bad', expr: 'home_runs * 2', points: 1 }],
+      });
+      expect(issues[0]).toContain('pitching rule "bad"');
+    });
+
+    it('should report syntax errors', () => {
+      const issues = validateRulesetExpressions({
+        ...baseRuleset,
+        pitching: [{ stat: 'quality_start', expr: 'outs_pitched >= 18 &&', points: 3 }],
+      });
+      expect(issues[0]).toContain('Invalid expression');
+    });
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import {
+  parseGameLogFile,
+  parseGameLogs,
+  parseLineScore,
+  getGameLogType,
+  getGameLogYear,
+  getGameLogPlayerIds,
+  isGameLogFile,
+} from '../../src/ingest/game-logs.js';
+import type { GameLogInsert } from '../../src/db/queries/games.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const fixturesDir = join(__dirname, '../fixtures/gamelogs');
+
+describe('Game Log Parser', () => {
+  describe('parseLineScore', () => {
+    it('should parse one digit per inning', () => {
+      expect(parseLineScore('010000100')).toEqual([0, 1, 0, 0, 0, 0, 1, 0, 0]);
+    });
+
+    it('should parse parenthesized innings of 10 or more runs', () => {
+      expect(parseLineScore('010000(10)0x')).toEqual([0, 1, 0, 0, 0, 0, 10, 0, null]);
+    });
+
+    it('should return an empty array for an empty line score', () => {
+      expect(parseLineScore('')).toEqual([]);
+    });
+  });
+
+  describe('file names', () => {
+    it('should recognize season, postseason and All-Star files', () => {
+      expect(getGameLogType('gl2023.txt')).toBe('REG');
+      expect(getGameLogType('GL1999.TXT')).toBe('REG');
+      expect(getGameLogType('glws.txt')).toBe('WS');
+      expect(getGameLogType('gldv.txt')).toBe('DS');
+      expect(getGameLogType('glas.txt')).toBe('ASG');
+      expect(isGameLogFile('2023ANA.EVA')).toBe(false);
+      expect(isGameLogFile('gl2023.zip')).toBe(false);
+    });
+
+    it('should only give season files a year', () => {
+      expect(getGameLogYear('gl2023.txt')).toBe(2023);
+      expect(getGameLogYear('gllc.txt')).toBeNull();
+    });
+  });
+
+  describe('parseGameLogFile', () => {
+    let games: GameLogInsert[];
+
+    beforeAll(async () => {
+      games = await parseGameLogFile(join(fixturesDir, 'gl2023.txt'));
+    });
+
+    it('should parse one game per row with Retrosheet game IDs', () => {
+      expect(games.map((g) => g.game_id)).toEqual([
+        'BOS202303300',
+        'SEA202304011',
+        'SEA202304012',
+      ]);
+      expect(games[0]).toMatchObject({
+        game_date: '2023-03-30',
+        game_number: 0,
+        home_team_id: 'BOS',
+        away_team_id: 'BAL',
+        site: 'BOS07',
+        game_type: 'REG',
+      });
+    });
+
+    it('should read the result, attendance and duration', () => {
+      expect(games[0]).toMatchObject({
+        away_score: 10,
+        home_score: 9,
+        innings: 9,
+        length_outs: 54,
+        day_night: 'D',
+        attendance: 36049,
+        duration_minutes: 193,
+        away_line_score: '(10)00000000',
+        home_line_score: '01000080x',
+      });
+    });
+
+    it('should count extra innings from the line score', () => {
+      expect(games[1]!.innings).toBe(10);
+    });
+
+    it('should treat missing attendance as null', () => {
+      expect(games[2]!.attendance).toBeNull();
+    });
+
+    it('should skip umpire positions that were not staffed', () => {
+      expect(games[0]!.umpires).toEqual([
+        { position: 'HP', id: 'barkl901', name: 'Lance Barksdale' },
+        { position: '1B', id: 'ripps901', name: 'Chad Whitson' },
+        { position: '2B', id: 'ortir901', name: 'Roberto Ortiz' },
+        { position: '3B', id: 'carlm901', name: 'Mark Carlson' },
+      ]);
+    });
+
+    it('should read starting pitchers and pitchers of record', () => {
+      expect(games[0]).toMatchObject({
+        away_starting_pitcher_id: 'grays001',
+        home_starting_pitcher_id: 'salec001',
+        winning_pitcher_id: 'bakeb001',
+        losing_pitcher_id: 'jansk001',
+        saving_pitcher_id: 'bautf001',
+      });
+      expect(games[1]!.saving_pitcher_id).toBeNull();
+    });
+
+    it('should list each referenced pitcher', () => {
+      expect(getGameLogPlayerIds(games[1]!)).toEqual([
+        'colea001',
+        'castl001',
+        'sewap001',
+        'kingm001',
+      ]);
+    });
+  });
+
+  describe('parseGameLogs', () => {
+    it('should map A/B doubleheader numbers to 1 and 2', () => {
+      const fields = Array.from({ length: 161 }, () => '');
+      fields[0] = '19100704';
+      fields[1] = 'B';
+      fields[3] = 'CHN';
+      fields[6] = 'SLN';
+      const [game] = parseGameLogs(fields.join(',') + '\n', 'REG');
+      expect(game!.game_id).toBe('SLN191007042');
+      expect(game!.game_number).toBe(2);
+      expect(game!.innings).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { readFile } from 'fs/promises';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import {
+  normalizeGameType,
+  parseGameTypeFilter,
+  GAME_TYPES,
+  GAME_TYPE_ALIASES,
+  POSTSEASON_GAME_TYPES,
+} from '../../src/ingest/game-types.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const migrationsDir = join(__dirname, '../../src/db/migrations');
+
+describe('Game types', () => {
+  describe('normalizeGameType', () => {
+    it('should map season phases to game type codes', () => {
+      expect(normalizeGameType('R')).toBe('REG');
+      expect(normalizeGameType('D')).toBe('DS');
+      expect(normalizeGameType('L')).toBe('LCS');
+      expect(normalizeGameType('S')).toBe('WS');
+      expect(normalizeGameType('A')).toBe('ASG');
+    });
+
+    it('should accept codes and spelled-out names in any case', () => {
+      expect(normalizeGameType('REG')).toBe('REG');
+      expect(normalizeGameType('wc')).toBe('WC');
+      expect(normalizeGameType('World Series')).toBe('WS');
+      expect(normalizeGameType('all-star')).toBe('ASG');
+    });
+
+    it("should map Retrosheet's spelled-out game types", () => {
+      expect(normalizeGameType('regular')).toBe('REG');
+      expect(normalizeGameType('playoff')).toBe('REG');
+      expect(normalizeGameType('wildcard')).toBe('WC');
+      expect(normalizeGameType('divisionseries')).toBe('DS');
+      expect(normalizeGameType('lcs')).toBe('LCS');
+      expect(normalizeGameType('worldseries')).toBe('WS');
+      expect(normalizeGameType('allstar')).toBe('ASG');
+      expect(normalizeGameType('exhibition')).toBeNull();
+    });
+
+    it('should return null for empty or unknown values', () => {
+      expect(normalizeGameType('')).toBeNull();
+      expect(normalizeGameType(null)).toBeNull();
+      expect(normalizeGameType('X')).toBeNull();
+    });
+  });
+
+  describe('migrations', () => {
+    // Stored games are mapped like newly transformed ones
+    it.each(['016_game_types.sql', '020_game_type_spellings.sql'])(
+      '%s should map exactly the codes and spellings normalizeGameType accepts',
+      async (file) => {
+        const content = await readFile(join(migrationsDir, file), 'utf-8');
+        const mapped = Object.fromEntries(
+          [...content.matchAll(/WHEN '(\w+)' THEN '(\w+)'/g)].map(([, alias, code]) => [
+            alias,
+            code,
+          ])
+        );
+
+        expect(mapped).toEqual({
+          ...Object.fromEntries(GAME_TYPES.map((t) => [t, t])),
+          ...GAME_TYPE_ALIASES,
+        });
+        expect(mapped['WORLDSERIES']).toBe(normalizeGameType('worldseries'));
+      }
+    );
+  });
+
+  describe('parseGameTypeFilter', () => {
+    it('should select every game for "all" or no filter', () => {
+      expect(parseGameTypeFilter(undefined)).toBeUndefined();
+      expect(parseGameTypeFilter('all')).toBeUndefined();
+    });
+
+    it('should expand filters to game types', () => {
+      expect(parseGameTypeFilter('regular')).toEqual(['REG']);
+      expect(parseGameTypeFilter('postseason')).toEqual(POSTSEASON_GAME_TYPES);
+      expect(parseGameTypeFilter('World-Series')).toEqual(['WS']);
+    });
+
+    it('should reject unknown filters', () => {
+      expect(() => parseGameTypeFilter('spring')).toThrow('Unknown game type "spring"');
+    });
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  hashFile,
+  describeMismatch,
+  conditionalHeaders,
+  readManifest,
+  verifySourceFile,
+  type ManifestEntry,
+} from '../../src/ingest/manifest.js';
+
+const CONTENT = 'gid,id,team\nANA202304010,troum001,ANA\n';
+// sha256 of CONTENT
+const CONTENT_SHA256 = '850233a6ed1e879022bc4180041fdde4847728c0130e1b932b15640a36eadefe';
+
+describe('download manifest', () => {
+  let dir: string;
+
+  const entry = (overrides: Partial<ManifestEntry> = {}): ManifestEntry => ({
+    url: 'https://example.com/playing-2023.csv',
+    etag: '"abc123"',
+    lastModified: 'Sat, 01 Jul 2023 00:00:00 GMT',
+    size: CONTENT.length,
+    sha256: CONTENT_SHA256,
+    downloadedAt: '2023-07-01T00:00:00.000Z',
+    ...overrides,
+  });
+
+  const writeManifest = (entries: Record<string, ManifestEntry>) =>
+    writeFile(join(dir, 'manifest.json'), JSON.stringify(entries));
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'mlb-manifest-'));
+    await writeFile(join(dir, 'playing-2023.csv'), CONTENT);
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should hash a file with its size', async () => {
+    expect(await hashFile(join(dir, 'playing-2023.csv'))).toEqual({ size: CONTENT.length, sha256: CONTENT_SHA256 });
+  });
+
+  it('should describe truncated and corrupted files', () => {
+    expect(describeMismatch(entry(), { size: CONTENT.length, sha256: CONTENT_SHA256 })).toBeNull();
+    expect(describeMismatch(entry(), { size: 10, sha256: CONTENT_SHA256 })).toMatch(/^truncated: 10 bytes/);
+    expect(describeMismatch(entry(), { size: CONTENT.length, sha256: '0'.repeat(64) })).toMatch(/^corrupted/);
+  });
+
+  it('should send the recorded validators on the next download', () => {
+    expect(conditionalHeaders(entry())).toEqual({
+      'If-None-Match': '"abc123"',
+      'If-Modified-Since': 'Sat, 01 Jul 2023 00:00:00 GMT',
+    });
+    expect(conditionalHeaders(entry({ etag: null, lastModified: null }))).toEqual({});
+    expect(conditionalHeaders(undefined)).toEqual({});
+  });
+
+  it('should read an empty manifest when none was written', async () => {
+    expect(await readManifest(dir)).toEqual({});
+  });
+
+  it('should accept a file matching its entry and skip files without one', async () => {
+    expect(await verifySourceFile(join(dir, 'playing-2023.csv'))).toBeNull();
+
+    await writeManifest({ 'playing-2023.csv': entry() });
+    expect(await verifySourceFile(join(dir, 'playing-2023.csv'))).toEqual(entry());
+  });
+
+  it('should refuse a file that was truncated after download', async () => {
+    await writeManifest({ 'playing-2023.csv': entry() });
+    await writeFile(join(dir, 'playing-2023.csv'), CONTENT.slice(0, 20));
+
+    await expect(verifySourceFile(join(dir, 'playing-2023.csv'))).rejects.toThrow(/truncated.*--force/);
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { loadBundledParks, parseParks, toParkYear } from '../../src/ingest/parks.js';
+
+describe('Parks', () => {
+  describe('parseParks', () => {
+    it("should parse Retrosheet's ballparks file", () => {
+      const parks = parseParks(
+        [
+          'PARKID,NAME,AKA,CITY,STATE,START,END,LEAGUE,NOTES',
+          'DEN01,Mile High Stadium,,Denver,CO,04/09/1993,09/25/1994,NL,',
+          'DEN02,Coors Field,,Denver,CO,04/26/1995,,NL,',
+        ].join('\n')
+      );
+
+      expect(parks).toEqual([
+        {
+          park_id: 'DEN01',
+          name: 'Mile High Stadium',
+          aka: null,
+          city: 'Denver',
+          state: 'CO',
+          first_year: 1993,
+          last_year: 1994,
+          league: 'NL',
+        },
+        {
+          park_id: 'DEN02',
+          name: 'Coors Field',
+          aka: null,
+          city: 'Denver',
+          state: 'CO',
+          first_year: 1995,
+          last_year: null,
+          league: 'NL',
+        },
+      ]);
+    });
+
+    it('should read years from dates or plain years', () => {
+      expect(toParkYear('04/19/1966')).toBe(1966);
+      expect(toParkYear('2001')).toBe(2001);
+      expect(toParkYear('')).toBeNull();
+    });
+  });
+
+  it('should bundle one row per site code', async () => {
+    const parks = await loadBundledParks();
+    const ids = parks.map((p) => p.park_id);
+    expect(new Set(ids).size).toBe(ids.length);
+    expect(parks.find((p) => p.park_id === 'DEN02')).toMatchObject({
+      name: 'Coors Field',
+      first_year: 1995,
+      last_year: null,
+    });
+  });
+});
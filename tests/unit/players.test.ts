@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { toPlayerBio, toRegisterDate, type RawPersonRow } from '../../src/ingest/players.js';
+
+describe('Chadwick Register', () => {
+  describe('toRegisterDate', () => {
+    it('should build a zero-padded date', () => {
+      expect(toRegisterDate('1991', '8', '7')).toBe('1991-08-07');
+    });
+
+    it('should return null for partial dates', () => {
+      expect(toRegisterDate('1871', '', '')).toBeNull();
+      expect(toRegisterDate(undefined, undefined, undefined)).toBeNull();
+    });
+  });
+
+  describe('toPlayerBio', () => {
+    const row: RawPersonRow = {
+      key_person: '8ee0b8f9',
+      key_retro: 'troum001',
+      key_mlbam: '545361',
+      key_bbref: 'troutmi01',
+      key_fangraphs: '10155',
+      name_last: 'Trout',
+      name_first: 'Mike',
+      name_given: 'Michael Nelson',
+      name_suffix: '',
+      name_nick: '',
+      birth_year: '1991',
+      birth_month: '8',
+      birth_day: '7',
+      death_year: '',
+      death_month: '',
+      death_day: '',
+      pro_played_first: '2009',
+      pro_played_last: '2024',
+      mlb_played_first: '2011',
+      mlb_played_last: '2024',
+    };
+
+    it('should map names, dates and career years', () => {
+      expect(toPlayerBio(row)).toMatchObject({
+        id: 'troum001',
+        name_first: 'Mike',
+        name_last: 'Trout',
+        name_given: 'Michael Nelson',
+        name_suffix: null,
+        birth_date: '1991-08-07',
+        birth_year: 1991,
+        death_date: null,
+        mlb_played_first: 2011,
+        mlb_played_last: 2024,
+      });
+    });
+
+    it('should map the ID crosswalk', () => {
+      expect(toPlayerBio(row)).toMatchObject({
+        key_person: '8ee0b8f9',
+        key_mlbam: 545361,
+        key_bbref: 'troutmi01',
+        key_fangraphs: 10155,
+      });
+    });
+
+    it('should leave missing IDs null', () => {
+      const bio = toPlayerBio({ ...row, key_mlbam: '', key_fangraphs: undefined });
+      expect(bio.key_mlbam).toBeNull();
+      expect(bio.key_fangraphs).toBeNull();
+    });
+  });
+});
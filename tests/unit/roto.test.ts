@@ -0,0 +1,212 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_ROTO_CATEGORIES,
+  buildCategorySql,
+  computeStandings,
+  formatCategoryValue,
+  getCategoryValue,
+  toRotoTotals,
+  validateLeague,
+  type RotoTotals,
+} from '../../src/scoring/roto.js';
+import { RotoLeagueSchema, type RotoCategory, type RotoLeague } from '../../src/types/roto.js';
+
+const HR: RotoCategory = { name: 'HR', section: 'batting', sum: 'home_runs', order: 'desc' };
+const SB: RotoCategory = { name: 'SB', section: 'batting', sum: 'stolen_bases', order: 'desc' };
+const AVG: RotoCategory = {
+  name: 'AVG',
+  section: 'batting',
+  sum: 'hits',
+  per: 'at_bats',
+  order: 'desc',
+  decimals: 3,
+};
+const ERA: RotoCategory = {
+  name: 'ERA',
+  section: 'pitching',
+  sum: 'earned_runs * 9',
+  per: 'innings_pitched',
+  order: 'asc',
+  decimals: 2,
+};
+
+function league(
+  categories: RotoCategory[],
+  teams: string[],
+  tiebreakers: string[] = []
+): RotoLeague {
+  return {
+    id: 'test',
+    name: 'Test League',
+    season: 2023,
+    categories,
+    tiebreakers,
+    teams: teams.map((id) => ({ id, name: `Team ${id}`, players: [] })),
+  };
+}
+
+describe('computeStandings', () => {
+  it('should award N points for the best value down to 1, averaging ties', () => {
+    const totals: RotoTotals = {
+      a: { HR: { sum: 30, per: 0 }, ERA: { sum: 27, per: 9 } },
+      b: { HR: { sum: 30, per: 0 }, ERA: { sum: 36, per: 9 } },
+      c: { HR: { sum: 20, per: 0 }, ERA: { sum: 5, per: 0 } },
+    };
+    const standings = computeStandings(league([HR, ERA], ['a', 'b', 'c']), totals);
+
+    expect(standings.categories).toEqual(['HR', 'ERA']);
+    expect(standings.teams.map((t) => [t.teamId, t.rank, t.points])).toEqual([
+      ['a', 1, 5.5],
+      ['b', 2, 4.5],
+      ['c', 3, 2],
+    ]);
+    expect(standings.teams[0]!.categories).toEqual([
+      { category: 'HR', value: 30, rank: 1, points: 2.5 },
+      { category: 'ERA', value: 3, rank: 1, points: 3 },
+    ]);
+    // No innings pitched: no ERA, ranked last
+    expect(standings.teams[2]!.categories[1]).toEqual({
+      category: 'ERA',
+      value: null,
+      rank: 3,
+      points: 1,
+    });
+  });
+
+  it('should tie rate categories that are equal at their decimals', () => {
+    const totals: RotoTotals = {
+      a: { AVG: { sum: 2871, per: 10000 } },
+      b: { AVG: { sum: 2874, per: 10000 } },
+    };
+    const standings = computeStandings(league([AVG], ['a', 'b']), totals);
+
+    expect(standings.teams.map((t) => t.categories[0]!.points)).toEqual([1.5, 1.5]);
+  });
+
+  it('should score teams without stats as zero in counting categories', () => {
+    const standings = computeStandings(league([HR, AVG], ['a', 'b']), {
+      a: { HR: { sum: 1, per: 0 }, AVG: { sum: 1, per: 4 } },
+    });
+
+    expect(standings.teams[1]!.teamId).toBe('b');
+    expect(standings.teams[1]!.categories.map((c) => c.value)).toEqual([0, null]);
+    expect(standings.teams[1]!.points).toBe(2);
+  });
+
+  it('should break ties on points with the tiebreaker categories first', () => {
+    const totals: RotoTotals = {
+      a: { HR: { sum: 10, per: 0 }, SB: { sum: 1, per: 0 } },
+      b: { HR: { sum: 5, per: 0 }, SB: { sum: 3, per: 0 } },
+    };
+    const standings = computeStandings(league([HR, SB], ['a', 'b'], ['SB']), totals);
+
+    expect(standings.teams.map((t) => [t.teamId, t.rank, t.points, t.tiebreak])).toEqual([
+      ['b', 1, 3, 'SB points'],
+      ['a', 2, 3, 'SB points'],
+    ]);
+  });
+
+  it('should then break ties with head-to-head category wins among the tied teams', () => {
+    const C1 = { ...HR, name: 'C1' };
+    const C2 = { ...HR, name: 'C2' };
+    const C3 = { ...HR, name: 'C3' };
+    const totals: RotoTotals = {
+      a: { C1: { sum: 10, per: 0 }, C2: { sum: 10, per: 0 }, C3: { sum: 1, per: 0 } },
+      b: { C1: { sum: 5, per: 0 }, C2: { sum: 5, per: 0 }, C3: { sum: 10, per: 0 } },
+      c: { C1: { sum: 1, per: 0 }, C2: { sum: 1, per: 0 }, C3: { sum: 5, per: 0 } },
+    };
+    const standings = computeStandings(league([C1, C2, C3], ['b', 'c', 'a']), totals);
+
+    expect(standings.teams.map((t) => [t.teamId, t.rank, t.points, t.tiebreak])).toEqual([
+      ['a', 1, 7, 'head-to-head categories'],
+      ['b', 2, 7, 'head-to-head categories'],
+      ['c', 3, 4, undefined],
+    ]);
+  });
+
+  it('should share a rank when nothing breaks the tie', () => {
+    const totals: RotoTotals = {
+      a: { HR: { sum: 10, per: 0 } },
+      b: { HR: { sum: 10, per: 0 } },
+      c: { HR: { sum: 2, per: 0 } },
+    };
+    const standings = computeStandings(league([HR], ['a', 'b', 'c'], ['HR']), totals);
+
+    expect(standings.teams.map((t) => [t.teamId, t.rank])).toEqual([
+      ['a', 1],
+      ['b', 1],
+      ['c', 3],
+    ]);
+    expect(standings.teams[0]!.tiebreak).toBeUndefined();
+  });
+});
+
+describe('category values', () => {
+  it('should divide rate categories and leave counting categories as sums', () => {
+    expect(getCategoryValue(HR, { sum: 12, per: 0 })).toBe(12);
+    expect(getCategoryValue(AVG, { sum: 30, per: 100 })).toBe(0.3);
+    expect(getCategoryValue(AVG, { sum: 0, per: 0 })).toBeNull();
+    expect(getCategoryValue(HR, undefined)).toBe(0);
+  });
+
+  it('should format rates at their decimals', () => {
+    expect(formatCategoryValue(AVG, 0.28714)).toBe('.287');
+    expect(formatCategoryValue(ERA, 3.4126)).toBe('3.41');
+    expect(formatCategoryValue(HR, 31)).toBe('31');
+    expect(formatCategoryValue(ERA, null)).toBe('-');
+  });
+
+  it('should compile sums and pers through the stat catalog', () => {
+    const { sums, pers } = buildCategorySql([HR, ERA], 's');
+    expect(sums).toContain('SUM(COALESCE(s.home_runs::float8, 0))');
+    expect(sums).toContain('s.earned_runs');
+    // innings_pitched is derived from outs
+    expect(pers).toContain('s.outs_pitched');
+    expect(pers).toMatch(/^ARRAY\[0, SUM\(/);
+  });
+
+  it('should collect query rows into totals by team and category', () => {
+    const totals = toRotoTotals([HR, AVG], [{ team_id: 'a', sums: [3, 9], pers: [0, 30] }]);
+    expect(totals).toEqual({ a: { HR: { sum: 3, per: 0 }, AVG: { sum: 9, per: 30 } } });
+  });
+});
+
+describe('validateLeague', () => {
+  it('should accept the default categories', () => {
+    const parsed = RotoLeagueSchema.parse({ id: 'roto', name: 'Roto', season: 2023 });
+    expect(parsed.categories).toEqual(DEFAULT_ROTO_CATEGORIES);
+    expect(parsed.teams).toEqual([]);
+  });
+
+  it('should report unknown stats and invalid expressions', () => {
+    const issues = validateLeague(
+      league([{ ...HR, sum: 'homers' }, { ...ERA, per: 'innings_pitched +' }], [])
+    );
+    expect(issues.map((i) => i.path)).toEqual([
+      ['categories', 0, 'sum'],
+      ['categories', 1, 'per'],
+    ]);
+    expect(issues[0]!.message).toBe('category "HR": unknown batting stat "homers"');
+  });
+
+  it('should report duplicate categories and tiebreakers that are not categories', () => {
+    const issues = validateLeague(league([HR, HR], [], ['WHIP']));
+    expect(issues.map((i) => i.message)).toEqual([
+      'category "HR" is defined more than once',
+      'tiebreaker "WHIP" is not a category',
+    ]);
+  });
+
+  it('should reject a player on two teams', () => {
+    const definition = league([HR], []);
+    definition.teams = [
+      { id: 'a', name: 'A', players: ['troutmi01'] },
+      { id: 'b', name: 'B', players: ['troutmi01'] },
+    ];
+
+    const parsed = RotoLeagueSchema.safeParse(definition);
+    expect(parsed.success).toBe(false);
+    expect(parsed.error?.issues[0]?.message).toBe('player "troutmi01" is on both "a" and "b"');
+    expect(parsed.error?.issues[0]?.path).toEqual(['teams', 1, 'players', 0]);
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseRulesetText,
+  formatRuleset,
+  getRulesetFileFormat,
+} from '../../src/scoring/ruleset-file.js';
+import { diffRulesets } from '../../src/scoring/diff.js';
+import type { FantasyRuleset } from '../../src/types/fantasy.js';
+
+const ruleset: FantasyRuleset = {
+  id: 'league',
+  name: 'League Scoring',
+  batting: [
+    { stat: 'home_runs', points: 4 },
+    { stat: 'singles', expr: 'hits - doubles - triples - home_runs', points: 1 },
+  ],
+  pitching: [{ stat: 'outs_pitched', points: 1, perUnit: 3 }],
+  bonuses: [
+    { name: 'Multi-HR', conditions: [{ stat: 'home_runs', op: 'gte', value: 2 }], logic: 'AND', points: 3 },
+  ],
+};
+
+describe('Ruleset Files', () => {
+  it('should pick the format from the file extension', () => {
+    expect(getRulesetFileFormat('league.yaml')).toBe('yaml');
+    expect(getRulesetFileFormat('league.YML')).toBe('yaml');
+    expect(getRulesetFileFormat('league.json')).toBe('json');
+    expect(getRulesetFileFormat('league')).toBe('json');
+  });
+
+  it('should round-trip through JSON and YAML', () => {
+    for (const format of ['json', 'yaml'] as const) {
+      const text = formatRuleset(ruleset, format);
+      expect(parseRulesetText(text, format)).toEqual(ruleset);
+    }
+  });
+
+  it('should keep ruleset settings', () => {
+    const tuned: FantasyRuleset = {
+      ...ruleset,
+      parkAdjusted: true,
+      policies: { pitching: { cap: 40 }, batting: { rounding: 'whole' } },
+    };
+    expect(parseRulesetText(formatRuleset(tuned, 'yaml'), 'yaml')).toEqual(tuned);
+  });
+
+  it('should omit unset optional fields', () => {
+    const text = formatRuleset({ ...ruleset, bonuses: undefined }, 'json');
+    expect(JSON.parse(text)).not.toHaveProperty('bonuses');
+    expect(JSON.parse(text)).not.toHaveProperty('description');
+  });
+});
+
+describe('diffRulesets', () => {
+  it('should report no differences for identical rulesets', () => {
+    const entries = diffRulesets(ruleset, JSON.parse(JSON.stringify(ruleset)));
+    expect(entries.every((e) => e.status === 'unchanged')).toBe(true);
+  });
+
+  it('should report added, removed and changed rules', () => {
+    const other: FantasyRuleset = {
+      ...ruleset,
+      batting: [
+        { stat: 'home_runs', points: 6 },
+        { stat: 'stolen_bases', points: 2 },
+      ],
+      bonuses: [],
+    };
+
+    const changes = diffRulesets(ruleset, other).filter((e) => e.status !== 'unchanged');
+    expect(changes).toEqual([
+      { section: 'batting', key: 'home_runs', left: '4', right: '6', status: 'changed' },
+      {
+        section: 'batting',
+        key: 'singles',
+        left: '1 × (hits - doubles - triples - home_runs)',
+        right: null,
+        status: 'removed',
+      },
+      { section: 'batting', key: 'stolen_bases', left: null, right: '2', status: 'added' },
+      {
+        section: 'bonuses',
+        key: 'Multi-HR',
+        left: 'home_runs >= 2 → 3',
+        right: null,
+        status: 'removed',
+      },
+    ]);
+  });
+
+  it('should line up duplicate rules by occurrence', () => {
+    const left: FantasyRuleset = { ...ruleset, batting: [{ stat: 'hits', points: 1 }] };
+    const right: FantasyRuleset = {
+      ...ruleset,
+      batting: [
+        { stat: 'hits', points: 1 },
+        { stat: 'hits', points: 1 },
+      ],
+    };
+
+    const changes = diffRulesets(left, right).filter((e) => e.status !== 'unchanged');
+    expect(changes).toEqual([
+      { section: 'batting', key: 'hits #2', left: null, right: '1', status: 'added' },
+    ]);
+  });
+
+  it('should tell rules apart by their rounding', () => {
+    const left: FantasyRuleset = { ...ruleset, pitching: [{ stat: 'innings_pitched', points: 3 }] };
+    const right: FantasyRuleset = {
+      ...ruleset,
+      pitching: [{ stat: 'innings_pitched', points: 3, round: 'down' }],
+    };
+
+    expect(diffRulesets(left, right).filter((e) => e.section === 'pitching')).toEqual([
+      {
+        section: 'pitching',
+        key: 'innings_pitched',
+        left: '3',
+        right: '3 (round down)',
+        status: 'changed',
+      },
+    ]);
+  });
+
+  it('should compare scoring policies per stat type', () => {
+    const left: FantasyRuleset = { ...ruleset, policies: { pitching: { cap: 40 } } };
+    const right: FantasyRuleset = {
+      ...ruleset,
+      policies: { batting: { floor: -5, rounding: 'tenths' }, pitching: { cap: 40 } },
+    };
+
+    expect(diffRulesets(left, right).filter((e) => e.section === 'settings')).toEqual([
+      {
+        section: 'settings',
+        key: 'policies.batting',
+        left: 'none',
+        right: 'floor -5, rounding tenths',
+        status: 'changed',
+      },
+      {
+        section: 'settings',
+        key: 'policies.pitching',
+        left: 'cap 40',
+        right: 'cap 40',
+        status: 'unchanged',
+      },
+    ]);
+  });
+});
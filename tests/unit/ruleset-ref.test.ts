@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { parseRulesetRef, formatRulesetRef } from '../../src/scoring/ruleset-ref.js';
+
+describe('Ruleset References', () => {
+  it('should parse an unpinned ruleset ID', () => {
+    expect(parseRulesetRef('standard')).toEqual({ id: 'standard' });
+  });
+
+  it('should parse a pinned version with or without the "v" prefix', () => {
+    expect(parseRulesetRef('standard@v3')).toEqual({ id: 'standard', version: 3 });
+    expect(parseRulesetRef('standard@3')).toEqual({ id: 'standard', version: 3 });
+  });
+
+  it('should reject malformed references', () => {
+    for (const ref of ['standard@', 'standard@v0', 'standard@latest', '@v2', 'standard@v1.5']) {
+      expect(() => parseRulesetRef(ref)).toThrow(/Invalid ruleset reference/);
+    }
+  });
+
+  it('should format references that parse back to the same value', () => {
+    expect(formatRulesetRef('standard')).toBe('standard');
+    expect(formatRulesetRef('standard', 3)).toBe('standard@v3');
+    expect(parseRulesetRef(formatRulesetRef('points-league', 12))).toEqual({
+      id: 'points-league',
+      version: 12,
+    });
+  });
+});
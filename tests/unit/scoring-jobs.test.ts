@@ -0,0 +1,18 @@
+import { describe, it, expect } from 'vitest';
+import { splitByYear } from '../../src/scoring/jobs.js';
+
+describe('splitByYear', () => {
+  it('should keep a single-year range intact', () => {
+    expect(splitByYear('2023-04-01', '2023-09-30')).toEqual([
+      { year: 2023, startDate: '2023-04-01', endDate: '2023-09-30' },
+    ]);
+  });
+
+  it('should split a multi-year range on calendar years', () => {
+    expect(splitByYear('2021-06-15', '2023-03-01')).toEqual([
+      { year: 2021, startDate: '2021-06-15', endDate: '2021-12-31' },
+      { year: 2022, startDate: '2022-01-01', endDate: '2022-12-31' },
+      { year: 2023, startDate: '2023-01-01', endDate: '2023-03-01' },
+    ]);
+  });
+});
@@ -0,0 +1,218 @@
+import { describe, it, expect } from 'vitest';
+import { buildScoringSql, parkFactorJoin } from '../../src/scoring/sql.js';
+import type { FantasyRuleset } from '../../src/types/fantasy.js';
+
+const ruleset: FantasyRuleset = {
+  id: 'what-if',
+  name: 'What-if',
+  batting: [
+    { stat: 'home_runs', points: 4 },
+    { stat: 'singles', points: 1 },
+    { stat: 'power', expr: 'doubles + triples * 2', points: 0.5 },
+  ],
+  pitching: [
+    { stat: 'outs_pitched', points: 1, perUnit: 3 },
+    { stat: 'won', points: 5 },
+  ],
+  bonuses: [
+    { name: 'Multi-HR', conditions: [{ stat: 'home_runs', op: 'gte', value: 2 }], logic: 'AND', points: 3 },
+    { name: 'Power Day', conditions: [{ stat: 'power', op: 'gte', value: 3 }], logic: 'AND', points: 2 },
+    { name: 'Quality Start', conditions: [{ stat: 'quality_start', op: 'eq', value: 1 }], logic: 'AND', points: 2 },
+  ],
+};
+
+describe('buildScoringSql', () => {
+  it('should compile one SQL expression per rule', () => {
+    const { rules } = buildScoringSql(ruleset, 'batting', 'bgs');
+    expect(rules.map((r) => r.rule.stat)).toEqual(['home_runs', 'singles', 'power']);
+    expect(rules[0]!.value).toBe('COALESCE(bgs.home_runs::float8, 0)');
+    // Built-in derived stats expand to their columns
+    expect(rules[1]!.value).toContain('bgs.hits');
+    expect(rules[1]!.value).toContain('bgs.doubles');
+  });
+
+  it('should cast boolean stats to 1/0 and divide per-unit rules', () => {
+    const { rules } = buildScoringSql(ruleset, 'pitching', 'pgs');
+    expect(rules[0]!.points).toContain('/ (3)::float8');
+    expect(rules[1]!.value).toBe('COALESCE(pgs.won::int::float8, 0)');
+  });
+
+  it('should only include bonuses that apply to the section', () => {
+    const batting = buildScoringSql(ruleset, 'batting', 'bgs');
+    expect(batting.bonuses.map((b) => b.bonus.name)).toEqual(['Multi-HR', 'Power Day']);
+
+    const pitching = buildScoringSql(ruleset, 'pitching', 'pgs');
+    expect(pitching.bonuses.map((b) => b.bonus.name)).toEqual(['Quality Start']);
+    expect(pitching.bonuses[0]!.condition).toContain('pgs.game_started');
+  });
+
+  it('should resolve ruleset-defined derived stats in bonuses', () => {
+    const { rules, bonuses } = buildScoringSql(ruleset, 'batting', 'bgs');
+    expect(bonuses[1]!.condition).toContain(rules[2]!.value);
+  });
+
+  it('should score innings pitched as outs / 3, rounded when the rule asks', () => {
+    const innings: FantasyRuleset = {
+      ...ruleset,
+      pitching: [
+        { stat: 'innings_pitched', points: 3 },
+        { stat: 'innings_pitched', points: 3, round: 'nearest' },
+      ],
+    };
+    const { rules } = buildScoringSql(innings, 'pitching', 'pgs');
+    const outs = 'COALESCE(pgs.outs_pitched::float8, 0)';
+    expect(rules[0]!.value).toBe(`COALESCE(${outs} / NULLIF((3)::float8, 0), 0)`);
+    expect(rules[1]!.value).toBe(`floor(${rules[0]!.value} + 0.5)`);
+  });
+
+  it('should only compile scoped bonuses for their section', () => {
+    const scoped: FantasyRuleset = {
+      ...ruleset,
+      bonuses: [
+        {
+          name: 'Patient',
+          scope: 'batting',
+          conditions: [{ stat: 'walks', op: 'gte', value: 2 }],
+          logic: 'AND',
+          points: 1,
+        },
+      ],
+    };
+    expect(buildScoringSql(scoped, 'batting', 'bgs').bonuses).toHaveLength(1);
+    expect(buildScoringSql(scoped, 'pitching', 'pgs').bonuses).toEqual([]);
+  });
+
+  it('should compile tiers highest first and repeats as whole increments', () => {
+    const scaled: FantasyRuleset = {
+      ...ruleset,
+      bonuses: [
+        {
+          name: 'Multi-HR',
+          conditions: [],
+          logic: 'AND',
+          tiers: { stat: 'home_runs', levels: [{ min: 2, points: 3 }, { min: 3, points: 8 }] },
+        },
+        {
+          name: 'Extra Bases',
+          conditions: [],
+          logic: 'AND',
+          repeat: { stat: 'doubles', beyond: 1, points: 2 },
+        },
+      ],
+    };
+    const [tiered, repeated] = buildScoringSql(scaled, 'batting', 'bgs').bonuses;
+
+    const hr = 'COALESCE(bgs.home_runs::float8, 0)';
+    expect(tiered!.condition).toBe(`((TRUE) AND ${hr} >= (2)::float8)`);
+    expect(tiered!.points).toBe(
+      `(CASE WHEN ${hr} >= (3)::float8 THEN (8)::float8 ` +
+        `WHEN ${hr} >= (2)::float8 THEN (3)::float8 END)`
+    );
+    expect(repeated!.points).toContain(
+      'floor((COALESCE(bgs.doubles::float8, 0) - (1)::float8) / (1)::float8)'
+    );
+  });
+
+  it('should exclude later bonuses of a group once an earlier one fires', () => {
+    const grouped: FantasyRuleset = {
+      ...ruleset,
+      bonuses: [
+        {
+          name: 'Shutout',
+          conditions: [{ stat: 'shutout', op: 'eq', value: 1 }],
+          logic: 'AND',
+          points: 5,
+          group: 'cg',
+        },
+        {
+          name: 'Complete Game',
+          conditions: [{ stat: 'complete_game', op: 'eq', value: 1 }],
+          logic: 'AND',
+          points: 3,
+          group: 'cg',
+        },
+      ],
+    };
+    const [shutout, completeGame] = buildScoringSql(grouped, 'pitching', 'pgs').bonuses;
+    expect(shutout!.condition).not.toContain('NOT');
+    expect(completeGame!.condition).toContain(`AND NOT (${shutout!.condition})`);
+  });
+
+  it('should limit rules to their context and apply matching multipliers', () => {
+    const contextual: FantasyRuleset = {
+      ...ruleset,
+      batting: [
+        {
+          stat: 'home_runs',
+          points: 4,
+          when: { is_home: false, opponent: ['NYA', "O'S"] },
+          multipliers: [{ when: { is_ph: true }, factor: 0.5 }],
+        },
+      ],
+    };
+    const [rule] = buildScoringSql(contextual, 'batting', 'bgs').rules;
+    const context =
+      "(NOT COALESCE(bgs.is_home, FALSE) AND COALESCE(bgs.opponent_id IN ('NYA', 'O''S'), FALSE))";
+    expect(rule!.value).toBe(
+      `(CASE WHEN ${context} THEN COALESCE(bgs.home_runs::float8, 0) ELSE 0 END)`
+    );
+    expect(rule!.points).toContain(
+      '* (CASE WHEN (COALESCE(bgs.is_ph, FALSE)) THEN (0.5)::float8 ELSE 1 END)'
+    );
+    expect(rule!.entry).toContain("' * 4 [!is_home, vs NYA/O''S]'");
+    expect(rule!.entry).toContain("' × 0.5 [is_ph]'");
+  });
+
+  it('should round to the policy and bound totals by the cap and floor', () => {
+    const limited: FantasyRuleset = {
+      ...ruleset,
+      policies: { batting: { cap: 20, floor: -5, rounding: 'tenths' } },
+    };
+    const { rules, total, breakdown } = buildScoringSql(limited, 'batting', 'bgs');
+    expect(rules[0]!.points).toBe(
+      '(floor((COALESCE(bgs.home_runs::float8, 0) * (4)::float8) * 10 + 0.5) / 10)'
+    );
+    expect(total).toMatch(/^LEAST\(GREATEST\(\(floor\(.* \* 10 \+ 0\.5\) \/ 10\), /);
+    expect(total).toMatch(/, \(-5\)::float8\), \(20\)::float8\)$/);
+    expect(breakdown).toContain("'Floored at -5 (from '");
+    expect(breakdown).toContain("'Capped at 20 (from '");
+
+    // Fielding lines are bounded per game by the engine, not per position
+    const fielder: FantasyRuleset = {
+      ...ruleset,
+      fielding: [{ stat: 'errors', points: -1 }],
+      policies: { fielding: { cap: 1 } },
+    };
+    const fielding = buildScoringSql(fielder, 'fielding', 'fgs');
+    expect(fielding.total).not.toContain('LEAST');
+  });
+
+  it('should never inline stat names that are not in the catalog', () => {
+    const hostile: FantasyRuleset = {
+      ...ruleset,
+      batting: [{ stat: 'x', expr: 'hits + drop_table', points: 1 }],
+      bonuses: [],
+    };
+    const { total } = buildScoringSql(hostile, 'batting', 'bgs');
+    expect(total).not.toContain('drop_table');
+  });
+
+  it('should reject unsafe table aliases', () => {
+    expect(() => buildScoringSql(ruleset, 'batting', 'bgs; DROP TABLE games')).toThrow(
+      /Invalid table alias/
+    );
+  });
+
+  it('should divide park-sensitive columns by the joined park factors', () => {
+    const adjusted: FantasyRuleset = { ...ruleset, parkAdjusted: true };
+    const { rules } = buildScoringSql(adjusted, 'batting', 'bgs', { parkFactors: 'pf' });
+    expect(rules[0]!.value).toBe(
+      '(COALESCE(bgs.home_runs::float8, 0) / COALESCE(NULLIF(pf.hr_factor::float8, 0), 1))'
+    );
+    expect(rules[1]!.value).toContain('pf.run_factor');
+
+    expect(() => buildScoringSql(adjusted, 'batting', 'bgs')).toThrow('park factors alias');
+    expect(parkFactorJoin(adjusted, 'g', 'pf')).toContain('LEFT JOIN park_factors pf');
+    expect(parkFactorJoin(ruleset, 'g', 'pf')).toBe('');
+  });
+});
@@ -1,8 +1,18 @@
 import { describe, it, expect, beforeAll } from 'vitest';
-import { calculateBattingPoints, calculatePitchingPoints } from '../../src/scoring/calculator.js';
+import {
+  calculateBattingPoints,
+  calculatePitchingPoints,
+  calculateFieldingPoints,
+  combineFieldingResults,
+} from '../../src/scoring/calculator.js';
 import { loadPresetRuleset } from '../../src/scoring/index.js';
+import { formatIP } from '../../src/scoring/stats.js';
 import type { FantasyRuleset } from '../../src/types/fantasy.js';
-import type { BatterGameStats, PitcherGameStats } from '../../src/types/database.js';
+import type {
+  BatterGameStats,
+  PitcherGameStats,
+  FielderGameStats,
+} from '../../src/types/database.js';
 
 describe('Scoring Calculator', () => {
   let standardRuleset: FantasyRuleset;
@@ -374,4 +384,873 @@ describe('Scoring Calculator', () => {
       expect(result.bonusesApplied).toContain('Shutout');
     });
   });
+
+  describe('derived stat rules', () => {
+    const batterStats: BatterGameStats = {
+      id: 1,
+      game_id: 'TEST001',
+      player_id: 'testpl01',
+      team_id: 'TST',
+      is_home: true,
+      opponent_id: 'OPP',
+      plate_appearances: 5,
+      at_bats: 5,
+      runs: 1,
+      hits: 4,
+      doubles: 1,
+      triples: 0,
+      home_runs: 1,
+      runs_batted_in: 2,
+      sacrifice_hits: 0,
+      sacrifice_flies: 0,
+      hit_by_pitch: 0,
+      walks: 0,
+      intentional_walks: 0,
+      strikeouts: 0,
+      stolen_bases: 0,
+      caught_stealing: 0,
+      grounded_into_dp: 0,
+      reached_on_interference: 0,
+      reached_on_error: 0,
+      is_dh: false,
+      is_ph: false,
+      is_pr: false,
+      team_won: true,
+      team_lost: false,
+      team_tied: false,
+      stat_type: 'value',
+      lineup_position: 2,
+      batting_seq: 1,
+      created_at: new Date(),
+    };
+
+    it('should score singles and total bases from expressions', () => {
+      const ruleset: FantasyRuleset = {
+        id: 'derived',
+        name: 'Derived',
+        batting: [
+          { stat: 'singles', expr: 'hits - doubles - triples - home_runs', points: 1 },
+          {
+            stat: 'total_bases',
+            expr: 'singles + 2 * doubles + 3 * triples + 4 * home_runs',
+            points: 0.5,
+          },
+        ],
+        pitching: [],
+      };
+
+      const result = calculateBattingPoints(batterStats, ruleset);
+
+      // singles: 2 * 1 = 2
+      // total_bases: (2 + 2 + 0 + 4) * 0.5 = 4
+      expect(result.totalPoints).toBe(6);
+      expect(result.breakdown.map((b) => b.stat)).toEqual(['singles', 'total_bases']);
+      expect(result.breakdown[1]!.value).toBe(8);
+    });
+
+    it('should let bonuses reference derived stats', () => {
+      const ruleset: FantasyRuleset = {
+        id: 'derived',
+        name: 'Derived',
+        batting: [{ stat: 'singles', expr: 'hits - doubles - triples - home_runs', points: 0 }],
+        pitching: [],
+        bonuses: [
+          {
+            name: 'Multi-Single',
+            conditions: [{ stat: 'singles', op: 'gte', value: 2 }],
+            logic: 'AND',
+            points: 2,
+          },
+        ],
+      };
+
+      const result = calculateBattingPoints(batterStats, ruleset);
+      expect(result.bonusesApplied).toEqual(['Multi-Single']);
+      expect(result.totalPoints).toBe(2);
+    });
+
+    it('should score bonuses on player age, treating an unknown age as zero', () => {
+      const ruleset: FantasyRuleset = {
+        id: 'age',
+        name: 'Age',
+        batting: [],
+        pitching: [],
+        bonuses: [
+          {
+            name: 'Ageless',
+            conditions: [
+              { stat: 'age', op: 'gte', value: 40 },
+              { stat: 'home_runs', op: 'gte', value: 1 },
+            ],
+            logic: 'AND',
+            points: 5,
+          },
+        ],
+      };
+
+      expect(calculateBattingPoints({ ...batterStats, player_age: 41 }, ruleset).totalPoints).toBe(5);
+      expect(calculateBattingPoints({ ...batterStats, player_age: 27 }, ruleset).totalPoints).toBe(0);
+      expect(calculateBattingPoints({ ...batterStats, player_age: null }, ruleset).totalPoints).toBe(0);
+    });
+  });
+
+  describe('extra retrosplits stats', () => {
+    const pitcherStats: PitcherGameStats = {
+      id: 1,
+      game_id: 'TEST001',
+      player_id: 'testpi01',
+      team_id: 'TST',
+      is_home: false,
+      opponent_id: 'OPP',
+      outs_pitched: 3,
+      batters_faced: 4,
+      hits_allowed: 1,
+      doubles_allowed: 0,
+      triples_allowed: 0,
+      home_runs_allowed: 0,
+      runs_allowed: 0,
+      earned_runs: 0,
+      walks: 0,
+      intentional_walks: 0,
+      strikeouts: 1,
+      hit_batters: 0,
+      wild_pitches: 0,
+      balks: 0,
+      sacrifice_hits_allowed: 0,
+      sacrifice_flies_allowed: 0,
+      stolen_bases_allowed: 0,
+      caught_stealing: 0,
+      inherited_runners: 3,
+      inherited_runners_scored: 1,
+      ground_outs: 2,
+      air_outs: 0,
+      pitches: 14,
+      strikes: 10,
+      won: false,
+      lost: false,
+      saved: false,
+      game_started: false,
+      game_finished: false,
+      complete_game: false,
+      shutout: false,
+      team_won: true,
+      team_lost: false,
+      team_tied: false,
+      stat_type: 'value',
+      pitching_seq: 2,
+      created_at: new Date(),
+    };
+
+    it('should score inherited runners stranded and pitch counts', () => {
+      const ruleset: FantasyRuleset = {
+        id: 'extra',
+        name: 'Extra',
+        batting: [],
+        pitching: [
+          { stat: 'inherited_runners_stranded', points: 1 },
+          { stat: 'pitches', points: -1, perUnit: 10 },
+        ],
+      };
+
+      const result = calculatePitchingPoints(pitcherStats, ruleset);
+
+      // inherited_runners_stranded: (3 - 1) * 1 = 2
+      // pitches: 14/10 * -1 = -1.4
+      expect(result.breakdown.map((b) => b.value)).toEqual([2, 14]);
+      expect(result.totalPoints).toBe(0.6);
+    });
+
+    it('should treat a missing pitch count as zero', () => {
+      const ruleset: FantasyRuleset = {
+        id: 'extra',
+        name: 'Extra',
+        batting: [],
+        pitching: [{ stat: 'pitches', points: -1, perUnit: 10 }],
+        bonuses: [
+          {
+            name: 'Maddux',
+            conditions: [
+              { stat: 'shutout', op: 'eq', value: 1 },
+              { stat: 'pitches', op: 'lt', value: 100 },
+            ],
+            logic: 'AND',
+            points: 5,
+          },
+        ],
+      };
+
+      const result = calculatePitchingPoints({ ...pitcherStats, pitches: null }, ruleset);
+      expect(result.totalPoints).toBe(0);
+      expect(result.breakdown).toEqual([]);
+
+      const shutout = calculatePitchingPoints(
+        { ...pitcherStats, shutout: true, pitches: 88 },
+        ruleset
+      );
+      expect(shutout.bonusesApplied).toEqual(['Maddux']);
+    });
+  });
+
+  describe('calculateFieldingPoints', () => {
+    const shortstop: FielderGameStats = {
+      id: 1,
+      game_id: 'TEST001',
+      player_id: 'testss01',
+      team_id: 'TST',
+      is_home: true,
+      opponent_id: 'OPP',
+      position: 'SS',
+      position_number: 6,
+      position_started: true,
+      outs_played: 27,
+      total_chances: 7,
+      putouts: 2,
+      assists: 5,
+      errors: 0,
+      double_plays: 2,
+      triple_plays: 0,
+      passed_balls: 0,
+      catcher_interference: 0,
+      fielding_seq: 1,
+      created_at: new Date(),
+    };
+
+    const ruleset: FantasyRuleset = {
+      id: 'defense',
+      name: 'Defense',
+      batting: [],
+      pitching: [],
+      fielding: [
+        { stat: 'putouts', points: 0.5 },
+        { stat: 'assists', points: 1 },
+        { stat: 'errors', points: -2 },
+        { stat: 'double_plays', points: 1 },
+        { stat: 'infield_assists', points: 0.25, expr: 'at_infield * assists' },
+      ],
+      bonuses: [
+        {
+          name: 'Clean Glove',
+          conditions: [
+            { stat: 'errorless', op: 'eq', value: 1 },
+            { stat: 'total_chances', op: 'gte', value: 5 },
+          ],
+          logic: 'AND',
+          points: 2,
+        },
+      ],
+    };
+
+    it('should score a position line', () => {
+      const result = calculateFieldingPoints(shortstop, ruleset);
+
+      // putouts: 2 * 0.5 = 1, assists: 5, double_plays: 2, infield_assists: 1.25, bonus: 2
+      expect(result.breakdown.map((b) => b.stat)).toEqual([
+        'putouts',
+        'assists',
+        'double_plays',
+        'infield_assists',
+        'bonus:Clean Glove',
+      ]);
+      expect(result.totalPoints).toBe(11.25);
+    });
+
+    it('should use position-based derived stats', () => {
+      const result = calculateFieldingPoints(
+        { ...shortstop, position: 'RF', position_number: 9, errors: 1 },
+        ruleset
+      );
+
+      expect(result.bonusesApplied).toEqual([]);
+      expect(result.breakdown.find((b) => b.stat === 'infield_assists')).toBeUndefined();
+      expect(result.totalPoints).toBe(6);
+    });
+
+    it('should score nothing for rulesets without fielding rules', () => {
+      const result = calculateFieldingPoints(shortstop, {
+        id: 'none',
+        name: 'None',
+        batting: [],
+        pitching: [],
+      });
+      expect(result.totalPoints).toBe(0);
+      expect(result.breakdown).toEqual([]);
+    });
+
+    it('should combine position lines in order', () => {
+      const lines = [
+        calculateFieldingPoints(shortstop, ruleset),
+        calculateFieldingPoints(
+          {
+            ...shortstop,
+            position: '2B',
+            position_number: 4,
+            total_chances: 1,
+            putouts: 1,
+            assists: 0,
+            double_plays: 0,
+          },
+          ruleset
+        ),
+      ];
+
+      const combined = combineFieldingResults(lines);
+      expect(combined.totalPoints).toBe(11.75);
+      expect(combined.breakdown).toHaveLength(6);
+      expect(combined.bonusesApplied).toEqual(['Clean Glove']);
+    });
+  });
+
+  describe('park-adjusted scoring', () => {
+    const batterStats: BatterGameStats = {
+      id: 1,
+      game_id: 'TEST001',
+      player_id: 'testpl01',
+      team_id: 'TST',
+      is_home: true,
+      opponent_id: 'OPP',
+      plate_appearances: 5,
+      at_bats: 5,
+      runs: 1,
+      hits: 4,
+      doubles: 1,
+      triples: 0,
+      home_runs: 1,
+      runs_batted_in: 2,
+      sacrifice_hits: 0,
+      sacrifice_flies: 0,
+      hit_by_pitch: 0,
+      walks: 0,
+      intentional_walks: 0,
+      strikeouts: 2,
+      stolen_bases: 0,
+      caught_stealing: 0,
+      grounded_into_dp: 0,
+      reached_on_interference: 0,
+      reached_on_error: 0,
+      is_dh: false,
+      is_ph: false,
+      is_pr: false,
+      team_won: true,
+      team_lost: false,
+      team_tied: false,
+      stat_type: 'value',
+      lineup_position: 2,
+      batting_seq: 1,
+      created_at: new Date(),
+    };
+
+    const ruleset: FantasyRuleset = {
+      id: 'park',
+      name: 'Park',
+      parkAdjusted: true,
+      batting: [
+        { stat: 'home_runs', points: 4 },
+        { stat: 'hits', points: 1 },
+        { stat: 'strikeouts', points: -1 },
+      ],
+      pitching: [],
+    };
+
+    const coors = { run_factor: 1.25, hr_factor: 0.8 };
+
+    it('should divide park-sensitive stats by the park factors', () => {
+      const result = calculateBattingPoints(batterStats, ruleset, { parkFactor: coors });
+
+      // home_runs: 1 / 0.8 * 4 = 5, hits: 4 / 1.25 = 3.2, strikeouts are not adjusted
+      expect(result.breakdown.map((b) => [b.stat, b.value, b.points])).toEqual([
+        ['home_runs', 1.25, 5],
+        ['hits', 3.2, 3.2],
+        ['strikeouts', 2, -2],
+      ]);
+      expect(result.totalPoints).toBe(6.2);
+    });
+
+    it('should score as neutral without factors or without the ruleset flag', () => {
+      expect(calculateBattingPoints(batterStats, ruleset).totalPoints).toBe(6);
+      expect(
+        calculateBattingPoints(batterStats, { ...ruleset, parkAdjusted: false }, { parkFactor: coors })
+          .totalPoints
+      ).toBe(6);
+    });
+
+    it('should adjust built-in derived stats through their columns', () => {
+      const result = calculateBattingPoints(
+        batterStats,
+        { ...ruleset, batting: [{ stat: 'singles', points: 1 }] },
+        { parkFactor: { run_factor: 2, hr_factor: 1 } }
+      );
+
+      // singles: 4/2 - 1/2 - 0 - 1 = 0.5
+      expect(result.totalPoints).toBe(0.5);
+    });
+  });
+
+  describe('bonus rules', () => {
+    const batterStats: BatterGameStats = {
+      id: 1,
+      game_id: 'TEST001',
+      player_id: 'testpl01',
+      team_id: 'TST',
+      is_home: true,
+      opponent_id: 'OPP',
+      plate_appearances: 5,
+      at_bats: 4,
+      runs: 3,
+      hits: 3,
+      doubles: 0,
+      triples: 0,
+      home_runs: 3,
+      runs_batted_in: 5,
+      sacrifice_hits: 0,
+      sacrifice_flies: 0,
+      hit_by_pitch: 0,
+      walks: 1,
+      intentional_walks: 0,
+      strikeouts: 1,
+      stolen_bases: 0,
+      caught_stealing: 0,
+      grounded_into_dp: 0,
+      reached_on_interference: 0,
+      reached_on_error: 0,
+      is_dh: false,
+      is_ph: false,
+      is_pr: false,
+      team_won: true,
+      team_lost: false,
+      team_tied: false,
+      stat_type: 'value',
+      lineup_position: 3,
+      batting_seq: 1,
+      created_at: new Date(),
+    };
+
+    const pitcherStats: PitcherGameStats = {
+      id: 1,
+      game_id: 'TEST001',
+      player_id: 'testpi01',
+      team_id: 'TST',
+      is_home: true,
+      opponent_id: 'OPP',
+      outs_pitched: 27,
+      batters_faced: 30,
+      hits_allowed: 3,
+      doubles_allowed: 0,
+      triples_allowed: 0,
+      home_runs_allowed: 0,
+      runs_allowed: 0,
+      earned_runs: 0,
+      walks: 1,
+      intentional_walks: 0,
+      strikeouts: 13,
+      hit_batters: 0,
+      wild_pitches: 0,
+      balks: 0,
+      sacrifice_hits_allowed: 0,
+      sacrifice_flies_allowed: 0,
+      stolen_bases_allowed: 0,
+      caught_stealing: 0,
+      inherited_runners: 0,
+      inherited_runners_scored: 0,
+      ground_outs: 8,
+      air_outs: 6,
+      pitches: 110,
+      strikes: 75,
+      won: true,
+      lost: false,
+      saved: false,
+      game_started: true,
+      game_finished: true,
+      complete_game: true,
+      shutout: true,
+      team_won: true,
+      team_lost: false,
+      team_tied: false,
+      stat_type: 'value',
+      pitching_seq: 1,
+      created_at: new Date(),
+    };
+
+    const base = { id: 'bonuses', name: 'Bonuses', batting: [], pitching: [] };
+
+    it('should only score a scoped bonus for its own section', () => {
+      const ruleset: FantasyRuleset = {
+        ...base,
+        bonuses: [
+          {
+            name: 'Patient',
+            scope: 'batting',
+            conditions: [{ stat: 'walks', op: 'gte', value: 1 }],
+            logic: 'AND',
+            points: 1,
+          },
+          {
+            name: 'Any Walk',
+            conditions: [{ stat: 'walks', op: 'gte', value: 1 }],
+            logic: 'AND',
+            points: 1,
+          },
+        ],
+      };
+
+      expect(calculateBattingPoints(batterStats, ruleset).bonusesApplied).toEqual([
+        'Patient',
+        'Any Walk',
+      ]);
+      // An unscoped bonus on a stat both sections know still fires for pitchers
+      expect(calculatePitchingPoints(pitcherStats, ruleset).bonusesApplied).toEqual(['Any Walk']);
+    });
+
+    it('should award the highest tier reached', () => {
+      const ruleset: FantasyRuleset = {
+        ...base,
+        bonuses: [
+          {
+            name: 'Multi-HR',
+            conditions: [],
+            logic: 'AND',
+            tiers: { stat: 'home_runs', levels: [{ min: 2, points: 3 }, { min: 3, points: 8 }] },
+          },
+        ],
+      };
+
+      const result = calculateBattingPoints(batterStats, ruleset);
+      expect(result.breakdown).toEqual([
+        {
+          stat: 'bonus:Multi-HR',
+          value: 3,
+          points: 8,
+          calculation: 'Bonus: Multi-HR (home_runs >= 3)',
+        },
+      ]);
+      expect(calculateBattingPoints({ ...batterStats, home_runs: 2 }, ruleset).totalPoints).toBe(3);
+      const single = calculateBattingPoints({ ...batterStats, home_runs: 1 }, ruleset);
+      expect(single.bonusesApplied).toEqual([]);
+    });
+
+    it('should award repeat points for every increment beyond the threshold', () => {
+      const ruleset: FantasyRuleset = {
+        ...base,
+        bonuses: [
+          {
+            name: 'Punchouts',
+            scope: 'pitching',
+            conditions: [],
+            logic: 'AND',
+            repeat: { stat: 'strikeouts', beyond: 10, points: 2 },
+          },
+        ],
+      };
+
+      const result = calculatePitchingPoints(pitcherStats, ruleset);
+      expect(result.breakdown).toEqual([
+        { stat: 'bonus:Punchouts', value: 3, points: 6, calculation: 'Bonus: Punchouts (3 * 2)' },
+      ]);
+      const ten = calculatePitchingPoints({ ...pitcherStats, strikeouts: 10 }, ruleset);
+      expect(ten.bonusesApplied).toEqual([]);
+      expect(calculateBattingPoints(batterStats, ruleset).bonusesApplied).toEqual([]);
+    });
+
+    it('should award only the first bonus of a group that fires', () => {
+      const shutout = {
+        name: 'Shutout',
+        conditions: [{ stat: 'shutout', op: 'eq' as const, value: 1 }],
+        logic: 'AND' as const,
+        points: 5,
+      };
+      const completeGame = {
+        name: 'Complete Game',
+        conditions: [{ stat: 'complete_game', op: 'eq' as const, value: 1 }],
+        logic: 'AND' as const,
+        points: 3,
+      };
+
+      const grouped: FantasyRuleset = {
+        ...base,
+        bonuses: [
+          { ...shutout, group: 'complete' },
+          { ...completeGame, group: 'complete' },
+        ],
+      };
+      expect(calculatePitchingPoints(pitcherStats, grouped).bonusesApplied).toEqual(['Shutout']);
+      expect(calculatePitchingPoints(pitcherStats, grouped).totalPoints).toBe(5);
+      const scored = { ...pitcherStats, shutout: false, runs_allowed: 1 };
+      expect(calculatePitchingPoints(scored, grouped).bonusesApplied).toEqual(['Complete Game']);
+
+      // Without a group they stack
+      const stacked: FantasyRuleset = { ...base, bonuses: [shutout, completeGame] };
+      expect(calculatePitchingPoints(pitcherStats, stacked).totalPoints).toBe(8);
+    });
+  });
+
+  describe('innings pitched', () => {
+    const pitcherStats: PitcherGameStats = {
+      id: 1,
+      game_id: 'TEST001',
+      player_id: 'testpi01',
+      team_id: 'TST',
+      is_home: true,
+      opponent_id: 'OPP',
+      outs_pitched: 20,
+      batters_faced: 26,
+      hits_allowed: 5,
+      doubles_allowed: 1,
+      triples_allowed: 0,
+      home_runs_allowed: 1,
+      runs_allowed: 2,
+      earned_runs: 2,
+      walks: 2,
+      intentional_walks: 0,
+      strikeouts: 7,
+      hit_batters: 0,
+      wild_pitches: 0,
+      balks: 0,
+      sacrifice_hits_allowed: 0,
+      sacrifice_flies_allowed: 0,
+      stolen_bases_allowed: 0,
+      caught_stealing: 0,
+      inherited_runners: 0,
+      inherited_runners_scored: 0,
+      ground_outs: 8,
+      air_outs: 5,
+      pitches: 98,
+      strikes: 64,
+      won: true,
+      lost: false,
+      saved: false,
+      game_started: true,
+      game_finished: false,
+      complete_game: false,
+      shutout: false,
+      team_won: true,
+      team_lost: false,
+      team_tied: false,
+      stat_type: 'value',
+      pitching_seq: 1,
+      created_at: new Date(),
+    };
+
+    const perInning = (rule: Partial<FantasyRuleset['pitching'][number]> = {}): FantasyRuleset => ({
+      id: 'innings',
+      name: 'Innings',
+      batting: [],
+      pitching: [{ stat: 'innings_pitched', points: 3, ...rule }],
+    });
+
+    it('should score innings_pitched per inning, not per out', () => {
+      // 6.2 IP = 20 outs = 6 2/3 innings: 3 per inning is 20, not 3 * 20 = 60
+      const result = calculatePitchingPoints(pitcherStats, perInning());
+      expect(result.totalPoints).toBe(20);
+      expect(result.breakdown[0]!.value).toBeCloseTo(20 / 3);
+    });
+
+    it('should match outs_pitched scored per 3 outs', () => {
+      const outs: FantasyRuleset = {
+        ...perInning(),
+        pitching: [{ stat: 'outs_pitched', points: 3, perUnit: 3 }],
+      };
+      for (const outsPitched of [0, 1, 17, 18, 27]) {
+        const stats = { ...pitcherStats, outs_pitched: outsPitched };
+        expect(calculatePitchingPoints(stats, perInning()).totalPoints).toBe(
+          calculatePitchingPoints(stats, outs).totalPoints
+        );
+      }
+    });
+
+    it('should round to whole innings when configured', () => {
+      const points = (stats: PitcherGameStats, round: 'down' | 'nearest' | 'up') =>
+        calculatePitchingPoints(stats, perInning({ round })).totalPoints;
+
+      // 6.2 IP
+      expect(points(pitcherStats, 'down')).toBe(18);
+      expect(points(pitcherStats, 'nearest')).toBe(21);
+      expect(points(pitcherStats, 'up')).toBe(21);
+
+      // 6.1 IP rounds to 6 innings; a third of an inning rounds down to nothing
+      expect(points({ ...pitcherStats, outs_pitched: 19 }, 'nearest')).toBe(18);
+      const oneOut = { ...pitcherStats, outs_pitched: 1 };
+      expect(calculatePitchingPoints(oneOut, perInning({ round: 'down' })).breakdown).toEqual([]);
+    });
+
+    it('should format outs in innings-pitched notation', () => {
+      expect(formatIP(20)).toBe('6.2');
+      expect(formatIP(18)).toBe('6.0');
+      expect(formatIP(1)).toBe('0.1');
+      expect(formatIP(0)).toBe('0.0');
+    });
+  });
+
+  describe('context modifiers', () => {
+    const batterStats: BatterGameStats = {
+      id: 1,
+      game_id: 'TEST001',
+      player_id: 'testpl01',
+      team_id: 'TST',
+      is_home: false,
+      opponent_id: 'NYA',
+      plate_appearances: 1,
+      at_bats: 1,
+      runs: 1,
+      hits: 1,
+      doubles: 0,
+      triples: 0,
+      home_runs: 1,
+      runs_batted_in: 1,
+      sacrifice_hits: 0,
+      sacrifice_flies: 0,
+      hit_by_pitch: 0,
+      walks: 0,
+      intentional_walks: 0,
+      strikeouts: 0,
+      stolen_bases: 0,
+      caught_stealing: 0,
+      grounded_into_dp: 0,
+      reached_on_interference: 0,
+      reached_on_error: 0,
+      is_dh: false,
+      is_ph: true,
+      is_pr: false,
+      team_won: null,
+      team_lost: null,
+      team_tied: null,
+      stat_type: 'value',
+      lineup_position: 9,
+      batting_seq: 2,
+      created_at: new Date(),
+    };
+
+    const ruleset: FantasyRuleset = {
+      id: 'context',
+      name: 'Context',
+      batting: [
+        {
+          stat: 'home_runs',
+          points: 4,
+          multipliers: [
+            { when: { is_ph: true }, factor: 0.5 },
+            { when: { is_home: false }, factor: 1.1 },
+          ],
+        },
+        { stat: 'runs', points: 1, when: { team_won: true } },
+        { stat: 'runs_batted_in', points: 1, when: { opponent: ['NYA', 'BOS'] } },
+      ],
+      pitching: [
+        { stat: 'strikeouts', points: 1, when: { game_started: true } },
+        { stat: 'strikeouts', points: 2, when: { game_started: false } },
+      ],
+    };
+
+    it('should compound the multipliers whose context matches', () => {
+      const result = calculateBattingPoints(batterStats, ruleset);
+      const homeRuns = result.breakdown.find((b) => b.stat === 'home_runs')!;
+      expect(homeRuns.points).toBe(2.2);
+      expect(homeRuns.calculation).toBe('1 * 4 × 0.5 [is_ph] × 1.1 [!is_home]');
+
+      const starter = { ...batterStats, is_ph: false, is_home: true };
+      const plain = calculateBattingPoints(starter, ruleset).breakdown[0]!;
+      expect(plain.points).toBe(4);
+      expect(plain.calculation).toBe('1 * 4');
+    });
+
+    it('should only score rules in their context, treating missing flags as false', () => {
+      const result = calculateBattingPoints(batterStats, ruleset);
+      // team_won is null (no outcome recorded), so runs do not score
+      expect(result.breakdown.map((b) => b.stat)).toEqual(['home_runs', 'runs_batted_in']);
+      expect(result.breakdown[1]!.calculation).toBe('1 * 1 [vs NYA/BOS]');
+
+      const won = calculateBattingPoints(
+        { ...batterStats, team_won: true, opponent_id: 'TOR' },
+        ruleset
+      );
+      expect(won.breakdown.map((b) => b.stat)).toEqual(['home_runs', 'runs']);
+    });
+
+    it('should score starters and relievers by separate rules', () => {
+      const pitcher = { strikeouts: 6, game_started: true } as unknown as PitcherGameStats;
+      expect(calculatePitchingPoints(pitcher, ruleset).totalPoints).toBe(6);
+      const reliever = { ...pitcher, game_started: false };
+      const result = calculatePitchingPoints(reliever, ruleset);
+      expect(result.totalPoints).toBe(12);
+      expect(result.breakdown[0]!.calculation).toBe('6 * 2 [!game_started]');
+    });
+  });
+
+  describe('scoring policies', () => {
+    const pitcher = {
+      outs_pitched: 27,
+      strikeouts: 14,
+      earned_runs: 0,
+      walks: 3,
+    } as unknown as PitcherGameStats;
+
+    const ruleset: FantasyRuleset = {
+      id: 'policies',
+      name: 'Policies',
+      batting: [],
+      pitching: [
+        { stat: 'outs_pitched', points: 1, perUnit: 3 },
+        { stat: 'strikeouts', points: 1.15 },
+        { stat: 'walks', points: -0.35 },
+      ],
+      fielding: [{ stat: 'errors', points: -2 }],
+    };
+
+    const withPolicies = (policies: FantasyRuleset['policies']): FantasyRuleset => ({
+      ...ruleset,
+      policies,
+    });
+
+    it('should round to hundredths by default', () => {
+      const result = calculatePitchingPoints(pitcher, ruleset);
+      expect(result.breakdown.map((b) => b.points)).toEqual([9, 16.1, -1.05]);
+      expect(result.totalPoints).toBe(24.05);
+    });
+
+    it('should round every entry and the total to the policy', () => {
+      const rounded = (rounding: 'whole' | 'tenths') =>
+        calculatePitchingPoints(pitcher, withPolicies({ pitching: { rounding } }));
+
+      const tenths = rounded('tenths');
+      expect(tenths.breakdown.map((b) => b.points)).toEqual([9, 16.1, -1]);
+      expect(tenths.totalPoints).toBe(24.1);
+
+      const whole = rounded('whole');
+      expect(whole.breakdown.map((b) => b.points)).toEqual([9, 16, -1]);
+      expect(whole.totalPoints).toBe(24);
+    });
+
+    it('should cap a game and show the cap in the breakdown', () => {
+      const result = calculatePitchingPoints(pitcher, withPolicies({ pitching: { cap: 20 } }));
+      expect(result.totalPoints).toBe(20);
+      expect(result.breakdown.at(-1)).toEqual({
+        stat: 'cap',
+        value: 24.05,
+        points: -4.05,
+        calculation: 'Capped at 20 (from 24.05)',
+      });
+      expect(result.breakdown.reduce((sum, b) => sum + b.points, 0)).toBeCloseTo(20);
+
+      // Under the cap nothing changes
+      const light = calculatePitchingPoints(pitcher, withPolicies({ pitching: { cap: 40 } }));
+      expect(light).toEqual(calculatePitchingPoints(pitcher, ruleset));
+    });
+
+    it('should floor a game and apply limits to the stat type they are set for', () => {
+      const rough = { ...pitcher, outs_pitched: 3, strikeouts: 0, walks: 20 };
+      const floored = withPolicies({ pitching: { floor: -5 }, batting: { cap: 0 } });
+      const result = calculatePitchingPoints(rough, floored);
+      expect(result.totalPoints).toBe(-5);
+      expect(result.breakdown.at(-1)).toMatchObject({ stat: 'floor', value: -6, points: 1 });
+    });
+
+    it('should bound fielding once per game, across positions', () => {
+      const line = { errors: 2 } as unknown as FielderGameStats;
+      const floored = withPolicies({ fielding: { floor: -5 } });
+      const lines = [line, line].map((l) => calculateFieldingPoints(l, floored));
+      expect(lines.map((r) => r.totalPoints)).toEqual([-4, -4]);
+
+      const combined = combineFieldingResults(lines, floored);
+      expect(combined.totalPoints).toBe(-5);
+      expect(combined.breakdown.map((b) => b.stat)).toEqual(['errors', 'errors', 'floor']);
+    });
+  });
 });
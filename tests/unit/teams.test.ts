@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import {
+  loadBundledTeamNames,
+  parseTeamNames,
+  toFranchises,
+  findTeamName,
+  formatTeamSeason,
+  type TeamName,
+} from '../../src/ingest/teams.js';
+
+describe('Team Names', () => {
+  describe('parseTeamNames', () => {
+    it('should parse rows and skip comments', () => {
+      const names = parseTeamNames(
+        [
+          '# franchise history',
+          'franchise_id,team_id,league,division,city,nickname,first_year,last_year',
+          'WAS,MON,NL,E,Montreal,Expos,1969,2004',
+          'WAS,WAS,NL,E,Washington,Nationals,2005,',
+        ].join('\n')
+      );
+
+      expect(names).toEqual([
+        {
+          franchise_id: 'WAS',
+          team_id: 'MON',
+          league: 'NL',
+          division: 'E',
+          city: 'Montreal',
+          nickname: 'Expos',
+          first_year: 1969,
+          last_year: 2004,
+        },
+        {
+          franchise_id: 'WAS',
+          team_id: 'WAS',
+          league: 'NL',
+          division: 'E',
+          city: 'Washington',
+          nickname: 'Nationals',
+          first_year: 2005,
+          last_year: null,
+        },
+      ]);
+    });
+
+    it('should reject rows without a first year', () => {
+      expect(() =>
+        parseTeamNames('franchise_id,team_id,league,division,city,nickname,first_year,last_year\nWAS,MON,NL,E,Montreal,Expos,,')
+      ).toThrow('Invalid team name row 1');
+    });
+  });
+
+  describe('bundled team names', () => {
+    let names: TeamName[];
+
+    beforeAll(async () => {
+      names = await loadBundledTeamNames();
+    });
+
+    it('should name each of the 30 franchises after its latest team', () => {
+      const franchises = toFranchises(names);
+      expect(franchises).toHaveLength(30);
+      expect(franchises.find((f) => f.franchise_id === 'WAS')!.name).toBe('Washington Nationals');
+    });
+
+    it('should find the name a code had in a season', () => {
+      const expos = findTeamName(names, 'MON', 1995);
+      expect(expos).toMatchObject({ franchise_id: 'WAS', league: 'NL', division: 'E' });
+      expect(formatTeamSeason(expos!, 1995)).toBe('1995 Montreal Expos (NL East)');
+      expect(findTeamName(names, 'MON', 2010)).toBeNull();
+    });
+
+    it('should not overlap seasons for the same team code', () => {
+      const byTeam = new Map<string, TeamName[]>();
+      for (const name of names) {
+        byTeam.set(name.team_id, [...(byTeam.get(name.team_id) ?? []), name]);
+      }
+
+      for (const spans of byTeam.values()) {
+        const sorted = spans.sort((a, b) => a.first_year - b.first_year);
+        for (let i = 1; i < sorted.length; i++) {
+          expect(sorted[i - 1]!.last_year).not.toBeNull();
+          expect(sorted[i - 1]!.last_year!).toBeLessThan(sorted[i]!.first_year);
+        }
+      }
+    });
+  });
+
+  describe('formatTeamSeason', () => {
+    it('should omit the division before divisional play', () => {
+      expect(
+        formatTeamSeason({ league: 'AL', division: null, city: 'New York', nickname: 'Highlanders' })
+      ).toBe('New York Highlanders (AL)');
+    });
+  });
+});
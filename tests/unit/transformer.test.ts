@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
 import { parseYearRange } from '../../src/ingest/index.js';
+import { toFieldingRows, type RawPlayingRow } from '../../src/types/retrosplits.js';
 
 describe('Transformer Utilities', () => {
   describe('parseYearRange', () => {
@@ -39,4 +40,51 @@ describe('Transformer Utilities', () => {
       expect(parseYearRange('')).toEqual([]);
     });
   });
+
+  describe('toFieldingRows', () => {
+    const base = {
+      'game.key': 'ANA202304010',
+      'game.date': '2023-04-01',
+      'game.number': '0',
+      'site.key': 'ANA01',
+      'season.phase': 'R',
+      'team.key': 'ANA',
+      'team.alignment': '1',
+      'opponent.key': 'OAK',
+      'person.key': 'ohtansh01',
+      seq: '3',
+    } as unknown as RawPlayingRow;
+
+    it('should emit one row per position played', () => {
+      const rows = toFieldingRows({
+        ...base,
+        F_P_G: '1',
+        F_P_GS: '1',
+        F_P_OUT: '18',
+        F_P_PO: '1',
+        F_LF_G: '1',
+        F_LF_GS: '0',
+        F_LF_OUT: '3',
+        F_LF_E: '1',
+        F_SS_G: '0',
+      } as RawPlayingRow);
+
+      expect(rows.map((r) => r.pos)).toEqual(['P', 'LF']);
+      expect(rows[0]).toMatchObject({
+        gid: 'ANA202304010',
+        id: 'ohtansh01',
+        vishome: 'H',
+        opp: 'OAK',
+        f_gs: '1',
+        f_out: '18',
+        f_po: '1',
+        f_seq: '3',
+      });
+      expect(rows[1]).toMatchObject({ f_gs: '0', f_out: '3', f_e: '1', f_a: '' });
+    });
+
+    it('should return no rows for players who did not field', () => {
+      expect(toFieldingRows({ ...base, F_C_G: '' } as RawPlayingRow)).toEqual([]);
+    });
+  });
 });
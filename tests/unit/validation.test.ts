@@ -0,0 +1,247 @@
+import { describe, it, expect } from 'vitest';
+import { validateRuleset, assertValidRuleset } from '../../src/scoring/validation.js';
+import { loadPresetRuleset } from '../../src/scoring/index.js';
+import { FantasyRulesetSchema, type FantasyRuleset } from '../../src/types/fantasy.js';
+
+const baseRuleset: FantasyRuleset = {
+  id: 'validation-test',
+  name: 'Validation Test',
+  batting: [{ stat: 'home_runs', points: 4 }],
+  pitching: [{ stat: 'strikeouts', points: 1 }],
+};
+
+describe('Ruleset Validation', () => {
+  it('should accept the bundled presets', async () => {
+    const ruleset = await loadPresetRuleset('standard');
+    expect(validateRuleset(ruleset)).toEqual([]);
+  });
+
+  it('should report unknown stats in rules', () => {
+    const issues = validateRuleset({
+      ...baseRuleset,
+      batting: [{ stat: 'homeruns', points: 4 }],
+    });
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({
+      severity: 'error',
+      code: 'unknown_stat',
+      path: ['batting', 0, 'stat'],
+    });
+  });
+
+  it('should check stats against the rule section', () => {
+    const issues = validateRuleset({
+      ...baseRuleset,
+      pitching: [{ stat: 'stolen_bases', points: 1 }],
+    });
+    expect(issues[0]?.message).toContain('pitching rule "stolen_bases"');
+  });
+
+  it('should accept built-in derived stats', () => {
+    const issues = validateRuleset({
+      ...baseRuleset,
+      batting: [{ stat: 'total_bases', points: 1 }],
+      pitching: [{ stat: 'quality_start', points: 3 }],
+    });
+    expect(issues).toEqual([]);
+  });
+
+  it('should check fielding rules against the fielding catalog', () => {
+    const issues = validateRuleset({
+      ...baseRuleset,
+      fielding: [
+        { stat: 'assists', points: 1 },
+        { stat: 'strikeouts', points: 1 },
+      ],
+    });
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({ code: 'unknown_stat', path: ['fielding', 1, 'stat'] });
+  });
+
+  it('should report unknown stats in bonus conditions', () => {
+    const issues = validateRuleset({
+      ...baseRuleset,
+      bonuses: [
+        { name: 'Typo', conditions: [{ stat: 'homers', op: 'gte', value: 2 }], logic: 'AND', points: 2 },
+      ],
+    });
+    expect(issues[0]).toMatchObject({ code: 'unknown_stat', severity: 'error' });
+  });
+
+  it('should warn about bonuses that can never fire', () => {
+    const issues = validateRuleset({
+      ...baseRuleset,
+      bonuses: [
+        { name: 'Double Win', conditions: [{ stat: 'won', op: 'gte', value: 2 }], logic: 'AND', points: 5 },
+        {
+          name: 'Impossible Range',
+          conditions: [
+            { stat: 'hits', op: 'gte', value: 5 },
+            { stat: 'hits', op: 'lte', value: 3 },
+          ],
+          logic: 'AND',
+          points: 5,
+        },
+        {
+          name: 'Two-Way',
+          conditions: [
+            { stat: 'home_runs', op: 'gte', value: 1 },
+            { stat: 'outs_pitched', op: 'gte', value: 3 },
+          ],
+          logic: 'AND',
+          points: 5,
+        },
+      ],
+    });
+    expect(issues.map((i) => i.code)).toEqual([
+      'unreachable_bonus',
+      'unreachable_bonus',
+      'unreachable_bonus',
+    ]);
+    expect(issues.every((i) => i.severity === 'warning')).toBe(true);
+  });
+
+  it('should not flag OR bonuses with one reachable condition', () => {
+    const issues = validateRuleset({
+      ...baseRuleset,
+      bonuses: [
+        {
+          name: 'Either',
+          conditions: [
+            { stat: 'won', op: 'eq', value: 2 },
+            { stat: 'home_runs', op: 'gte', value: 2 },
+          ],
+          logic: 'OR',
+          points: 1,
+        },
+      ],
+    });
+    expect(issues).toEqual([]);
+  });
+
+  it('should check scoped bonuses against their own section', () => {
+    const issues = validateRuleset({
+      ...baseRuleset,
+      bonuses: [
+        {
+          name: 'Speedy Ace',
+          scope: 'pitching',
+          conditions: [{ stat: 'stolen_bases', op: 'gte', value: 1 }],
+          logic: 'AND',
+          points: 1,
+        },
+      ],
+    });
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({
+      severity: 'error',
+      code: 'unknown_stat',
+      message: 'bonus "Speedy Ace": unknown pitching stat "stolen_bases"',
+      path: ['bonuses', 0, 'conditions', 0, 'stat'],
+    });
+  });
+
+  it('should require exactly one of points, tiers or repeat', () => {
+    const tiers = { stat: 'home_runs', levels: [{ min: 2, points: 3 }] };
+    const issues = validateRuleset({
+      ...baseRuleset,
+      bonuses: [
+        { name: 'Tiered', conditions: [], logic: 'AND', tiers },
+        { name: 'Both', conditions: [], logic: 'AND', points: 1, tiers },
+        { name: 'Neither', conditions: [{ stat: 'hits', op: 'gte', value: 3 }], logic: 'AND' },
+      ],
+    });
+    expect(issues.map((i) => [i.code, i.path])).toEqual([
+      ['invalid_bonus', ['bonuses', 1]],
+      ['invalid_bonus', ['bonuses', 2]],
+    ]);
+  });
+
+  it('should fill in bonus conditions and logic in the schema', () => {
+    const result = FantasyRulesetSchema.parse({
+      ...baseRuleset,
+      bonuses: [{ name: 'Punchouts', repeat: { stat: 'strikeouts', beyond: 10, points: 2 } }],
+    });
+    expect(result.bonuses?.[0]).toMatchObject({ conditions: [], logic: 'AND' });
+  });
+
+  it('should warn about duplicate rules', () => {
+    const issues = validateRuleset({
+      ...baseRuleset,
+      batting: [
+        { stat: 'hits', points: 1 },
+        { stat: 'hits', points: 2 },
+      ],
+    });
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({ code: 'duplicate_rule', severity: 'warning' });
+  });
+
+  it('should allow rules for the same stat in different contexts', () => {
+    const issues = validateRuleset({
+      ...baseRuleset,
+      pitching: [
+        { stat: 'strikeouts', points: 1, when: { game_started: true } },
+        { stat: 'strikeouts', points: 2, when: { game_started: false } },
+      ],
+    });
+    expect(issues).toEqual([]);
+  });
+
+  it('should report context flags the section does not have', () => {
+    const issues = validateRuleset({
+      ...baseRuleset,
+      batting: [
+        {
+          stat: 'home_runs',
+          points: 4,
+          when: { game_started: true },
+          multipliers: [{ when: { is_ph: true, opponent: ['NYA'] }, factor: 0.5 }],
+        },
+      ],
+    });
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({
+      severity: 'error',
+      code: 'invalid_context',
+      path: ['batting', 0, 'when', 'game_started'],
+    });
+  });
+
+  it('should reject a floor above the cap', () => {
+    const issues = validateRuleset({
+      ...baseRuleset,
+      policies: { pitching: { cap: 40, floor: 50 }, batting: { cap: 10, floor: -5 } },
+    });
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({
+      severity: 'error',
+      code: 'invalid_policy',
+      path: ['policies', 'pitching', 'floor'],
+    });
+  });
+
+  it('should throw only for errors', () => {
+    expect(() =>
+      assertValidRuleset({
+        ...baseRuleset,
+        batting: [
+          { stat: 'hits', points: 1 },
+          { stat: 'hits', points: 1 },
+        ],
+      })
+    ).not.toThrow();
+    expect(() =>
+      assertValidRuleset({ ...baseRuleset, batting: [{ stat: 'homeruns', points: 4 }] })
+    ).toThrow(/Invalid ruleset "validation-test"/);
+  });
+
+  it('should reject unknown stats in the schema', () => {
+    const result = FantasyRulesetSchema.safeParse({
+      ...baseRuleset,
+      batting: [{ stat: 'homeruns', points: 4 }],
+    });
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0]?.path).toEqual(['batting', 0, 'stat']);
+  });
+});
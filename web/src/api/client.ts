@@ -17,12 +17,29 @@ export interface Player {
   lastName: string | null;
 }
 
+export interface PlayerDetails extends Player {
+  givenName: string | null;
+  nickname: string | null;
+  birthDate: string | null;
+  deathDate: string | null;
+  mlbDebutYear: number | null;
+  mlbFinalYear: number | null;
+  ids: {
+    retro: string;
+    mlbam: number | null;
+    bbref: string | null;
+    fangraphs: number | null;
+    person: string | null;
+  };
+}
+
 export interface PlayerSearchResult {
   results: Player[];
 }
 
 export interface Ruleset {
   id: string;
+  version: number;
   name: string;
   description?: string;
 }
@@ -40,10 +57,34 @@ export interface LeaderboardEntry {
   avgPoints: string;
 }
 
+/** Game type filters accepted by the API (see src/ingest/game-types.ts) */
+export type GameTypeFilter =
+  | 'all'
+  | 'regular'
+  | 'postseason'
+  | 'wildcard'
+  | 'division'
+  | 'lcs'
+  | 'world-series'
+  | 'all-star';
+
+export const GAME_TYPE_OPTIONS: { value: GameTypeFilter; label: string }[] = [
+  { value: 'all', label: 'All Games' },
+  { value: 'regular', label: 'Regular Season' },
+  { value: 'postseason', label: 'Postseason' },
+  { value: 'wildcard', label: 'Wild Card' },
+  { value: 'division', label: 'Division Series' },
+  { value: 'lcs', label: 'LCS' },
+  { value: 'world-series', label: 'World Series' },
+  { value: 'all-star', label: 'All-Star Game' },
+];
+
 export interface LeaderboardResponse {
   ruleset: { id: string; name: string };
   year: number | null;
   type: string;
+  franchise: string | null;
+  gameType: GameTypeFilter;
   total: number;
   entries: LeaderboardEntry[];
 }
@@ -111,21 +152,58 @@ export interface TopPerformancesResponse {
     yearStart: number | null;
     yearEnd: number | null;
     type: string;
+    gameType: GameTypeFilter;
   };
   batting: TopPerformance[];
   pitching: TopPerformance[];
 }
 
+export interface GameUmpire {
+  position: string;
+  id: string;
+  name: string;
+}
+
+export interface GamePlayer {
+  id: string;
+  name: string | null;
+}
+
+export interface GamePark {
+  id: string;
+  name: string;
+  city: string;
+  state: string | null;
+}
+
 export interface GameInfo {
   id: string;
   date: string;
   gameNumber: number;
   site: string | null;
+  park: GamePark | null;
+  /** Run and home run factors of the park that season (1 = neutral) */
+  parkFactors: { runs: number; homeRuns: number } | null;
   homeTeam: string | null;
   awayTeam: string | null;
+  homeTeamName: string | null;
+  awayTeamName: string | null;
+  homeFranchise: string | null;
+  awayFranchise: string | null;
   gameType: string | null;
   hasBox: boolean;
   hasPbp: boolean;
+  score: { away: number; home: number } | null;
+  innings: number | null;
+  lineScore: { away: (number | null)[]; home: (number | null)[] } | null;
+  dayNight: string | null;
+  attendance: number | null;
+  durationMinutes: number | null;
+  umpires: GameUmpire[];
+  startingPitchers: { away: GamePlayer | null; home: GamePlayer | null };
+  winningPitcher: GamePlayer | null;
+  losingPitcher: GamePlayer | null;
+  savingPitcher: GamePlayer | null;
   battingStats: unknown[];
   pitchingStats: unknown[];
   fantasyPoints?: unknown[];
@@ -140,10 +218,26 @@ export interface GamesResponse {
     gameNumber: number;
     homeTeam: string | null;
     awayTeam: string | null;
+    homeTeamName: string | null;
+    awayTeamName: string | null;
+    gameType: string | null;
     site: string | null;
+    parkName: string | null;
+    awayScore: number | null;
+    homeScore: number | null;
   }>;
 }
 
+export interface Franchise {
+  id: string;
+  name: string;
+  teamIds: string[];
+}
+
+export interface FranchisesResponse {
+  franchises: Franchise[];
+}
+
 export interface YearsResponse {
   years: number[];
 }
@@ -153,7 +247,7 @@ export async function searchPlayers(query: string, limit = 25): Promise<PlayerSe
   return fetchJson(`${API_BASE}/players/search?q=${encodeURIComponent(query)}&limit=${limit}`);
 }
 
-export async function getPlayer(id: string): Promise<Player> {
+export async function getPlayer(id: string): Promise<PlayerDetails> {
   return fetchJson(`${API_BASE}/players/${encodeURIComponent(id)}`);
 }
 
@@ -193,12 +287,16 @@ export async function getLeaderboard(params: {
   ruleset: string;
   year?: number;
   type?: 'batting' | 'pitching';
+  franchise?: string;
+  gameType?: GameTypeFilter;
   limit?: number;
   offset?: number;
 }): Promise<LeaderboardResponse> {
   const searchParams = new URLSearchParams({ ruleset: params.ruleset });
   if (params.year) searchParams.set('year', String(params.year));
   if (params.type) searchParams.set('type', params.type);
+  if (params.franchise) searchParams.set('franchise', params.franchise);
+  if (params.gameType && params.gameType !== 'all') searchParams.set('gameType', params.gameType);
   if (params.limit) searchParams.set('limit', String(params.limit));
   if (params.offset) searchParams.set('offset', String(params.offset));
   return fetchJson(`${API_BASE}/fantasy/leaderboard?${searchParams}`);
@@ -211,6 +309,7 @@ export async function getTopPerformances(params: {
   yearStart?: number;
   yearEnd?: number;
   type?: 'batting' | 'pitching' | 'both';
+  gameType?: GameTypeFilter;
   limit?: number;
 }): Promise<TopPerformancesResponse> {
   const searchParams = new URLSearchParams({ ruleset: params.ruleset });
@@ -219,6 +318,7 @@ export async function getTopPerformances(params: {
   if (params.yearStart) searchParams.set('yearStart', String(params.yearStart));
   if (params.yearEnd) searchParams.set('yearEnd', String(params.yearEnd));
   if (params.type) searchParams.set('type', params.type);
+  if (params.gameType && params.gameType !== 'all') searchParams.set('gameType', params.gameType);
   if (params.limit) searchParams.set('limit', String(params.limit));
   return fetchJson(`${API_BASE}/fantasy/top?${searchParams}`);
 }
@@ -244,6 +344,10 @@ export async function getGames(params: {
   return fetchJson(`${API_BASE}/games?${searchParams}`);
 }
 
+export async function getFranchises(): Promise<FranchisesResponse> {
+  return fetchJson(`${API_BASE}/franchises`);
+}
+
 export async function getYears(): Promise<YearsResponse> {
   return fetchJson(`${API_BASE}/search/years`);
 }
@@ -4,3 +4,11 @@ import { twMerge } from 'tailwind-merge';
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
+
+/**
+ * Format outs as innings pitched, where the digit after the point counts outs
+ * (20 outs is "6.2"), matching the API's inningsPitched
+ */
+export function formatIP(outs: number): string {
+  return `${Math.floor(outs / 3)}.${outs % 3}`;
+}
@@ -7,6 +7,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
 import { getGame, getRulesets } from '@/api/client';
+import { formatIP } from '@/lib/utils';
 import { Loader2, Calendar, MapPin, Users } from 'lucide-react';
 
 interface BatterStats {
@@ -95,19 +96,15 @@ export function GamePage() {
   const homePitchers = pitchingStats.filter((s) => s.is_home);
   const awayPitchers = pitchingStats.filter((s) => !s.is_home);
 
-  const formatIP = (outs: number) => {
-    const innings = Math.floor(outs / 3);
-    const remainder = outs % 3;
-    return `${innings}.${remainder}`;
-  };
-
   return (
     <div className="space-y-6">
       {/* Game Header */}
       <div className="flex items-start justify-between">
         <div>
           <h1 className="text-3xl font-bold">
-            {game.awayTeam} @ {game.homeTeam}
+            {game.score
+              ? `${game.awayTeam} ${game.score.away}, ${game.homeTeam} ${game.score.home}`
+              : `${game.awayTeam} @ ${game.homeTeam}`}
           </h1>
           <div className="mt-2 flex items-center gap-4 text-muted-foreground">
             <span className="flex items-center gap-1">
@@ -122,11 +119,21 @@ export function GamePage() {
             {game.site && (
               <span className="flex items-center gap-1">
                 <MapPin className="h-4 w-4" />
-                {game.site}
+                {game.park ? `${game.park.name}, ${game.park.city}` : game.site}
               </span>
             )}
           </div>
-          <p className="mt-1 text-sm text-muted-foreground">Game ID: {game.id}</p>
+          {game.awayTeamName && game.homeTeamName && (
+            <p className="mt-1 text-muted-foreground">
+              {game.awayTeamName} @ {game.homeTeamName}
+            </p>
+          )}
+          <p className="mt-1 text-sm text-muted-foreground">
+            Game ID: {game.id}
+            {game.attendance !== null && ` · Attendance ${game.attendance.toLocaleString()}`}
+            {game.parkFactors &&
+              ` · Park factors ${game.parkFactors.runs.toFixed(3)} R / ${game.parkFactors.homeRuns.toFixed(3)} HR`}
+          </p>
         </div>
         <Select value={selectedRuleset} onValueChange={setSelectedRuleset}>
           <SelectTrigger className="w-40">
@@ -142,6 +149,39 @@ export function GamePage() {
         </Select>
       </div>
 
+      {/* Line Score */}
+      {game.lineScore && (
+        <Card>
+          <CardContent className="pt-6">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Team</TableHead>
+                  {Array.from({ length: game.innings ?? 0 }, (_, i) => (
+                    <TableHead key={i} className="text-center">{i + 1}</TableHead>
+                  ))}
+                  <TableHead className="text-center">R</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {([
+                  [game.awayTeam, game.lineScore.away, game.score?.away],
+                  [game.homeTeam, game.lineScore.home, game.score?.home],
+                ] as const).map(([team, innings, runs]) => (
+                  <TableRow key={team}>
+                    <TableCell className="font-medium">{team}</TableCell>
+                    {Array.from({ length: game.innings ?? 0 }, (_, i) => (
+                      <TableCell key={i} className="text-center">{innings[i] ?? 'x'}</TableCell>
+                    ))}
+                    <TableCell className="text-center font-bold">{runs}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Fantasy Points Summary */}
       {fantasyPoints.length > 0 && (
         <Card>
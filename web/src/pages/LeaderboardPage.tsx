@@ -11,7 +11,15 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Button } from '@/components/ui/button';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
-import { getRulesets, getLeaderboard, getYears, type LeaderboardEntry } from '@/api/client';
+import {
+  getRulesets,
+  getLeaderboard,
+  getYears,
+  getFranchises,
+  GAME_TYPE_OPTIONS,
+  type GameTypeFilter,
+  type LeaderboardEntry,
+} from '@/api/client';
 import { ChevronLeft, ChevronRight, Loader2 } from 'lucide-react';
 
 const columnHelper = createColumnHelper<LeaderboardEntry>();
@@ -56,6 +64,8 @@ export function LeaderboardPage() {
   const [selectedRuleset, setSelectedRuleset] = useState<string>('');
   const [selectedYear, setSelectedYear] = useState<string>('all');
   const [selectedType, setSelectedType] = useState<'batting' | 'pitching' | 'all'>('all');
+  const [selectedFranchise, setSelectedFranchise] = useState<string>('all');
+  const [selectedGameType, setSelectedGameType] = useState<GameTypeFilter>('all');
   const [page, setPage] = useState(0);
   const pageSize = 25;
 
@@ -69,18 +79,33 @@ export function LeaderboardPage() {
     queryFn: getYears,
   });
 
+  const { data: franchises } = useQuery({
+    queryKey: ['franchises'],
+    queryFn: getFranchises,
+  });
+
   // Set default ruleset when loaded
   if (!selectedRuleset && rulesets?.rulesets[0]) {
     setSelectedRuleset(rulesets.rulesets[0].id);
   }
 
   const { data: leaderboard, isLoading } = useQuery({
-    queryKey: ['leaderboard', selectedRuleset, selectedYear, selectedType, page],
+    queryKey: [
+      'leaderboard',
+      selectedRuleset,
+      selectedYear,
+      selectedType,
+      selectedFranchise,
+      selectedGameType,
+      page,
+    ],
     queryFn: () =>
       getLeaderboard({
         ruleset: selectedRuleset,
         year: selectedYear !== 'all' ? parseInt(selectedYear, 10) : undefined,
         type: selectedType !== 'all' ? selectedType : undefined,
+        franchise: selectedFranchise !== 'all' ? selectedFranchise : undefined,
+        gameType: selectedGameType,
         limit: pageSize,
         offset: page * pageSize,
       }),
@@ -99,7 +124,7 @@ export function LeaderboardPage() {
     <div className="space-y-6">
       <div>
         <h1 className="text-3xl font-bold">Leaderboards</h1>
-        <p className="text-muted-foreground">View top fantasy performers by year and stat type</p>
+        <p className="text-muted-foreground">View top fantasy performers by year, stat type and regular season or postseason</p>
       </div>
 
       {/* Filters */}
@@ -167,6 +192,51 @@ export function LeaderboardPage() {
                 </SelectContent>
               </Select>
             </div>
+
+            <div className="w-56">
+              <label className="mb-2 block text-sm font-medium">Franchise</label>
+              <Select
+                value={selectedFranchise}
+                onValueChange={(v) => {
+                  setSelectedFranchise(v);
+                  setPage(0);
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Franchises</SelectItem>
+                  {franchises?.franchises.map((franchise) => (
+                    <SelectItem key={franchise.id} value={franchise.id}>
+                      {franchise.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="w-44">
+              <label className="mb-2 block text-sm font-medium">Games</label>
+              <Select
+                value={selectedGameType}
+                onValueChange={(v: GameTypeFilter) => {
+                  setSelectedGameType(v);
+                  setPage(0);
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {GAME_TYPE_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
           </div>
         </CardContent>
       </Card>
@@ -177,6 +247,8 @@ export function LeaderboardPage() {
           <CardTitle>
             {leaderboard?.ruleset.name ?? 'Leaderboard'}
             {selectedYear !== 'all' && ` - ${selectedYear}`}
+            {selectedGameType !== 'all' &&
+              ` - ${GAME_TYPE_OPTIONS.find((o) => o.value === selectedGameType)?.label}`}
           </CardTitle>
           <CardDescription>
             {leaderboard?.total?.toLocaleString() ?? 0} players total
@@ -94,7 +94,11 @@ export function PlayerPage() {
       <div className="flex items-center justify-between">
         <div>
           <h1 className="text-3xl font-bold">{player.name}</h1>
-          <p className="text-muted-foreground">Player ID: {player.id}</p>
+          <p className="text-muted-foreground">
+            Player ID: {player.id}
+            {player.birthDate && ` · Born ${new Date(player.birthDate).toLocaleDateString('en-US', { timeZone: 'UTC' })}`}
+            {player.mlbDebutYear && ` · MLB ${player.mlbDebutYear}–${player.mlbFinalYear ?? ''}`}
+          </p>
         </div>
         <div className="flex gap-2">
           <Select value={selectedRuleset} onValueChange={setSelectedRuleset}>
@@ -8,7 +8,15 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Label } from '@/components/ui/label';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
-import { getTopPerformances, getRulesets, getYears, type BattingStats, type PitchingStats } from '@/api/client';
+import {
+  getTopPerformances,
+  getRulesets,
+  getYears,
+  GAME_TYPE_OPTIONS,
+  type BattingStats,
+  type GameTypeFilter,
+  type PitchingStats,
+} from '@/api/client';
 import { Loader2, Download, Search, Filter } from 'lucide-react';
 
 export function QueryBuilderPage() {
@@ -19,6 +27,7 @@ export function QueryBuilderPage() {
   const [yearStart, setYearStart] = useState<string>('');
   const [yearEnd, setYearEnd] = useState<string>('');
   const [statType, setStatType] = useState<'both' | 'batting' | 'pitching'>('both');
+  const [gameType, setGameType] = useState<GameTypeFilter>('all');
   const [limit, setLimit] = useState<string>('25');
   const [isQuerying, setIsQuerying] = useState(false);
 
@@ -45,10 +54,12 @@ export function QueryBuilderPage() {
       yearStart?: number;
       yearEnd?: number;
       type?: 'batting' | 'pitching' | 'both';
+      gameType?: GameTypeFilter;
       limit?: number;
     } = {
       ruleset: selectedRuleset,
       type: statType,
+      gameType,
       limit: parseInt(limit, 10),
     };
 
@@ -136,7 +147,7 @@ export function QueryBuilderPage() {
           </CardTitle>
         </CardHeader>
         <CardContent className="space-y-6">
-          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-5">
             {/* Ruleset */}
             <div>
               <Label className="mb-2 block">Ruleset</Label>
@@ -183,6 +194,23 @@ export function QueryBuilderPage() {
               </Select>
             </div>
 
+            {/* Game Type */}
+            <div>
+              <Label className="mb-2 block">Games</Label>
+              <Select value={gameType} onValueChange={(v: GameTypeFilter) => setGameType(v)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {GAME_TYPE_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
             {/* Limit */}
             <div>
               <Label className="mb-2 block">Results Limit</Label>